@@ -1,9 +1,38 @@
 import { Module } from "@nestjs/common";
 import { AppController } from "./app.controller";
 import { AppService } from "./app.service";
+import { DatabaseModule } from "./infrastructure/database/database.module";
+import { UserModule } from "./applications/user/user.module";
+import { MediaModule } from "./applications/media/media.module";
+import { NotificationModule } from "./applications/notification/notification.module";
+import { PlaylistModule } from "./applications/playlist/playlist.module";
+import { StudioModule } from "./applications/studio/studio.module";
+import { AnalyticsModule } from "./applications/analytics/analytics.module";
+import { CommerceModule } from "./applications/commerce/commerce.module";
+import { SearchModule } from "./applications/search/search.module";
+import { RecommendationModule } from "./applications/recommendation/recommendation.module";
+import { DeviceModule } from "./applications/device/device.module";
+import { GeoModule } from "./applications/geo/geo.module";
+import { DrmModule } from "./applications/drm/drm.module";
+import { CampaignModule } from "./applications/campaign/campaign.module";
 
 @Module({
-  imports: [],
+  imports: [
+    DatabaseModule,
+    UserModule,
+    StudioModule,
+    MediaModule,
+    PlaylistModule,
+    NotificationModule,
+    AnalyticsModule,
+    CommerceModule,
+    SearchModule,
+    RecommendationModule,
+    DeviceModule,
+    GeoModule,
+    DrmModule,
+    CampaignModule,
+  ],
   controllers: [AppController],
   providers: [AppService],
 })
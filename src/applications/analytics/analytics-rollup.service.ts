@@ -0,0 +1,78 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from "@nestjs/common";
+import {
+  AnalyticsDomainService,
+  TimeWindow,
+  VIEW_INTERACTIONS,
+} from "../../domain/analytics/services/analytics.domain-service";
+import { AnalyticsRepository } from "../../infrastructure/repositories/analytics.repository";
+import { analyticsConfig } from "./analytics.config";
+
+const CHECKPOINT = "interactions";
+
+/**
+ * Periodically rolls new interactions up into hourly and daily buckets.
+ * Each run rereads the lateness period before the checkpoint, so counts
+ * settle once interactions buffered by other instances have been written.
+ */
+@Injectable()
+export class AnalyticsRollupService
+  implements OnModuleInit, OnApplicationShutdown
+{
+  private readonly logger = new Logger(AnalyticsRollupService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly analyticsRepository: AnalyticsRepository,
+    private readonly analyticsDomainService: AnalyticsDomainService,
+  ) {}
+
+  onModuleInit() {
+    if (!analyticsConfig.rollupEnabled) {
+      return;
+    }
+    this.timer = setInterval(
+      () => void this.run(),
+      analyticsConfig.rollupInterval * 1000,
+    );
+    this.timer.unref();
+  }
+
+  onApplicationShutdown() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Rolls up one window of interactions.
+   * @returns {TimeWindow | null} The window rolled up, or null if there was none.
+   */
+  async run(now: Date = new Date()): Promise<TimeWindow | null> {
+    if (this.running) {
+      return null;
+    }
+    this.running = true;
+    try {
+      return await this.analyticsRepository.rollup(
+        CHECKPOINT,
+        (rolledUpTo, earliest) =>
+          this.analyticsDomainService.rollupWindow(rolledUpTo, earliest, now, {
+            lateness: analyticsConfig.rollupLateness,
+            maxWindow: analyticsConfig.rollupMaxWindow,
+          }),
+        VIEW_INTERACTIONS,
+      );
+    } catch (error) {
+      this.logger.error("Analytics roll-up failed", error);
+      return null;
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Settings for studio analytics, read from the environment.
+ * Durations are in seconds.
+ */
+export const analyticsConfig = {
+  /** Set to "false" to run an instance without the background roll-up. */
+  rollupEnabled: process.env.ANALYTICS_ROLLUP_ENABLED !== "false",
+  rollupInterval: parseInt(process.env.ANALYTICS_ROLLUP_INTERVAL ?? "300", 10),
+  /** How late an interaction may be recorded and still be counted. */
+  rollupLateness: parseInt(process.env.ANALYTICS_ROLLUP_LATENESS ?? "3600", 10),
+  /** Most interaction time read in one run, so backlogs are worked off in steps. */
+  rollupMaxWindow: parseInt(
+    process.env.ANALYTICS_ROLLUP_MAX_WINDOW ?? "86400",
+    10,
+  ),
+  /** Longest range, in days, a single report may cover. */
+  maxRangeDays: parseInt(process.env.ANALYTICS_MAX_RANGE_DAYS ?? "366", 10),
+};
@@ -0,0 +1,25 @@
+import { Module } from "@nestjs/common";
+import { AnalyticsController } from "../../infrastructure/controllers/analytics.controller";
+import { AnalyticsService } from "./analytics.service";
+import { AnalyticsRollupService } from "./analytics-rollup.service";
+import { AnalyticsDomainService } from "../../domain/analytics/services/analytics.domain-service";
+import { AnalyticsRepository } from "../../infrastructure/repositories/analytics.repository";
+import { UserModule } from "../user/user.module";
+import { StudioModule } from "../studio/studio.module";
+import { MediaModule } from "../media/media.module";
+
+/**
+ * Studio analytics: a background roll-up of the interaction log into hourly
+ * and daily buckets, and the reports read from them.
+ */
+@Module({
+  imports: [UserModule, StudioModule, MediaModule],
+  controllers: [AnalyticsController],
+  providers: [
+    AnalyticsService,
+    AnalyticsRollupService,
+    AnalyticsDomainService,
+    AnalyticsRepository,
+  ],
+})
+export class AnalyticsModule {}
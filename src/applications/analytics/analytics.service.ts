@@ -0,0 +1,197 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { BucketGranularity } from "../../domain/analytics/entities/analytics-bucket.entity";
+import {
+  AnalyticsDomainService,
+  TimeWindow,
+} from "../../domain/analytics/services/analytics.domain-service";
+import { InteractionType } from "../../domain/media/entities/media.interaction.entity";
+import { MediaKind } from "../../domain/media/services/media.domain-service";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { User, UserRole } from "../../domain/user/entities/user.entity";
+import {
+  AnalyticsRepository,
+  BucketFilter,
+  SeriesPoint,
+} from "../../infrastructure/repositories/analytics.repository";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { StudioRepository } from "../../infrastructure/repositories/studio.repository";
+import { StudioAccessService } from "../studio/studio-access.service";
+import { analyticsConfig } from "./analytics.config";
+import { AnalyticsQueryDto } from "./dto/analytics-query.dto";
+
+const DEFAULT_RANGE_DAYS = 30;
+
+export interface TopMediaEntry {
+  rank: number;
+  mediaKind: MediaKind;
+  mediaUuid: string;
+  /** Null once the media item has been purged. */
+  title: string | null;
+  count: number;
+}
+
+export interface AnalyticsSummary {
+  studioUuid: string;
+  playlistUuid: string | null;
+  from: Date;
+  to: Date;
+  views: number;
+  completions: number;
+  seen: number;
+  purchases: number;
+  uniqueViewers: number;
+}
+
+/**
+ * Application service for studio analytics. Reports are read from the
+ * hourly and daily roll-ups, never from the raw interaction log, and are
+ * available to the studio owner and to administrators.
+ */
+@Injectable()
+export class AnalyticsService {
+  constructor(
+    private readonly analyticsRepository: AnalyticsRepository,
+    private readonly studioRepository: StudioRepository,
+    private readonly mediaRepository: MediaRepository,
+    private readonly studioAccessService: StudioAccessService,
+    private readonly analyticsDomainService: AnalyticsDomainService,
+  ) {}
+
+  async timeSeries(
+    user: User,
+    studioUuid: string,
+    query: AnalyticsQueryDto,
+  ): Promise<SeriesPoint[]> {
+    await this.assertAccess(user, studioUuid, query.playlistUuid);
+    const granularity = query.granularity ?? BucketGranularity.DAY;
+    return this.analyticsRepository.timeSeries(
+      this.filter(studioUuid, query, granularity),
+    );
+  }
+
+  /**
+   * The media items with the most interactions of one type (views by default).
+   */
+  async topMedia(
+    user: User,
+    studioUuid: string,
+    query: AnalyticsQueryDto,
+  ): Promise<TopMediaEntry[]> {
+    await this.assertAccess(user, studioUuid, query.playlistUuid);
+    const counts = await this.analyticsRepository.topMedia(
+      {
+        ...this.filter(studioUuid, query, BucketGranularity.DAY),
+        interactionType: query.interactionType ?? InteractionType.WATCHED,
+      },
+      query.limit ?? 10,
+    );
+    return Promise.all(
+      counts.map(async (entry, index) => {
+        const item = await this.mediaRepository.findByUuid(
+          entry.mediaKind,
+          entry.mediaUuid,
+          true,
+        );
+        return { rank: index + 1, ...entry, title: item?.title ?? null };
+      }),
+    );
+  }
+
+  async summary(
+    user: User,
+    studioUuid: string,
+    query: AnalyticsQueryDto,
+  ): Promise<AnalyticsSummary> {
+    await this.assertAccess(user, studioUuid, query.playlistUuid);
+    const filter = this.filter(studioUuid, query, BucketGranularity.DAY);
+    const [totals, uniqueViewers] = await Promise.all([
+      this.analyticsRepository.totals(filter),
+      this.analyticsRepository.uniqueViewers(
+        query.playlistUuid ?? studioUuid,
+        filter.window,
+      ),
+    ]);
+    return {
+      studioUuid,
+      playlistUuid: query.playlistUuid ?? null,
+      ...filter.window,
+      views: totals[InteractionType.WATCHED] ?? 0,
+      completions: totals[InteractionType.COMPLETED] ?? 0,
+      seen: totals[InteractionType.SEEN] ?? 0,
+      purchases: totals[InteractionType.PAID] ?? 0,
+      uniqueViewers,
+    };
+  }
+
+  private filter(
+    studioUuid: string,
+    query: AnalyticsQueryDto,
+    granularity: BucketGranularity,
+  ): BucketFilter {
+    return {
+      studioUuid,
+      playlistUuid: query.playlistUuid,
+      granularity,
+      window: this.window(query, granularity),
+      interactionType: query.interactionType,
+    };
+  }
+
+  private window(
+    query: AnalyticsQueryDto,
+    granularity: BucketGranularity,
+  ): TimeWindow {
+    const to = query.to ?? new Date();
+    const from =
+      query.from ??
+      new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+    if (from >= to) {
+      throw new BadRequestException("from must be before to");
+    }
+    const window = this.analyticsDomainService.alignRange(
+      { from, to },
+      granularity,
+    );
+    const days =
+      (window.to.getTime() - window.from.getTime()) / (24 * 60 * 60 * 1000);
+    if (days > analyticsConfig.maxRangeDays) {
+      throw new BadRequestException(
+        `Reports can cover at most ${analyticsConfig.maxRangeDays} days`,
+      );
+    }
+    return window;
+  }
+
+  /**
+   * Checks that the user may read the studio's analytics and that the
+   * playlist a report is limited to, if any, belongs to the studio.
+   */
+  private async assertAccess(
+    user: User,
+    studioUuid: string,
+    playlistUuid?: string,
+  ) {
+    const studio = await this.studioRepository.findWithOwner(studioUuid);
+    if (!studio) {
+      throw new NotFoundException("Studio not found");
+    }
+    if (user.role !== UserRole.ADMIN) {
+      await this.studioAccessService.assertPermission(
+        user,
+        studioUuid,
+        StudioPermission.VIEW_ANALYTICS,
+      );
+    }
+    if (
+      playlistUuid &&
+      (await this.studioAccessService.studioOf("playlist", playlistUuid)) !==
+        studioUuid
+    ) {
+      throw new NotFoundException("Playlist not found");
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { Type } from "class-transformer";
+import {
+  IsDate,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Max,
+  Min,
+} from "class-validator";
+import { BucketGranularity } from "../../../domain/analytics/entities/analytics-bucket.entity";
+import { InteractionType } from "../../../domain/media/entities/media.interaction.entity";
+
+/**
+ * Range and filters of an analytics report. The range defaults to the last
+ * 30 days and is widened to whole hours or days.
+ */
+export class AnalyticsQueryDto {
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  /** Bucket size of a time series; reports over a range use days. */
+  @IsOptional()
+  @IsIn(Object.values(BucketGranularity))
+  granularity?: BucketGranularity;
+
+  /** Limits the report to interactions within one playlist of the studio. */
+  @IsOptional()
+  @IsUUID()
+  playlistUuid?: string;
+
+  @IsOptional()
+  @IsIn(Object.values(InteractionType))
+  interactionType?: InteractionType;
+
+  /** Number of entries of a top-N report. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @IsOptional()
+  @IsIn(["json", "csv"])
+  format?: "json" | "csv";
+}
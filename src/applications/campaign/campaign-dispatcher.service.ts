@@ -0,0 +1,142 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from "@nestjs/common";
+import { Campaign } from "../../domain/campaign/entities/campaign.entity";
+import { CampaignDomainService } from "../../domain/campaign/services/campaign.domain-service";
+import { NotificationEvent } from "../../domain/notification/services/notification-templates";
+import { CampaignRepository } from "../../infrastructure/repositories/campaign.repository";
+import { StudioRepository } from "../../infrastructure/repositories/studio.repository";
+import { NotificationService } from "../notification/notification.service";
+import { campaignConfig } from "./campaign.config";
+
+/**
+ * Background worker that fans campaigns out into notifications.
+ *
+ * Every poll it claims the due campaign that has waited longest and queues
+ * one batch of its audience, so a campaign reaches at most `batchSize`
+ * recipients per poll. The position in the audience is saved after every
+ * batch; a campaign cancelled meanwhile keeps nothing of the batch that was
+ * in flight.
+ */
+@Injectable()
+export class CampaignDispatcher implements OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new Logger(CampaignDispatcher.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<number> | null = null;
+
+  constructor(
+    private readonly campaignRepository: CampaignRepository,
+    private readonly studioRepository: StudioRepository,
+    private readonly campaignDomainService: CampaignDomainService,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  onModuleInit() {
+    if (!campaignConfig.dispatcherEnabled) {
+      return;
+    }
+    this.timer = setInterval(
+      () => void this.fanOutDue(),
+      campaignConfig.pollInterval * 1000,
+    );
+    this.timer.unref();
+  }
+
+  async onApplicationShutdown() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    await this.running;
+  }
+
+  /**
+   * Queues one batch of one due campaign. Overlapping calls share the batch
+   * in flight.
+   * @returns {Promise<number>} How many recipients were reached.
+   */
+  fanOutDue(): Promise<number> {
+    if (!this.running) {
+      this.running = this.fanOutBatch()
+        .catch((error) => {
+          this.logger.error("Campaign fan-out failed", error);
+          return 0;
+        })
+        .finally(() => {
+          this.running = null;
+        });
+    }
+    return this.running;
+  }
+
+  private async fanOutBatch(): Promise<number> {
+    const campaign = await this.campaignRepository.claimDue(
+      campaignConfig.leaseDuration,
+    );
+    if (!campaign) {
+      return 0;
+    }
+    const [studio] = await this.studioRepository.findByUuids([
+      campaign.studioUuid,
+    ]);
+    const userUuids = await this.campaignRepository.audience(
+      {
+        studioUuid: campaign.studioUuid,
+        segment: campaign.segment,
+        activeSince:
+          campaign.segment.type === "active"
+            ? this.campaignDomainService.activeSince(
+                campaign.segment.days,
+                campaign.sendAt,
+              )
+            : null,
+      },
+      campaign.fanOutCursor,
+      campaignConfig.batchSize,
+    );
+
+    let optedOut = 0;
+    for (const userUuid of userUuids) {
+      const queued = await this.notify(campaign, studio?.name ?? "", userUuid);
+      if (!queued) {
+        optedOut++;
+      }
+    }
+
+    const recorded = await this.campaignRepository.recordBatch(campaign.uuid, {
+      cursor: userUuids[userUuids.length - 1] ?? null,
+      recipients: userUuids.length,
+      optedOut,
+      done: userUuids.length < campaignConfig.batchSize,
+    });
+    if (!recorded) {
+      await this.campaignRepository.withdrawPending(campaign.uuid);
+    }
+    return userUuids.length;
+  }
+
+  /**
+   * @returns {Promise<boolean>} Whether a notification was queued, i.e. the user had not opted out.
+   */
+  private async notify(
+    campaign: Campaign,
+    studioName: string,
+    userUuid: string,
+  ): Promise<boolean> {
+    const notification = await this.notificationService.notify({
+      event: NotificationEvent.STUDIO_ANNOUNCEMENT,
+      userUuid,
+      studioUuid: campaign.studioUuid,
+      campaignUuid: campaign.uuid,
+      channel: campaign.channel,
+      variables: {
+        studio: studioName,
+        title: campaign.subject,
+        message: campaign.message,
+      },
+    });
+    return !!notification;
+  }
+}
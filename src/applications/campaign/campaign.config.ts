@@ -0,0 +1,17 @@
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Settings for studio campaigns, read from the environment.
+ * Durations are in seconds.
+ */
+export const campaignConfig = {
+  /** Set to "false" to run an instance without the background fan-out. */
+  dispatcherEnabled: process.env.CAMPAIGN_DISPATCHER_ENABLED !== "false",
+  pollInterval: parseInt(process.env.CAMPAIGN_POLL_INTERVAL ?? "10", 10),
+  /** Recipients queued per poll, which caps the rate of a campaign. */
+  batchSize: parseInt(process.env.CAMPAIGN_BATCH_SIZE ?? "200", 10),
+  /** How long a campaign stays reserved for the instance fanning it out. */
+  leaseDuration: parseInt(process.env.CAMPAIGN_LEASE_DURATION ?? "120", 10),
+};
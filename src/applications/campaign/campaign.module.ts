@@ -0,0 +1,25 @@
+import { Module } from "@nestjs/common";
+import { CampaignController } from "../../infrastructure/controllers/campaign.controller";
+import { CampaignService } from "./campaign.service";
+import { CampaignDispatcher } from "./campaign-dispatcher.service";
+import { CampaignDomainService } from "../../domain/campaign/services/campaign.domain-service";
+import { CampaignRepository } from "../../infrastructure/repositories/campaign.repository";
+import { UserModule } from "../user/user.module";
+import { StudioModule } from "../studio/studio.module";
+import { NotificationModule } from "../notification/notification.module";
+
+/**
+ * Studio campaigns: announcements to a segment of a studio's audience,
+ * fanned out in the background into notifications at a capped rate.
+ */
+@Module({
+  imports: [UserModule, StudioModule, NotificationModule],
+  controllers: [CampaignController],
+  providers: [
+    CampaignService,
+    CampaignDispatcher,
+    CampaignDomainService,
+    CampaignRepository,
+  ],
+})
+export class CampaignModule {}
@@ -0,0 +1,217 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import {
+  Campaign,
+  CampaignSegment,
+} from "../../domain/campaign/entities/campaign.entity";
+import {
+  CampaignDomainService,
+  CampaignStats,
+} from "../../domain/campaign/services/campaign.domain-service";
+import { StudioDomainService } from "../../domain/studio/services/studio.domain-service";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { CampaignRepository } from "../../infrastructure/repositories/campaign.repository";
+import { StudioRepository } from "../../infrastructure/repositories/studio.repository";
+import { StudioAccessService } from "../studio/studio-access.service";
+import {
+  CampaignQueryDto,
+  CampaignSegmentDto,
+  CreateCampaignDto,
+} from "./dto/campaign.dto";
+
+/**
+ * A campaign together with where its messages are.
+ */
+export interface CampaignReport {
+  campaign: Campaign;
+  stats: CampaignStats;
+}
+
+/**
+ * Application service for the campaigns a studio broadcasts to its
+ * audience. Fan-out happens in the background, see CampaignDispatcher.
+ */
+@Injectable()
+export class CampaignService {
+  constructor(
+    private readonly campaignRepository: CampaignRepository,
+    private readonly studioRepository: StudioRepository,
+    private readonly studioAccessService: StudioAccessService,
+    private readonly campaignDomainService: CampaignDomainService,
+    private readonly studioDomainService: StudioDomainService,
+  ) {}
+
+  /**
+   * Schedules a campaign. Only approved studios can send campaigns, and a
+   * segment may only refer to the studio's own playlists and media.
+   */
+  async create(
+    user: User,
+    studioUuid: string,
+    dto: CreateCampaignDto,
+  ): Promise<Campaign> {
+    await this.studioAccessService.assertPermission(
+      user,
+      studioUuid,
+      StudioPermission.MANAGE_CAMPAIGNS,
+    );
+    const [studio] = await this.studioRepository.findByUuids([studioUuid]);
+    if (!studio) {
+      throw new NotFoundException("Studio not found");
+    }
+    if (!this.studioDomainService.canPublish(studio)) {
+      throw new ForbiddenException(
+        `Studio is ${studio.status}; only approved studios can send campaigns`,
+      );
+    }
+    const segment = this.toSegment(dto.segment);
+    const problem = this.campaignDomainService.segmentProblem(segment);
+    if (problem) {
+      throw new BadRequestException(problem);
+    }
+    await this.assertSegmentOwnedBy(segment, studioUuid);
+
+    return this.campaignRepository.save(
+      this.campaignRepository.create({
+        studioUuid,
+        createdBy: user,
+        name: dto.name,
+        channel: dto.channel,
+        subject: dto.subject,
+        message: dto.message,
+        segment,
+        sendAt: dto.sendAt ?? new Date(),
+      }),
+    );
+  }
+
+  async list(
+    user: User,
+    studioUuid: string,
+    query: CampaignQueryDto,
+  ): Promise<{ items: Campaign[]; total: number }> {
+    await this.studioAccessService.assertPermission(
+      user,
+      studioUuid,
+      StudioPermission.MANAGE_CAMPAIGNS,
+    );
+    const [items, total] = await this.campaignRepository.findByStudio(
+      studioUuid,
+      query.limit ?? 20,
+      query.offset ?? 0,
+    );
+    return { items, total };
+  }
+
+  async report(
+    user: User,
+    studioUuid: string,
+    uuid: string,
+  ): Promise<CampaignReport> {
+    const campaign = await this.getCampaign(user, studioUuid, uuid);
+    return this.toReport(campaign);
+  }
+
+  /**
+   * Stops a campaign that has not finished fanning out. Its notifications
+   * that have not been delivered yet are withdrawn.
+   */
+  async cancel(
+    user: User,
+    studioUuid: string,
+    uuid: string,
+  ): Promise<CampaignReport> {
+    const campaign = await this.getCampaign(user, studioUuid, uuid);
+    const refusal = this.campaignDomainService.cancelRefusal(campaign);
+    if (refusal) {
+      throw new ConflictException(refusal);
+    }
+    if (!(await this.campaignRepository.cancel(uuid, new Date()))) {
+      throw new ConflictException("Campaign changed, reload and retry");
+    }
+    return this.report(user, studioUuid, uuid);
+  }
+
+  private async getCampaign(
+    user: User,
+    studioUuid: string,
+    uuid: string,
+  ): Promise<Campaign> {
+    await this.studioAccessService.assertPermission(
+      user,
+      studioUuid,
+      StudioPermission.MANAGE_CAMPAIGNS,
+    );
+    const campaign = await this.campaignRepository.findForStudio(
+      studioUuid,
+      uuid,
+    );
+    if (!campaign) {
+      throw new NotFoundException("Campaign not found");
+    }
+    return campaign;
+  }
+
+  private async toReport(campaign: Campaign): Promise<CampaignReport> {
+    return {
+      campaign,
+      stats: this.campaignDomainService.stats(
+        campaign,
+        await this.campaignRepository.countNotifications(campaign.uuid),
+      ),
+    };
+  }
+
+  private toSegment(dto: CampaignSegmentDto): CampaignSegment {
+    switch (dto.type) {
+      case "playlist-viewers":
+        return { type: dto.type, playlistUuid: dto.playlistUuid as string };
+      case "buyers":
+        return dto.targetKind && dto.targetUuid
+          ? {
+              type: dto.type,
+              targetKind: dto.targetKind,
+              targetUuid: dto.targetUuid,
+            }
+          : { type: dto.type };
+      case "active":
+        return { type: dto.type, days: dto.days as number };
+    }
+  }
+
+  private async assertSegmentOwnedBy(
+    segment: CampaignSegment,
+    studioUuid: string,
+  ): Promise<void> {
+    let owner: string | null | undefined;
+    if (segment.type === "playlist-viewers") {
+      owner = await this.studioAccessService.studioOf(
+        "playlist",
+        segment.playlistUuid,
+      );
+    } else if (segment.type === "buyers" && segment.targetUuid) {
+      owner =
+        segment.targetKind === "playlist"
+          ? await this.studioAccessService.studioOf(
+              "playlist",
+              segment.targetUuid,
+            )
+          : await this.studioAccessService.studioOf(
+              "media",
+              segment.targetUuid,
+              segment.targetKind,
+            );
+    }
+    if (owner !== undefined && owner !== studioUuid) {
+      throw new BadRequestException(
+        "The segment refers to content of another studio",
+      );
+    }
+  }
+}
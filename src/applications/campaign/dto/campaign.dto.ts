@@ -0,0 +1,103 @@
+import { Type } from "class-transformer";
+import {
+  IsDate,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import { CampaignSegment } from "../../../domain/campaign/entities/campaign.entity";
+import { MAX_ACTIVE_DAYS } from "../../../domain/campaign/services/campaign.domain-service";
+import { NotificationChannel } from "../../../domain/notification/entities/notification.entity";
+
+const SEGMENT_TYPES: CampaignSegment["type"][] = [
+  "playlist-viewers",
+  "buyers",
+  "active",
+];
+
+/**
+ * The audience of a campaign. Which fields apply depends on `type`.
+ */
+export class CampaignSegmentDto {
+  @IsIn(SEGMENT_TYPES)
+  type: CampaignSegment["type"];
+
+  /** For "playlist-viewers". */
+  @ValidateIf((segment) => segment.type === "playlist-viewers")
+  @IsUUID()
+  playlistUuid?: string;
+
+  /** For "buyers", together with targetUuid; any item when left out. */
+  @ValidateIf((segment) => segment.type === "buyers" && !!segment.targetUuid)
+  @IsIn(["music", "photo", "video", "playlist"])
+  targetKind?: "music" | "photo" | "video" | "playlist";
+
+  @ValidateIf((segment) => segment.type === "buyers" && !!segment.targetKind)
+  @IsUUID()
+  targetUuid?: string;
+
+  /** For "active". */
+  @ValidateIf((segment) => segment.type === "active")
+  @IsInt()
+  @Min(1)
+  @Max(MAX_ACTIVE_DAYS)
+  days?: number;
+}
+
+export class CreateCampaignDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @IsIn(Object.values(NotificationChannel))
+  channel: NotificationChannel;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  subject: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  message: string;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => CampaignSegmentDto)
+  segment: CampaignSegmentDto;
+
+  /** Defaults to now. */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  sendAt?: Date;
+}
+
+/**
+ * Paging for a studio's campaigns.
+ */
+export class CampaignQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
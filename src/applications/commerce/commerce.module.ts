@@ -0,0 +1,36 @@
+import { Module } from "@nestjs/common";
+import { CommerceController } from "../../infrastructure/controllers/commerce.controller";
+import { CommerceService } from "./commerce.service";
+import { EntitlementService } from "./entitlement.service";
+import { CommerceDomainService } from "../../domain/commerce/services/commerce.domain-service";
+import { PriceRepository } from "../../infrastructure/repositories/price.repository";
+import { PurchaseOrderRepository } from "../../infrastructure/repositories/purchase-order.repository";
+import { EntitlementRepository } from "../../infrastructure/repositories/entitlement.repository";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { PlaylistRepository } from "../../infrastructure/repositories/playlist.repository";
+import { PaymentModule } from "../../infrastructure/payment/payment.module";
+import { UserModule } from "../user/user.module";
+import { StudioModule } from "../studio/studio.module";
+
+/**
+ * Prices, checkout through the configured payment gateway, the ledger and
+ * entitlements. EntitlementService is exported for the playback and download
+ * paths. Media and playlist repositories are provided here rather than
+ * imported, since MediaModule depends on this module.
+ */
+@Module({
+  imports: [UserModule, StudioModule, PaymentModule],
+  controllers: [CommerceController],
+  providers: [
+    CommerceService,
+    EntitlementService,
+    CommerceDomainService,
+    PriceRepository,
+    PurchaseOrderRepository,
+    EntitlementRepository,
+    MediaRepository,
+    PlaylistRepository,
+  ],
+  exports: [EntitlementService],
+})
+export class CommerceModule {}
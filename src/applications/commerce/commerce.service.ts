@@ -0,0 +1,239 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { MediaStatus } from "../../domain/entities/base";
+import { Entitlement } from "../../domain/commerce/entities/entitlement.entity";
+import { Price } from "../../domain/commerce/entities/price.entity";
+import {
+  OrderStatus,
+  PurchaseOrder,
+} from "../../domain/commerce/entities/purchase-order.entity";
+import {
+  CommerceDomainService,
+  PurchasableKind,
+} from "../../domain/commerce/services/commerce.domain-service";
+import { Studio } from "../../domain/studio/entities/studio.entity";
+import { StudioDomainService } from "../../domain/studio/services/studio.domain-service";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { EntitlementRepository } from "../../infrastructure/repositories/entitlement.repository";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { PlaylistRepository } from "../../infrastructure/repositories/playlist.repository";
+import { PriceRepository } from "../../infrastructure/repositories/price.repository";
+import { PurchaseOrderRepository } from "../../infrastructure/repositories/purchase-order.repository";
+import { StudioRepository } from "../../infrastructure/repositories/studio.repository";
+import {
+  PAYMENT_GATEWAY,
+  PaymentDeclinedError,
+  PaymentGateway,
+} from "../../infrastructure/payment/payment-gateway";
+import { paymentConfig } from "../../infrastructure/payment/payment.config";
+import { StudioAccessService } from "../studio/studio-access.service";
+import { CheckoutDto } from "./dto/checkout.dto";
+import { SetPricesDto } from "./dto/set-prices.dto";
+
+/**
+ * A media item or playlist as far as selling it is concerned.
+ */
+interface SaleTarget {
+  title: string;
+  studio: Studio | null;
+  /** Why it cannot be bought right now, if it cannot. */
+  unavailable: string | null;
+}
+
+/**
+ * Application service for prices, checkout and refunds.
+ */
+@Injectable()
+export class CommerceService {
+  constructor(
+    @Inject(PAYMENT_GATEWAY) private readonly gateway: PaymentGateway,
+    private readonly priceRepository: PriceRepository,
+    private readonly orderRepository: PurchaseOrderRepository,
+    private readonly entitlementRepository: EntitlementRepository,
+    private readonly mediaRepository: MediaRepository,
+    private readonly playlistRepository: PlaylistRepository,
+    private readonly studioRepository: StudioRepository,
+    private readonly studioAccessService: StudioAccessService,
+    private readonly commerceDomainService: CommerceDomainService,
+    private readonly studioDomainService: StudioDomainService,
+  ) {}
+
+  async getPrices(kind: PurchasableKind, uuid: string): Promise<Price[]> {
+    await this.findTarget(kind, uuid);
+    return this.priceRepository.findForTarget(kind, uuid);
+  }
+
+  /**
+   * Replaces the price list of an item or playlist of the caller's studio.
+   */
+  async setPrices(
+    user: User,
+    kind: PurchasableKind,
+    uuid: string,
+    dto: SetPricesDto,
+  ): Promise<Price[]> {
+    const target = await this.findTarget(kind, uuid);
+    await this.studioAccessService.assertPermission(
+      user,
+      target.studio?.uuid ?? null,
+      StudioPermission.MANAGE_SALES,
+    );
+    const duplicates = this.commerceDomainService.duplicateCurrencies(
+      dto.prices.map((price) => price.currency),
+    );
+    if (duplicates.length) {
+      throw new BadRequestException(
+        `Only one price per currency: ${duplicates.join(", ")}`,
+      );
+    }
+    return this.priceRepository.replaceForTarget(kind, uuid, dto.prices);
+  }
+
+  /**
+   * Charges the buyer and, once the payment succeeded, grants access.
+   * A declined payment leaves a failed order and answers 402. If the gateway
+   * fails in any other way the order stays pending, since the charge may
+   * still have gone through.
+   */
+  async checkout(user: User, dto: CheckoutDto): Promise<PurchaseOrder> {
+    const target = await this.findTarget(dto.kind, dto.uuid);
+    if (target.unavailable) {
+      throw new ConflictException(target.unavailable);
+    }
+    if (
+      await this.entitlementRepository.ownsDirectly(
+        user.uuid,
+        dto.kind,
+        dto.uuid,
+      )
+    ) {
+      throw new ConflictException("You already own this");
+    }
+    const price = this.commerceDomainService.priceIn(
+      await this.priceRepository.findForTarget(dto.kind, dto.uuid),
+      dto.currency,
+    );
+    if (!price) {
+      throw new BadRequestException(`Not for sale in ${dto.currency}`);
+    }
+
+    const order = await this.orderRepository.save(
+      this.orderRepository.create({
+        userUuid: user.uuid,
+        targetKind: dto.kind,
+        targetUuid: dto.uuid,
+        studioUuid: target.studio?.uuid ?? null,
+        currency: price.currency,
+        amount: price.amount,
+        status: OrderStatus.PENDING,
+        gatewayProvider: this.gateway.provider,
+      }),
+    );
+
+    let reference: string;
+    try {
+      ({ reference } = await this.gateway.charge({
+        amount: order.amount,
+        currency: order.currency,
+        paymentToken: dto.paymentToken,
+        orderUuid: order.uuid,
+        description: target.title,
+      }));
+    } catch (error) {
+      if (!(error instanceof PaymentDeclinedError)) {
+        throw error;
+      }
+      order.status = OrderStatus.FAILED;
+      order.failureReason = error.message;
+      await this.orderRepository.save(order);
+      throw new HttpException(error.message, HttpStatus.PAYMENT_REQUIRED);
+    }
+
+    return this.orderRepository.completePayment(
+      order,
+      reference,
+      this.commerceDomainService.ledgerLines(
+        order.amount,
+        paymentConfig.platformFeeBasisPoints,
+      ),
+    );
+  }
+
+  listOrders(user: User): Promise<PurchaseOrder[]> {
+    return this.orderRepository.findForUser(user.uuid);
+  }
+
+  async getOrder(user: User, uuid: string): Promise<PurchaseOrder> {
+    const order = await this.orderRepository.findByUuid(uuid);
+    if (!order || order.userUuid !== user.uuid) {
+      throw new NotFoundException("Order not found");
+    }
+    return order;
+  }
+
+  listEntitlements(user: User): Promise<Entitlement[]> {
+    return this.entitlementRepository.findActiveForUser(user.uuid);
+  }
+
+  /**
+   * Refunds a paid order in full and withdraws the access it granted.
+   */
+  async refund(uuid: string): Promise<PurchaseOrder> {
+    const order = await this.orderRepository.findByUuid(uuid);
+    if (!order) {
+      throw new NotFoundException("Order not found");
+    }
+    if (order.status !== OrderStatus.PAID || !order.gatewayReference) {
+      throw new ConflictException(`Order is ${order.status}`);
+    }
+    await this.gateway.refund(order.gatewayReference);
+    return this.orderRepository.recordRefund(
+      order,
+      this.commerceDomainService.ledgerLines(
+        order.amount,
+        paymentConfig.platformFeeBasisPoints,
+        -1,
+      ),
+    );
+  }
+
+  private async findTarget(
+    kind: PurchasableKind,
+    uuid: string,
+  ): Promise<SaleTarget> {
+    if (kind === "playlist") {
+      const playlist = await this.playlistRepository.findWithStudio(uuid);
+      if (!playlist) {
+        throw new NotFoundException("Playlist not found");
+      }
+      return {
+        title: playlist.title,
+        studio: playlist.studio,
+        unavailable: playlist.publishedAt ? null : "Playlist is not published",
+      };
+    }
+
+    const item = await this.mediaRepository.findByUuid(kind, uuid);
+    if (!item) {
+      throw new NotFoundException("Media not found");
+    }
+    const studio = item.studioUuid
+      ? await this.studioRepository.findWithOwner(item.studioUuid)
+      : null;
+    let unavailable: string | null = null;
+    if (item.status !== MediaStatus.ACTIVE) {
+      unavailable = `Media is ${item.status}`;
+    } else if (studio && !this.studioDomainService.canPublish(studio)) {
+      unavailable = `Studio is ${studio.status}`;
+    }
+    return { title: item.title, studio, unavailable };
+  }
+}
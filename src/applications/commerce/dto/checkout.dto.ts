@@ -0,0 +1,26 @@
+import { IsIn, IsNotEmpty, IsString, IsUUID, MaxLength } from "class-validator";
+import {
+  PURCHASABLE_KINDS,
+  PurchasableKind,
+} from "../../../domain/commerce/services/commerce.domain-service";
+import { paymentConfig } from "../../../infrastructure/payment/payment.config";
+
+/**
+ * Buys a media item or playlist at its price in `currency`.
+ */
+export class CheckoutDto {
+  @IsIn(PURCHASABLE_KINDS)
+  kind: PurchasableKind;
+
+  @IsUUID()
+  uuid: string;
+
+  @IsIn(paymentConfig.currencies)
+  currency: string;
+
+  /** Payment method token obtained by the client from the payment gateway. */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  paymentToken: string;
+}
@@ -0,0 +1,33 @@
+import { Type } from "class-transformer";
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  Max,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import { paymentConfig } from "../../../infrastructure/payment/payment.config";
+
+export class PriceDto {
+  @IsIn(paymentConfig.currencies)
+  currency: string;
+
+  /** Amount in the currency's minor unit, e.g. 199 for 1.99 USD. */
+  @IsInt()
+  @Min(1)
+  @Max(100_000_000)
+  amount: number;
+}
+
+/**
+ * The complete price list of an item or playlist. An empty list makes it free.
+ */
+export class SetPricesDto {
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => PriceDto)
+  prices: PriceDto[];
+}
@@ -0,0 +1,62 @@
+import { HttpException, HttpStatus, Injectable } from "@nestjs/common";
+import { PurchasableKind } from "../../domain/commerce/services/commerce.domain-service";
+import { User, UserRole } from "../../domain/user/entities/user.entity";
+import { EntitlementRepository } from "../../infrastructure/repositories/entitlement.repository";
+import { PriceRepository } from "../../infrastructure/repositories/price.repository";
+import { StudioAccessService } from "../studio/studio-access.service";
+
+/**
+ * What an access check needs to know about the item.
+ */
+export interface Sellable {
+  uuid: string;
+  studioUuid: string | null;
+}
+
+/**
+ * Decides whether a user may consume a media item or playlist. Items without
+ * a price are free; priced items need an entitlement, bought directly or
+ * through a playlist that contains them. Members of the selling studio and
+ * administrators always have access.
+ */
+@Injectable()
+export class EntitlementService {
+  constructor(
+    private readonly entitlementRepository: EntitlementRepository,
+    private readonly priceRepository: PriceRepository,
+    private readonly studioAccessService: StudioAccessService,
+  ) {}
+
+  async canAccess(
+    user: User,
+    kind: PurchasableKind,
+    item: Sellable,
+  ): Promise<boolean> {
+    const prices = await this.priceRepository.findForTarget(kind, item.uuid);
+    if (!prices.length || user.role === UserRole.ADMIN) {
+      return true;
+    }
+    if (
+      await this.entitlementRepository.hasAccess(user.uuid, kind, item.uuid)
+    ) {
+      return true;
+    }
+    return !!(await this.studioAccessService.membership(user, item.studioUuid));
+  }
+
+  /**
+   * Throws 402 Payment Required unless the user may consume the item.
+   */
+  async assertAccess(
+    user: User,
+    kind: PurchasableKind,
+    item: Sellable,
+  ): Promise<void> {
+    if (!(await this.canAccess(user, kind, item))) {
+      throw new HttpException(
+        "This content must be purchased first",
+        HttpStatus.PAYMENT_REQUIRED,
+      );
+    }
+  }
+}
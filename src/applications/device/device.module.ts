@@ -0,0 +1,14 @@
+import { Module } from "@nestjs/common";
+import { DeviceController } from "../../infrastructure/controllers/device.controller";
+import { DeviceService } from "./device.service";
+import { UserModule } from "../user/user.module";
+
+/**
+ * The devices a user is signed in on, and remote sign-out.
+ */
+@Module({
+  imports: [UserModule],
+  controllers: [DeviceController],
+  providers: [DeviceService],
+})
+export class DeviceModule {}
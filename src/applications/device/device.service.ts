@@ -0,0 +1,124 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { Device } from "../../domain/device/entities/device.entity";
+import { User } from "../../domain/user/entities/user.entity";
+import { UserSession } from "../../domain/user/entities/session.entity";
+import { UserDomainService } from "../../domain/user/services/user.domain-service";
+import { DeviceRepository } from "../../infrastructure/repositories/device.repository";
+import { SessionRepository } from "../../infrastructure/repositories/session.repository";
+import { authConfig } from "../../infrastructure/auth/auth.config";
+import { RegisterDeviceDto } from "./dto/register-device.dto";
+
+/**
+ * Application service for the devices a user is signed in on. Every device
+ * is bound to the session it signed in with, so signing a device out
+ * remotely revokes that session's tokens.
+ */
+@Injectable()
+export class DeviceService {
+  constructor(
+    private readonly deviceRepository: DeviceRepository,
+    private readonly sessionRepository: SessionRepository,
+    private readonly userDomainService: UserDomainService,
+  ) {}
+
+  /**
+   * Binds the caller's session to a device, creating the device unless an
+   * earlier registration is given. Refused once the user is signed in on
+   * the maximum number of devices.
+   */
+  async register(
+    user: User,
+    session: UserSession,
+    dto: RegisterDeviceDto,
+  ): Promise<Device> {
+    const bound = await this.deviceRepository.findBySession(session.uuid);
+    let device = bound;
+    if (dto.deviceUuid) {
+      device = await this.deviceRepository.findForUser(
+        user.uuid,
+        dto.deviceUuid,
+      );
+      if (!device) {
+        throw new NotFoundException("Device not found");
+      }
+    }
+
+    const others = (await this.listActive(user)).filter(
+      (active) => active.uuid !== device?.uuid && active.uuid !== bound?.uuid,
+    );
+    if (others.length >= authConfig.maxDevices) {
+      throw new ConflictException(
+        `Signed in on ${authConfig.maxDevices} devices already; sign one out first`,
+      );
+    }
+
+    const now = new Date();
+    if (bound && bound.uuid !== device?.uuid) {
+      await this.deviceRepository.markSignedOut([bound.uuid], now);
+    }
+    if (device?.sessionUuid && device.sessionUuid !== session.uuid) {
+      await this.sessionRepository.revoke(device.sessionUuid);
+    }
+
+    device ??= this.deviceRepository.create({ userUuid: user.uuid });
+    device.name = dto.name ?? device.name ?? null;
+    device.fcmToken = dto.fcmToken ?? device.fcmToken ?? null;
+    device.active = true;
+    device.lastLoggedInTime = now;
+    device.sessionUuid = session.uuid;
+    device.session = session;
+    const saved = await this.deviceRepository.save(device);
+    if (saved.fcmToken) {
+      await this.deviceRepository.releaseToken(saved.fcmToken, saved.uuid);
+    }
+    return saved;
+  }
+
+  /**
+   * The devices the user is currently signed in on. Devices whose session
+   * has expired or been revoked are marked signed out on the way.
+   */
+  async listActive(user: User): Promise<Device[]> {
+    const devices = await this.deviceRepository.findActive(user.uuid);
+    const stale = devices.filter(
+      (device) =>
+        !device.session ||
+        !this.userDomainService.isSessionActive(device.session),
+    );
+    await this.deviceRepository.markSignedOut(
+      stale.map((device) => device.uuid),
+      new Date(),
+    );
+    return devices.filter((device) => !stale.includes(device));
+  }
+
+  /**
+   * Signs one of the user's devices out and revokes its session.
+   */
+  async signOut(user: User, uuid: string): Promise<void> {
+    const device = await this.deviceRepository.findForUser(user.uuid, uuid);
+    if (!device) {
+      throw new NotFoundException("Device not found");
+    }
+    if (device.sessionUuid) {
+      await this.sessionRepository.revoke(device.sessionUuid);
+    }
+    await this.deviceRepository.markSignedOut([device.uuid], new Date());
+  }
+
+  /**
+   * Signs the user out everywhere, including the caller's own session.
+   */
+  async signOutAll(user: User): Promise<void> {
+    const devices = await this.deviceRepository.findActive(user.uuid);
+    await this.sessionRepository.revokeAllForUser(user.uuid);
+    await this.deviceRepository.markSignedOut(
+      devices.map((device) => device.uuid),
+      new Date(),
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { IsOptional, IsString, IsUUID, Length } from "class-validator";
+
+/**
+ * Sent by a client right after login to bind the new session to a device.
+ */
+export class RegisterDeviceDto {
+  /** An earlier registration of this device, to reuse instead of adding one. */
+  @IsOptional()
+  @IsUUID()
+  deviceUuid?: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 255)
+  name?: string;
+
+  /** The device's current Firebase Cloud Messaging registration token. */
+  @IsOptional()
+  @IsString()
+  @Length(1, 255)
+  fcmToken?: string;
+}
@@ -0,0 +1,191 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { randomBytes, randomUUID } from "node:crypto";
+import { ContentKey } from "../../domain/drm/entities/content-key.entity";
+import { DrmDomainService } from "../../domain/drm/services/drm.domain-service";
+import {
+  MediaItem,
+  MediaKind,
+  STREAMABLE_KINDS,
+} from "../../domain/media/services/media.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { ContentKeyCipher } from "../../infrastructure/drm/content-key.cipher";
+import {
+  ContentKeyMaterial,
+  LICENSE_SERVERS,
+  LicenseServer,
+} from "../../infrastructure/drm/license-server";
+import { ContentKeyRepository } from "../../infrastructure/repositories/content-key.repository";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { StudioAccessService } from "../studio/studio-access.service";
+import { AddContentKeyDto } from "./dto/add-content-key.dto";
+import { DrmSettingsDto } from "./dto/drm-settings.dto";
+
+/**
+ * The DRM state of a media item as shown to its owner.
+ */
+export interface DrmView {
+  drmProtected: boolean;
+  drmType: string | null;
+  licenseExpiryDate: Date | string | null;
+  keys: ContentKey[];
+}
+
+/**
+ * Application service for the content keys of music and videos and for
+ * switching their DRM protection. Keys are stored sealed by ContentKeyCipher
+ * and only leave the service in the clear when generated, for packaging,
+ * and in licenses.
+ */
+@Injectable()
+export class DrmKeyService {
+  constructor(
+    @Inject(LICENSE_SERVERS) private readonly servers: LicenseServer[],
+    private readonly contentKeyRepository: ContentKeyRepository,
+    private readonly mediaRepository: MediaRepository,
+    private readonly studioAccessService: StudioAccessService,
+    private readonly contentKeyCipher: ContentKeyCipher,
+    private readonly drmDomainService: DrmDomainService,
+  ) {}
+
+  async getSettings(
+    user: User,
+    kind: MediaKind,
+    uuid: string,
+  ): Promise<DrmView> {
+    const item = await this.getManagedItem(user, kind, uuid);
+    return this.view(
+      item,
+      await this.contentKeyRepository.findForMedia(kind, uuid),
+    );
+  }
+
+  async updateSettings(
+    user: User,
+    kind: MediaKind,
+    uuid: string,
+    dto: DrmSettingsDto,
+  ): Promise<DrmView> {
+    const item = await this.getManagedItem(user, kind, uuid);
+    const keys = await this.contentKeyRepository.findForMedia(kind, uuid);
+    const problem = this.drmDomainService.settingsProblem(
+      { ...dto, drmType: dto.drmType ?? null, licenseExpiryDate: null },
+      keys.length,
+      this.servers.map((server) => server.system),
+    );
+    if (problem) {
+      throw new BadRequestException(problem);
+    }
+    item.drmProtected = dto.drmProtected;
+    item.drmType = dto.drmType ?? null;
+    // TypeORM writes date columns from the local calendar date.
+    item.licenseExpiryDate = dto.licenseExpiryDate
+      ? new Date(`${dto.licenseExpiryDate}T00:00:00`)
+      : null;
+    return this.view(await this.mediaRepository.save(item), keys);
+  }
+
+  /**
+   * Adds a generated or imported content key. The key is returned in hex for
+   * the packager and cannot be read back afterwards.
+   */
+  async addKey(
+    user: User,
+    kind: MediaKind,
+    uuid: string,
+    dto: AddContentKeyDto,
+  ): Promise<{ keyId: string; key: string }> {
+    const item = await this.getManagedItem(user, kind, uuid);
+    if (!dto.keyId !== !dto.key) {
+      throw new BadRequestException("keyId and key must be given together");
+    }
+    const keyId = dto.keyId
+      ? this.drmDomainService.normalizeKeyId(dto.keyId)
+      : randomUUID();
+    if (!keyId) {
+      throw new BadRequestException("keyId must be a UUID or 32 hex digits");
+    }
+    if (await this.contentKeyRepository.existsWithKeyId(keyId)) {
+      throw new ConflictException("A content key with this keyId exists");
+    }
+    const key = dto.key ? Buffer.from(dto.key, "hex") : randomBytes(16);
+    await this.contentKeyRepository.save(
+      this.contentKeyRepository.create({
+        mediaKind: kind,
+        [kind]: item,
+        keyId,
+        ...this.contentKeyCipher.seal(keyId, key),
+      }),
+    );
+    return { keyId, key: key.toString("hex") };
+  }
+
+  async removeKey(
+    user: User,
+    kind: MediaKind,
+    uuid: string,
+    keyId: string,
+  ): Promise<void> {
+    const item = await this.getManagedItem(user, kind, uuid);
+    const keys = await this.contentKeyRepository.findForMedia(kind, uuid);
+    const key = keys.find((candidate) => candidate.keyId === keyId);
+    if (!key) {
+      throw new NotFoundException("Content key not found");
+    }
+    if (item.drmProtected && keys.length === 1) {
+      throw new BadRequestException(
+        "Turn off DRM protection before removing the last content key",
+      );
+    }
+    await this.contentKeyRepository.remove(key);
+  }
+
+  /**
+   * Decrypts every content key of an item for a license server. Keys sealed
+   * with a master key that has since been rotated out are re-sealed.
+   */
+  async openKeys(kind: MediaKind, uuid: string): Promise<ContentKeyMaterial[]> {
+    const keys = await this.contentKeyRepository.findForMedia(kind, uuid);
+    const opened: ContentKeyMaterial[] = [];
+    for (const contentKey of keys) {
+      const key = this.contentKeyCipher.open(contentKey.keyId, contentKey);
+      if (this.contentKeyCipher.isStale(contentKey)) {
+        Object.assign(
+          contentKey,
+          this.contentKeyCipher.seal(contentKey.keyId, key),
+        );
+        await this.contentKeyRepository.save(contentKey);
+      }
+      opened.push({ keyId: contentKey.keyId, key });
+    }
+    return opened;
+  }
+
+  private view(item: MediaItem, keys: ContentKey[]): DrmView {
+    return {
+      drmProtected: item.drmProtected,
+      drmType: item.drmType,
+      licenseExpiryDate: item.licenseExpiryDate,
+      keys,
+    };
+  }
+
+  /**
+   * Loads a track or video the caller may manage.
+   */
+  private getManagedItem(
+    user: User,
+    kind: MediaKind,
+    uuid: string,
+  ): Promise<MediaItem> {
+    if (!STREAMABLE_KINDS.includes(kind)) {
+      throw new BadRequestException(`${kind} cannot be DRM protected`);
+    }
+    return this.studioAccessService.getManagedItem(user, kind, uuid);
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  ServiceUnavailableException,
+} from "@nestjs/common";
+import { DrmDomainService } from "../../domain/drm/services/drm.domain-service";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+import {
+  MediaDomainService,
+  MediaKind,
+  STREAMABLE_KINDS,
+} from "../../domain/media/services/media.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import {
+  License,
+  LICENSE_SERVERS,
+  LicenseRequestError,
+  LicenseServer,
+} from "../../infrastructure/drm/license-server";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { EntitlementService } from "../commerce/entitlement.service";
+import { GeoPolicyService } from "../geo/geo-policy.service";
+import { DrmKeyService } from "./drm-key.service";
+
+/**
+ * Application service that issues playback licenses for DRM protected
+ * music and videos through the license server of the item's drmType. The
+ * same checks as for playback apply, and licenses stop being issued once
+ * the item's license has expired.
+ */
+@Injectable()
+export class DrmLicenseService {
+  constructor(
+    @Inject(LICENSE_SERVERS) private readonly servers: LicenseServer[],
+    private readonly mediaRepository: MediaRepository,
+    private readonly mediaDomainService: MediaDomainService,
+    private readonly drmDomainService: DrmDomainService,
+    private readonly drmKeyService: DrmKeyService,
+    private readonly entitlementService: EntitlementService,
+    private readonly geoPolicyService: GeoPolicyService,
+  ) {}
+
+  async issue(
+    user: User,
+    region: ViewerRegion,
+    kind: MediaKind,
+    uuid: string,
+    challenge: Buffer,
+  ): Promise<License> {
+    if (!STREAMABLE_KINDS.includes(kind)) {
+      throw new BadRequestException(`${kind} cannot be DRM protected`);
+    }
+    const item = await this.mediaRepository.findByUuid(kind, uuid);
+    if (!item) {
+      throw new NotFoundException("Media not found");
+    }
+    const refusal =
+      this.mediaDomainService.streamingRefusal(item) ??
+      this.drmDomainService.licenseRefusal(item);
+    if (refusal) {
+      throw new ForbiddenException(refusal);
+    }
+    await this.geoPolicyService.assertAvailable(item, region);
+    await this.entitlementService.assertAccess(user, kind, item);
+
+    const server = this.servers.find(
+      (candidate) => candidate.system === item.drmType,
+    );
+    if (!server) {
+      throw new ServiceUnavailableException(
+        `No license server is configured for ${item.drmType}`,
+      );
+    }
+    try {
+      return await server.issue({
+        challenge,
+        keys: await this.drmKeyService.openKeys(kind, uuid),
+        expiresAt: item.licenseExpiryDate
+          ? new Date(item.licenseExpiryDate)
+          : null,
+        userUuid: user.uuid,
+      });
+    } catch (error) {
+      if (error instanceof LicenseRequestError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import {
+  Logger,
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+  RequestMethod,
+} from "@nestjs/common";
+import { raw } from "express";
+import { DrmController } from "../../infrastructure/controllers/drm.controller";
+import { DrmKeyService } from "./drm-key.service";
+import { DrmLicenseService } from "./drm-license.service";
+import { DrmDomainService } from "../../domain/drm/services/drm.domain-service";
+import { ContentKeyRepository } from "../../infrastructure/repositories/content-key.repository";
+import { ContentKeyCipher } from "../../infrastructure/drm/content-key.cipher";
+import {
+  LICENSE_SERVERS,
+  LicenseServer,
+} from "../../infrastructure/drm/license-server";
+import { ClearKeyLicenseServer } from "../../infrastructure/drm/clear-key.license-server";
+import { drmConfig } from "../../infrastructure/drm/drm.config";
+import { UserModule } from "../user/user.module";
+import { StudioModule } from "../studio/studio.module";
+import { MediaModule } from "../media/media.module";
+import { CommerceModule } from "../commerce/commerce.module";
+import { GeoModule } from "../geo/geo.module";
+
+/**
+ * Factories for the available license servers, keyed by DRM system.
+ */
+const servers: Record<string, () => LicenseServer> = {
+  clearkey: () => {
+    Logger.warn(
+      "Clear Key licenses hand content keys to players unprotected",
+      DrmModule.name,
+    );
+    return new ClearKeyLicenseServer();
+  },
+};
+
+/**
+ * Content key management and license issuing for DRM protected music and
+ * videos. One license server runs per configured DRM system. Binary license
+ * challenges are buffered for the license route only, as other routes read
+ * octet-stream bodies as streams.
+ */
+@Module({
+  imports: [UserModule, StudioModule, MediaModule, CommerceModule, GeoModule],
+  controllers: [DrmController],
+  providers: [
+    DrmKeyService,
+    DrmLicenseService,
+    DrmDomainService,
+    ContentKeyRepository,
+    ContentKeyCipher,
+    {
+      provide: LICENSE_SERVERS,
+      useFactory: (): LicenseServer[] =>
+        drmConfig.licenseServers.map((system) => {
+          const factory = servers[system];
+          if (!factory) {
+            throw new Error(`Unknown license server: ${system}`);
+          }
+          return factory();
+        }),
+    },
+  ],
+})
+export class DrmModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer
+      .apply(raw({ type: "application/octet-stream", limit: "64kb" }))
+      .forRoutes({
+        path: "drm/:kind/:uuid/license",
+        method: RequestMethod.POST,
+      });
+  }
+}
@@ -0,0 +1,23 @@
+import { IsOptional, Matches } from "class-validator";
+
+/**
+ * Adds a content key to a track or video. Leave both fields out to have a
+ * key generated, or give both to import a key content was already packaged
+ * with.
+ */
+export class AddContentKeyDto {
+  /** A UUID or 32 hex digits. */
+  @IsOptional()
+  @Matches(
+    /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i,
+    {
+      message: "keyId must be a UUID or 32 hex digits",
+    },
+  )
+  keyId?: string;
+
+  /** The 128-bit key as 32 hex digits. */
+  @IsOptional()
+  @Matches(/^[0-9a-f]{32}$/i, { message: "key must be 32 hex digits" })
+  key?: string;
+}
@@ -0,0 +1,22 @@
+import { IsBoolean, IsEnum, IsOptional, Matches } from "class-validator";
+import { DrmSystem } from "../../../domain/drm/services/drm.domain-service";
+
+/**
+ * Switches DRM protection of a track or video on or off.
+ */
+export class DrmSettingsDto {
+  @IsBoolean()
+  drmProtected: boolean;
+
+  /** Required when protected; must have a configured license server. */
+  @IsOptional()
+  @IsEnum(DrmSystem)
+  drmType?: DrmSystem | null;
+
+  /** Licenses are refused from the start (UTC) of this day; null for never. */
+  @IsOptional()
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, {
+    message: "licenseExpiryDate must be a date like 2030-01-31",
+  })
+  licenseExpiryDate?: string | null;
+}
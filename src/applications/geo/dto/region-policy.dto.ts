@@ -0,0 +1,32 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsOptional,
+  Matches,
+} from "class-validator";
+import { RegionMode } from "../../../domain/entities/base";
+
+/**
+ * A region policy for a media item or, as the default for its media, a
+ * studio.
+ */
+export class RegionPolicyDto {
+  /**
+   * "allow" to offer the content only in `countries`, "deny" to block it
+   * there, or null to drop the policy: media then follows its studio's
+   * defaults, and a studio's media is available everywhere.
+   */
+  @IsOptional()
+  @IsEnum(RegionMode)
+  mode: RegionMode | null;
+
+  /** ISO 3166-1 alpha-2 country codes. */
+  @IsArray()
+  @ArrayMaxSize(250)
+  @Matches(/^[A-Z]{2}$/, {
+    each: true,
+    message: "countries must be ISO country codes",
+  })
+  countries: string[];
+}
@@ -0,0 +1,68 @@
+import { HttpException, Injectable } from "@nestjs/common";
+import {
+  GeoDomainService,
+  ViewerRegion,
+} from "../../domain/geo/services/geo.domain-service";
+import { MediaItem } from "../../domain/media/services/media.domain-service";
+import { Studio } from "../../domain/studio/entities/studio.entity";
+import { StudioRepository } from "../../infrastructure/repositories/studio.repository";
+
+/** 451 Unavailable For Legal Reasons, which Nest's HttpStatus lacks. */
+const UNAVAILABLE_FOR_LEGAL_REASONS = 451;
+
+/**
+ * Application service that enforces region restrictions on media, taking
+ * each item's own policy or else its studio's defaults. Used by playback,
+ * downloads, search and playlists so they all refuse the same items.
+ */
+@Injectable()
+export class GeoPolicyService {
+  constructor(
+    private readonly studioRepository: StudioRepository,
+    private readonly geoDomainService: GeoDomainService,
+  ) {}
+
+  /**
+   * Throws 451 Unavailable For Legal Reasons unless the item may be used
+   * from the viewer's region.
+   */
+  async assertAvailable(item: MediaItem, region: ViewerRegion): Promise<void> {
+    const [available] = await this.filterAvailable([item], (i) => i, region);
+    if (!available) {
+      throw new HttpException(
+        "This content is not available in your region",
+        UNAVAILABLE_FOR_LEGAL_REASONS,
+      );
+    }
+  }
+
+  /**
+   * The entries whose media may be used from the viewer's region, in their
+   * original order.
+   */
+  async filterAvailable<T>(
+    entries: T[],
+    media: (entry: T) => MediaItem,
+    region: ViewerRegion,
+  ): Promise<T[]> {
+    const studios = await this.studioDefaults(
+      entries.map((entry) => media(entry).studioUuid),
+    );
+    return entries.filter((entry) => {
+      const item = media(entry);
+      const policy = this.geoDomainService.effectivePolicy(
+        item,
+        (item.studioUuid && studios.get(item.studioUuid)) || null,
+      );
+      return this.geoDomainService.isAvailable(policy, region.country);
+    });
+  }
+
+  private async studioDefaults(
+    uuids: (string | null)[],
+  ): Promise<Map<string, Studio>> {
+    const unique = [...new Set(uuids.filter((uuid): uuid is string => !!uuid))];
+    const studios = await this.studioRepository.findByUuids(unique);
+    return new Map(studios.map((studio) => [studio.uuid, studio]));
+  }
+}
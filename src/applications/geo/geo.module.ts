@@ -0,0 +1,32 @@
+import { Module } from "@nestjs/common";
+import { APP_INTERCEPTOR } from "@nestjs/core";
+import { GeoController } from "../../infrastructure/controllers/geo.controller";
+import { GeoService } from "./geo.service";
+import { GeoPolicyService } from "./geo-policy.service";
+import { GeoDomainService } from "../../domain/geo/services/geo.domain-service";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { IpCountryDatabase } from "../../infrastructure/geo/ip-country.database";
+import { ViewerRegionInterceptor } from "../../infrastructure/geo/viewer-region.interceptor";
+import { UserModule } from "../user/user.module";
+import { StudioModule } from "../studio/studio.module";
+
+/**
+ * Region restrictions. Every request is assigned a viewer region, looked up
+ * from the client address in a local IP-to-country database, and
+ * GeoPolicyService checks media against it. MediaRepository is provided here
+ * rather than imported, since MediaModule depends on this module.
+ */
+@Module({
+  imports: [UserModule, StudioModule],
+  controllers: [GeoController],
+  providers: [
+    GeoService,
+    GeoPolicyService,
+    GeoDomainService,
+    IpCountryDatabase,
+    MediaRepository,
+    { provide: APP_INTERCEPTOR, useClass: ViewerRegionInterceptor },
+  ],
+  exports: [GeoPolicyService, GeoDomainService],
+})
+export class GeoModule {}
@@ -0,0 +1,128 @@
+import { Injectable, NotFoundException } from "@nestjs/common";
+import { RegionMode } from "../../domain/entities/base";
+import {
+  GeoDomainService,
+  RegionRestricted,
+} from "../../domain/geo/services/geo.domain-service";
+import {
+  MediaItem,
+  MediaKind,
+} from "../../domain/media/services/media.domain-service";
+import { Studio } from "../../domain/studio/entities/studio.entity";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { StudioRepository } from "../../infrastructure/repositories/studio.repository";
+import { StudioAccessService } from "../studio/studio-access.service";
+import { RegionPolicyDto } from "./dto/region-policy.dto";
+
+/**
+ * A region policy as shown to clients.
+ */
+export interface RegionPolicyView {
+  mode: RegionMode | null;
+  countries: string[];
+  /** Whether a media item follows its studio's defaults. */
+  inherited: boolean;
+}
+
+/**
+ * Application service for reading and setting the region policies of media
+ * items and the defaults of studios.
+ */
+@Injectable()
+export class GeoService {
+  constructor(
+    private readonly mediaRepository: MediaRepository,
+    private readonly studioRepository: StudioRepository,
+    private readonly studioAccessService: StudioAccessService,
+    private readonly geoDomainService: GeoDomainService,
+  ) {}
+
+  async getStudioPolicy(uuid: string): Promise<RegionPolicyView> {
+    return this.view(await this.findStudio(uuid), false);
+  }
+
+  /**
+   * The policy that applies to an item, which may be its studio's.
+   */
+  async getMediaPolicy(
+    kind: MediaKind,
+    uuid: string,
+  ): Promise<RegionPolicyView> {
+    const item = await this.findItem(kind, uuid);
+    if (item.regionMode || !item.studioUuid) {
+      return this.view(item, false);
+    }
+    return this.view(await this.findStudio(item.studioUuid), true);
+  }
+
+  /**
+   * Sets the defaults that the studio's media without a policy of its own
+   * follows.
+   */
+  async setStudioPolicy(
+    user: User,
+    uuid: string,
+    dto: RegionPolicyDto,
+  ): Promise<RegionPolicyView> {
+    const studio = await this.studioAccessService.getManagedStudio(
+      user,
+      uuid,
+      StudioPermission.MANAGE_STUDIO,
+    );
+    Object.assign(studio, this.fields(dto));
+    return this.view(await this.studioRepository.save(studio), false);
+  }
+
+  async setMediaPolicy(
+    user: User,
+    kind: MediaKind,
+    uuid: string,
+    dto: RegionPolicyDto,
+  ): Promise<RegionPolicyView> {
+    const item = await this.studioAccessService.getManagedItem(
+      user,
+      kind,
+      uuid,
+    );
+    Object.assign(item, this.fields(dto));
+    await this.mediaRepository.save(item);
+    return this.getMediaPolicy(kind, uuid);
+  }
+
+  private fields(dto: RegionPolicyDto): RegionRestricted {
+    return {
+      regionMode: dto.mode ?? null,
+      regionRestrictions: dto.mode
+        ? this.geoDomainService.formatCountries(dto.countries)
+        : null,
+    };
+  }
+
+  private view(source: RegionRestricted, inherited: boolean): RegionPolicyView {
+    return {
+      mode: (source.regionMode as RegionMode) ?? null,
+      countries: this.geoDomainService.parseCountries(
+        source.regionRestrictions,
+      ),
+      inherited,
+    };
+  }
+
+  private async findStudio(uuid: string): Promise<Studio> {
+    const studio = await this.studioRepository.findWithOwner(uuid);
+    if (!studio) {
+      throw new NotFoundException("Studio not found");
+    }
+    return studio;
+  }
+
+  private async findItem(kind: MediaKind, uuid: string): Promise<MediaItem> {
+    const item = await this.mediaRepository.findByUuid(kind, uuid);
+    if (!item) {
+      throw new NotFoundException("Media not found");
+    }
+    return item;
+  }
+}
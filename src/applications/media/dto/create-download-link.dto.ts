@@ -0,0 +1,11 @@
+import { IsOptional, IsUUID } from "class-validator";
+
+/**
+ * Requests a signed download link for a media item.
+ */
+export class CreateDownloadLinkDto {
+  /** Restricts the link to one of the caller's signed-in devices. */
+  @IsOptional()
+  @IsUUID()
+  deviceUuid?: string;
+}
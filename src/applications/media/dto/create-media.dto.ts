@@ -0,0 +1,133 @@
+import { Transform, Type } from "class-transformer";
+import {
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+} from "class-validator";
+import { RegionMode } from "../../../domain/entities/base";
+
+const toBoolean = ({ value }: { value: unknown }) =>
+  value === true || value === "true";
+
+/**
+ * Descriptive and technical fields for a new media item.
+ * The media kind is detected from the file itself; fields that do not apply
+ * to the detected kind are ignored. Technical fields and tags that can be
+ * read from the file need not be supplied. Values may arrive as multipart
+ * form fields, so numbers, dates and booleans are converted from strings.
+ */
+export class CreateMediaDto {
+  @IsString()
+  @MaxLength(255)
+  title: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+
+  /**
+   * The studio publishing the media. The caller must own it.
+   */
+  @IsUUID()
+  studioUuid: string;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  downloadAllowed?: boolean;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  streamingAllowed?: boolean;
+
+  /**
+   * How regionRestrictions applies; "deny" when only the countries are
+   * given. Without either, the studio's region defaults apply.
+   */
+  @IsOptional()
+  @IsEnum(RegionMode)
+  regionMode?: RegionMode;
+
+  @IsOptional()
+  @Matches(/^[A-Z]{2}(,[A-Z]{2})*$/, {
+    message: "regionRestrictions must be comma-separated ISO country codes",
+  })
+  regionRestrictions?: string;
+
+  // === Music ===
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  artist?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  album?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  genre?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  releasedAt?: Date;
+
+  // === Music and Video ===
+
+  /** Duration in seconds. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  duration?: number;
+
+  // === Photo ===
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  width?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  height?: number;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  capturedAt?: Date;
+
+  // === Video ===
+
+  @IsOptional()
+  @Matches(/^\d+x\d+$/, { message: "resolution must look like 1920x1080" })
+  resolution?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  codec?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  frameRate?: number;
+}
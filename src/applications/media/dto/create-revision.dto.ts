@@ -0,0 +1,62 @@
+import { Type } from "class-transformer";
+import {
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from "class-validator";
+
+/**
+ * Technical fields for a new version of a media item, sent as multipart form
+ * fields next to the file. Fields that are left out keep their current value.
+ */
+export class CreateRevisionDto {
+  /** What changed in this version. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+
+  // === Music and Video ===
+
+  /** Duration in seconds. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  duration?: number;
+
+  // === Photo ===
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  width?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  height?: number;
+
+  // === Video ===
+
+  @IsOptional()
+  @Matches(/^\d+x\d+$/, { message: "resolution must look like 1920x1080" })
+  resolution?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  codec?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  frameRate?: number;
+}
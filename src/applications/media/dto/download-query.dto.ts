@@ -0,0 +1,26 @@
+import { Type } from "class-transformer";
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from "class-validator";
+
+/**
+ * The query string of a signed download link.
+ */
+export class DownloadQueryDto {
+  /** Unix time in seconds after which the link is refused. */
+  @Type(() => Number)
+  @IsInt()
+  expires: number;
+
+  @IsOptional()
+  @IsUUID()
+  device?: string;
+
+  @IsString()
+  @MaxLength(100)
+  signature: string;
+}
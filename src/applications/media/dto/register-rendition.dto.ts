@@ -0,0 +1,93 @@
+import {
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+import { RenditionContainer } from "../../../domain/media/entities/media-rendition.entity";
+
+/** A plain file name: no directories and nothing that escapes the prefix. */
+const FILE_NAME = /^(?!\.\.?$)[^/\\]+$/;
+
+/**
+ * Registers a rendition whose segment files were already written to storage,
+ * e.g. by an external encoder.
+ */
+export class RegisterRenditionDto {
+  @IsString()
+  @MaxLength(50)
+  label: string;
+
+  /** Peak bitrate in bits per second. */
+  @IsInt()
+  @Min(1)
+  bandwidth: number;
+
+  /** RFC 6381 codecs, e.g. "avc1.64001f,mp4a.40.2". */
+  @Matches(/^[\w.-]+(,[\w.-]+)*$/, {
+    message: "codecs must be a comma-separated list like avc1.64001f,mp4a.40.2",
+  })
+  @MaxLength(100)
+  codecs: string;
+
+  // === Video ===
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  width?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  height?: number;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(1)
+  frameRate?: number;
+
+  // === Segments ===
+
+  @IsEnum(RenditionContainer)
+  container: RenditionContainer;
+
+  /**
+   * The storage key prefix the segment files were written under. It must be
+   * within the item's rendition root, `renditions/<kind>/<uuid>/`.
+   */
+  @Matches(/^(?!.*\.\.)[\w./-]+$/, {
+    message: "storagePrefix may only contain letters, digits, _ . / and -",
+  })
+  @MaxLength(255)
+  storagePrefix: string;
+
+  /** File name of the initialization segment; required for fmp4. */
+  @IsOptional()
+  @Matches(FILE_NAME, { message: "initSegment must be a plain file name" })
+  @MaxLength(255)
+  initSegment?: string;
+
+  /** File name of the media segments, e.g. "segment-$Number%05d$.m4s". */
+  @Matches(FILE_NAME, { message: "segmentTemplate must be a plain file name" })
+  @Matches(/\$Number(%0\d+d)?\$/, {
+    message: "segmentTemplate must contain $Number$",
+  })
+  @MaxLength(255)
+  segmentTemplate: string;
+
+  /** Duration of each segment in milliseconds. */
+  @IsInt()
+  @Min(100)
+  @Max(60_000)
+  segmentDuration: number;
+
+  @IsInt()
+  @Min(1)
+  segmentCount: number;
+}
@@ -0,0 +1,21 @@
+import { IsIn, IsOptional, IsUUID } from "class-validator";
+import { InteractionType } from "../../../domain/media/entities/media.interaction.entity";
+
+/**
+ * Interactions that clients report themselves. Playback is counted by the
+ * server and purchases by checkout.
+ */
+export const REPORTABLE_INTERACTIONS = [
+  InteractionType.SEEN,
+  InteractionType.COMPLETED,
+] as const;
+
+export class ReportInteractionDto {
+  @IsIn(REPORTABLE_INTERACTIONS)
+  type: (typeof REPORTABLE_INTERACTIONS)[number];
+
+  /** The playlist the media was viewed in, if any. */
+  @IsOptional()
+  @IsUUID()
+  playlistUuid?: string;
+}
@@ -0,0 +1,19 @@
+import { Type } from "class-transformer";
+import { IsInt, IsString, MaxLength, Min } from "class-validator";
+import { CreateMediaDto } from "./create-media.dto";
+
+/**
+ * Starts a resumable upload. The media fields are kept until the last chunk
+ * arrives and the upload is completed.
+ */
+export class StartUploadDto extends CreateMediaDto {
+  @IsString()
+  @MaxLength(255)
+  filename: string;
+
+  /** Size of the complete file in bytes. */
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  totalSize: number;
+}
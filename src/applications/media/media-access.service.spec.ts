@@ -0,0 +1,66 @@
+import { NotFoundException } from "@nestjs/common";
+import { MediaAccessService } from "./media-access.service";
+import { EntitlementService } from "../commerce/entitlement.service";
+import { GeoPolicyService } from "../geo/geo-policy.service";
+import { StudioAccessService } from "../studio/studio-access.service";
+import { MediaStatus } from "../../domain/entities/base";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+import {
+  MediaDomainService,
+  MediaItem,
+} from "../../domain/media/services/media.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+
+describe("MediaAccessService", () => {
+  const media = { findByUuid: jest.fn() };
+  const geo = {
+    filterAvailable: jest.fn(async (entries: MediaItem[]) => entries),
+  };
+  const studios = { can: jest.fn().mockResolvedValue(false) };
+  const service = new MediaAccessService(
+    media as unknown as MediaRepository,
+    new MediaDomainService(),
+    {} as EntitlementService,
+    geo as unknown as GeoPolicyService,
+    studios as unknown as StudioAccessService,
+  );
+  const user = Object.assign(new User(), { uuid: "u1" });
+  const region: ViewerRegion = { country: "DE", simulated: false };
+  const item = (status: MediaStatus) =>
+    ({ uuid: "m1", studioUuid: "s1", status }) as MediaItem;
+
+  const find = () => service.getVisibleItem(user, region, "video", "m1");
+
+  beforeEach(() => jest.clearAllMocks());
+
+  describe("getVisibleItem", () => {
+    it("finds active media offered in the viewer's region", async () => {
+      const active = item(MediaStatus.ACTIVE);
+      media.findByUuid.mockResolvedValueOnce(active);
+
+      await expect(find()).resolves.toBe(active);
+    });
+
+    it("hides media that is not active", async () => {
+      media.findByUuid.mockResolvedValueOnce(item(MediaStatus.ARCHIVED));
+
+      await expect(find()).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it("hides media blocked in the viewer's region", async () => {
+      media.findByUuid.mockResolvedValueOnce(item(MediaStatus.ACTIVE));
+      geo.filterAvailable.mockResolvedValueOnce([]);
+
+      await expect(find()).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it("shows every item to members who manage the studio's media", async () => {
+      const archived = item(MediaStatus.ARCHIVED);
+      media.findByUuid.mockResolvedValueOnce(archived);
+      studios.can.mockResolvedValueOnce(true);
+
+      await expect(find()).resolves.toBe(archived);
+    });
+  });
+});
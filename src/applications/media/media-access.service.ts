@@ -0,0 +1,91 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { MediaStatus } from "../../domain/entities/base";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+import {
+  MediaDomainService,
+  MediaItem,
+  MediaKind,
+} from "../../domain/media/services/media.domain-service";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { EntitlementService } from "../commerce/entitlement.service";
+import { GeoPolicyService } from "../geo/geo-policy.service";
+import { StudioAccessService } from "../studio/studio-access.service";
+
+/**
+ * Decides whether a viewer may see or play a media item. Item pages,
+ * playback and everything viewers report about it check through this
+ * service.
+ */
+@Injectable()
+export class MediaAccessService {
+  constructor(
+    private readonly mediaRepository: MediaRepository,
+    private readonly mediaDomainService: MediaDomainService,
+    private readonly entitlementService: EntitlementService,
+    private readonly geoPolicyService: GeoPolicyService,
+    private readonly studioAccessService: StudioAccessService,
+  ) {}
+
+  /**
+   * Loads an item as `user` may see it. Members who manage the studio's
+   * media find every item; everyone else only active media offered in their
+   * `region`.
+   */
+  async getVisibleItem(
+    user: User,
+    region: ViewerRegion,
+    kind: MediaKind,
+    uuid: string,
+  ): Promise<MediaItem> {
+    const item = await this.mediaRepository.findByUuid(kind, uuid);
+    if (!item) {
+      throw new NotFoundException("Media not found");
+    }
+    if (
+      await this.studioAccessService.can(
+        user,
+        item.studioUuid,
+        StudioPermission.MANAGE_MEDIA,
+      )
+    ) {
+      return item;
+    }
+    const [visible] =
+      item.status === MediaStatus.ACTIVE
+        ? await this.geoPolicyService.filterAvailable([item], (i) => i, region)
+        : [];
+    if (!visible) {
+      throw new NotFoundException("Media not found");
+    }
+    return item;
+  }
+
+  /**
+   * Loads an item the user may play: one that allows streaming, is active,
+   * is offered in the viewer's region, and is free or was bought.
+   */
+  async getPlayableItem(
+    user: User,
+    region: ViewerRegion,
+    kind: MediaKind,
+    uuid: string,
+  ): Promise<MediaItem> {
+    const item = await this.mediaRepository.findByUuid(kind, uuid);
+    if (!item) {
+      throw new NotFoundException("Media not found");
+    }
+    const refusal = this.mediaDomainService.streamingRefusal(item);
+    if (refusal) {
+      throw new ForbiddenException(refusal);
+    }
+    await this.geoPolicyService.assertAvailable(item, region);
+    await this.entitlementService.assertAccess(user, kind, item);
+    return item;
+  }
+}
@@ -0,0 +1,178 @@
+import {
+  ForbiddenException,
+  GoneException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+import {
+  MediaDomainService,
+  MediaItem,
+  MediaKind,
+} from "../../domain/media/services/media.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { UserSession } from "../../domain/user/entities/session.entity";
+import { DownloadLinkSigner } from "../../infrastructure/auth/download-link.signer";
+import { attachment } from "../../infrastructure/http/content-disposition";
+import { DeviceRepository } from "../../infrastructure/repositories/device.repository";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { EntitlementService } from "../commerce/entitlement.service";
+import { GeoPolicyService } from "../geo/geo-policy.service";
+import { CreateDownloadLinkDto } from "./dto/create-download-link.dto";
+import { DownloadQueryDto } from "./dto/download-query.dto";
+import {
+  MediaStreamingService,
+  StreamRequestHeaders,
+  StreamResponse,
+} from "./media-streaming.service";
+import { mediaConfig } from "./media.config";
+
+export interface DownloadLink {
+  /** Path of the download, relative to the API root. */
+  url: string;
+  expiresAt: Date;
+}
+
+/**
+ * Application service for downloading the original file of a media item.
+ * Files are only reached through short-lived signed links, issued to users
+ * who may download the item and valid only for them (and, if asked, one of
+ * their devices). Every fully delivered download is counted.
+ */
+@Injectable()
+export class MediaDownloadService {
+  private readonly logger = new Logger(MediaDownloadService.name);
+
+  constructor(
+    private readonly mediaRepository: MediaRepository,
+    private readonly deviceRepository: DeviceRepository,
+    private readonly mediaDomainService: MediaDomainService,
+    private readonly mediaStreamingService: MediaStreamingService,
+    private readonly downloadLinkSigner: DownloadLinkSigner,
+    private readonly entitlementService: EntitlementService,
+    private readonly geoPolicyService: GeoPolicyService,
+  ) {}
+
+  async createLink(
+    user: User,
+    region: ViewerRegion,
+    kind: MediaKind,
+    uuid: string,
+    dto: CreateDownloadLinkDto,
+    now: Date = new Date(),
+  ): Promise<DownloadLink> {
+    await this.getDownloadableItem(user, region, kind, uuid);
+    if (dto.deviceUuid) {
+      const device = await this.deviceRepository.findForUser(
+        user.uuid,
+        dto.deviceUuid,
+      );
+      if (!device?.active) {
+        throw new NotFoundException("Device not found");
+      }
+    }
+    const expires =
+      Math.floor(now.getTime() / 1000) + mediaConfig.downloadLinkTtl;
+    const deviceUuid = dto.deviceUuid ?? null;
+    const signature = this.downloadLinkSigner.sign({
+      kind,
+      uuid,
+      userUuid: user.uuid,
+      deviceUuid,
+      expires,
+    });
+    const query = new URLSearchParams({ expires: String(expires) });
+    if (deviceUuid) {
+      query.set("device", deviceUuid);
+    }
+    query.set("signature", signature);
+    return {
+      url: `/media/${kind}/${uuid}/download?${query}`,
+      expiresAt: new Date(expires * 1000),
+    };
+  }
+
+  /**
+   * Serves the file behind a signed link as an attachment. Range requests
+   * are honoured so interrupted downloads can be resumed.
+   */
+  async download(
+    user: User,
+    session: UserSession,
+    region: ViewerRegion,
+    kind: MediaKind,
+    uuid: string,
+    query: DownloadQueryDto,
+    headers: StreamRequestHeaders,
+    now: Date = new Date(),
+  ): Promise<StreamResponse> {
+    const deviceUuid = query.device ?? null;
+    const valid = this.downloadLinkSigner.verify(
+      { kind, uuid, userUuid: user.uuid, deviceUuid, expires: query.expires },
+      query.signature,
+    );
+    if (!valid) {
+      throw new ForbiddenException("This download link is not valid for you");
+    }
+    if (query.expires <= now.getTime() / 1000) {
+      throw new GoneException("This download link has expired");
+    }
+    if (deviceUuid) {
+      const device = await this.deviceRepository.findBySession(session.uuid);
+      if (device?.uuid !== deviceUuid) {
+        throw new ForbiddenException(
+          "This download link is for another device",
+        );
+      }
+    }
+
+    const item = await this.getDownloadableItem(user, region, kind, uuid);
+    const response = await this.mediaStreamingService.respond(
+      {
+        storagePath: item.storagePath,
+        fileSize: item.fileSize,
+        checksum: item.checksum,
+        mimeType: item.mimeType,
+        lastModified: item.updatedAt,
+      },
+      headers,
+      undefined,
+      () =>
+        void this.mediaRepository
+          .recordDownload(kind, uuid, new Date())
+          .catch((error) =>
+            this.logger.warn(
+              `Could not count download of ${kind} ${uuid}: ${error}`,
+            ),
+          ),
+    );
+    response.headers["Content-Disposition"] = attachment(
+      this.mediaDomainService.downloadFileName(item),
+    );
+    return response;
+  }
+
+  /**
+   * Loads an item the user may download: one that allows downloads, is
+   * active, is offered in the viewer's region, and is free or was bought.
+   */
+  private async getDownloadableItem(
+    user: User,
+    region: ViewerRegion,
+    kind: MediaKind,
+    uuid: string,
+  ): Promise<MediaItem> {
+    const item = await this.mediaRepository.findByUuid(kind, uuid);
+    if (!item) {
+      throw new NotFoundException("Media not found");
+    }
+    const refusal = this.mediaDomainService.downloadRefusal(item);
+    if (refusal) {
+      throw new ForbiddenException(refusal);
+    }
+    await this.geoPolicyService.assertAvailable(item, region);
+    await this.entitlementService.assertAccess(user, kind, item);
+    return item;
+  }
+}
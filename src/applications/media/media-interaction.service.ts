@@ -0,0 +1,89 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+import { MediaKind } from "../../domain/media/services/media.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { MediaInteractionRepository } from "../../infrastructure/repositories/media-interaction.repository";
+import { PlaylistRepository } from "../../infrastructure/repositories/playlist.repository";
+import { ReportInteractionDto } from "./dto/report-interaction.dto";
+import { MediaAccessService } from "./media-access.service";
+import { mediaConfig } from "./media.config";
+
+/**
+ * Application service for interactions reported by clients, such as a photo
+ * being seen or playback reaching the end. Only media the user may play is
+ * counted, and like server-counted views, a report repeated within the
+ * dedupe window is only recorded once.
+ */
+@Injectable()
+export class MediaInteractionService {
+  constructor(
+    private readonly mediaAccessService: MediaAccessService,
+    private readonly mediaInteractionRepository: MediaInteractionRepository,
+    private readonly playlistRepository: PlaylistRepository,
+  ) {}
+
+  /**
+   * Records the interaction. A playlist given with it must contain the
+   * media item.
+   */
+  async report(
+    user: User,
+    region: ViewerRegion,
+    kind: MediaKind,
+    uuid: string,
+    dto: ReportInteractionDto,
+    now: Date = new Date(),
+  ): Promise<void> {
+    const item = await this.mediaAccessService.getPlayableItem(
+      user,
+      region,
+      kind,
+      uuid,
+    );
+    const playlistUuid = dto.playlistUuid ?? null;
+    if (playlistUuid) {
+      await this.assertInPlaylist(playlistUuid, kind, uuid);
+    }
+
+    const since = new Date(now.getTime() - mediaConfig.viewDedupeWindow * 1000);
+    const reported = await this.mediaInteractionRepository.existsSince(
+      {
+        type: dto.type,
+        userUuid: user.uuid,
+        kind,
+        mediaUuid: uuid,
+        playlistUuid,
+      },
+      since,
+    );
+    if (reported) {
+      return;
+    }
+    await this.mediaInteractionRepository.insert([
+      {
+        interactionType: dto.type,
+        timestamp: now,
+        user,
+        [kind]: item,
+        playlist: playlistUuid ? { uuid: playlistUuid } : null,
+      },
+    ]);
+  }
+
+  private async assertInPlaylist(
+    playlistUuid: string,
+    kind: MediaKind,
+    uuid: string,
+  ): Promise<void> {
+    if (!(await this.playlistRepository.findWithStudio(playlistUuid))) {
+      throw new NotFoundException("Playlist not found");
+    }
+    if (!(await this.playlistRepository.hasMedia(playlistUuid, kind, uuid))) {
+      throw new BadRequestException("The media is not in this playlist");
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import {
+  ConflictException,
+  GoneException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { MediaStatus } from "../../domain/entities/base";
+import {
+  MediaDomainService,
+  MediaItem,
+  MediaKind,
+} from "../../domain/media/services/media.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { StudioAccessService } from "../studio/studio-access.service";
+import { mediaConfig } from "./media.config";
+
+/**
+ * Application service for archiving, deleting and restoring media items.
+ * Deleted items are soft-deleted and can be restored until the retention
+ * window ends, after which MediaPurgeService removes them for good.
+ */
+@Injectable()
+export class MediaLifecycleService {
+  constructor(
+    private readonly mediaRepository: MediaRepository,
+    private readonly studioAccessService: StudioAccessService,
+    private readonly mediaDomainService: MediaDomainService,
+  ) {}
+
+  async archive(user: User, kind: MediaKind, uuid: string): Promise<MediaItem> {
+    const item = await this.studioAccessService.getManagedItem(
+      user,
+      kind,
+      uuid,
+      {
+        withDeleted: true,
+      },
+    );
+    this.assertCanChange(item, MediaStatus.ARCHIVED);
+    await this.mediaRepository.updateLifecycle(kind, uuid, {
+      status: MediaStatus.ARCHIVED,
+      archivedAt: new Date(),
+      deletedAt: null,
+    });
+    return this.reload(kind, uuid);
+  }
+
+  async delete(user: User, kind: MediaKind, uuid: string): Promise<void> {
+    const item = await this.studioAccessService.getManagedItem(
+      user,
+      kind,
+      uuid,
+      {
+        withDeleted: true,
+      },
+    );
+    this.assertCanChange(item, MediaStatus.DELETED);
+    await this.mediaRepository.updateLifecycle(kind, uuid, {
+      status: MediaStatus.DELETED,
+      archivedAt: item.archivedAt,
+      deletedAt: new Date(),
+    });
+  }
+
+  /**
+   * Brings an archived or deleted item back to active.
+   */
+  async restore(user: User, kind: MediaKind, uuid: string): Promise<MediaItem> {
+    const item = await this.studioAccessService.getManagedItem(
+      user,
+      kind,
+      uuid,
+      {
+        withDeleted: true,
+      },
+    );
+    this.assertCanChange(item, MediaStatus.ACTIVE);
+    if (
+      !this.mediaDomainService.isRestorable(item, mediaConfig.retentionDays)
+    ) {
+      throw new GoneException("The retention period for this media has ended");
+    }
+    await this.mediaRepository.updateLifecycle(kind, uuid, {
+      status: MediaStatus.ACTIVE,
+      archivedAt: null,
+      deletedAt: null,
+    });
+    return this.reload(kind, uuid);
+  }
+
+  private assertCanChange(item: MediaItem, to: MediaStatus) {
+    if (!this.mediaDomainService.canChangeStatus(item.status, to)) {
+      throw new ConflictException(`Media is already ${item.status}`);
+    }
+  }
+
+  private async reload(kind: MediaKind, uuid: string): Promise<MediaItem> {
+    const item = await this.mediaRepository.findByUuid(kind, uuid);
+    if (!item) {
+      throw new NotFoundException("Media not found");
+    }
+    return item;
+  }
+}
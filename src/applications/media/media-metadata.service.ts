@@ -0,0 +1,78 @@
+import { Inject, Injectable } from "@nestjs/common";
+import {
+  MEDIA_SNIFF_LENGTH,
+  MediaDomainService,
+  MediaItem,
+  MediaKind,
+} from "../../domain/media/services/media.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { MediaRevisionRepository } from "../../infrastructure/repositories/media-revision.repository";
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from "../../infrastructure/storage/storage-driver";
+import { storageSource } from "../../infrastructure/metadata/byte-source";
+import { MetadataExtractor } from "../../infrastructure/metadata/metadata-extractor";
+import { StudioAccessService } from "../studio/studio-access.service";
+
+/**
+ * Application service for refreshing the metadata of stored media, e.g.
+ * for items uploaded before extraction existed or after a parser was fixed.
+ */
+@Injectable()
+export class MediaMetadataService {
+  constructor(
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver,
+    private readonly mediaRepository: MediaRepository,
+    private readonly mediaRevisionRepository: MediaRevisionRepository,
+    private readonly studioAccessService: StudioAccessService,
+    private readonly mediaDomainService: MediaDomainService,
+    private readonly metadataExtractor: MetadataExtractor,
+  ) {}
+
+  /**
+   * Reads the current file of an item again and updates its technical
+   * fields, along with the technical snapshot of its current revision.
+   */
+  async rescan(user: User, kind: MediaKind, uuid: string): Promise<MediaItem> {
+    const item = await this.studioAccessService.getManagedItem(
+      user,
+      kind,
+      uuid,
+    );
+    const source = storageSource(this.storage, item.storagePath, item.fileSize);
+    const detected = this.mediaDomainService.detectMediaType(
+      await source.read(0, MEDIA_SNIFF_LENGTH),
+    );
+    const extracted =
+      detected?.kind === kind
+        ? await this.metadataExtractor.extract(source, detected)
+        : null;
+    const metadata = this.mediaDomainService.applyMetadata(
+      kind,
+      item as unknown as Record<string, unknown>,
+      extracted,
+    );
+
+    Object.assign(item, metadata.fields, {
+      metadataStatus: metadata.status,
+      metadataScannedAt: new Date(),
+    });
+    const saved = await this.mediaRepository.save(item);
+
+    const revision = await this.mediaRevisionRepository.findVersion(
+      kind,
+      uuid,
+      saved.version,
+    );
+    if (revision) {
+      revision.technical = this.mediaDomainService.revisionSnapshot(
+        kind,
+        saved,
+      ).technical;
+      await this.mediaRevisionRepository.save(revision);
+    }
+    return saved;
+  }
+}
@@ -0,0 +1,138 @@
+import { Logger } from "@nestjs/common";
+import { MediaPurgeService } from "./media-purge.service";
+import {
+  MediaDomainService,
+  MediaItem,
+} from "../../domain/media/services/media.domain-service";
+import { StreamingDomainService } from "../../domain/media/services/streaming.domain-service";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { MediaRevisionRepository } from "../../infrastructure/repositories/media-revision.repository";
+import { MediaRenditionRepository } from "../../infrastructure/repositories/media-rendition.repository";
+import { StorageDriver } from "../../infrastructure/storage/storage-driver";
+
+describe("MediaPurgeService", () => {
+  const calls: string[] = [];
+  const storage = {
+    delete: jest.fn(async (key: string) => {
+      calls.push(`file ${key}`);
+    }),
+  };
+  const media = {
+    findDeletedBefore: jest.fn(),
+    hardDelete: jest.fn(async (kind: string, uuid: string) => {
+      calls.push(`row ${kind}:${uuid}`);
+    }),
+  };
+  const revisions = {
+    findForMedia: jest.fn().mockResolvedValue([]),
+  };
+  const renditions = {
+    findForMedia: jest.fn().mockResolvedValue([]),
+  };
+  const service = new MediaPurgeService(
+    storage as unknown as StorageDriver,
+    media as unknown as MediaRepository,
+    revisions as unknown as MediaRevisionRepository,
+    renditions as unknown as MediaRenditionRepository,
+    new MediaDomainService(),
+    new StreamingDomainService(),
+  );
+  const item = (uuid: string) =>
+    ({ uuid, storagePath: `music/${uuid}.mp3` }) as MediaItem;
+
+  /** Serves `expired` music; the other kinds have nothing to purge. */
+  const expire = (...expired: MediaItem[]) =>
+    media.findDeletedBefore.mockImplementation(
+      async (kind: string, _cutoff: Date, _limit: number, exclude = []) =>
+        kind === "music"
+          ? expired.filter((entry) => !exclude.includes(entry.uuid))
+          : [],
+    );
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    calls.length = 0;
+  });
+
+  it("deletes the row before the files of every revision", async () => {
+    expire(item("a"));
+    revisions.findForMedia.mockResolvedValueOnce([
+      { storagePath: "music/a.mp3" },
+      { storagePath: "music/a-v1.mp3" },
+    ]);
+
+    await expect(service.purge()).resolves.toBe(1);
+    expect(calls).toEqual([
+      "row music:a",
+      "file music/a.mp3",
+      "file music/a-v1.mp3",
+    ]);
+  });
+
+  it("deletes the segments of renditions within the item's root", async () => {
+    expire(item("a"));
+    renditions.findForMedia.mockResolvedValueOnce([
+      {
+        storagePrefix: "renditions/music/a/128k/",
+        initSegment: "init.mp4",
+        segmentTemplate: "$Number$.m4s",
+        segmentCount: 2,
+      },
+      {
+        storagePrefix: "media",
+        initSegment: null,
+        segmentTemplate: "$Number$.ts",
+        segmentCount: 1,
+      },
+    ]);
+
+    await expect(service.purge()).resolves.toBe(1);
+    expect(calls).toEqual([
+      "row music:a",
+      "file music/a.mp3",
+      "file renditions/music/a/128k/init.mp4",
+      "file renditions/music/a/128k/1.m4s",
+      "file renditions/music/a/128k/2.m4s",
+    ]);
+  });
+
+  it("keeps the files of an item whose row cannot be deleted", async () => {
+    expire(item("a"));
+    media.hardDelete.mockRejectedValueOnce(new Error("foreign key"));
+
+    await expect(service.purge()).resolves.toBe(0);
+    expect(storage.delete).not.toHaveBeenCalled();
+  });
+
+  it("skips failed items until the rest of their kind is purged", async () => {
+    const stuck = item("stuck");
+    media.hardDelete.mockRejectedValueOnce(new Error("foreign key"));
+    expire(stuck);
+    await service.purge();
+
+    expire(stuck, item("b"));
+    await expect(service.purge()).resolves.toBe(1);
+    expect(calls).toEqual(["row music:b", "file music/b.mp3"]);
+
+    expire(stuck);
+    await expect(service.purge()).resolves.toBe(1);
+    expect(calls).toContain("row music:stuck");
+  });
+
+  it("logs a failed lookup instead of rejecting", async () => {
+    media.findDeletedBefore.mockRejectedValueOnce(new Error("connection lost"));
+
+    await expect(service.purge()).resolves.toBe(0);
+    expect(media.hardDelete).not.toHaveBeenCalled();
+  });
+
+  it("counts an item as purged when one of its files cannot be removed", async () => {
+    expire(item("a"));
+    storage.delete.mockRejectedValueOnce(new Error("unavailable"));
+
+    await expect(service.purge()).resolves.toBe(1);
+    expect(media.hardDelete).toHaveBeenCalledWith("music", "a");
+  });
+});
@@ -0,0 +1,187 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from "@nestjs/common";
+import {
+  MEDIA_KINDS,
+  MediaDomainService,
+  MediaItem,
+  MediaKind,
+  STREAMABLE_KINDS,
+} from "../../domain/media/services/media.domain-service";
+import { StreamingDomainService } from "../../domain/media/services/streaming.domain-service";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { MediaRevisionRepository } from "../../infrastructure/repositories/media-revision.repository";
+import { MediaRenditionRepository } from "../../infrastructure/repositories/media-rendition.repository";
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from "../../infrastructure/storage/storage-driver";
+import { mediaConfig } from "./media.config";
+
+/**
+ * Permanently removes media items that were deleted longer ago than the
+ * retention window: first the row, then the stored files of all its
+ * revisions and the segment files of its renditions. A file that cannot be
+ * removed is logged and left behind, so an item is never left restorable
+ * without its files. An item whose row cannot be deleted is skipped until
+ * the rest of its kind has been purged, so it does not hold up the items
+ * behind it.
+ */
+@Injectable()
+export class MediaPurgeService implements OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new Logger(MediaPurgeService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  /** UUIDs per kind whose row could not be deleted. */
+  private readonly failed = new Map<MediaKind, Set<string>>(
+    MEDIA_KINDS.map((kind) => [kind, new Set()]),
+  );
+
+  constructor(
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver,
+    private readonly mediaRepository: MediaRepository,
+    private readonly mediaRevisionRepository: MediaRevisionRepository,
+    private readonly mediaRenditionRepository: MediaRenditionRepository,
+    private readonly mediaDomainService: MediaDomainService,
+    private readonly streamingDomainService: StreamingDomainService,
+  ) {}
+
+  onModuleInit() {
+    this.timer = setInterval(
+      () => void this.purge(),
+      mediaConfig.purgeInterval * 1000,
+    );
+    this.timer.unref();
+  }
+
+  onApplicationShutdown() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Purges one batch of expired items per media kind.
+   * @returns {number} How many items were purged.
+   */
+  async purge(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+    this.running = true;
+    const cutoff = this.mediaDomainService.retentionCutoff(
+      mediaConfig.retentionDays,
+      now,
+    );
+    let purged = 0;
+    try {
+      for (const kind of MEDIA_KINDS) {
+        for (const item of await this.findExpired(kind, cutoff)) {
+          if (await this.purgeItem(kind, item)) {
+            purged += 1;
+          }
+        }
+      }
+    } catch (error) {
+      this.logger.error("Media purge failed", error);
+    } finally {
+      this.running = false;
+    }
+    return purged;
+  }
+
+  /**
+   * The next batch of expired items of `kind`. Items that failed before are
+   * only retried once nothing else is left.
+   */
+  private async findExpired(
+    kind: MediaKind,
+    cutoff: Date,
+  ): Promise<MediaItem[]> {
+    const failed = this.failed.get(kind) as Set<string>;
+    const items = await this.mediaRepository.findDeletedBefore(
+      kind,
+      cutoff,
+      mediaConfig.purgeBatchSize,
+      [...failed],
+    );
+    if (items.length || !failed.size) {
+      return items;
+    }
+    failed.clear();
+    return this.mediaRepository.findDeletedBefore(
+      kind,
+      cutoff,
+      mediaConfig.purgeBatchSize,
+    );
+  }
+
+  /**
+   * @returns {Promise<boolean>} Whether the row was deleted.
+   */
+  private async purgeItem(kind: MediaKind, item: MediaItem): Promise<boolean> {
+    const { uuid } = item;
+    let keys: Set<string>;
+    try {
+      const revisions = await this.mediaRevisionRepository.findForMedia(
+        kind,
+        uuid,
+      );
+      keys = new Set([
+        item.storagePath,
+        ...revisions.map((revision) => revision.storagePath),
+        ...(await this.segmentKeys(kind, uuid)),
+      ]);
+      await this.mediaRepository.hardDelete(kind, uuid);
+    } catch (error) {
+      this.failed.get(kind)?.add(uuid);
+      this.logger.error(`Failed to purge ${kind}:${uuid}`, error);
+      return false;
+    }
+    this.failed.get(kind)?.delete(uuid);
+    for (const key of keys) {
+      try {
+        await this.storage.delete(key);
+      } catch (error) {
+        this.logger.error(
+          `Failed to delete file ${key} of purged ${kind}:${uuid}`,
+          error,
+        );
+      }
+    }
+    return true;
+  }
+
+  /**
+   * The segment files of every rendition of the item, of any version. Files
+   * outside the item's rendition root are not its own and are left alone.
+   */
+  private async segmentKeys(kind: MediaKind, uuid: string): Promise<string[]> {
+    if (!STREAMABLE_KINDS.includes(kind)) {
+      return [];
+    }
+    const renditions = await this.mediaRenditionRepository.findForMedia(
+      kind,
+      uuid,
+    );
+    return renditions
+      .filter((rendition) =>
+        this.streamingDomainService.isWithinRoot(
+          rendition.storagePrefix,
+          kind,
+          uuid,
+        ),
+      )
+      .flatMap((rendition) =>
+        this.streamingDomainService
+          .segmentNames(rendition)
+          .map((name) =>
+            this.streamingDomainService.segmentKey(rendition, name),
+          ),
+      );
+  }
+}
@@ -0,0 +1,164 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { MediaRendition } from "../../domain/media/entities/media-rendition.entity";
+import {
+  MediaItem,
+  MediaKind,
+  STREAMABLE_KINDS,
+} from "../../domain/media/services/media.domain-service";
+import { StreamingDomainService } from "../../domain/media/services/streaming.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { MediaRenditionRepository } from "../../infrastructure/repositories/media-rendition.repository";
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from "../../infrastructure/storage/storage-driver";
+import { StudioAccessService } from "../studio/studio-access.service";
+import { RegisterRenditionDto } from "./dto/register-rendition.dto";
+
+/**
+ * Application service for managing the adaptive streaming renditions of
+ * music and videos. Segment files are produced and stored by an external
+ * encoder under the item's rendition root; this service only records them,
+ * and leaves them in storage when a rendition is removed. They are deleted
+ * with the item when it is purged.
+ */
+@Injectable()
+export class MediaRenditionService {
+  constructor(
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver,
+    private readonly mediaRepository: MediaRepository,
+    private readonly mediaRenditionRepository: MediaRenditionRepository,
+    private readonly studioAccessService: StudioAccessService,
+    private readonly streamingDomainService: StreamingDomainService,
+  ) {}
+
+  /**
+   * Every rendition of the item, including those of other versions than
+   * the current one.
+   */
+  async list(
+    user: User,
+    kind: MediaKind,
+    uuid: string,
+  ): Promise<MediaRendition[]> {
+    await this.studioAccessService.getManagedItem(user, kind, uuid);
+    return this.mediaRenditionRepository.findForMedia(kind, uuid);
+  }
+
+  /**
+   * Registers a rendition of the item's current version after checking that
+   * its files are under the item's rendition root and that its first and
+   * last segments (and its initialization segment) are in storage.
+   */
+  async register(
+    user: User,
+    kind: MediaKind,
+    uuid: string,
+    dto: RegisterRenditionDto,
+  ): Promise<MediaRendition> {
+    if (!STREAMABLE_KINDS.includes(kind)) {
+      throw new BadRequestException(`${kind} cannot be streamed`);
+    }
+    const item = await this.studioAccessService.getManagedItem(
+      user,
+      kind,
+      uuid,
+    );
+    if (
+      !this.streamingDomainService.isWithinRoot(dto.storagePrefix, kind, uuid)
+    ) {
+      throw new BadRequestException(
+        `storagePrefix must be within ${this.streamingDomainService.renditionRoot(kind, uuid)}`,
+      );
+    }
+    const rendition = this.mediaRenditionRepository.create({
+      mediaKind: kind,
+      [kind]: item,
+      version: item.version,
+      label: dto.label,
+      bandwidth: dto.bandwidth,
+      codecs: dto.codecs,
+      width: dto.width ?? null,
+      height: dto.height ?? null,
+      frameRate: dto.frameRate ?? null,
+      container: dto.container,
+      storagePrefix: dto.storagePrefix,
+      initSegment: dto.initSegment ?? null,
+      segmentTemplate: dto.segmentTemplate,
+      segmentDuration: dto.segmentDuration,
+      segmentCount: dto.segmentCount,
+    });
+    const problem = this.streamingDomainService.renditionProblem(
+      kind,
+      rendition,
+    );
+    if (problem) {
+      throw new BadRequestException(problem);
+    }
+
+    const names = [
+      rendition.initSegment,
+      this.streamingDomainService.segmentName(rendition, 1),
+      this.streamingDomainService.segmentName(
+        rendition,
+        rendition.segmentCount,
+      ),
+    ].filter((name): name is string => !!name);
+    for (const name of new Set(names)) {
+      const key = this.streamingDomainService.segmentKey(rendition, name);
+      if (!(await this.storage.stat(key))) {
+        throw new BadRequestException(`${key} was not found in storage`);
+      }
+    }
+
+    const saved = await this.mediaRenditionRepository.save(rendition);
+    await this.refreshFormats(kind, item);
+    return saved;
+  }
+
+  async remove(
+    user: User,
+    kind: MediaKind,
+    uuid: string,
+    renditionUuid: string,
+  ): Promise<void> {
+    const item = await this.studioAccessService.getManagedItem(
+      user,
+      kind,
+      uuid,
+    );
+    const rendition = await this.mediaRenditionRepository.findOne(
+      kind,
+      uuid,
+      renditionUuid,
+    );
+    if (!rendition) {
+      throw new NotFoundException("Rendition not found");
+    }
+    await this.mediaRenditionRepository.remove(rendition);
+    await this.refreshFormats(kind, item);
+  }
+
+  /**
+   * Lists HLS and DASH in the item's availableFormats while its current
+   * version has renditions that can be played that way.
+   */
+  private async refreshFormats(kind: MediaKind, item: MediaItem) {
+    const renditions = await this.mediaRenditionRepository.findForMedia(
+      kind,
+      item.uuid,
+      item.version,
+    );
+    item.availableFormats = this.streamingDomainService.availableFormats(
+      item.format,
+      renditions,
+    );
+    await this.mediaRepository.save(item);
+  }
+}
@@ -0,0 +1,247 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnsupportedMediaTypeException,
+} from "@nestjs/common";
+import { plainToInstance } from "class-transformer";
+import { validate } from "class-validator";
+import { MediaRevision } from "../../domain/media/entities/media-revision.entity";
+import {
+  MediaDomainService,
+  MediaItem,
+  MediaKind,
+  TECHNICAL_FIELDS,
+} from "../../domain/media/services/media.domain-service";
+import { StreamingDomainService } from "../../domain/media/services/streaming.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { MediaRevisionRepository } from "../../infrastructure/repositories/media-revision.repository";
+import { MediaRenditionRepository } from "../../infrastructure/repositories/media-rendition.repository";
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from "../../infrastructure/storage/storage-driver";
+import { StoredUpload } from "../../infrastructure/storage/driver-storage.engine";
+import { storageSource } from "../../infrastructure/metadata/byte-source";
+import { MetadataExtractor } from "../../infrastructure/metadata/metadata-extractor";
+import { StudioAccessService } from "../studio/studio-access.service";
+import { CreateRevisionDto } from "./dto/create-revision.dto";
+
+/**
+ * Application service for media revisions: uploading a new version of an
+ * existing item and rolling back to an earlier one. The item keeps its uuid,
+ * so play counts and playlist entries carry over between versions, while
+ * its streaming renditions stay with the version they were encoded from.
+ */
+@Injectable()
+export class MediaRevisionService {
+  constructor(
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver,
+    private readonly mediaRepository: MediaRepository,
+    private readonly mediaRevisionRepository: MediaRevisionRepository,
+    private readonly mediaRenditionRepository: MediaRenditionRepository,
+    private readonly studioAccessService: StudioAccessService,
+    private readonly mediaDomainService: MediaDomainService,
+    private readonly streamingDomainService: StreamingDomainService,
+    private readonly metadataExtractor: MetadataExtractor,
+  ) {}
+
+  async list(
+    user: User,
+    kind: MediaKind,
+    uuid: string,
+  ): Promise<MediaRevision[]> {
+    await this.studioAccessService.getManagedItem(user, kind, uuid);
+    return this.mediaRevisionRepository.findForMedia(kind, uuid);
+  }
+
+  async findRevision(
+    user: User,
+    kind: MediaKind,
+    uuid: string,
+    version: number,
+  ): Promise<MediaRevision> {
+    await this.studioAccessService.getManagedItem(user, kind, uuid);
+    const revision = await this.mediaRevisionRepository.findVersion(
+      kind,
+      uuid,
+      version,
+    );
+    if (!revision) {
+      throw new NotFoundException("Revision not found");
+    }
+    return revision;
+  }
+
+  /**
+   * Makes a file that arrived in a multipart request the next version of a
+   * media item. The file is already in storage; it is removed again if the
+   * revision cannot be recorded.
+   */
+  async upload(
+    user: User,
+    kind: MediaKind,
+    uuid: string,
+    file: StoredUpload | undefined,
+    body: Record<string, unknown>,
+  ): Promise<MediaItem> {
+    if (!file) {
+      throw new BadRequestException("A file is required");
+    }
+    try {
+      const dto = await this.toCreateRevisionDto(body);
+      await this.studioAccessService.getManagedItem(user, kind, uuid);
+
+      const detected = this.mediaDomainService.detectMediaType(file.head);
+      if (!detected) {
+        throw new UnsupportedMediaTypeException("Unsupported media file");
+      }
+      if (detected.kind !== kind) {
+        throw new BadRequestException(
+          `A ${kind} item cannot be replaced by a ${detected.kind} file`,
+        );
+      }
+
+      const metadata = this.mediaDomainService.applyMetadata(
+        kind,
+        {},
+        await this.metadataExtractor.extract(
+          storageSource(this.storage, file.storageKey, file.size),
+          detected,
+        ),
+      );
+
+      return await this.revise(kind, uuid, (item, revisions) => {
+        const version =
+          Math.max(item.version, ...revisions.map((r) => r.version)) + 1;
+        const current = this.mediaDomainService.revisionSnapshot(kind, item);
+        const technical = Object.fromEntries(
+          TECHNICAL_FIELDS[kind].map((field) => [
+            field,
+            metadata.fields[field] ??
+              dto[field as keyof CreateRevisionDto] ??
+              current.technical[field],
+          ]),
+        );
+        const revision = this.mediaRevisionRepository.create({
+          mediaKind: kind,
+          [kind]: item,
+          version,
+          storagePath: file.storageKey,
+          storageProvider: this.storage.provider,
+          hostingLocation: this.storage.location,
+          fileSize: file.size,
+          checksum: file.checksum,
+          format: detected.format,
+          mimeType: detected.mimeType,
+          technical,
+          note: dto.note ?? null,
+          createdBy: user,
+        });
+        return {
+          revisions: [...this.missingCurrent(kind, item, revisions), revision],
+          fields: {
+            ...this.mediaDomainService.fieldsFromRevision(revision),
+            version,
+            metadataStatus: metadata.status,
+            metadataScannedAt: new Date(),
+          },
+        };
+      });
+    } catch (error) {
+      await this.storage.delete(file.storageKey);
+      throw error;
+    }
+  }
+
+  /**
+   * Makes an earlier revision the current version again. Later revisions
+   * are kept, so the item can be moved forward again the same way, and the
+   * renditions of the earlier version are played again.
+   */
+  async rollback(
+    user: User,
+    kind: MediaKind,
+    uuid: string,
+    version: number,
+  ): Promise<MediaItem> {
+    await this.studioAccessService.getManagedItem(user, kind, uuid);
+    const renditions = await this.mediaRenditionRepository.findForMedia(
+      kind,
+      uuid,
+      version,
+    );
+    return this.revise(kind, uuid, (item, revisions) => {
+      const target = revisions.find((revision) => revision.version === version);
+      if (!target) {
+        throw new NotFoundException("Revision not found");
+      }
+      if (item.version === version) {
+        throw new ConflictException(`Version ${version} is already current`);
+      }
+      return {
+        revisions: this.missingCurrent(kind, item, revisions),
+        fields: {
+          ...this.mediaDomainService.fieldsFromRevision(
+            target,
+            this.streamingDomainService.availableFormats(
+              target.format,
+              renditions,
+            ),
+          ),
+          version,
+        },
+      };
+    });
+  }
+
+  /**
+   * Items created before revisions were recorded have no revision for their
+   * current version; one is taken from the item before it is replaced.
+   */
+  private missingCurrent(
+    kind: MediaKind,
+    item: MediaItem,
+    revisions: MediaRevision[],
+  ): MediaRevision[] {
+    if (revisions.some((revision) => revision.version === item.version)) {
+      return [];
+    }
+    return [
+      this.mediaRevisionRepository.create({
+        ...this.mediaDomainService.revisionSnapshot(kind, item),
+        mediaKind: kind,
+        [kind]: item,
+        version: item.version,
+      }),
+    ];
+  }
+
+  private async revise(
+    kind: MediaKind,
+    uuid: string,
+    change: Parameters<MediaRevisionRepository["revise"]>[2],
+  ): Promise<MediaItem> {
+    const item = await this.mediaRevisionRepository.revise(kind, uuid, change);
+    if (!item) {
+      throw new NotFoundException("Media not found");
+    }
+    return item;
+  }
+
+  private async toCreateRevisionDto(
+    plain: Record<string, unknown>,
+  ): Promise<CreateRevisionDto> {
+    const dto = plainToInstance(CreateRevisionDto, plain);
+    const errors = await validate(dto, { whitelist: true });
+    if (errors.length) {
+      throw new BadRequestException(
+        errors.flatMap((error) => Object.values(error.constraints ?? {})),
+      );
+    }
+    return dto;
+  }
+}
@@ -0,0 +1,368 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { Readable } from "node:stream";
+import {
+  MediaRendition,
+  RenditionContainer,
+} from "../../domain/media/entities/media-rendition.entity";
+import { Music } from "../../domain/media/entities/music.entity";
+import { Video } from "../../domain/media/entities/video.entity";
+import {
+  MediaItem,
+  MediaKind,
+  STREAMABLE_KINDS,
+} from "../../domain/media/services/media.domain-service";
+import { StreamingDomainService } from "../../domain/media/services/streaming.domain-service";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { MediaRenditionRepository } from "../../infrastructure/repositories/media-rendition.repository";
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from "../../infrastructure/storage/storage-driver";
+import {
+  ConditionalHeaders,
+  entityTag,
+  evaluatePreconditions,
+  ifRangeAllows,
+  parseRange,
+} from "../../infrastructure/http/conditional-request";
+import { MediaViewCounter } from "./media-view-counter.service";
+import { MediaRevisionService } from "./media-revision.service";
+import { MediaAccessService } from "./media-access.service";
+
+/**
+ * What the controller should send back for a playback request.
+ */
+export interface StreamResponse {
+  status: HttpStatus;
+  headers: Record<string, string>;
+  body?: Readable;
+  /** Called once the body has been sent in full. */
+  onComplete?: () => void;
+}
+
+export interface StreamRequestHeaders extends ConditionalHeaders {
+  range?: string;
+}
+
+/**
+ * The stored file behind a response, with its validators.
+ */
+export interface StoredMedia {
+  storagePath: string;
+  fileSize: number;
+  checksum: string | null;
+  mimeType: string;
+  lastModified: Date;
+}
+
+/**
+ * Application service for media playback with byte-range and conditional
+ * request support, either of the file itself or of its adaptive streaming
+ * renditions through HLS and DASH. Priced media is only played for users
+ * entitled to it, and DRM protected media only as its encrypted renditions.
+ */
+@Injectable()
+export class MediaStreamingService {
+  constructor(
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver,
+    private readonly mediaRenditionRepository: MediaRenditionRepository,
+    private readonly streamingDomainService: StreamingDomainService,
+    private readonly mediaViewCounter: MediaViewCounter,
+    private readonly mediaRevisionService: MediaRevisionService,
+    private readonly mediaAccessService: MediaAccessService,
+  ) {}
+
+  async stream(
+    user: User,
+    region: ViewerRegion,
+    kind: MediaKind,
+    uuid: string,
+    headers: StreamRequestHeaders,
+  ): Promise<StreamResponse> {
+    const item = await this.getPlayableItem(user, region, kind, uuid);
+    if (item.drmProtected) {
+      throw new ForbiddenException(
+        "This media is DRM protected and only plays through its renditions",
+      );
+    }
+    return this.respond(
+      {
+        storagePath: item.storagePath,
+        fileSize: item.fileSize,
+        checksum: item.checksum,
+        mimeType: item.mimeType,
+        lastModified: item.updatedAt,
+      },
+      headers,
+      () => this.mediaViewCounter.record(kind, uuid, user.uuid),
+    );
+  }
+
+  /**
+   * The HLS master playlist, listing every rendition of the item's current
+   * version. Fetching it starts a playback, so it counts as a view.
+   */
+  async hlsMasterPlaylist(
+    user: User,
+    region: ViewerRegion,
+    kind: MediaKind,
+    uuid: string,
+  ): Promise<string> {
+    const item = await this.getPlayableItem(user, region, kind, uuid);
+    const renditions = await this.getRenditions(kind, item);
+    if (!renditions.length) {
+      throw new NotFoundException("This media has no renditions");
+    }
+    this.mediaViewCounter.record(kind, uuid, user.uuid);
+    return this.streamingDomainService.hlsMasterPlaylist(
+      renditions.map((rendition) => ({
+        id: rendition.uuid,
+        rendition,
+        uri: `renditions/${rendition.uuid}/playlist.m3u8`,
+      })),
+    );
+  }
+
+  async hlsMediaPlaylist(
+    user: User,
+    region: ViewerRegion,
+    kind: MediaKind,
+    uuid: string,
+    renditionUuid: string,
+  ): Promise<string> {
+    const item = await this.getPlayableItem(user, region, kind, uuid);
+    const rendition = await this.getRendition(kind, item, renditionUuid);
+    return this.streamingDomainService.hlsMediaPlaylist(
+      rendition,
+      "segments/",
+      (item as Music | Video).duration,
+    );
+  }
+
+  /**
+   * The DASH manifest of the item's fragmented MP4 renditions. Like the HLS
+   * master playlist, fetching it counts as a view.
+   */
+  async dashManifest(
+    user: User,
+    region: ViewerRegion,
+    kind: MediaKind,
+    uuid: string,
+  ): Promise<string> {
+    const item = await this.getPlayableItem(user, region, kind, uuid);
+    const renditions = (await this.getRenditions(kind, item)).filter(
+      (rendition) => rendition.container === RenditionContainer.FMP4,
+    );
+    if (!renditions.length) {
+      throw new NotFoundException("This media has no DASH renditions");
+    }
+    this.mediaViewCounter.record(kind, uuid, user.uuid);
+    return this.streamingDomainService.dashManifest(
+      kind,
+      renditions.map((rendition) => ({
+        id: rendition.uuid,
+        rendition,
+        uri: `renditions/${rendition.uuid}/segments/`,
+      })),
+      (item as Music | Video).duration,
+    );
+  }
+
+  /**
+   * Serves an initialization or media segment of a rendition.
+   */
+  async streamSegment(
+    user: User,
+    region: ViewerRegion,
+    kind: MediaKind,
+    uuid: string,
+    renditionUuid: string,
+    name: string,
+    headers: StreamRequestHeaders,
+  ): Promise<StreamResponse> {
+    const item = await this.getPlayableItem(user, region, kind, uuid);
+    const rendition = await this.getRendition(kind, item, renditionUuid);
+    if (!this.streamingDomainService.isSegment(rendition, name)) {
+      throw new NotFoundException("Segment not found");
+    }
+    const key = this.streamingDomainService.segmentKey(rendition, name);
+    const stored = await this.storage.stat(key);
+    if (!stored) {
+      throw new NotFoundException("Segment not found");
+    }
+    return this.respond(
+      {
+        storagePath: key,
+        fileSize: stored.size,
+        checksum: null,
+        mimeType: this.streamingDomainService.segmentMimeType(kind, rendition),
+        lastModified: rendition.updatedAt,
+      },
+      headers,
+    );
+  }
+
+  /**
+   * Serves the file of an earlier revision to the item's owner. Any media
+   * kind can be fetched this way, and it is not counted as a view.
+   */
+  async streamRevision(
+    user: User,
+    kind: MediaKind,
+    uuid: string,
+    version: number,
+    headers: StreamRequestHeaders,
+  ): Promise<StreamResponse> {
+    const revision = await this.mediaRevisionService.findRevision(
+      user,
+      kind,
+      uuid,
+      version,
+    );
+    return this.respond(
+      {
+        storagePath: revision.storagePath,
+        fileSize: revision.fileSize,
+        checksum: revision.checksum,
+        mimeType: revision.mimeType,
+        lastModified: revision.createdAt,
+      },
+      headers,
+    );
+  }
+
+  /**
+   * Loads music or video the user may play.
+   */
+  private async getPlayableItem(
+    user: User,
+    region: ViewerRegion,
+    kind: MediaKind,
+    uuid: string,
+  ) {
+    if (!STREAMABLE_KINDS.includes(kind)) {
+      throw new BadRequestException(`${kind} cannot be streamed`);
+    }
+    return this.mediaAccessService.getPlayableItem(user, region, kind, uuid);
+  }
+
+  /**
+   * The renditions of the item's current version. Renditions of other
+   * versions, and any whose files are outside the item's rendition root,
+   * are never played.
+   */
+  private async getRenditions(
+    kind: MediaKind,
+    item: MediaItem,
+  ): Promise<MediaRendition[]> {
+    const renditions = await this.mediaRenditionRepository.findForMedia(
+      kind,
+      item.uuid,
+      item.version,
+    );
+    return renditions.filter((rendition) =>
+      this.isPlayable(kind, item, rendition),
+    );
+  }
+
+  private async getRendition(
+    kind: MediaKind,
+    item: MediaItem,
+    renditionUuid: string,
+  ): Promise<MediaRendition> {
+    const rendition = await this.mediaRenditionRepository.findOne(
+      kind,
+      item.uuid,
+      renditionUuid,
+      item.version,
+    );
+    if (!rendition || !this.isPlayable(kind, item, rendition)) {
+      throw new NotFoundException("Rendition not found");
+    }
+    return rendition;
+  }
+
+  private isPlayable(
+    kind: MediaKind,
+    item: MediaItem,
+    rendition: MediaRendition,
+  ): boolean {
+    return this.streamingDomainService.isWithinRoot(
+      rendition.storagePrefix,
+      kind,
+      item.uuid,
+    );
+  }
+
+  /**
+   * Builds the response for a stored file, honouring Range and conditional
+   * request headers. `onServe` runs only when content is actually sent, and
+   * `onComplete` once the last byte of the file has been delivered.
+   */
+  async respond(
+    media: StoredMedia,
+    headers: StreamRequestHeaders,
+    onServe?: () => void,
+    onComplete?: () => void,
+  ): Promise<StreamResponse> {
+    const size = media.fileSize;
+    const validators = {
+      etag: entityTag(media.checksum, size, media.lastModified),
+      lastModified: media.lastModified,
+    };
+    const common = {
+      "Accept-Ranges": "bytes",
+      ETag: validators.etag,
+      "Last-Modified": validators.lastModified.toUTCString(),
+      "Cache-Control": "private, no-transform",
+    };
+
+    const outcome = evaluatePreconditions(headers, validators);
+    if (outcome === "not-modified") {
+      return { status: HttpStatus.NOT_MODIFIED, headers: common };
+    }
+    if (outcome === "precondition-failed") {
+      return { status: HttpStatus.PRECONDITION_FAILED, headers: common };
+    }
+
+    const range = ifRangeAllows(headers.ifRange, validators)
+      ? parseRange(headers.range, size)
+      : null;
+    if (range === "unsatisfiable") {
+      return {
+        status: HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE,
+        headers: { ...common, "Content-Range": `bytes */${size}` },
+      };
+    }
+
+    onServe?.();
+
+    const contentHeaders = { ...common, "Content-Type": media.mimeType };
+    if (!range) {
+      return {
+        status: HttpStatus.OK,
+        headers: { ...contentHeaders, "Content-Length": String(size) },
+        body: await this.storage.get(media.storagePath),
+        onComplete,
+      };
+    }
+    return {
+      status: HttpStatus.PARTIAL_CONTENT,
+      headers: {
+        ...contentHeaders,
+        "Content-Length": String(range.end - range.start + 1),
+        "Content-Range": `bytes ${range.start}-${range.end}/${size}`,
+      },
+      body: await this.storage.get(media.storagePath, range),
+      onComplete: range.end === size - 1 ? onComplete : undefined,
+    };
+  }
+}
@@ -0,0 +1,149 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from "@nestjs/common";
+import { DeepPartial } from "typeorm";
+import {
+  InteractionType,
+  MediaInteraction,
+} from "../../domain/media/entities/media.interaction.entity";
+import { MediaKind } from "../../domain/media/services/media.domain-service";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { MediaInteractionRepository } from "../../infrastructure/repositories/media-interaction.repository";
+import { mediaConfig } from "./media.config";
+
+interface PendingAccess {
+  kind: MediaKind;
+  uuid: string;
+  views: number;
+  lastAccessedAt: Date;
+}
+
+/**
+ * Buffers playback accesses in memory and writes them in batches, so that the
+ * many byte-range requests a player makes do not each cause a database write.
+ * A user replaying or seeking within the dedupe window is counted once.
+ * Each counted view is also logged as a WATCHED interaction for analytics.
+ * Increments are relative, so several app instances can flush concurrently.
+ */
+@Injectable()
+export class MediaViewCounter implements OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new Logger(MediaViewCounter.name);
+  private pending = new Map<string, PendingAccess>();
+  private interactions: DeepPartial<MediaInteraction>[] = [];
+  private readonly lastCounted = new Map<string, number>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly mediaRepository: MediaRepository,
+    private readonly mediaInteractionRepository: MediaInteractionRepository,
+  ) {}
+
+  onModuleInit() {
+    this.timer = setInterval(
+      () => void this.flush(),
+      mediaConfig.viewFlushInterval * 1000,
+    );
+    this.timer.unref();
+  }
+
+  async onApplicationShutdown() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    await this.flush();
+  }
+
+  /**
+   * Records that `viewerUuid` accessed a media item.
+   */
+  record(
+    kind: MediaKind,
+    uuid: string,
+    viewerUuid: string,
+    now: Date = new Date(),
+  ): void {
+    const itemKey = `${kind}:${uuid}`;
+    const viewerKey = `${itemKey}:${viewerUuid}`;
+    const entry = this.pending.get(itemKey) ?? {
+      kind,
+      uuid,
+      views: 0,
+      lastAccessedAt: now,
+    };
+
+    const counted = this.lastCounted.get(viewerKey);
+    if (
+      counted === undefined ||
+      now.getTime() - counted >= mediaConfig.viewDedupeWindow * 1000
+    ) {
+      entry.views += 1;
+      this.lastCounted.set(viewerKey, now.getTime());
+      this.interactions.push({
+        interactionType: InteractionType.WATCHED,
+        timestamp: now,
+        user: { uuid: viewerUuid },
+        [kind]: { uuid },
+      });
+    }
+    if (now > entry.lastAccessedAt) {
+      entry.lastAccessedAt = now;
+    }
+    this.pending.set(itemKey, entry);
+  }
+
+  /**
+   * Writes all buffered accesses. Entries that fail to write are kept for the
+   * next flush, except interactions with media that no longer exists.
+   */
+  async flush(now: Date = new Date()): Promise<void> {
+    const batch = this.pending;
+    this.pending = new Map();
+    const interactions = this.interactions;
+    this.interactions = [];
+
+    for (const [key, entry] of batch) {
+      try {
+        await this.mediaRepository.recordAccess(
+          entry.kind,
+          entry.uuid,
+          entry.views,
+          entry.lastAccessedAt,
+        );
+      } catch (error) {
+        this.logger.error(`Failed to record views for ${key}`, error);
+        this.requeue(key, entry);
+      }
+    }
+
+    try {
+      await this.mediaInteractionRepository.insert(interactions);
+    } catch (error) {
+      this.logger.error("Failed to record interactions", error);
+      const failed =
+        await this.mediaInteractionRepository.insertEach(interactions);
+      this.interactions.unshift(...failed);
+    }
+
+    const cutoff = now.getTime() - mediaConfig.viewDedupeWindow * 1000;
+    for (const [key, counted] of this.lastCounted) {
+      if (counted < cutoff) {
+        this.lastCounted.delete(key);
+      }
+    }
+  }
+
+  private requeue(key: string, entry: PendingAccess) {
+    const current = this.pending.get(key);
+    if (!current) {
+      this.pending.set(key, entry);
+      return;
+    }
+    current.views += entry.views;
+    if (entry.lastAccessedAt > current.lastAccessedAt) {
+      current.lastAccessedAt = entry.lastAccessedAt;
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Settings for media playback and retention, read from the environment.
+ * Durations are in seconds.
+ */
+export const mediaConfig = {
+  /** How often buffered view counts are written to the database. */
+  viewFlushInterval: parseInt(
+    process.env.MEDIA_VIEW_FLUSH_INTERVAL ?? "30",
+    10,
+  ),
+  /** Repeated playback by the same user within this window counts as one view. */
+  viewDedupeWindow: parseInt(
+    process.env.MEDIA_VIEW_DEDUPE_WINDOW ?? "1800",
+    10,
+  ),
+  /** How long a signed download link stays usable. */
+  downloadLinkTtl: parseInt(process.env.MEDIA_DOWNLOAD_LINK_TTL ?? "300", 10),
+  /** Days a deleted item can still be restored before it is purged. */
+  retentionDays: parseInt(process.env.MEDIA_RETENTION_DAYS ?? "30", 10),
+  /** How often the purge job looks for expired deleted items. */
+  purgeInterval: parseInt(process.env.MEDIA_PURGE_INTERVAL ?? "3600", 10),
+  purgeBatchSize: parseInt(process.env.MEDIA_PURGE_BATCH_SIZE ?? "100", 10),
+};
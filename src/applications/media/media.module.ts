@@ -0,0 +1,87 @@
+import { Module } from "@nestjs/common";
+import { MulterModule } from "@nestjs/platform-express";
+import { MediaController } from "../../infrastructure/controllers/media.controller";
+import { MediaService } from "./media.service";
+import { MediaStreamingService } from "./media-streaming.service";
+import { MediaViewCounter } from "./media-view-counter.service";
+import { MediaLifecycleService } from "./media-lifecycle.service";
+import { MediaPurgeService } from "./media-purge.service";
+import { MediaRevisionService } from "./media-revision.service";
+import { MediaInteractionService } from "./media-interaction.service";
+import { MediaAccessService } from "./media-access.service";
+import { MediaMetadataService } from "./media-metadata.service";
+import { MediaRenditionService } from "./media-rendition.service";
+import { MediaDownloadService } from "./media-download.service";
+import { MediaDomainService } from "../../domain/media/services/media.domain-service";
+import { StreamingDomainService } from "../../domain/media/services/streaming.domain-service";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { MediaInteractionRepository } from "../../infrastructure/repositories/media-interaction.repository";
+import { MediaRevisionRepository } from "../../infrastructure/repositories/media-revision.repository";
+import { MediaRenditionRepository } from "../../infrastructure/repositories/media-rendition.repository";
+import { PlaylistRepository } from "../../infrastructure/repositories/playlist.repository";
+import { UploadSessionRepository } from "../../infrastructure/repositories/upload-session.repository";
+import { StorageModule } from "../../infrastructure/storage/storage.module";
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from "../../infrastructure/storage/storage-driver";
+import { MetadataExtractor } from "../../infrastructure/metadata/metadata-extractor";
+import { DownloadLinkSigner } from "../../infrastructure/auth/download-link.signer";
+import { DriverStorageEngine } from "../../infrastructure/storage/driver-storage.engine";
+import { storageConfig } from "../../infrastructure/storage/storage.config";
+import { UserModule } from "../user/user.module";
+import { StudioModule } from "../studio/studio.module";
+import { CommerceModule } from "../commerce/commerce.module";
+import { GeoModule } from "../geo/geo.module";
+
+/**
+ * Media ingestion and playback. Multipart uploads are streamed straight into
+ * the configured storage driver, and playback is served from it by range or
+ * as HLS and DASH over externally encoded renditions. Original files are
+ * downloaded through signed links.
+ * Technical metadata is read from each file as it is ingested. Deleted media
+ * is purged from storage once its retention window ends.
+ */
+@Module({
+  imports: [
+    UserModule,
+    StudioModule,
+    CommerceModule,
+    GeoModule,
+    StorageModule,
+    MulterModule.registerAsync({
+      imports: [StorageModule],
+      inject: [STORAGE_DRIVER],
+      useFactory: (driver: StorageDriver) => ({
+        storage: new DriverStorageEngine(driver),
+        limits: { files: 1, fileSize: storageConfig.maxUploadSize },
+      }),
+    }),
+  ],
+  controllers: [MediaController],
+  providers: [
+    MediaService,
+    MediaStreamingService,
+    MediaViewCounter,
+    MediaLifecycleService,
+    MediaPurgeService,
+    MediaRevisionService,
+    MediaInteractionService,
+    MediaAccessService,
+    MediaMetadataService,
+    MediaRenditionService,
+    MediaDownloadService,
+    MediaDomainService,
+    StreamingDomainService,
+    MetadataExtractor,
+    DownloadLinkSigner,
+    MediaRepository,
+    MediaRevisionRepository,
+    MediaRenditionRepository,
+    MediaInteractionRepository,
+    PlaylistRepository,
+    UploadSessionRepository,
+  ],
+  exports: [MediaDomainService, MediaRepository, MediaAccessService],
+})
+export class MediaModule {}
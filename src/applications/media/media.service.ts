@@ -0,0 +1,366 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from "@nestjs/common";
+import { instanceToPlain, plainToInstance } from "class-transformer";
+import { validate } from "class-validator";
+import { randomUUID } from "node:crypto";
+import { Readable } from "node:stream";
+import { RegionMode } from "../../domain/entities/base";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+import {
+  MediaDomainService,
+  MediaItem,
+  MediaKind,
+} from "../../domain/media/services/media.domain-service";
+import {
+  UploadSession,
+  UploadStatus,
+} from "../../domain/media/entities/upload-session.entity";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { MediaRevisionRepository } from "../../infrastructure/repositories/media-revision.repository";
+import { UploadSessionRepository } from "../../infrastructure/repositories/upload-session.repository";
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from "../../infrastructure/storage/storage-driver";
+import { DigestStream } from "../../infrastructure/storage/digest-stream";
+import { storageSource } from "../../infrastructure/metadata/byte-source";
+import { MetadataExtractor } from "../../infrastructure/metadata/metadata-extractor";
+import { StoredUpload } from "../../infrastructure/storage/driver-storage.engine";
+import { storageConfig } from "../../infrastructure/storage/storage.config";
+import { StudioAccessService } from "../studio/studio-access.service";
+import { StudioFollowService } from "../studio/studio-follow.service";
+import { CreateMediaDto } from "./dto/create-media.dto";
+import { MediaAccessService } from "./media-access.service";
+import { StartUploadDto } from "./dto/start-upload.dto";
+
+/**
+ * A file that has been written to storage but not yet recorded as media.
+ */
+interface StoredFile {
+  key: string;
+  size: number;
+  checksum: string;
+  head: Buffer;
+}
+
+/**
+ * Application service for ingesting media files, either in a single multipart
+ * request or as a resumable upload sent in chunks.
+ */
+@Injectable()
+export class MediaService {
+  constructor(
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver,
+    private readonly mediaRepository: MediaRepository,
+    private readonly mediaRevisionRepository: MediaRevisionRepository,
+    private readonly uploadSessionRepository: UploadSessionRepository,
+    private readonly studioAccessService: StudioAccessService,
+    private readonly mediaDomainService: MediaDomainService,
+    private readonly metadataExtractor: MetadataExtractor,
+    private readonly studioFollowService: StudioFollowService,
+    private readonly mediaAccessService: MediaAccessService,
+  ) {}
+
+  findOne(
+    user: User,
+    region: ViewerRegion,
+    kind: MediaKind,
+    uuid: string,
+  ): Promise<MediaItem> {
+    return this.mediaAccessService.getVisibleItem(user, region, kind, uuid);
+  }
+
+  /**
+   * Records a file that arrived in a multipart request. The file is already in
+   * storage; it is removed again if the media item cannot be created.
+   */
+  async createFromUpload(
+    user: User,
+    file: StoredUpload | undefined,
+    body: Record<string, unknown>,
+  ): Promise<MediaItem> {
+    if (!file) {
+      throw new BadRequestException("A file is required");
+    }
+    const stored: StoredFile = {
+      key: file.storageKey,
+      size: file.size,
+      checksum: file.checksum,
+      head: file.head,
+    };
+    try {
+      const dto = await this.toCreateMediaDto(body);
+      await this.assertCanUpload(user, dto.studioUuid);
+      return await this.createItem(user, dto, stored);
+    } catch (error) {
+      await this.storage.delete(stored.key);
+      throw error;
+    }
+  }
+
+  async startUpload(user: User, dto: StartUploadDto): Promise<UploadSession> {
+    await this.assertCanUpload(user, dto.studioUuid);
+    if (dto.totalSize > storageConfig.maxUploadSize) {
+      throw new PayloadTooLargeException("File is too large");
+    }
+
+    const { filename, totalSize, ...metadata } = instanceToPlain(dto);
+    return this.uploadSessionRepository.save(
+      this.uploadSessionRepository.create({
+        userUuid: user.uuid,
+        filename,
+        totalSize,
+        receivedBytes: 0,
+        chunks: [],
+        metadata,
+        status: UploadStatus.OPEN,
+      }),
+    );
+  }
+
+  async getUpload(user: User, uuid: string): Promise<UploadSession> {
+    const session = await this.uploadSessionRepository.findByUuid(uuid);
+    if (!session || session.userUuid !== user.uuid) {
+      throw new NotFoundException("Upload not found");
+    }
+    return session;
+  }
+
+  /**
+   * Stores the next chunk of a resumable upload.
+   * @param contentRange The request's Content-Range header, e.g. "bytes 0-1048575/5242880".
+   */
+  async appendChunk(
+    user: User,
+    uuid: string,
+    contentRange: string | undefined,
+    body: Readable,
+  ): Promise<UploadSession> {
+    const session = await this.getOpenUpload(user, uuid);
+    const range = parseContentRange(contentRange);
+    if (!range || range.total !== session.totalSize) {
+      throw new BadRequestException(
+        `Content-Range must be "bytes <start>-<end>/${session.totalSize}"`,
+      );
+    }
+    if (range.start !== session.receivedBytes) {
+      throw new ConflictException(
+        `Expected a chunk starting at byte ${session.receivedBytes}`,
+      );
+    }
+
+    const key = chunkKey(session, range.start);
+    const { size } = await this.storage.put(key, body);
+    if (size !== range.end - range.start + 1) {
+      await this.storage.delete(key);
+      throw new BadRequestException("Chunk size does not match Content-Range");
+    }
+
+    session.chunks = [...session.chunks, { offset: range.start, size }];
+    session.receivedBytes += size;
+    return this.uploadSessionRepository.save(session);
+  }
+
+  /**
+   * Assembles the chunks of a finished resumable upload into one file and
+   * creates the media item for it.
+   */
+  async completeUpload(user: User, uuid: string): Promise<MediaItem> {
+    const session = await this.getOpenUpload(user, uuid);
+    if (session.receivedBytes !== session.totalSize) {
+      throw new ConflictException(
+        `Upload is incomplete: ${session.receivedBytes} of ${session.totalSize} bytes received`,
+      );
+    }
+
+    const storage = this.storage;
+    const chunks = session.chunks;
+    const assembled = Readable.from(
+      (async function* () {
+        for (const chunk of chunks) {
+          yield* await storage.get(chunkKey(session, chunk.offset));
+        }
+      })(),
+    );
+    const stored = await this.store(assembled);
+
+    let item: MediaItem;
+    try {
+      item = await this.createItem(
+        user,
+        await this.toCreateMediaDto(session.metadata),
+        stored,
+      );
+    } catch (error) {
+      await this.storage.delete(stored.key);
+      throw error;
+    }
+
+    await this.deleteChunks(session);
+    session.status = UploadStatus.COMPLETED;
+    session.mediaUuid = item.uuid;
+    await this.uploadSessionRepository.save(session);
+    return item;
+  }
+
+  async abortUpload(user: User, uuid: string): Promise<void> {
+    const session = await this.getOpenUpload(user, uuid);
+    await this.deleteChunks(session);
+    session.status = UploadStatus.ABORTED;
+    await this.uploadSessionRepository.save(session);
+  }
+
+  /**
+   * Streams a file into storage under a fresh key, hashing it on the way.
+   */
+  private async store(body: Readable): Promise<StoredFile> {
+    const key = `media/${randomUUID()}`;
+    const digest = new DigestStream();
+    body.on("error", (error) => digest.destroy(error));
+    const { size } = await this.storage.put(key, body.pipe(digest));
+    return { key, size, checksum: digest.checksum, head: digest.head };
+  }
+
+  /**
+   * Detects the real type of a stored file and creates the matching
+   * Music, Photo or Video row for it, recorded as its first revision.
+   * Technical fields are read from the file where possible; the client only
+   * has to supply those the file does not contain. Streamable items are
+   * announced to the studio's followers.
+   */
+  private async createItem(
+    user: User,
+    dto: CreateMediaDto,
+    stored: StoredFile,
+  ): Promise<MediaItem> {
+    const detected = this.mediaDomainService.detectMediaType(stored.head);
+    if (!detected) {
+      throw new UnsupportedMediaTypeException("Unsupported media file");
+    }
+    const extracted = await this.metadataExtractor.extract(
+      storageSource(this.storage, stored.key, stored.size),
+      detected,
+    );
+    const metadata = this.mediaDomainService.applyMetadata(
+      detected.kind,
+      dto as unknown as Record<string, unknown>,
+      extracted,
+    );
+    const fields = { ...dto, ...metadata.fields };
+    const missing = this.mediaDomainService.missingFields(
+      detected.kind,
+      fields,
+    );
+    if (missing.length) {
+      throw new BadRequestException(
+        `Missing fields for ${detected.kind} that could not be read from the file: ${missing.join(", ")}`,
+      );
+    }
+
+    const uuid = randomUUID();
+    const item = this.mediaRepository.create(detected.kind, {
+      ...fields,
+      regionMode:
+        dto.regionMode ?? (dto.regionRestrictions ? RegionMode.DENY : null),
+      metadataStatus: metadata.status,
+      metadataScannedAt: new Date(),
+      uuid,
+      url: `/media/${detected.kind}/${uuid}`,
+      format: detected.format,
+      mimeType: detected.mimeType,
+      availableFormats: [detected.format],
+      fileSize: stored.size,
+      checksum: stored.checksum,
+      storagePath: stored.key,
+      storageProvider: this.storage.provider,
+      hostingLocation: this.storage.location,
+      uploadedAt: new Date(),
+    });
+    const saved = await this.mediaRepository.save(item);
+    await this.mediaRevisionRepository.save(
+      this.mediaRevisionRepository.create({
+        ...this.mediaDomainService.revisionSnapshot(detected.kind, saved),
+        mediaKind: detected.kind,
+        [detected.kind]: saved,
+        version: saved.version,
+        createdBy: user,
+      }),
+    );
+    if (saved.streamingAllowed) {
+      this.studioFollowService.announce({
+        studioUuid: dto.studioUuid,
+        kind: detected.kind,
+        uuid: saved.uuid,
+        title: saved.title,
+      });
+    }
+    return saved;
+  }
+
+  private async toCreateMediaDto(
+    plain: Record<string, unknown>,
+  ): Promise<CreateMediaDto> {
+    const dto = plainToInstance(CreateMediaDto, plain);
+    const errors = await validate(dto, { whitelist: true });
+    if (errors.length) {
+      throw new BadRequestException(
+        errors.flatMap((error) => Object.values(error.constraints ?? {})),
+      );
+    }
+    return dto;
+  }
+
+  private async assertCanUpload(user: User, studioUuid: string) {
+    await this.studioAccessService.getManagedStudio(
+      user,
+      studioUuid,
+      StudioPermission.MANAGE_MEDIA,
+    );
+  }
+
+  private async getOpenUpload(
+    user: User,
+    uuid: string,
+  ): Promise<UploadSession> {
+    const session = await this.getUpload(user, uuid);
+    if (session.status !== UploadStatus.OPEN) {
+      throw new ConflictException(`Upload is ${session.status}`);
+    }
+    return session;
+  }
+
+  private async deleteChunks(session: UploadSession): Promise<void> {
+    await Promise.all(
+      session.chunks.map((chunk) =>
+        this.storage.delete(chunkKey(session, chunk.offset)),
+      ),
+    );
+  }
+}
+
+function chunkKey(session: UploadSession, offset: number): string {
+  return `uploads/${session.uuid}/${offset}`;
+}
+
+/**
+ * Parses a "bytes <start>-<end>/<total>" Content-Range header.
+ */
+function parseContentRange(
+  header: string | undefined,
+): { start: number; end: number; total: number } | null {
+  const match = /^bytes (\d+)-(\d+)\/(\d+)$/.exec(header?.trim() ?? "");
+  if (!match) {
+    return null;
+  }
+  const [start, end, total] = match.slice(1).map(Number);
+  return start <= end && end < total ? { start, end, total } : null;
+}
@@ -0,0 +1,45 @@
+import {
+  IsBoolean,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from "class-validator";
+import { LOCALE_PATTERN } from "./preview-notification.dto";
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * A user's notification preferences. Replaces the stored ones; omitted
+ * fields take their defaults.
+ */
+export class NotificationPreferencesDto {
+  @IsOptional()
+  @Matches(LOCALE_PATTERN, { message: "locale must look like en or fr-CA" })
+  locale?: string | null;
+
+  /** IANA time zone quiet hours are read in, e.g. "Africa/Lagos". */
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  timezone?: string | null;
+
+  /** "HH:MM"; set together with quietHoursEnd. */
+  @IsOptional()
+  @Matches(TIME, { message: "quietHoursStart must be a time like 22:00" })
+  quietHoursStart?: string | null;
+
+  @IsOptional()
+  @Matches(TIME, { message: "quietHoursEnd must be a time like 07:30" })
+  quietHoursEnd?: string | null;
+
+  @IsOptional()
+  @IsBoolean()
+  marketingOptOut?: boolean;
+
+  /** Channel per event, e.g. { "studio-status-changed": "WhatsApp" }. */
+  @IsOptional()
+  @IsObject()
+  channels?: Record<string, string>;
+}
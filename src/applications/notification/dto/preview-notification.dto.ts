@@ -0,0 +1,18 @@
+import { IsObject, IsOptional, Matches } from "class-validator";
+
+export const LOCALE_PATTERN = /^[a-z]{2}(-[A-Z]{2})?$/;
+
+/**
+ * Options for previewing a notification template.
+ */
+export class PreviewNotificationDto {
+  /** e.g. "fr" or "fr-CA"; the default locale if omitted or unknown. */
+  @IsOptional()
+  @Matches(LOCALE_PATTERN, { message: "locale must look like en or fr-CA" })
+  locale?: string;
+
+  /** Placeholder values; the rest take the template's examples. */
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, string>;
+}
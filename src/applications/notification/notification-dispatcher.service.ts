@@ -0,0 +1,159 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from "@nestjs/common";
+import { Notification } from "../../domain/notification/entities/notification.entity";
+import { NotificationDomainService } from "../../domain/notification/services/notification.domain-service";
+import { NotificationRepository } from "../../infrastructure/repositories/notification.repository";
+import {
+  CHANNEL_ADAPTERS,
+  ChannelAdapter,
+  PermanentDeliveryError,
+} from "../../infrastructure/notification/channel-adapter";
+import { notificationConfig } from "../../infrastructure/notification/notification.config";
+
+/**
+ * Background worker that delivers due notifications.
+ *
+ * Every poll it claims a batch of pending notifications whose sendAt (or
+ * retry time) has passed, hands each to the adapter for its channel, and
+ * records the outcome: deliveredAt on success, a retry with exponential
+ * backoff on transient errors, or status "failed" once retries run out.
+ */
+@Injectable()
+export class NotificationDispatcher
+  implements OnModuleInit, OnApplicationShutdown
+{
+  private readonly logger = new Logger(NotificationDispatcher.name);
+  private readonly adapters: Map<string, ChannelAdapter>;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<number> | null = null;
+
+  constructor(
+    @Inject(CHANNEL_ADAPTERS) adapters: ChannelAdapter[],
+    private readonly notificationRepository: NotificationRepository,
+    private readonly notificationDomainService: NotificationDomainService,
+  ) {
+    this.adapters = new Map(
+      adapters.map((adapter) => [adapter.channel, adapter]),
+    );
+  }
+
+  onModuleInit() {
+    if (!notificationConfig.dispatcherEnabled) {
+      return;
+    }
+    this.timer = setInterval(
+      () => void this.dispatchDue(),
+      notificationConfig.pollInterval * 1000,
+    );
+    this.timer.unref();
+  }
+
+  async onApplicationShutdown() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    await this.running;
+  }
+
+  /**
+   * Claims and delivers one batch. Overlapping calls share the batch in flight.
+   * @returns {Promise<number>} How many notifications were processed.
+   */
+  dispatchDue(): Promise<number> {
+    if (!this.running) {
+      this.running = this.dispatchBatch()
+        .catch((error) => {
+          this.logger.error("Notification dispatch failed", error);
+          return 0;
+        })
+        .finally(() => {
+          this.running = null;
+        });
+    }
+    return this.running;
+  }
+
+  private async dispatchBatch(): Promise<number> {
+    const batch = await this.notificationRepository.claimDue(
+      notificationConfig.batchSize,
+      notificationConfig.leaseDuration,
+    );
+    for (const notification of batch) {
+      await this.deliver(notification);
+    }
+    return batch.length;
+  }
+
+  private async deliver(notification: Notification): Promise<void> {
+    const attempt = notification.attempts + 1;
+    try {
+      const adapter = this.adapters.get(notification.channel);
+      if (!adapter) {
+        throw new PermanentDeliveryError(
+          `No adapter for channel ${notification.channel}`,
+        );
+      }
+      const to = this.notificationDomainService.recipientAddress(notification);
+      if (!to) {
+        throw new PermanentDeliveryError(
+          `Recipient has no address for channel ${notification.channel}`,
+        );
+      }
+
+      await adapter.send({
+        to,
+        subject: notification.subject,
+        body: await notification.getMessage(),
+        html: await notification.getHtml(),
+      });
+      await this.notificationRepository.markSent(
+        notification.uuid,
+        attempt,
+        new Date(),
+      );
+    } catch (error) {
+      await this.recordFailure(notification, attempt, error);
+    }
+  }
+
+  private async recordFailure(
+    notification: Notification,
+    attempt: number,
+    error: unknown,
+  ): Promise<void> {
+    const entry = this.notificationDomainService.errorLogEntry(attempt, error);
+    const errorLog = notification.errorLog
+      ? `${notification.errorLog}\n${entry}`
+      : entry;
+    const retryAt =
+      error instanceof PermanentDeliveryError
+        ? null
+        : this.notificationDomainService.nextAttemptAt(attempt, {
+            maxAttempts: notificationConfig.maxAttempts,
+            baseDelay: notificationConfig.retryBaseDelay,
+            maxDelay: notificationConfig.retryMaxDelay,
+          });
+
+    if (retryAt) {
+      this.logger.warn(`Notification ${notification.uuid}: ${entry}`);
+      await this.notificationRepository.markRetry(
+        notification.uuid,
+        attempt,
+        retryAt,
+        errorLog,
+      );
+    } else {
+      this.logger.error(`Notification ${notification.uuid} failed: ${entry}`);
+      await this.notificationRepository.markFailed(
+        notification.uuid,
+        attempt,
+        errorLog,
+      );
+    }
+  }
+}
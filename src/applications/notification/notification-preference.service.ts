@@ -0,0 +1,75 @@
+import { BadRequestException, Injectable } from "@nestjs/common";
+import { NotificationPreference } from "../../domain/notification/entities/notification-preference.entity";
+import { NotificationPreferenceDomainService } from "../../domain/notification/services/notification-preference.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { NotificationPreferenceRepository } from "../../infrastructure/repositories/notification-preference.repository";
+import { NotificationPreferencesDto } from "./dto/notification-preferences.dto";
+
+/**
+ * A user's notification preferences as shown to them.
+ */
+export interface NotificationPreferencesView {
+  locale: string | null;
+  timezone: string | null;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  marketingOptOut: boolean;
+  channels: Record<string, string>;
+}
+
+/**
+ * Application service for reading and changing how a user is notified.
+ */
+@Injectable()
+export class NotificationPreferenceService {
+  constructor(
+    private readonly notificationPreferenceRepository: NotificationPreferenceRepository,
+    private readonly notificationPreferenceDomainService: NotificationPreferenceDomainService,
+  ) {}
+
+  async get(user: User): Promise<NotificationPreferencesView> {
+    const preference = await this.notificationPreferenceRepository.findForUser(
+      user.uuid,
+    );
+    return this.view(preference);
+  }
+
+  async update(
+    user: User,
+    dto: NotificationPreferencesDto,
+  ): Promise<NotificationPreferencesView> {
+    const settings = {
+      locale: dto.locale ?? null,
+      timezone: dto.timezone ?? null,
+      quietHoursStart: dto.quietHoursStart ?? null,
+      quietHoursEnd: dto.quietHoursEnd ?? null,
+      marketingOptOut: dto.marketingOptOut ?? false,
+      channels: dto.channels ?? {},
+    };
+    const problem =
+      this.notificationPreferenceDomainService.settingsProblem(settings);
+    if (problem) {
+      throw new BadRequestException(problem);
+    }
+    const preference =
+      (await this.notificationPreferenceRepository.findForUser(user.uuid)) ??
+      this.notificationPreferenceRepository.create({ userUuid: user.uuid });
+    Object.assign(preference, settings);
+    return this.view(
+      await this.notificationPreferenceRepository.save(preference),
+    );
+  }
+
+  private view(
+    preference: NotificationPreference | null,
+  ): NotificationPreferencesView {
+    return {
+      locale: preference?.locale ?? null,
+      timezone: preference?.timezone ?? null,
+      quietHoursStart: preference?.quietHoursStart ?? null,
+      quietHoursEnd: preference?.quietHoursEnd ?? null,
+      marketingOptOut: preference?.marketingOptOut ?? false,
+      channels: preference?.channels ?? {},
+    };
+  }
+}
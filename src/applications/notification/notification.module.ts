@@ -0,0 +1,112 @@
+import { forwardRef, Logger, Module } from "@nestjs/common";
+import { NotificationService } from "./notification.service";
+import { NotificationDispatcher } from "./notification-dispatcher.service";
+import { NotificationPreferenceService } from "./notification-preference.service";
+import { NotificationDomainService } from "../../domain/notification/services/notification.domain-service";
+import { NotificationPreferenceDomainService } from "../../domain/notification/services/notification-preference.domain-service";
+import { NotificationTemplateDomainService } from "../../domain/notification/services/notification-template.domain-service";
+import { NotificationChannel } from "../../domain/notification/entities/notification.entity";
+import { NotificationRepository } from "../../infrastructure/repositories/notification.repository";
+import { NotificationPreferenceRepository } from "../../infrastructure/repositories/notification-preference.repository";
+import { NotificationController } from "../../infrastructure/controllers/notification.controller";
+import {
+  CHANNEL_ADAPTERS,
+  ChannelAdapter,
+} from "../../infrastructure/notification/channel-adapter";
+import { SmtpEmailAdapter } from "../../infrastructure/notification/smtp-email.adapter";
+import { HttpGatewayAdapter } from "../../infrastructure/notification/http-gateway.adapter";
+import { FakeChannelAdapter } from "../../infrastructure/notification/fake-channel.adapter";
+import { PushChannelAdapter } from "../../infrastructure/notification/push-channel.adapter";
+import { FcmPushSender } from "../../infrastructure/notification/fcm-push.sender";
+import { FakePushSender } from "../../infrastructure/notification/fake-push.sender";
+import { PushSender } from "../../infrastructure/notification/push-sender";
+import { DeviceRepository } from "../../infrastructure/repositories/device.repository";
+import { notificationConfig as config } from "../../infrastructure/notification/notification.config";
+import { UserModule } from "../user/user.module";
+
+/**
+ * Builds the adapter for each channel from the configured drivers.
+ */
+function channelAdapters(deviceRepository: DeviceRepository): ChannelAdapter[] {
+  const fake = (channel: string) => {
+    Logger.warn(`Using fake ${channel} adapter`, NotificationModule.name);
+    return new FakeChannelAdapter(channel);
+  };
+  const gateway = (
+    channel: string,
+    driver: string,
+    url: string | undefined,
+    token: string | undefined,
+  ) => {
+    if (driver !== "http") {
+      return fake(channel);
+    }
+    if (!url) {
+      throw new Error(`No gateway URL configured for ${channel}`);
+    }
+    return new HttpGatewayAdapter(channel, { url, token });
+  };
+
+  return [
+    config.emailDriver === "smtp"
+      ? new SmtpEmailAdapter({ ...config.smtp, from: config.emailFrom })
+      : fake(NotificationChannel.EMAIL),
+    gateway(
+      NotificationChannel.SMS,
+      config.smsDriver,
+      config.smsGatewayUrl,
+      config.smsGatewayToken,
+    ),
+    gateway(
+      NotificationChannel.WHATSAPP,
+      config.whatsAppDriver,
+      config.whatsAppGatewayUrl,
+      config.whatsAppGatewayToken,
+    ),
+    new PushChannelAdapter(pushSender(), deviceRepository),
+  ];
+}
+
+function pushSender(): PushSender {
+  if (config.pushDriver !== "fcm") {
+    Logger.warn("Using fake push sender", NotificationModule.name);
+    return new FakePushSender();
+  }
+  const { projectId, clientEmail, privateKey } = config.fcm;
+  if (!projectId || !clientEmail || !privateKey) {
+    throw new Error(
+      "FCM_PROJECT_ID, FCM_CLIENT_EMAIL and FCM_PRIVATE_KEY are required",
+    );
+  }
+  return new FcmPushSender({ projectId, clientEmail, privateKey });
+}
+
+/**
+ * Queues notifications, rendered from templates and shaped by each user's
+ * preferences, and delivers them in the background through one adapter per
+ * channel. Push notifications go to the recipient's devices. UserModule
+ * imports this module to send verification codes, hence the forward
+ * reference for the auth guard.
+ */
+@Module({
+  imports: [forwardRef(() => UserModule)],
+  controllers: [NotificationController],
+  providers: [
+    NotificationService,
+    NotificationPreferenceService,
+    NotificationDispatcher,
+    NotificationDomainService,
+    NotificationPreferenceDomainService,
+    NotificationTemplateDomainService,
+    NotificationRepository,
+    NotificationPreferenceRepository,
+    DeviceRepository,
+    {
+      provide: CHANNEL_ADAPTERS,
+      useFactory: channelAdapters,
+      inject: [DeviceRepository],
+    },
+  ],
+  exports: [NotificationService],
+})
+export class NotificationModule {}
@@ -0,0 +1,171 @@
+import { Injectable, NotFoundException } from "@nestjs/common";
+import {
+  Notification,
+  NotificationChannel,
+} from "../../domain/notification/entities/notification.entity";
+import { NotificationPreferenceDomainService } from "../../domain/notification/services/notification-preference.domain-service";
+import {
+  RenderedNotification,
+  NotificationTemplateDomainService,
+} from "../../domain/notification/services/notification-template.domain-service";
+import {
+  NOTIFICATION_EVENTS,
+  NotificationEvent,
+} from "../../domain/notification/services/notification-templates";
+import { NotificationRepository } from "../../infrastructure/repositories/notification.repository";
+import { NotificationPreferenceRepository } from "../../infrastructure/repositories/notification-preference.repository";
+import { notificationConfig as config } from "../../infrastructure/notification/notification.config";
+import { PreviewNotificationDto } from "./dto/preview-notification.dto";
+
+/**
+ * A notification to queue for delivery.
+ */
+export interface ScheduleNotificationInput {
+  /** Null for addresses that have no account yet; `recipient` is then required. */
+  userUuid: string | null;
+  studioUuid?: string | null;
+  campaignUuid?: string | null;
+  channel: string;
+  /** Overrides the user's contact field for the channel. */
+  recipient?: string | null;
+  subject?: string | null;
+  message: string;
+  /** HTML version of `message`, for email. */
+  html?: string | null;
+  /** Defaults to now. */
+  sendAt?: Date;
+}
+
+/**
+ * An event to notify a user of, rendered from its template.
+ */
+export interface NotifyInput {
+  event: NotificationEvent;
+  /** Null for addresses that have no account yet; `recipient` is then required. */
+  userUuid: string | null;
+  studioUuid?: string | null;
+  campaignUuid?: string | null;
+  /** Used unless the user chose another channel for the event. */
+  channel: string;
+  /** Address on `channel`; dropped if the user chose another channel. */
+  recipient?: string | null;
+  variables: Record<string, string | number>;
+  /** Defaults to now; quiet hours may delay it. */
+  sendAt?: Date;
+}
+
+export interface NotificationTemplateView {
+  event: NotificationEvent;
+  category: string;
+  channels: string[];
+  locales: string[];
+  variables: string[];
+}
+
+/**
+ * Application service other modules use to queue notifications. Delivery is
+ * handled asynchronously by NotificationDispatcher.
+ */
+@Injectable()
+export class NotificationService {
+  constructor(
+    private readonly notificationRepository: NotificationRepository,
+    private readonly notificationPreferenceRepository: NotificationPreferenceRepository,
+    private readonly notificationTemplateDomainService: NotificationTemplateDomainService,
+    private readonly notificationPreferenceDomainService: NotificationPreferenceDomainService,
+  ) {}
+
+  /**
+   * Renders the event's template in the user's locale and queues it on the
+   * channel and at the time their preferences allow.
+   * @returns {Promise<Notification | null>} The queued notification, or null if the user opted out.
+   */
+  async notify(input: NotifyInput): Promise<Notification | null> {
+    const preference = input.userUuid
+      ? await this.notificationPreferenceRepository.findForUser(input.userUuid)
+      : null;
+    if (
+      this.notificationPreferenceDomainService.isSuppressed(
+        input.event,
+        preference,
+      )
+    ) {
+      return null;
+    }
+    const channel = this.notificationPreferenceDomainService.channelFor(
+      input.event,
+      preference,
+      input.channel,
+    );
+    const rendered = this.notificationTemplateDomainService.render(
+      input.event,
+      preference?.locale,
+      input.variables,
+      config.defaultLocale,
+    );
+    return this.schedule({
+      userUuid: input.userUuid,
+      studioUuid: input.studioUuid,
+      campaignUuid: input.campaignUuid,
+      channel,
+      recipient: channel === input.channel ? input.recipient : null,
+      subject: rendered.subject,
+      message: rendered.text,
+      html: channel === NotificationChannel.EMAIL ? rendered.html : null,
+      sendAt: this.notificationPreferenceDomainService.sendAt(
+        input.event,
+        preference,
+        input.sendAt ?? new Date(),
+      ),
+    });
+  }
+
+  schedule(input: ScheduleNotificationInput): Promise<Notification> {
+    return this.notificationRepository.insert(
+      this.notificationRepository.create({
+        user: input.userUuid
+          ? ({ uuid: input.userUuid } as Notification["user"])
+          : null,
+        studio: input.studioUuid
+          ? ({ uuid: input.studioUuid } as Notification["studio"])
+          : null,
+        campaignUuid: input.campaignUuid ?? null,
+        channel: input.channel,
+        recipient: input.recipient ?? null,
+        subject: input.subject ?? null,
+        message: Buffer.from(input.message, "utf-8"),
+        html: input.html ? Buffer.from(input.html, "utf-8") : null,
+        sendAt: input.sendAt ?? new Date(),
+      }),
+    );
+  }
+
+  templates(): NotificationTemplateView[] {
+    return Object.values(NotificationEvent).map((event) => {
+      const definition = NOTIFICATION_EVENTS[event];
+      return {
+        event,
+        category: definition.category,
+        channels: definition.channels,
+        locales: Object.keys(definition.locales),
+        variables: Object.keys(definition.example),
+      };
+    });
+  }
+
+  /**
+   * Renders a template without sending it. Variables not given take the
+   * template's example values.
+   */
+  preview(event: string, dto: PreviewNotificationDto): RenderedNotification {
+    if (!this.notificationTemplateDomainService.isEvent(event)) {
+      throw new NotFoundException("Template not found");
+    }
+    return this.notificationTemplateDomainService.render(
+      event,
+      dto.locale,
+      { ...NOTIFICATION_EVENTS[event].example, ...dto.variables },
+      config.defaultLocale,
+    );
+  }
+}
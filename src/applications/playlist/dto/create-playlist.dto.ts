@@ -0,0 +1,21 @@
+import { IsOptional, IsString, IsUUID, MaxLength } from "class-validator";
+
+/**
+ * Payload for creating a playlist in a studio.
+ */
+export class CreatePlaylistDto {
+  @IsString()
+  @MaxLength(255)
+  title: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+
+  /**
+   * The studio the playlist belongs to. The caller must own it.
+   */
+  @IsUUID()
+  studioUuid: string;
+}
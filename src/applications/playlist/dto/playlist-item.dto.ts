@@ -0,0 +1,54 @@
+import {
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Min,
+} from "class-validator";
+import {
+  MEDIA_KINDS,
+  MediaKind,
+} from "../../../domain/media/services/media.domain-service";
+
+/**
+ * Adds a media item to a playlist.
+ */
+export class AddPlaylistItemDto {
+  @IsIn(MEDIA_KINDS)
+  kind: MediaKind;
+
+  @IsUUID()
+  mediaUuid: string;
+
+  /**
+   * Zero-based position to insert at. Appends when omitted.
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  position?: number;
+}
+
+/**
+ * Moves one entry to a new zero-based position.
+ */
+export class MovePlaylistItemDto {
+  @IsInt()
+  @Min(0)
+  position: number;
+}
+
+/**
+ * Sets the order of all entries at once.
+ */
+export class ReorderPlaylistDto {
+  /**
+   * Every entry uuid of the playlist, in the desired order.
+   */
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID("all", { each: true })
+  itemUuids: string[];
+}
@@ -0,0 +1,20 @@
+import { Module } from "@nestjs/common";
+import { PlaylistController } from "../../infrastructure/controllers/playlist.controller";
+import { PlaylistService } from "./playlist.service";
+import { PlaylistDomainService } from "../../domain/media/services/playlist.domain-service";
+import { PlaylistRepository } from "../../infrastructure/repositories/playlist.repository";
+import { UserModule } from "../user/user.module";
+import { MediaModule } from "../media/media.module";
+import { StudioModule } from "../studio/studio.module";
+import { GeoModule } from "../geo/geo.module";
+
+/**
+ * Playlists and their ordered, mixed-media timelines.
+ */
+@Module({
+  imports: [UserModule, MediaModule, StudioModule, GeoModule],
+  controllers: [PlaylistController],
+  providers: [PlaylistService, PlaylistDomainService, PlaylistRepository],
+  exports: [PlaylistRepository],
+})
+export class PlaylistModule {}
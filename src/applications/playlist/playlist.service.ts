@@ -0,0 +1,293 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { MediaStatus } from "../../domain/entities/base";
+import { Playlist } from "../../domain/media/entities/playlist.entity";
+import { PlaylistItem } from "../../domain/media/entities/playlist-item.entity";
+import {
+  MediaItem,
+  MediaKind,
+} from "../../domain/media/services/media.domain-service";
+import { PlaylistDomainService } from "../../domain/media/services/playlist.domain-service";
+import { StudioDomainService } from "../../domain/studio/services/studio.domain-service";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { PlaylistRepository } from "../../infrastructure/repositories/playlist.repository";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+import { GeoPolicyService } from "../geo/geo-policy.service";
+import { StudioAccessService } from "../studio/studio-access.service";
+import { StudioFollowService } from "../studio/studio-follow.service";
+import { CreatePlaylistDto } from "./dto/create-playlist.dto";
+import {
+  AddPlaylistItemDto,
+  MovePlaylistItemDto,
+  ReorderPlaylistDto,
+} from "./dto/playlist-item.dto";
+
+/**
+ * One entry of a playlist timeline, with its media resolved.
+ */
+export interface TimelineEntry {
+  uuid: string;
+  position: number;
+  kind: MediaKind;
+  media: MediaItem;
+}
+
+export interface PlaylistTimeline {
+  uuid: string;
+  title: string;
+  description: string | null;
+  studioUuid: string | null;
+  publishedAt: Date | null;
+  items: TimelineEntry[];
+}
+
+/**
+ * Application service for playlists and the ordering of their entries.
+ */
+@Injectable()
+export class PlaylistService {
+  constructor(
+    private readonly playlistRepository: PlaylistRepository,
+    private readonly mediaRepository: MediaRepository,
+    private readonly studioAccessService: StudioAccessService,
+    private readonly playlistDomainService: PlaylistDomainService,
+    private readonly studioDomainService: StudioDomainService,
+    private readonly geoPolicyService: GeoPolicyService,
+    private readonly studioFollowService: StudioFollowService,
+  ) {}
+
+  async create(user: User, dto: CreatePlaylistDto): Promise<PlaylistTimeline> {
+    const studio = await this.studioAccessService.getManagedStudio(
+      user,
+      dto.studioUuid,
+      StudioPermission.MANAGE_PLAYLISTS,
+    );
+
+    const playlist = await this.playlistRepository.save(
+      this.playlistRepository.create({
+        title: dto.title,
+        description: dto.description ?? null,
+        studio,
+      }),
+    );
+    return this.getTimeline(playlist.uuid);
+  }
+
+  /**
+   * Returns the playlist with music, photos and videos merged into one
+   * timeline in position order. Entries whose media has been deleted are
+   * left out; the studio's own views of the playlist list every other entry.
+   */
+  async getTimeline(uuid: string): Promise<PlaylistTimeline> {
+    const playlist = await this.playlistRepository.findTimeline(uuid);
+    if (!playlist) {
+      throw new NotFoundException("Playlist not found");
+    }
+    return this.toTimeline(playlist, this.entries(playlist));
+  }
+
+  /**
+   * The playlist as `user` may see it. Drafts, and playlists of studios
+   * that are not approved, are only found by members who manage the
+   * studio's playlists. Everyone else sees just the active media that is
+   * offered in their `region`.
+   */
+  async getVisibleTimeline(
+    user: User,
+    uuid: string,
+    region: ViewerRegion,
+  ): Promise<PlaylistTimeline> {
+    const playlist = await this.playlistRepository.findTimeline(uuid);
+    if (!playlist) {
+      throw new NotFoundException("Playlist not found");
+    }
+    const entries = this.entries(playlist);
+    if (
+      await this.studioAccessService.can(
+        user,
+        playlist.studio?.uuid ?? null,
+        StudioPermission.MANAGE_PLAYLISTS,
+      )
+    ) {
+      return this.toTimeline(playlist, entries);
+    }
+    if (
+      !playlist.publishedAt ||
+      !playlist.studio ||
+      !this.studioDomainService.canPublish(playlist.studio)
+    ) {
+      throw new NotFoundException("Playlist not found");
+    }
+    return this.toTimeline(
+      playlist,
+      await this.geoPolicyService.filterAvailable(
+        entries.filter((entry) => entry.media.status === MediaStatus.ACTIVE),
+        (entry) => entry.media,
+        region,
+      ),
+    );
+  }
+
+  /**
+   * Makes the playlist visible to viewers and announces it to the studio's
+   * followers. The studio must be approved.
+   */
+  async publish(user: User, uuid: string): Promise<PlaylistTimeline> {
+    const playlist = await this.getManagedPlaylist(user, uuid);
+    if (!this.studioDomainService.canPublish(playlist.studio)) {
+      throw new ForbiddenException(
+        `Studio is ${playlist.studio.status}; only approved studios can publish`,
+      );
+    }
+    if (!playlist.publishedAt) {
+      playlist.publishedAt = new Date();
+      await this.playlistRepository.save(playlist);
+      this.studioFollowService.announce({
+        studioUuid: playlist.studio.uuid,
+        kind: "playlist",
+        uuid: playlist.uuid,
+        title: playlist.title,
+      });
+    }
+    return this.getTimeline(uuid);
+  }
+
+  async unpublish(user: User, uuid: string): Promise<PlaylistTimeline> {
+    const playlist = await this.getManagedPlaylist(user, uuid);
+    playlist.publishedAt = null;
+    await this.playlistRepository.save(playlist);
+    return this.getTimeline(uuid);
+  }
+
+  async addItem(
+    user: User,
+    playlistUuid: string,
+    dto: AddPlaylistItemDto,
+  ): Promise<PlaylistTimeline> {
+    const playlist = await this.getManagedPlaylist(user, playlistUuid);
+    const media = await this.mediaRepository.findByUuid(
+      dto.kind,
+      dto.mediaUuid,
+    );
+    if (!media) {
+      throw new NotFoundException("Media not found");
+    }
+    if (media.studioUuid !== playlist.studio?.uuid) {
+      throw new BadRequestException(
+        "Only media of the playlist's studio can be added",
+      );
+    }
+
+    await this.playlistRepository.updateItems(playlistUuid, (items) => {
+      const entry = Object.assign(new PlaylistItem(), {
+        playlistUuid,
+        mediaKind: dto.kind,
+        [dto.kind]: media,
+      });
+      return this.playlistDomainService.insert(items, entry, dto.position);
+    });
+    return this.getTimeline(playlistUuid);
+  }
+
+  async removeItem(
+    user: User,
+    playlistUuid: string,
+    itemUuid: string,
+  ): Promise<PlaylistTimeline> {
+    await this.getManagedPlaylist(user, playlistUuid);
+    await this.playlistRepository.updateItems(playlistUuid, (items) => {
+      this.assertContains(items, itemUuid);
+      return this.playlistDomainService.remove(items, itemUuid);
+    });
+    return this.getTimeline(playlistUuid);
+  }
+
+  async moveItem(
+    user: User,
+    playlistUuid: string,
+    itemUuid: string,
+    dto: MovePlaylistItemDto,
+  ): Promise<PlaylistTimeline> {
+    await this.getManagedPlaylist(user, playlistUuid);
+    await this.playlistRepository.updateItems(playlistUuid, (items) => {
+      this.assertContains(items, itemUuid);
+      return this.playlistDomainService.move(items, itemUuid, dto.position);
+    });
+    return this.getTimeline(playlistUuid);
+  }
+
+  async reorder(
+    user: User,
+    playlistUuid: string,
+    dto: ReorderPlaylistDto,
+  ): Promise<PlaylistTimeline> {
+    await this.getManagedPlaylist(user, playlistUuid);
+    await this.playlistRepository.updateItems(playlistUuid, (items) => {
+      if (!this.playlistDomainService.isPermutation(items, dto.itemUuids)) {
+        throw new BadRequestException(
+          "itemUuids must list every entry of the playlist exactly once",
+        );
+      }
+      return this.playlistDomainService.reorder(items, dto.itemUuids);
+    });
+    return this.getTimeline(playlistUuid);
+  }
+
+  /**
+   * Loads a playlist the caller may edit: their role in its studio must
+   * allow managing playlists.
+   */
+  private async getManagedPlaylist(
+    user: User,
+    uuid: string,
+  ): Promise<Playlist> {
+    const playlist = await this.playlistRepository.findWithStudio(uuid);
+    if (!playlist) {
+      throw new NotFoundException("Playlist not found");
+    }
+    await this.studioAccessService.assertPermission(
+      user,
+      playlist.studio?.uuid ?? null,
+      StudioPermission.MANAGE_PLAYLISTS,
+      "playlist",
+    );
+    return playlist;
+  }
+
+  private entries(playlist: Playlist): TimelineEntry[] {
+    return (playlist.items ?? [])
+      .filter((item) => item[item.mediaKind])
+      .map((item) => ({
+        uuid: item.uuid,
+        position: item.position,
+        kind: item.mediaKind,
+        media: item[item.mediaKind],
+      }));
+  }
+
+  private toTimeline(
+    playlist: Playlist,
+    items: TimelineEntry[],
+  ): PlaylistTimeline {
+    return {
+      uuid: playlist.uuid,
+      title: playlist.title,
+      description: playlist.description,
+      studioUuid: playlist.studio?.uuid ?? null,
+      publishedAt: playlist.publishedAt,
+      items,
+    };
+  }
+
+  private assertContains(items: PlaylistItem[], itemUuid: string) {
+    if (!items.some((item) => item.uuid === itemUuid)) {
+      throw new NotFoundException("Playlist entry not found");
+    }
+  }
+}
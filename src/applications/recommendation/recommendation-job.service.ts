@@ -0,0 +1,79 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from "@nestjs/common";
+import {
+  CONSUMED_INTERACTIONS,
+  RecommendationDomainService,
+} from "../../domain/recommendation/services/recommendation.domain-service";
+import { RecommendationRepository } from "../../infrastructure/repositories/recommendation.repository";
+import { recommendationConfig } from "./recommendation.config";
+
+/**
+ * Periodically recomputes item-to-item similarity from the interaction
+ * history. The first run starts one interval after boot.
+ */
+@Injectable()
+export class RecommendationJobService
+  implements OnModuleInit, OnApplicationShutdown
+{
+  private readonly logger = new Logger(RecommendationJobService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly recommendationRepository: RecommendationRepository,
+    private readonly recommendationDomainService: RecommendationDomainService,
+  ) {}
+
+  onModuleInit() {
+    if (!recommendationConfig.jobEnabled) {
+      return;
+    }
+    this.timer = setInterval(
+      () => void this.run(),
+      recommendationConfig.jobInterval * 1000,
+    );
+    this.timer.unref();
+  }
+
+  onApplicationShutdown() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Replaces the stored similarities with freshly computed ones.
+   * @returns {number} How many similarities were stored.
+   */
+  async run(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+    this.running = true;
+    try {
+      const since = new Date(
+        now.getTime() - recommendationConfig.historyDays * 24 * 60 * 60 * 1000,
+      );
+      const pairs = await this.recommendationRepository.coOccurrences(
+        since,
+        CONSUMED_INTERACTIONS,
+        recommendationConfig.minTogether,
+      );
+      const rows = this.recommendationDomainService.similarities(
+        pairs,
+        recommendationConfig.perItem,
+      );
+      await this.recommendationRepository.replaceSimilarities(rows);
+      return rows.length;
+    } catch (error) {
+      this.logger.error("Recommendation job failed", error);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Settings for recommendations, read from the environment.
+ * Durations are in seconds unless named in days.
+ */
+export const recommendationConfig = {
+  /** Set to "false" to run an instance without the similarity job. */
+  jobEnabled: process.env.RECOMMENDATION_JOB_ENABLED !== "false",
+  jobInterval: parseInt(process.env.RECOMMENDATION_JOB_INTERVAL ?? "21600", 10),
+  /** How far back interactions count towards item similarity. */
+  historyDays: parseInt(process.env.RECOMMENDATION_HISTORY_DAYS ?? "90", 10),
+  /** Users two items must share before they are considered similar. */
+  minTogether: parseInt(process.env.RECOMMENDATION_MIN_TOGETHER ?? "2", 10),
+  /** Similar items stored per item. */
+  perItem: parseInt(process.env.RECOMMENDATION_PER_ITEM ?? "50", 10),
+  /** Recent items of a user a home shelf is built from. */
+  seedCount: parseInt(process.env.RECOMMENDATION_SEED_COUNT ?? "20", 10),
+  /** Most consumed items read per user to leave off their shelf. */
+  historySize: parseInt(process.env.RECOMMENDATION_HISTORY_SIZE ?? "1000", 10),
+  /** Candidates read for content-based fallback picks. */
+  candidatePool: parseInt(
+    process.env.RECOMMENDATION_CANDIDATE_POOL ?? "200",
+    10,
+  ),
+  /** Period over which popular items are counted for new users. */
+  popularDays: parseInt(process.env.RECOMMENDATION_POPULAR_DAYS ?? "7", 10),
+};
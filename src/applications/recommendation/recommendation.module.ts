@@ -0,0 +1,24 @@
+import { Module } from "@nestjs/common";
+import { RecommendationController } from "../../infrastructure/controllers/recommendation.controller";
+import { RecommendationService } from "./recommendation.service";
+import { RecommendationJobService } from "./recommendation-job.service";
+import { RecommendationDomainService } from "../../domain/recommendation/services/recommendation.domain-service";
+import { RecommendationRepository } from "../../infrastructure/repositories/recommendation.repository";
+import { UserModule } from "../user/user.module";
+import { MediaModule } from "../media/media.module";
+
+/**
+ * Recommendations: a background job that derives item similarity from the
+ * interaction log, and the "more like this" and home shelf lists built on it.
+ */
+@Module({
+  imports: [UserModule, MediaModule],
+  controllers: [RecommendationController],
+  providers: [
+    RecommendationService,
+    RecommendationJobService,
+    RecommendationDomainService,
+    RecommendationRepository,
+  ],
+})
+export class RecommendationModule {}
@@ -0,0 +1,192 @@
+import { Injectable } from "@nestjs/common";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+import { Music } from "../../domain/media/entities/music.entity";
+import { MediaKind } from "../../domain/media/services/media.domain-service";
+import {
+  CONSUMED_INTERACTIONS,
+  ContentProfile,
+  RecommendationDomainService,
+  RecommendationReason,
+  ScoredMedia,
+  refKey,
+} from "../../domain/recommendation/services/recommendation.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { RecommendationRepository } from "../../infrastructure/repositories/recommendation.repository";
+import { MediaAccessService } from "../media/media-access.service";
+import { recommendationConfig } from "./recommendation.config";
+
+const DEFAULT_LIMIT = 20;
+
+/**
+ * How many of a user's latest items content-based fallback picks are drawn
+ * from.
+ */
+const FALLBACK_SEEDS = 3;
+
+export interface Recommendation {
+  kind: MediaKind;
+  uuid: string;
+  title: string;
+  studioUuid: string;
+  score: number;
+  reason: RecommendationReason;
+}
+
+/**
+ * Application service for "more like this" lists and personal home shelves.
+ * Items consumed together by the same users come first; shared artist,
+ * genre or studio, and finally popularity, fill in where that history is
+ * too thin. Only items offered in the viewer's region are recommended.
+ */
+@Injectable()
+export class RecommendationService {
+  constructor(
+    private readonly recommendationRepository: RecommendationRepository,
+    private readonly mediaAccessService: MediaAccessService,
+    private readonly recommendationDomainService: RecommendationDomainService,
+  ) {}
+
+  /**
+   * Items similar to one the user may see. Items hidden from them are not
+   * found.
+   */
+  async moreLikeThis(
+    user: User,
+    kind: MediaKind,
+    uuid: string,
+    region: ViewerRegion,
+    limit = DEFAULT_LIMIT,
+  ): Promise<Recommendation[]> {
+    const item = await this.mediaAccessService.getVisibleItem(
+      user,
+      region,
+      kind,
+      uuid,
+    );
+    const source: ContentProfile = {
+      kind,
+      uuid,
+      studioUuid: item.studioUuid,
+      artist: kind === "music" ? (item as Music).artist : null,
+      genre: kind === "music" ? (item as Music).genre : null,
+    };
+
+    const similar = await this.recommendationRepository.similarTo(
+      [source],
+      limit,
+      region.country,
+    );
+    let picks = similar.map(
+      (row): ScoredMedia => ({
+        kind: row.targetKind,
+        uuid: row.targetUuid,
+        score: row.score,
+        reason: "co-viewed",
+      }),
+    );
+    if (picks.length < limit) {
+      const candidates = await this.recommendationRepository.contentCandidates(
+        [source],
+        recommendationConfig.candidatePool,
+        region.country,
+      );
+      picks = this.recommendationDomainService.fill(
+        picks,
+        this.recommendationDomainService.contentMatches([source], candidates),
+        new Set([refKey(source)]),
+        limit,
+      );
+    }
+    return this.describe(picks, region);
+  }
+
+  /**
+   * A personal shelf built from what the user consumed most recently,
+   * leaving out everything they have already consumed.
+   */
+  async homeShelf(
+    user: User,
+    region: ViewerRegion,
+    limit = DEFAULT_LIMIT,
+  ): Promise<Recommendation[]> {
+    const consumed = await this.recommendationRepository.consumedBy(
+      user.uuid,
+      CONSUMED_INTERACTIONS,
+      recommendationConfig.historySize,
+    );
+    const exclude = new Set(consumed.map(refKey));
+    const seeds = consumed.slice(0, recommendationConfig.seedCount);
+
+    const similar = await this.recommendationRepository.similarTo(
+      seeds,
+      limit,
+      region.country,
+    );
+    let picks = this.recommendationDomainService.rankShelf(
+      seeds,
+      similar,
+      exclude,
+      limit,
+    );
+    if (picks.length < limit && seeds.length) {
+      const profiles = await this.recommendationRepository.profiles(
+        seeds.slice(0, FALLBACK_SEEDS),
+      );
+      const candidates = await this.recommendationRepository.contentCandidates(
+        profiles,
+        recommendationConfig.candidatePool,
+        region.country,
+      );
+      picks = this.recommendationDomainService.fill(
+        picks,
+        this.recommendationDomainService.contentMatches(profiles, candidates),
+        exclude,
+        limit,
+      );
+    }
+    if (picks.length < limit) {
+      const since = new Date(
+        Date.now() - recommendationConfig.popularDays * 24 * 60 * 60 * 1000,
+      );
+      const popular = await this.recommendationRepository.popular(
+        since,
+        CONSUMED_INTERACTIONS,
+        recommendationConfig.candidatePool,
+        region.country,
+      );
+      picks = this.recommendationDomainService.fill(
+        picks,
+        popular.map(({ ref, count }) => ({
+          ...ref,
+          score: count,
+          reason: "popular",
+        })),
+        exclude,
+        limit,
+      );
+    }
+    return this.describe(picks, region);
+  }
+
+  /**
+   * Adds titles to the picks, keeping their order and dropping those not
+   * offered in `region`.
+   */
+  private async describe(
+    picks: ScoredMedia[],
+    region: ViewerRegion,
+  ): Promise<Recommendation[]> {
+    const summaries = new Map(
+      (
+        await this.recommendationRepository.summaries(picks, region.country)
+      ).map((summary) => [refKey(summary), summary]),
+    );
+    return picks
+      .filter((pick) => summaries.has(refKey(pick)))
+      .map((pick) => ({
+        ...summaries.get(refKey(pick)),
+        score: pick.score,
+        reason: pick.reason,
+      }));
+  }
+}
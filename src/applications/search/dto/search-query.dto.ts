@@ -0,0 +1,61 @@
+import { Transform, Type } from "class-transformer";
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Length,
+  Max,
+  Min,
+} from "class-validator";
+import {
+  MAX_QUERY_LENGTH,
+  SEARCH_KINDS,
+  SearchKind,
+} from "../../../domain/search/services/search.domain-service";
+
+/**
+ * A catalog search. `kind` may be repeated or comma-separated to search
+ * several kinds at once; all kinds are searched by default.
+ */
+export class SearchQueryDto {
+  @IsString()
+  @Length(1, MAX_QUERY_LENGTH)
+  q: string;
+
+  @IsOptional()
+  @Transform(({ value }) =>
+    (Array.isArray(value) ? value : [value]).flatMap((kind: string) =>
+      String(kind).split(","),
+    ),
+  )
+  @IsIn(SEARCH_KINDS, { each: true })
+  kind?: SearchKind[];
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  genre?: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 20)
+  format?: string;
+
+  @IsOptional()
+  @IsUUID()
+  studioUuid?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+
+  /** `nextCursor` of the previous page. */
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
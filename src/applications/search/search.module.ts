@@ -0,0 +1,16 @@
+import { Module } from "@nestjs/common";
+import { SearchController } from "../../infrastructure/controllers/search.controller";
+import { SearchService } from "./search.service";
+import { SearchDomainService } from "../../domain/search/services/search.domain-service";
+import { SearchRepository } from "../../infrastructure/repositories/search.repository";
+import { UserModule } from "../user/user.module";
+
+/**
+ * Full-text catalog search with typo tolerance and facets.
+ */
+@Module({
+  imports: [UserModule],
+  controllers: [SearchController],
+  providers: [SearchService, SearchDomainService, SearchRepository],
+})
+export class SearchModule {}
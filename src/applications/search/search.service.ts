@@ -0,0 +1,82 @@
+import { BadRequestException, Injectable } from "@nestjs/common";
+import {
+  SEARCH_KINDS,
+  SearchDomainService,
+} from "../../domain/search/services/search.domain-service";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+import {
+  FacetCount,
+  SearchHit,
+  SearchRepository,
+} from "../../infrastructure/repositories/search.repository";
+import { SearchQueryDto } from "./dto/search-query.dto";
+
+const DEFAULT_LIMIT = 20;
+
+export interface SearchResults {
+  items: SearchHit[];
+  facets: FacetCount[];
+  /** Null on the last page. */
+  nextCursor: string | null;
+}
+
+/**
+ * Application service for catalog search across media, playlists and
+ * studios. Results are ranked by relevance and paged with an opaque cursor.
+ */
+@Injectable()
+export class SearchService {
+  constructor(
+    private readonly searchRepository: SearchRepository,
+    private readonly searchDomainService: SearchDomainService,
+  ) {}
+
+  /**
+   * Media that is not offered in the viewer's region is left out of both
+   * the hits and the facet counts.
+   */
+  async search(
+    query: SearchQueryDto,
+    region: ViewerRegion,
+  ): Promise<SearchResults> {
+    const text = this.searchDomainService.normalizeQuery(query.q);
+    if (!text) {
+      throw new BadRequestException("q must not be blank");
+    }
+    const cursor = query.cursor
+      ? this.searchDomainService.decodeCursor(query.cursor)
+      : null;
+    if (query.cursor && !cursor) {
+      throw new BadRequestException("Invalid cursor");
+    }
+
+    const filter = {
+      text,
+      kinds: query.kind?.length ? [...new Set(query.kind)] : SEARCH_KINDS,
+      genre: query.genre,
+      format: query.format,
+      studioUuid: query.studioUuid,
+      country: region.country,
+    };
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    const [hits, facets] = await Promise.all([
+      this.searchRepository.search(filter, cursor, limit + 1),
+      this.searchRepository.facets(filter),
+    ]);
+
+    const items = hits.slice(0, limit);
+    const last = items[items.length - 1];
+    return {
+      items,
+      facets,
+      nextCursor:
+        hits.length > limit
+          ? this.searchDomainService.encodeCursor({
+              score: last.score,
+              kind: last.kind,
+              uuid: last.uuid,
+            })
+          : null,
+    };
+  }
+}
@@ -0,0 +1,19 @@
+import { IsOptional, IsString, IsUrl, MaxLength } from "class-validator";
+
+/**
+ * Payload for registering a studio. New studios start in review.
+ */
+export class CreateStudioDto {
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @IsString()
+  @MaxLength(255)
+  description: string;
+
+  @IsOptional()
+  @IsUrl()
+  @MaxLength(255)
+  picture_url?: string;
+}
@@ -0,0 +1,63 @@
+import { Type } from "class-transformer";
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+import { StudioStatus } from "../../../domain/studio/entities/studio.entity";
+
+/**
+ * A reviewer's decision on a studio.
+ */
+export class ReviewStudioDto {
+  @IsIn(Object.values(StudioStatus))
+  status: StudioStatus;
+
+  /**
+   * Explanation shown to the studio owner and kept in the review history.
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  note: string;
+}
+
+/**
+ * The owner's resubmission after changes were requested.
+ */
+export class ResubmitStudioDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+}
+
+/**
+ * Filters and paging for the review queue.
+ */
+export class ReviewQueueQueryDto {
+  /**
+   * Statuses to list; defaults to studios waiting for review.
+   */
+  @IsOptional()
+  @IsIn(Object.values(StudioStatus), { each: true })
+  status?: StudioStatus | StudioStatus[];
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
@@ -0,0 +1,66 @@
+import { Transform, Type } from "class-transformer";
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from "class-validator";
+import {
+  FEED_KINDS,
+  FeedKind,
+} from "../../../domain/studio/services/studio-follow.domain-service";
+
+export class FollowStudioDto {
+  /** Send a notification for each release; off by default. */
+  @IsOptional()
+  @IsBoolean()
+  notify?: boolean;
+}
+
+/**
+ * Paging for the studios a user follows.
+ */
+export class FollowingQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
+
+/**
+ * A page of the release feed. `kind` may be repeated or comma-separated;
+ * all kinds are included by default.
+ */
+export class FeedQueryDto {
+  @IsOptional()
+  @Transform(({ value }) =>
+    (Array.isArray(value) ? value : [value]).flatMap((kind: string) =>
+      String(kind).split(","),
+    ),
+  )
+  @IsIn(FEED_KINDS, { each: true })
+  kind?: FeedKind[];
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+
+  /** `nextCursor` of the previous page. */
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
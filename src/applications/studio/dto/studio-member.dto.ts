@@ -0,0 +1,33 @@
+import { IsEmail, IsEnum, IsString, IsUUID, MaxLength } from "class-validator";
+import { StudioRole } from "../../../domain/studio/entities/studio-member.entity";
+
+/**
+ * Payload for inviting someone to a studio by email.
+ */
+export class InviteStudioMemberDto {
+  @IsEmail()
+  @MaxLength(255)
+  email: string;
+
+  /** Any role below the inviter's own; never "owner". */
+  @IsEnum(StudioRole)
+  role: StudioRole;
+}
+
+export class ChangeStudioRoleDto {
+  @IsEnum(StudioRole)
+  role: StudioRole;
+}
+
+export class TransferOwnershipDto {
+  /** The member who becomes the owner. */
+  @IsUUID()
+  userUuid: string;
+}
+
+export class AcceptInvitationDto {
+  /** The token from the invitation link. */
+  @IsString()
+  @MaxLength(100)
+  token: string;
+}
@@ -0,0 +1,165 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { Studio } from "../../domain/studio/entities/studio.entity";
+import { StudioMember } from "../../domain/studio/entities/studio-member.entity";
+import {
+  StudioMembershipDomainService,
+  StudioPermission,
+} from "../../domain/studio/services/studio-membership.domain-service";
+import {
+  MediaItem,
+  MediaKind,
+} from "../../domain/media/services/media.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { PlaylistRepository } from "../../infrastructure/repositories/playlist.repository";
+import { StudioRepository } from "../../infrastructure/repositories/studio.repository";
+import { StudioMemberRepository } from "../../infrastructure/repositories/studio-member.repository";
+
+/**
+ * What a studio permission can be checked against.
+ */
+export type StudioResource = "studio" | "playlist" | "media";
+
+/**
+ * Decides what a user may do with a studio and its content, from their
+ * membership role. Every module that lets studios manage something checks
+ * through this service.
+ */
+@Injectable()
+export class StudioAccessService {
+  constructor(
+    private readonly studioRepository: StudioRepository,
+    private readonly studioMemberRepository: StudioMemberRepository,
+    private readonly mediaRepository: MediaRepository,
+    private readonly playlistRepository: PlaylistRepository,
+    private readonly studioMembershipDomainService: StudioMembershipDomainService,
+  ) {}
+
+  membership(
+    user: User,
+    studioUuid: string | null,
+  ): Promise<StudioMember | null> {
+    return studioUuid
+      ? this.studioMemberRepository.findMember(studioUuid, user.uuid)
+      : Promise.resolve(null);
+  }
+
+  async can(
+    user: User,
+    studioUuid: string | null,
+    permission: StudioPermission,
+  ): Promise<boolean> {
+    const member = await this.membership(user, studioUuid);
+    return (
+      !!member &&
+      this.studioMembershipDomainService.can(member.role, permission)
+    );
+  }
+
+  /**
+   * Throws 403 unless the user is a member of the studio whose role grants
+   * `permission`. `subject` names what is being managed in the message.
+   */
+  async assertPermission(
+    user: User,
+    studioUuid: string | null,
+    permission: StudioPermission,
+    subject = "studio",
+  ): Promise<StudioMember> {
+    const member = await this.membership(user, studioUuid);
+    const refusal = this.studioMembershipDomainService.permissionRefusal(
+      member,
+      permission,
+      subject,
+    );
+    if (refusal) {
+      throw new ForbiddenException(refusal);
+    }
+    return member as StudioMember;
+  }
+
+  /**
+   * Loads a studio the user may act on with `permission`.
+   */
+  async getManagedStudio(
+    user: User,
+    uuid: string,
+    permission: StudioPermission,
+  ): Promise<Studio> {
+    const studio = await this.studioRepository.findWithOwner(uuid);
+    if (!studio) {
+      throw new NotFoundException("Studio not found");
+    }
+    await this.assertPermission(user, uuid, permission);
+    return studio;
+  }
+
+  /**
+   * Loads a media item whose studio lets the user act on it with
+   * `permission` (by default, managing media). Deleted items are only found
+   * with `withDeleted`.
+   */
+  async getManagedItem(
+    user: User,
+    kind: MediaKind,
+    uuid: string,
+    options: { permission?: StudioPermission; withDeleted?: boolean } = {},
+  ): Promise<MediaItem> {
+    const item = await this.mediaRepository.findByUuid(
+      kind,
+      uuid,
+      options.withDeleted,
+    );
+    if (!item) {
+      throw new NotFoundException("Media not found");
+    }
+    await this.assertPermission(
+      user,
+      item.studioUuid,
+      options.permission ?? StudioPermission.MANAGE_MEDIA,
+      "media",
+    );
+    return item;
+  }
+
+  /**
+   * The UUID of the studio a resource belongs to, or null if it belongs to
+   * none. Deleted media counts, so it can still be restored.
+   * @throws NotFoundException if the resource does not exist.
+   */
+  async studioOf(
+    resource: StudioResource,
+    uuid: string,
+    kind?: MediaKind,
+  ): Promise<string | null> {
+    switch (resource) {
+      case "studio": {
+        const studio = await this.studioRepository.findWithOwner(uuid);
+        if (!studio) {
+          throw new NotFoundException("Studio not found");
+        }
+        return studio.uuid;
+      }
+      case "playlist": {
+        const playlist = await this.playlistRepository.findWithStudio(uuid);
+        if (!playlist) {
+          throw new NotFoundException("Playlist not found");
+        }
+        return playlist.studio?.uuid ?? null;
+      }
+      case "media": {
+        const item = kind
+          ? await this.mediaRepository.findByUuid(kind, uuid, true)
+          : null;
+        if (!item) {
+          throw new NotFoundException("Media not found");
+        }
+        return item.studioUuid;
+      }
+    }
+  }
+}
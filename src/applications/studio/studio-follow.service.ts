@@ -0,0 +1,215 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+import { NotificationChannel } from "../../domain/notification/entities/notification.entity";
+import { NotificationEvent } from "../../domain/notification/services/notification-templates";
+import { Studio } from "../../domain/studio/entities/studio.entity";
+import {
+  FEED_KINDS,
+  FeedKind,
+  StudioFollowDomainService,
+} from "../../domain/studio/services/studio-follow.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { StudioRepository } from "../../infrastructure/repositories/studio.repository";
+import {
+  FeedEntry,
+  StudioFollowerRepository,
+} from "../../infrastructure/repositories/studio-follower.repository";
+import { NotificationService } from "../notification/notification.service";
+import {
+  FeedQueryDto,
+  FollowingQueryDto,
+  FollowStudioDto,
+} from "./dto/studio-follow.dto";
+
+const DEFAULT_LIMIT = 20;
+const ANNOUNCE_BATCH = 500;
+
+/**
+ * A studio the user follows.
+ */
+export interface FollowedStudio {
+  studio: Studio;
+  notify: boolean;
+  followedAt: Date;
+}
+
+export interface Feed {
+  items: FeedEntry[];
+  /** Null on the last page. */
+  nextCursor: string | null;
+}
+
+/**
+ * Something a studio made available to viewers.
+ */
+export interface StudioRelease {
+  studioUuid: string;
+  kind: FeedKind;
+  uuid: string;
+  title: string;
+}
+
+/**
+ * Application service for following studios and for the feed of their
+ * releases. Followers who asked for it are notified of each release.
+ */
+@Injectable()
+export class StudioFollowService {
+  private readonly logger = new Logger(StudioFollowService.name);
+
+  constructor(
+    private readonly studioFollowerRepository: StudioFollowerRepository,
+    private readonly studioRepository: StudioRepository,
+    private readonly studioFollowDomainService: StudioFollowDomainService,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  /**
+   * Follows an approved studio. Following it again only changes `notify`.
+   */
+  async follow(
+    user: User,
+    studioUuid: string,
+    dto: FollowStudioDto,
+  ): Promise<FollowedStudio> {
+    const [studio] = await this.studioRepository.findByUuids([studioUuid]);
+    if (!studio) {
+      throw new NotFoundException("Studio not found");
+    }
+    const refusal = this.studioFollowDomainService.followRefusal(studio);
+    if (refusal) {
+      throw new ForbiddenException(refusal);
+    }
+    await this.studioFollowerRepository.follow(
+      studioUuid,
+      user.uuid,
+      dto.notify ?? false,
+    );
+    const follower = await this.studioFollowerRepository.findFollower(
+      studioUuid,
+      user.uuid,
+    );
+    if (!follower) {
+      throw new NotFoundException("Studio not found");
+    }
+    return {
+      studio: follower.studio,
+      notify: follower.notify,
+      followedAt: follower.createdAt,
+    };
+  }
+
+  async unfollow(user: User, studioUuid: string): Promise<void> {
+    if (
+      !(await this.studioFollowerRepository.unfollow(studioUuid, user.uuid))
+    ) {
+      throw new NotFoundException("You do not follow this studio");
+    }
+  }
+
+  async following(
+    user: User,
+    query: FollowingQueryDto,
+  ): Promise<{ items: FollowedStudio[]; total: number }> {
+    const [followers, total] =
+      await this.studioFollowerRepository.findFollowing(
+        user.uuid,
+        query.limit ?? DEFAULT_LIMIT,
+        query.offset ?? 0,
+      );
+    return {
+      items: followers.map((follower) => ({
+        studio: follower.studio,
+        notify: follower.notify,
+        followedAt: follower.createdAt,
+      })),
+      total,
+    };
+  }
+
+  /**
+   * Releases of the studios the user follows, newest first. Media that is
+   * not offered in the viewer's region is left out.
+   */
+  async feed(
+    user: User,
+    query: FeedQueryDto,
+    region: ViewerRegion,
+  ): Promise<Feed> {
+    const cursor = query.cursor
+      ? this.studioFollowDomainService.decodeCursor(query.cursor)
+      : null;
+    if (query.cursor && !cursor) {
+      throw new BadRequestException("Invalid cursor");
+    }
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    const entries = await this.studioFollowerRepository.feed(
+      {
+        userUuid: user.uuid,
+        kinds: query.kind?.length ? [...new Set(query.kind)] : FEED_KINDS,
+        country: region.country,
+      },
+      cursor,
+      limit + 1,
+    );
+
+    const items = entries.slice(0, limit);
+    const last = items[items.length - 1];
+    return {
+      items,
+      nextCursor:
+        entries.length > limit
+          ? this.studioFollowDomainService.encodeCursor(last)
+          : null,
+    };
+  }
+
+  /**
+   * Notifies the studio's followers of a release in the background, so the
+   * request that released it does not wait for a large audience.
+   */
+  announce(release: StudioRelease): void {
+    void this.notifyFollowers(release).catch((error) =>
+      this.logger.error(
+        `Could not announce ${release.kind} ${release.uuid}: ${error}`,
+      ),
+    );
+  }
+
+  private async notifyFollowers(release: StudioRelease): Promise<void> {
+    const [studio] = await this.studioRepository.findByUuids([
+      release.studioUuid,
+    ]);
+    if (!studio || this.studioFollowDomainService.followRefusal(studio)) {
+      return;
+    }
+    let after: string | null = null;
+    for (;;) {
+      const userUuids =
+        await this.studioFollowerRepository.findNotifiedFollowers(
+          studio.uuid,
+          after,
+          ANNOUNCE_BATCH,
+        );
+      for (const userUuid of userUuids) {
+        await this.notificationService.notify({
+          event: NotificationEvent.STUDIO_RELEASE,
+          userUuid,
+          studioUuid: studio.uuid,
+          channel: NotificationChannel.PUSH,
+          variables: { studio: studio.name, title: release.title },
+        });
+      }
+      if (userUuids.length < ANNOUNCE_BATCH) {
+        return;
+      }
+      after = userUuids[userUuids.length - 1];
+    }
+  }
+}
@@ -0,0 +1,284 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { NotificationChannel } from "../../domain/notification/entities/notification.entity";
+import { NotificationEvent } from "../../domain/notification/services/notification-templates";
+import {
+  StudioMember,
+  StudioRole,
+} from "../../domain/studio/entities/studio-member.entity";
+import { StudioInvitation } from "../../domain/studio/entities/studio-invitation.entity";
+import {
+  StudioMembershipDomainService,
+  StudioPermission,
+} from "../../domain/studio/services/studio-membership.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { StudioMemberRepository } from "../../infrastructure/repositories/studio-member.repository";
+import { UserRepository } from "../../infrastructure/repositories/user.repository";
+import { NotificationService } from "../notification/notification.service";
+import { StudioAccessService } from "./studio-access.service";
+import { studioConfig as config } from "./studio.config";
+import {
+  AcceptInvitationDto,
+  ChangeStudioRoleDto,
+  InviteStudioMemberDto,
+  TransferOwnershipDto,
+} from "./dto/studio-member.dto";
+
+/**
+ * Application service for the members of a studio: invitations, role
+ * changes, removal and ownership transfer.
+ */
+@Injectable()
+export class StudioMembershipService {
+  constructor(
+    private readonly studioMemberRepository: StudioMemberRepository,
+    private readonly userRepository: UserRepository,
+    private readonly studioAccessService: StudioAccessService,
+    private readonly studioMembershipDomainService: StudioMembershipDomainService,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  /**
+   * The studio's members, visible to every member.
+   */
+  async listMembers(user: User, studioUuid: string): Promise<StudioMember[]> {
+    await this.getMembership(user, studioUuid);
+    return this.studioMemberRepository.findMembers(studioUuid);
+  }
+
+  async changeRole(
+    user: User,
+    studioUuid: string,
+    memberUuid: string,
+    dto: ChangeStudioRoleDto,
+  ): Promise<StudioMember> {
+    const actor = await this.getActor(user, studioUuid);
+    const member = await this.getMember(studioUuid, memberUuid);
+    if (
+      !this.studioMembershipDomainService.canManage(actor.role, member.role) ||
+      !this.studioMembershipDomainService.canAssign(actor.role, dto.role)
+    ) {
+      throw new ForbiddenException(
+        `Your ${actor.role} role cannot make this member ${dto.role}`,
+      );
+    }
+    member.role = dto.role;
+    return this.studioMemberRepository.save(member);
+  }
+
+  /**
+   * Removes a member ranked below the caller. Members leave on their own
+   * through {@link leave}.
+   */
+  async removeMember(
+    user: User,
+    studioUuid: string,
+    memberUuid: string,
+  ): Promise<void> {
+    const actor = await this.getActor(user, studioUuid);
+    const member = await this.getMember(studioUuid, memberUuid);
+    if (
+      !this.studioMembershipDomainService.canManage(actor.role, member.role)
+    ) {
+      throw new ForbiddenException(
+        `Your ${actor.role} role cannot remove this member`,
+      );
+    }
+    await this.studioMemberRepository.remove(member);
+  }
+
+  /**
+   * Removes the caller from the studio. The owner must transfer ownership
+   * first.
+   */
+  async leave(user: User, studioUuid: string): Promise<void> {
+    const member = await this.getMembership(user, studioUuid);
+    if (member.role === StudioRole.OWNER) {
+      throw new ConflictException(
+        "The owner must transfer ownership before leaving",
+      );
+    }
+    await this.studioMemberRepository.remove(member);
+  }
+
+  /**
+   * Hands the studio to another member. The previous owner stays on as an
+   * admin.
+   */
+  async transferOwnership(
+    user: User,
+    studioUuid: string,
+    dto: TransferOwnershipDto,
+  ): Promise<StudioMember[]> {
+    const owner = await this.getMembership(user, studioUuid);
+    if (owner.role !== StudioRole.OWNER) {
+      throw new ForbiddenException("Only the owner can transfer ownership");
+    }
+    if (dto.userUuid === user.uuid) {
+      throw new BadRequestException("You already own this studio");
+    }
+    const member = await this.getMember(studioUuid, dto.userUuid);
+    await this.studioMemberRepository.transferOwnership(owner, member);
+    return this.studioMemberRepository.findMembers(studioUuid);
+  }
+
+  /**
+   * Emails an invitation link to `dto.email`. The link works once, for a
+   * user with that email address, until the invitation expires.
+   */
+  async invite(
+    user: User,
+    studioUuid: string,
+    dto: InviteStudioMemberDto,
+  ): Promise<StudioInvitation> {
+    const actor = await this.getActor(user, studioUuid);
+    if (!this.studioMembershipDomainService.canAssign(actor.role, dto.role)) {
+      throw new ForbiddenException(
+        `Your ${actor.role} role cannot invite a ${dto.role}`,
+      );
+    }
+    const email = dto.email.toLowerCase();
+    const invitee = await this.userRepository.findByEmail(email);
+    if (
+      invitee &&
+      (await this.studioMemberRepository.findMember(studioUuid, invitee.uuid))
+    ) {
+      throw new ConflictException("This user is already a member");
+    }
+
+    const token = this.studioMembershipDomainService.generateInvitationToken();
+    const invitation = await this.studioMemberRepository.saveInvitation(
+      this.studioMemberRepository.createInvitation({
+        studioUuid,
+        email,
+        role: dto.role,
+        tokenHash:
+          this.studioMembershipDomainService.hashInvitationToken(token),
+        invitedBy: user,
+        expiresAt: new Date(Date.now() + config.invitationTtl * 1000),
+        acceptedAt: null,
+      }),
+    );
+
+    const days = Math.round(config.invitationTtl / 86400);
+    await this.notificationService.notify({
+      event: NotificationEvent.STUDIO_INVITATION,
+      userUuid: invitee?.uuid ?? null,
+      studioUuid,
+      channel: NotificationChannel.EMAIL,
+      recipient: email,
+      variables: {
+        role: dto.role,
+        days,
+        link: `${config.invitationLinkBaseUrl}?token=${token}`,
+      },
+    });
+    return invitation;
+  }
+
+  async listInvitations(
+    user: User,
+    studioUuid: string,
+  ): Promise<StudioInvitation[]> {
+    await this.getActor(user, studioUuid);
+    return this.studioMemberRepository.findPendingInvitations(studioUuid);
+  }
+
+  async revokeInvitation(
+    user: User,
+    studioUuid: string,
+    uuid: string,
+  ): Promise<void> {
+    await this.getActor(user, studioUuid);
+    const invitation = await this.studioMemberRepository.findInvitation(
+      studioUuid,
+      uuid,
+    );
+    if (!invitation || invitation.acceptedAt) {
+      throw new NotFoundException("Invitation not found");
+    }
+    await this.studioMemberRepository.removeInvitation(invitation);
+  }
+
+  /**
+   * Joins the studio an invitation was sent for. The caller's primary or
+   * secondary email address must be the one invited, and verified.
+   */
+  async accept(user: User, dto: AcceptInvitationDto): Promise<StudioMember> {
+    const invitation =
+      await this.studioMemberRepository.findInvitationByTokenHash(
+        this.studioMembershipDomainService.hashInvitationToken(dto.token),
+      );
+    if (!invitation) {
+      throw new NotFoundException("Invitation not found");
+    }
+    const refusal = this.studioMembershipDomainService.invitationRefusal(
+      invitation,
+      user,
+    );
+    if (refusal) {
+      throw new BadRequestException(refusal);
+    }
+    if (
+      await this.studioMemberRepository.findMember(
+        invitation.studioUuid,
+        user.uuid,
+      )
+    ) {
+      throw new ConflictException("You are already a member of this studio");
+    }
+    const member = await this.studioMemberRepository.accept(
+      invitation,
+      user.uuid,
+      new Date(),
+    );
+    if (!member) {
+      throw new BadRequestException("Invitation has already been accepted");
+    }
+    return member;
+  }
+
+  /**
+   * The caller's membership, which any role satisfies.
+   */
+  private async getMembership(
+    user: User,
+    studioUuid: string,
+  ): Promise<StudioMember> {
+    const member = await this.studioAccessService.membership(user, studioUuid);
+    if (!member) {
+      throw new ForbiddenException("You are not a member of this studio");
+    }
+    return member;
+  }
+
+  /**
+   * The caller's membership, whose role must allow managing members.
+   */
+  private getActor(user: User, studioUuid: string): Promise<StudioMember> {
+    return this.studioAccessService.assertPermission(
+      user,
+      studioUuid,
+      StudioPermission.MANAGE_MEMBERS,
+    );
+  }
+
+  private async getMember(
+    studioUuid: string,
+    userUuid: string,
+  ): Promise<StudioMember> {
+    const member = await this.studioMemberRepository.findMember(
+      studioUuid,
+      userUuid,
+    );
+    if (!member) {
+      throw new NotFoundException("Member not found");
+    }
+    return member;
+  }
+}
@@ -0,0 +1,15 @@
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Settings for studio memberships, read from the environment.
+ * Durations are in seconds.
+ */
+export const studioConfig = {
+  invitationTtl: parseInt(process.env.STUDIO_INVITATION_TTL ?? "604800", 10),
+  /** Page that receives invitation links; the token is appended as `?token=`. */
+  invitationLinkBaseUrl:
+    process.env.STUDIO_INVITATION_LINK_BASE_URL ??
+    "http://localhost:3000/studio-invitations",
+};
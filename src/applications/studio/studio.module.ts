@@ -0,0 +1,58 @@
+import { Module } from "@nestjs/common";
+import { StudioController } from "../../infrastructure/controllers/studio.controller";
+import { StudioMemberController } from "../../infrastructure/controllers/studio-member.controller";
+import { StudioFollowController } from "../../infrastructure/controllers/studio-follow.controller";
+import { FeedController } from "../../infrastructure/controllers/feed.controller";
+import { StudioReviewController } from "../../infrastructure/controllers/studio-review.controller";
+import { StudioService } from "./studio.service";
+import { StudioAccessService } from "./studio-access.service";
+import { StudioMembershipService } from "./studio-membership.service";
+import { StudioFollowService } from "./studio-follow.service";
+import { StudioDomainService } from "../../domain/studio/services/studio.domain-service";
+import { StudioMembershipDomainService } from "../../domain/studio/services/studio-membership.domain-service";
+import { StudioFollowDomainService } from "../../domain/studio/services/studio-follow.domain-service";
+import { StudioRepository } from "../../infrastructure/repositories/studio.repository";
+import { StudioMemberRepository } from "../../infrastructure/repositories/studio-member.repository";
+import { StudioFollowerRepository } from "../../infrastructure/repositories/studio-follower.repository";
+import { MediaRepository } from "../../infrastructure/repositories/media.repository";
+import { PlaylistRepository } from "../../infrastructure/repositories/playlist.repository";
+import { AdminGuard } from "../../infrastructure/auth/admin.guard";
+import { UserModule } from "../user/user.module";
+import { NotificationModule } from "../notification/notification.module";
+
+/**
+ * Studios, their members, the review workflow that approves them, and the
+ * followers who get their releases in a feed.
+ */
+@Module({
+  imports: [UserModule, NotificationModule],
+  controllers: [
+    StudioController,
+    StudioMemberController,
+    StudioReviewController,
+    StudioFollowController,
+    FeedController,
+  ],
+  providers: [
+    StudioService,
+    StudioMembershipService,
+    StudioFollowService,
+    StudioAccessService,
+    StudioDomainService,
+    StudioMembershipDomainService,
+    StudioFollowDomainService,
+    StudioRepository,
+    StudioMemberRepository,
+    StudioFollowerRepository,
+    MediaRepository,
+    PlaylistRepository,
+    AdminGuard,
+  ],
+  exports: [
+    StudioDomainService,
+    StudioRepository,
+    StudioAccessService,
+    StudioFollowService,
+  ],
+})
+export class StudioModule {}
@@ -0,0 +1,165 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import {
+  Studio,
+  StudioStatus,
+} from "../../domain/studio/entities/studio.entity";
+import { StudioReviewEvent } from "../../domain/studio/entities/studio-review-event.entity";
+import {
+  StudioDomainService,
+  StudioReviewActor,
+} from "../../domain/studio/services/studio.domain-service";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { User, UserRole } from "../../domain/user/entities/user.entity";
+import { NotificationChannel } from "../../domain/notification/entities/notification.entity";
+import { NotificationEvent } from "../../domain/notification/services/notification-templates";
+import { StudioRepository } from "../../infrastructure/repositories/studio.repository";
+import { NotificationService } from "../notification/notification.service";
+import { StudioAccessService } from "./studio-access.service";
+import { CreateStudioDto } from "./dto/create-studio.dto";
+import {
+  ResubmitStudioDto,
+  ReviewQueueQueryDto,
+  ReviewStudioDto,
+} from "./dto/review-studio.dto";
+
+/**
+ * Application service for studios and their review workflow.
+ */
+@Injectable()
+export class StudioService {
+  constructor(
+    private readonly studioRepository: StudioRepository,
+    private readonly studioDomainService: StudioDomainService,
+    private readonly studioAccessService: StudioAccessService,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  /**
+   * Registers a studio owned by the caller and submits it for review. The
+   * route only admits studio accounts.
+   */
+  async create(user: User, dto: CreateStudioDto): Promise<Studio> {
+    return this.studioRepository.createWithHistory(
+      this.studioRepository.create({
+        name: dto.name,
+        description: dto.description,
+        picture_url: dto.picture_url ?? null,
+        status: StudioStatus.IN_REVIEW,
+        user,
+      }),
+      {
+        fromStatus: null,
+        toStatus: StudioStatus.IN_REVIEW,
+        note: "Submitted for review",
+        actor: user,
+      },
+    );
+  }
+
+  async findOne(uuid: string): Promise<Studio> {
+    const studio = await this.studioRepository.findWithOwner(uuid);
+    if (!studio) {
+      throw new NotFoundException("Studio not found");
+    }
+    return studio;
+  }
+
+  /**
+   * Studios waiting for a reviewer, oldest first.
+   */
+  async reviewQueue(
+    query: ReviewQueueQueryDto,
+  ): Promise<{ items: Studio[]; total: number }> {
+    const statuses = query.status
+      ? [query.status].flat()
+      : [StudioStatus.IN_REVIEW];
+    const [items, total] = await this.studioRepository.findByStatus(
+      statuses,
+      query.limit ?? 20,
+      query.offset ?? 0,
+    );
+    return { items, total };
+  }
+
+  /**
+   * The review history of a studio, visible to the members who manage it and
+   * to administrators.
+   */
+  async history(user: User, uuid: string): Promise<StudioReviewEvent[]> {
+    await this.findOne(uuid);
+    if (user.role !== UserRole.ADMIN) {
+      await this.studioAccessService.assertPermission(
+        user,
+        uuid,
+        StudioPermission.MANAGE_STUDIO,
+      );
+    }
+    return this.studioRepository.findHistory(uuid);
+  }
+
+  async review(
+    reviewer: User,
+    uuid: string,
+    dto: ReviewStudioDto,
+  ): Promise<StudioReviewEvent> {
+    const studio = await this.findOne(uuid);
+    return this.transition(studio, dto.status, "reviewer", reviewer, dto.note);
+  }
+
+  async resubmit(
+    user: User,
+    uuid: string,
+    dto: ResubmitStudioDto,
+  ): Promise<StudioReviewEvent> {
+    const studio = await this.studioAccessService.getManagedStudio(
+      user,
+      uuid,
+      StudioPermission.MANAGE_STUDIO,
+    );
+    return this.transition(
+      studio,
+      StudioStatus.IN_REVIEW,
+      "owner",
+      user,
+      dto.note ?? "Resubmitted for review",
+    );
+  }
+
+  private async transition(
+    studio: Studio,
+    to: StudioStatus,
+    role: StudioReviewActor,
+    actor: User,
+    note: string,
+  ): Promise<StudioReviewEvent> {
+    if (!this.studioDomainService.canTransition(studio.status, to, role)) {
+      throw new ConflictException(
+        `Cannot move a studio from ${studio.status} to ${to}`,
+      );
+    }
+    const event = await this.studioRepository.transition(studio.uuid, {
+      fromStatus: studio.status,
+      toStatus: to,
+      note,
+      actor,
+    });
+    if (!event) {
+      throw new ConflictException("Studio status changed, reload and retry");
+    }
+
+    if (studio.user) {
+      await this.notificationService.notify({
+        event: NotificationEvent.STUDIO_STATUS_CHANGED,
+        userUuid: studio.user.uuid,
+        studioUuid: studio.uuid,
+        channel: NotificationChannel.EMAIL,
+        variables: { studio: studio.name, from: studio.status, to, note },
+      });
+    }
+    return event;
+  }
+}
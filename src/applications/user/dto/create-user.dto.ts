@@ -0,0 +1,49 @@
+import {
+  IsDateString,
+  IsEmail,
+  IsIn,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+} from "class-validator";
+import { AccountType } from "../../../domain/user/entities/user.entity";
+
+/**
+ * Payload for signing up a new user.
+ */
+export class CreateUserDto {
+  @IsEmail()
+  @MaxLength(255)
+  email: string;
+
+  @IsString()
+  @MinLength(8)
+  @MaxLength(128)
+  password: string;
+
+  @IsOptional()
+  @IsIn(Object.values(AccountType))
+  accountType?: AccountType;
+
+  @IsOptional()
+  @IsIn(["WEB", "MOBILE", "WAITLIST", "CAMPAIGN"])
+  channel?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  phoneNumber?: string;
+
+  @IsOptional()
+  @IsDateString()
+  dateOfBirth?: string;
+
+  /**
+   * Optional 4 to 6 digit PIN used for step-up checks.
+   */
+  @IsOptional()
+  @Matches(/^\d{4,6}$/, { message: "pin must be 4 to 6 digits" })
+  pin?: string;
+}
@@ -0,0 +1,13 @@
+import { IsEmail, IsString, MaxLength } from "class-validator";
+
+/**
+ * Credentials for signing in.
+ */
+export class LoginDto {
+  @IsEmail()
+  email: string;
+
+  @IsString()
+  @MaxLength(128)
+  password: string;
+}
@@ -0,0 +1,18 @@
+import { IsString, Matches, MaxLength } from "class-validator";
+
+/**
+ * Payload for the PIN step-up check.
+ */
+export class VerifyPinDto {
+  @Matches(/^\d{4,6}$/, { message: "pin must be 4 to 6 digits" })
+  pin: string;
+}
+
+/**
+ * Payload for setting or changing the PIN. The current password is required.
+ */
+export class SetPinDto extends VerifyPinDto {
+  @IsString()
+  @MaxLength(128)
+  password: string;
+}
@@ -0,0 +1,9 @@
+import { IsString } from "class-validator";
+
+/**
+ * Payload for exchanging a refresh token for a new token pair.
+ */
+export class RefreshTokenDto {
+  @IsString()
+  refreshToken: string;
+}
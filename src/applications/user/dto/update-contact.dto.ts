@@ -0,0 +1,34 @@
+import {
+  IsEmail,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateIf,
+} from "class-validator";
+
+/**
+ * Changes the caller's contact details. Omitted fields stay as they are;
+ * null removes a phone number or secondary email. Every changed address
+ * has to be verified again.
+ */
+export class UpdateContactDto {
+  @ValidateIf((dto) => dto.email !== undefined)
+  @IsEmail()
+  @MaxLength(255)
+  email?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  phoneNumber?: string | null;
+
+  @IsOptional()
+  @IsEmail()
+  @MaxLength(255)
+  secondaryEmail?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  secondaryPhoneNumber?: string | null;
+}
@@ -0,0 +1,27 @@
+import { IsIn, IsString, Matches, MaxLength } from "class-validator";
+import { VerificationTarget } from "../../../domain/user/entities/verification-code.entity";
+
+/**
+ * Requests a code for one of the caller's addresses.
+ */
+export class StartVerificationDto {
+  @IsIn(Object.values(VerificationTarget))
+  target: VerificationTarget;
+}
+
+/**
+ * Confirms an address with the code that was sent to it.
+ */
+export class ConfirmVerificationDto extends StartVerificationDto {
+  @Matches(/^\d{4,10}$/, { message: "code must be 4 to 10 digits" })
+  code: string;
+}
+
+/**
+ * Confirms an email address with the token from a magic link.
+ */
+export class ConfirmVerificationLinkDto {
+  @IsString()
+  @MaxLength(128)
+  token: string;
+}
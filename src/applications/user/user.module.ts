@@ -0,0 +1,49 @@
+import { forwardRef, Module } from "@nestjs/common";
+import { UserController } from "../../infrastructure/controllers/user.controller";
+import { UserService } from "./user.service";
+import { VerificationService } from "./verification.service";
+import { VerificationDomainService } from "../../domain/user/services/verification.domain-service";
+import { VerificationCodeRepository } from "../../infrastructure/repositories/verification-code.repository";
+import { NotificationModule } from "../notification/notification.module";
+import { UserDomainService } from "../../domain/user/services/user.domain-service";
+import { AccessPolicyDomainService } from "../../domain/user/services/access-policy.domain-service";
+import { UserRepository } from "../../infrastructure/repositories/user.repository";
+import { SessionRepository } from "../../infrastructure/repositories/session.repository";
+import { DeviceRepository } from "../../infrastructure/repositories/device.repository";
+import { TokenService } from "../../infrastructure/auth/token.service";
+import { AuthGuard } from "../../infrastructure/auth/auth.guard";
+import { PinStepUpGuard } from "../../infrastructure/auth/pin-step-up.guard";
+
+/**
+ * Accounts, authentication and verification of contact details. Other modules import this module to protect
+ * their routes with AuthGuard, PinStepUpGuard and the access policies in access.decorators.
+ */
+@Module({
+  imports: [forwardRef(() => NotificationModule)],
+  controllers: [UserController],
+  providers: [
+    UserService,
+    VerificationService,
+    UserDomainService,
+    AccessPolicyDomainService,
+    VerificationDomainService,
+    VerificationCodeRepository,
+    UserRepository,
+    SessionRepository,
+    DeviceRepository,
+    TokenService,
+    AuthGuard,
+    PinStepUpGuard,
+  ],
+  exports: [
+    UserRepository,
+    UserDomainService,
+    AccessPolicyDomainService,
+    SessionRepository,
+    DeviceRepository,
+    TokenService,
+    AuthGuard,
+    PinStepUpGuard,
+  ],
+})
+export class UserModule {}
@@ -0,0 +1,90 @@
+import { UnauthorizedException } from "@nestjs/common";
+import { UserService } from "./user.service";
+import { VerificationService } from "./verification.service";
+import { UserSession } from "../../domain/user/entities/session.entity";
+import { User } from "../../domain/user/entities/user.entity";
+import { UserDomainService } from "../../domain/user/services/user.domain-service";
+import { authConfig } from "../../infrastructure/auth/auth.config";
+import { TokenService } from "../../infrastructure/auth/token.service";
+import { DeviceRepository } from "../../infrastructure/repositories/device.repository";
+import { SessionRepository } from "../../infrastructure/repositories/session.repository";
+import { UserRepository } from "../../infrastructure/repositories/user.repository";
+
+describe("UserService", () => {
+  describe("verifyPin", () => {
+    let attempts = 0;
+    const users = {
+      countPinAttempt: jest.fn(async (_uuid: string, max: number) => {
+        if (attempts >= max) {
+          return false;
+        }
+        attempts += 1;
+        return true;
+      }),
+      resetPinAttempts: jest.fn(async () => {
+        attempts = 0;
+      }),
+    };
+    const sessions = {
+      save: jest.fn(async (session: UserSession) => session),
+      revokeAllForUser: jest.fn(),
+    };
+    const devices = {
+      findActive: jest.fn().mockResolvedValue([{ uuid: "d1" }]),
+      markSignedOut: jest.fn(),
+    };
+    const domain = new UserDomainService();
+    const service = new UserService(
+      users as unknown as UserRepository,
+      sessions as unknown as SessionRepository,
+      devices as unknown as DeviceRepository,
+      domain,
+      {} as TokenService,
+      {} as VerificationService,
+    );
+    const session = new UserSession();
+    let user: User;
+
+    beforeAll(async () => {
+      user = Object.assign(new User(), {
+        uuid: "u1",
+        pin: await domain.hashSecret("1234"),
+      });
+    });
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      attempts = 0;
+    });
+
+    it("resets the count after a correct PIN", async () => {
+      await expect(service.verifyPin(user, session, "0000")).rejects.toThrow(
+        "Invalid PIN",
+      );
+      await service.verifyPin(user, session, "1234");
+
+      expect(attempts).toBe(0);
+      expect(session.pinVerifiedAt).toBeInstanceOf(Date);
+    });
+
+    it("signs the user out everywhere once the attempts are used up", async () => {
+      for (let i = 0; i < authConfig.pinMaxAttempts; i++) {
+        await expect(service.verifyPin(user, session, "0000")).rejects.toThrow(
+          "Invalid PIN",
+        );
+      }
+
+      await expect(service.verifyPin(user, session, "1234")).rejects.toThrow(
+        new UnauthorizedException(
+          "Too many PIN attempts; sign in with your password",
+        ),
+      );
+      expect(sessions.revokeAllForUser).toHaveBeenCalledWith("u1");
+      expect(devices.markSignedOut).toHaveBeenCalledWith(
+        ["d1"],
+        expect.any(Date),
+      );
+      expect(sessions.save).not.toHaveBeenCalled();
+    });
+  });
+});
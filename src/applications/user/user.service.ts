@@ -0,0 +1,284 @@
+import {
+  ConflictException,
+  Injectable,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { createHash, randomUUID } from "node:crypto";
+import { AccountType, User } from "../../domain/user/entities/user.entity";
+import { UserSession } from "../../domain/user/entities/session.entity";
+import { UserDomainService } from "../../domain/user/services/user.domain-service";
+import { UserRepository } from "../../infrastructure/repositories/user.repository";
+import { SessionRepository } from "../../infrastructure/repositories/session.repository";
+import { DeviceRepository } from "../../infrastructure/repositories/device.repository";
+import { TokenService } from "../../infrastructure/auth/token.service";
+import { authConfig } from "../../infrastructure/auth/auth.config";
+import { CreateUserDto } from "./dto/create-user.dto";
+import { LoginDto } from "./dto/login.dto";
+import { SetPinDto } from "./dto/pin.dto";
+import { UpdateContactDto } from "./dto/update-contact.dto";
+import { VerificationService } from "./verification.service";
+import { VerificationTarget } from "../../domain/user/entities/verification-code.entity";
+import { VERIFIED_FLAGS } from "../../domain/user/services/verification.domain-service";
+
+/**
+ * Token pair returned by signup, login and refresh.
+ */
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export interface AuthResult extends AuthTokens {
+  user: User;
+}
+
+/**
+ * Application service for account signup, sessions and PIN step-up.
+ */
+@Injectable()
+export class UserService {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly sessionRepository: SessionRepository,
+    private readonly deviceRepository: DeviceRepository,
+    private readonly userDomainService: UserDomainService,
+    private readonly tokenService: TokenService,
+    private readonly verificationService: VerificationService,
+  ) {}
+
+  async signup(dto: CreateUserDto): Promise<AuthResult> {
+    const email = this.userDomainService.normalizeEmail(dto.email);
+    if (await this.userRepository.findByEmail(email)) {
+      throw new ConflictException("Email is already registered");
+    }
+    if (
+      dto.phoneNumber &&
+      (await this.userRepository.findByPhoneNumber(dto.phoneNumber))
+    ) {
+      throw new ConflictException("Phone number is already registered");
+    }
+
+    const user = await this.userRepository.save(
+      this.userRepository.create({
+        email,
+        accountType: dto.accountType ?? AccountType.WATCHER,
+        channel: dto.channel ?? null,
+        phoneNumber: dto.phoneNumber ?? null,
+        dateOfBirth: dto.dateOfBirth ? new Date(dto.dateOfBirth) : null,
+        password_hash: await this.userDomainService.hashSecret(dto.password),
+        pin: dto.pin ? await this.userDomainService.hashSecret(dto.pin) : null,
+      }),
+    );
+
+    await this.verificationService.addressChanged(
+      user,
+      VerificationTarget.EMAIL,
+    );
+    if (user.phoneNumber) {
+      await this.verificationService.addressChanged(
+        user,
+        VerificationTarget.PHONE_NUMBER,
+      );
+    }
+    return { user, ...(await this.startSession(user)) };
+  }
+
+  async login(dto: LoginDto): Promise<AuthResult> {
+    const user = await this.userRepository.findByEmail(
+      this.userDomainService.normalizeEmail(dto.email),
+    );
+    const valid =
+      user &&
+      (await this.userDomainService.verifySecret(
+        dto.password,
+        user.password_hash,
+      ));
+    if (!valid) {
+      throw new UnauthorizedException("Invalid email or password");
+    }
+    if (user.pinAttempts) {
+      await this.userRepository.resetPinAttempts(user.uuid);
+    }
+
+    return { user, ...(await this.startSession(user)) };
+  }
+
+  /**
+   * Rotates the refresh token of a session and issues a new token pair.
+   * Presenting a refresh token that was already rotated revokes the session.
+   */
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const payload = this.tokenService.verify(refreshToken, "refresh");
+    if (!payload) {
+      throw new UnauthorizedException("Invalid or expired refresh token");
+    }
+
+    const session = await this.sessionRepository.findWithUser(payload.sid);
+    if (
+      !session ||
+      session.userUuid !== payload.sub ||
+      !this.userDomainService.isSessionActive(session)
+    ) {
+      throw new UnauthorizedException("Session is no longer valid");
+    }
+    if (session.refreshTokenHash !== this.hashTokenId(payload.jti)) {
+      await this.sessionRepository.revoke(session.uuid);
+      throw new UnauthorizedException("Refresh token has already been used");
+    }
+
+    return this.issueTokens(session);
+  }
+
+  /**
+   * Revokes the session and signs out the device bound to it, if any.
+   */
+  async logout(session: UserSession): Promise<void> {
+    await this.sessionRepository.revoke(session.uuid);
+    await this.deviceRepository.markSessionSignedOut(session.uuid, new Date());
+  }
+
+  /**
+   * Changes the user's email addresses and phone numbers. Each changed
+   * address loses its verified flag and is sent a new code.
+   */
+  async updateContact(user: User, dto: UpdateContactDto): Promise<User> {
+    const email =
+      dto.email === undefined
+        ? undefined
+        : this.userDomainService.normalizeEmail(dto.email);
+    if (email && email !== user.email) {
+      const holder = await this.userRepository.findByEmail(email);
+      if (holder) {
+        throw new ConflictException("Email is already registered");
+      }
+    }
+    if (dto.phoneNumber && dto.phoneNumber !== user.phoneNumber) {
+      const holder = await this.userRepository.findByPhoneNumber(
+        dto.phoneNumber,
+      );
+      if (holder) {
+        throw new ConflictException("Phone number is already registered");
+      }
+    }
+
+    const secondaryEmail = dto.secondaryEmail
+      ? this.userDomainService.normalizeEmail(dto.secondaryEmail)
+      : dto.secondaryEmail;
+    const values: Partial<Record<VerificationTarget, string | null>> = {
+      [VerificationTarget.EMAIL]: email,
+      [VerificationTarget.PHONE_NUMBER]: dto.phoneNumber,
+      [VerificationTarget.SECONDARY_EMAIL]: secondaryEmail,
+      [VerificationTarget.SECONDARY_PHONE_NUMBER]: dto.secondaryPhoneNumber,
+    };
+    const changed = Object.values(VerificationTarget).filter(
+      (target) =>
+        values[target] !== undefined && values[target] !== user[target],
+    );
+    for (const target of changed) {
+      (user as Record<VerificationTarget, string | null>)[target] =
+        values[target];
+      user[VERIFIED_FLAGS[target]] = false;
+    }
+
+    const saved = await this.userRepository.save(user);
+    for (const target of changed) {
+      await this.verificationService.addressChanged(saved, target);
+    }
+    return saved;
+  }
+
+  /**
+   * Sets or replaces the user's PIN after confirming their password.
+   */
+  async setPin(user: User, dto: SetPinDto): Promise<void> {
+    if (
+      !(await this.userDomainService.verifySecret(
+        dto.password,
+        user.password_hash,
+      ))
+    ) {
+      throw new UnauthorizedException("Invalid password");
+    }
+    user.pin = await this.userDomainService.hashSecret(dto.pin);
+    user.pinAttempts = 0;
+    await this.userRepository.save(user);
+  }
+
+  /**
+   * PIN step-up check: marks the session as recently verified so routes
+   * guarded by PinStepUpGuard accept it for a short while. Once the user has
+   * used up their attempts, all their sessions are revoked and they have to
+   * sign in with their password again.
+   */
+  async verifyPin(
+    user: User,
+    session: UserSession,
+    pin: string,
+  ): Promise<{ verifiedUntil: Date }> {
+    if (
+      !(await this.userRepository.countPinAttempt(
+        user.uuid,
+        authConfig.pinMaxAttempts,
+      ))
+    ) {
+      const devices = await this.deviceRepository.findActive(user.uuid);
+      await this.sessionRepository.revokeAllForUser(user.uuid);
+      await this.deviceRepository.markSignedOut(
+        devices.map((device) => device.uuid),
+        new Date(),
+      );
+      throw new UnauthorizedException(
+        "Too many PIN attempts; sign in with your password",
+      );
+    }
+    if (!(await this.userDomainService.verifySecret(pin, user.pin))) {
+      throw new UnauthorizedException("Invalid PIN");
+    }
+    await this.userRepository.resetPinAttempts(user.uuid);
+    session.pinVerifiedAt = new Date();
+    await this.sessionRepository.save(session);
+    return {
+      verifiedUntil: new Date(
+        session.pinVerifiedAt.getTime() + authConfig.pinStepUpTtl * 1000,
+      ),
+    };
+  }
+
+  private async startSession(user: User): Promise<AuthTokens> {
+    const session = this.sessionRepository.create({
+      userUuid: user.uuid,
+      refreshTokenHash: "",
+      expiresAt: new Date(),
+    });
+    return this.issueTokens(session);
+  }
+
+  private async issueTokens(session: UserSession): Promise<AuthTokens> {
+    const jti = randomUUID();
+    session.refreshTokenHash = this.hashTokenId(jti);
+    session.expiresAt = new Date(
+      Date.now() + authConfig.refreshTokenTtl * 1000,
+    );
+    const saved = await this.sessionRepository.save(session);
+
+    const claims = { sub: saved.userUuid, sid: saved.uuid };
+    return {
+      accessToken: this.tokenService.sign(
+        { ...claims, typ: "access" },
+        authConfig.accessTokenTtl,
+      ),
+      refreshToken: this.tokenService.sign(
+        { ...claims, typ: "refresh", jti },
+        authConfig.refreshTokenTtl,
+      ),
+      expiresIn: authConfig.accessTokenTtl,
+    };
+  }
+
+  private hashTokenId(jti: string | undefined): string {
+    return createHash("sha256")
+      .update(jti ?? "")
+      .digest("hex");
+  }
+}
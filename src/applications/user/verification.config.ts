@@ -0,0 +1,26 @@
+import * as dotenv from "dotenv";
+import { NotificationChannel } from "../../domain/notification/entities/notification.entity";
+
+dotenv.config();
+
+/**
+ * Settings for email and phone verification, read from the environment.
+ * Durations are in seconds.
+ */
+export const verificationConfig = {
+  codeLength: parseInt(process.env.VERIFICATION_CODE_LENGTH ?? "6", 10),
+  codeTtl: parseInt(process.env.VERIFICATION_CODE_TTL ?? "900", 10),
+  /** Minimum time between two codes for an address, even after it changes. */
+  resendCooldown: parseInt(
+    process.env.VERIFICATION_RESEND_COOLDOWN ?? "60",
+    10,
+  ),
+  /** Confirmation attempts allowed per code. */
+  maxAttempts: parseInt(process.env.VERIFICATION_MAX_ATTEMPTS ?? "5", 10),
+  /** Channel phone numbers are verified over: "SMS" or "WhatsApp". */
+  phoneChannel:
+    process.env.VERIFICATION_PHONE_CHANNEL ?? NotificationChannel.SMS,
+  /** Page that receives magic links; the token is appended as `?token=`. */
+  linkBaseUrl:
+    process.env.VERIFICATION_LINK_BASE_URL ?? "http://localhost:3000/verify",
+};
@@ -0,0 +1,224 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from "@nestjs/common";
+import { NotificationChannel } from "../../domain/notification/entities/notification.entity";
+import { NotificationEvent } from "../../domain/notification/services/notification-templates";
+import { User } from "../../domain/user/entities/user.entity";
+import {
+  VerificationCode,
+  VerificationTarget,
+} from "../../domain/user/entities/verification-code.entity";
+import { UserDomainService } from "../../domain/user/services/user.domain-service";
+import {
+  VERIFIED_FLAGS,
+  VerificationDomainService,
+} from "../../domain/user/services/verification.domain-service";
+import { UserRepository } from "../../infrastructure/repositories/user.repository";
+import { VerificationCodeRepository } from "../../infrastructure/repositories/verification-code.repository";
+import { NotificationService } from "../notification/notification.service";
+import { verificationConfig as config } from "./verification.config";
+
+export interface VerificationSent {
+  target: VerificationTarget;
+  expiresAt: Date;
+  resendAvailableAt: Date;
+}
+
+/**
+ * Application service for verifying a user's email addresses and phone
+ * numbers. A numeric code is sent to the address through the matching
+ * notification channel; emails also carry a magic link. Confirming either
+ * sets the address's validated flag.
+ */
+@Injectable()
+export class VerificationService {
+  constructor(
+    private readonly verificationCodeRepository: VerificationCodeRepository,
+    private readonly userRepository: UserRepository,
+    private readonly notificationService: NotificationService,
+    private readonly userDomainService: UserDomainService,
+    private readonly verificationDomainService: VerificationDomainService,
+  ) {}
+
+  /**
+   * Sends a new code for one of the user's unverified addresses, at most
+   * once per cooldown period.
+   */
+  async request(
+    user: User,
+    target: VerificationTarget,
+  ): Promise<VerificationSent> {
+    const address = this.verificationDomainService.addressOf(user, target);
+    if (!address) {
+      throw new BadRequestException(`No ${target} to verify`);
+    }
+    if (this.verificationDomainService.isVerified(user, target)) {
+      throw new ConflictException(`${target} is already verified`);
+    }
+
+    const availableAt = await this.resendAvailableAt(user, target);
+    const wait = Math.ceil((availableAt.getTime() - Date.now()) / 1000);
+    if (wait > 0) {
+      throw new HttpException(
+        `Wait ${wait} seconds before requesting another code`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+    return this.send(user, target);
+  }
+
+  /**
+   * Sends a code for an address that was just added or changed. Pending
+   * codes for the old address are retired. Nothing is sent if the address
+   * was removed, or if a code went out within the cooldown period; the user
+   * then requests one once it has passed, so changing the address over and
+   * over does not send a code each time.
+   */
+  async addressChanged(user: User, target: VerificationTarget): Promise<void> {
+    const now = new Date();
+    if (
+      this.verificationDomainService.addressOf(user, target) &&
+      (await this.resendAvailableAt(user, target)) <= now
+    ) {
+      await this.send(user, target);
+    } else {
+      await this.verificationCodeRepository.supersede(user.uuid, target, now);
+    }
+  }
+
+  async confirm(
+    user: User,
+    target: VerificationTarget,
+    code: string,
+  ): Promise<User> {
+    const pending = await this.verificationCodeRepository.findLatest(
+      user.uuid,
+      target,
+    );
+    if (!pending) {
+      throw new BadRequestException("No code has been requested");
+    }
+    this.assertUsable(user, pending);
+    if (
+      !(await this.verificationCodeRepository.countAttempt(
+        pending.uuid,
+        config.maxAttempts,
+      ))
+    ) {
+      throw new BadRequestException("Too many attempts; request a new code");
+    }
+    if (!(await this.userDomainService.verifySecret(code, pending.codeHash))) {
+      throw new BadRequestException("Wrong code");
+    }
+    return this.markVerified(user, pending);
+  }
+
+  /**
+   * Confirms an email address from a magic link. The link alone is proof
+   * enough, so no session is needed.
+   */
+  async confirmLink(token: string): Promise<{ target: VerificationTarget }> {
+    const pending = await this.verificationCodeRepository.findByLinkTokenHash(
+      this.verificationDomainService.hashLinkToken(token),
+    );
+    const user =
+      pending && (await this.userRepository.findByUuid(pending.userUuid));
+    if (!user) {
+      throw new BadRequestException("Invalid verification link");
+    }
+    this.assertUsable(user, pending);
+    await this.markVerified(user, pending);
+    return { target: pending.target };
+  }
+
+  private async send(
+    user: User,
+    target: VerificationTarget,
+  ): Promise<VerificationSent> {
+    const now = new Date();
+    const address = this.verificationDomainService.addressOf(user, target);
+    const isEmail = this.verificationDomainService.isEmailTarget(target);
+    const code = this.verificationDomainService.generateCode(config.codeLength);
+    const linkToken = isEmail
+      ? this.verificationDomainService.generateLinkToken()
+      : null;
+
+    await this.verificationCodeRepository.supersede(user.uuid, target, now);
+    const saved = await this.verificationCodeRepository.save(
+      this.verificationCodeRepository.create({
+        userUuid: user.uuid,
+        target,
+        address,
+        codeHash: await this.userDomainService.hashSecret(code),
+        linkTokenHash: linkToken
+          ? this.verificationDomainService.hashLinkToken(linkToken)
+          : null,
+        expiresAt: new Date(now.getTime() + config.codeTtl * 1000),
+      }),
+    );
+
+    const minutes = Math.round(config.codeTtl / 60);
+    await this.notificationService.notify({
+      event: isEmail
+        ? NotificationEvent.EMAIL_VERIFICATION
+        : NotificationEvent.PHONE_VERIFICATION,
+      userUuid: user.uuid,
+      channel: isEmail ? NotificationChannel.EMAIL : config.phoneChannel,
+      recipient: address,
+      variables: linkToken
+        ? { code, minutes, link: `${config.linkBaseUrl}?token=${linkToken}` }
+        : { code, minutes },
+    });
+
+    return {
+      target,
+      expiresAt: saved.expiresAt,
+      resendAvailableAt: this.verificationDomainService.resendAvailableAt(
+        saved.createdAt,
+        config.resendCooldown,
+      ),
+    };
+  }
+
+  private async resendAvailableAt(
+    user: User,
+    target: VerificationTarget,
+  ): Promise<Date> {
+    const latest = await this.verificationCodeRepository.findLatest(
+      user.uuid,
+      target,
+    );
+    return this.verificationDomainService.resendAvailableAt(
+      latest?.createdAt ?? null,
+      config.resendCooldown,
+    );
+  }
+
+  private assertUsable(user: User, pending: VerificationCode) {
+    const refusal = this.verificationDomainService.refusal(
+      pending,
+      this.verificationDomainService.addressOf(user, pending.target),
+      config.maxAttempts,
+    );
+    if (refusal) {
+      throw new BadRequestException(refusal);
+    }
+  }
+
+  private async markVerified(
+    user: User,
+    pending: VerificationCode,
+  ): Promise<User> {
+    if (
+      !(await this.verificationCodeRepository.consume(pending.uuid, new Date()))
+    ) {
+      throw new BadRequestException("Code has already been used");
+    }
+    user[VERIFIED_FLAGS[pending.target]] = true;
+    return this.userRepository.save(user);
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * The AnalyticsBucket entity holds interaction counts rolled up per hour or
+ * per day, so that reports never scan the MediaInteraction table.
+ * @module AnalyticsModule
+ */
+
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  Relation,
+} from "typeorm";
+import { BaseUUIDEntity } from "../../entities/base";
+import { Studio } from "../../studio/entities/studio.entity";
+import type { MediaKind } from "../../media/services/media.domain-service";
+
+export enum BucketGranularity {
+  HOUR = "hour",
+  DAY = "day",
+}
+
+/**
+ * Interactions of one type with one media item and/or playlist of a studio,
+ * counted over one hour or one (UTC) day.
+ */
+@Entity()
+@Index(["studioUuid", "granularity", "bucketStart"])
+@Index(["playlistUuid", "granularity", "bucketStart"])
+export class AnalyticsBucket extends BaseUUIDEntity {
+  /**
+   * Column name: granularity
+   * The length of the bucket: "hour" or "day".
+   */
+  @Column({ type: "varchar", length: 10 })
+  granularity: BucketGranularity;
+
+  /**
+   * Column name: bucketStart
+   * The start of the hour or day the bucket covers.
+   */
+  @Column({ type: "timestamp" })
+  bucketStart: Date;
+
+  /**
+   * Column name: studio_uuid
+   * The UUID of the studio that owns the media or playlist.
+   */
+  @Column({ type: "uuid", name: "studio_uuid" })
+  studioUuid: string;
+
+  /**
+   * Many-to-One relationship with Studio entity.
+   * Buckets are removed together with their studio.
+   */
+  @ManyToOne(() => Studio, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "studio_uuid" })
+  studio: Relation<Studio>;
+
+  /**
+   * Column name: mediaKind
+   * The kind of the media item interacted with, or null for playlist-only interactions.
+   */
+  @Column({ type: "varchar", length: 20, nullable: true })
+  mediaKind: MediaKind | null;
+
+  /**
+   * Column name: mediaUuid
+   * The UUID of the media item. Kept as a plain value so counts survive the
+   * item being purged.
+   */
+  @Column({ type: "uuid", nullable: true })
+  mediaUuid: string | null;
+
+  /**
+   * Column name: playlistUuid
+   * The UUID of the playlist the interaction happened in, if any.
+   */
+  @Column({ type: "uuid", nullable: true })
+  playlistUuid: string | null;
+
+  /**
+   * Column name: interactionType
+   * The type of interaction counted, e.g. "WATCHED" or "PAID".
+   */
+  @Column({ type: "varchar", length: 50 })
+  interactionType: string;
+
+  /**
+   * Column name: count
+   * The number of interactions in the bucket.
+   */
+  @Column({ type: "int" })
+  count: number;
+}
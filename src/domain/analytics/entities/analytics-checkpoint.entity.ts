@@ -0,0 +1,25 @@
+/**
+ * The AnalyticsCheckpoint entity remembers how far interactions have been
+ * rolled up, so each roll-up run only reads recent interactions.
+ * @module AnalyticsModule
+ */
+
+import { Column, Entity } from "typeorm";
+import { BaseUUIDEntity } from "../../entities/base";
+
+@Entity()
+export class AnalyticsCheckpoint extends BaseUUIDEntity {
+  /**
+   * Column name: name
+   * Identifies the roll-up this checkpoint belongs to.
+   */
+  @Column({ type: "varchar", length: 100, unique: true })
+  name: string;
+
+  /**
+   * Column name: rolledUpTo
+   * Interactions before this moment have been rolled up. Null until the first run.
+   */
+  @Column({ type: "timestamp", nullable: true })
+  rolledUpTo: Date | null;
+}
@@ -0,0 +1,35 @@
+/**
+ * The AnalyticsViewer entity records that a user viewed something of a studio
+ * or playlist on a given day. Unique viewers over any range of days are
+ * counted from these rows.
+ * @module AnalyticsModule
+ */
+
+import { Column, Entity, Index } from "typeorm";
+import { BaseUUIDEntity } from "../../entities/base";
+
+@Entity()
+@Index(["day", "scopeUuid", "userUuid"], { unique: true })
+@Index(["scopeUuid", "day"])
+export class AnalyticsViewer extends BaseUUIDEntity {
+  /**
+   * Column name: day
+   * The (UTC) day of the views.
+   */
+  @Column({ type: "date" })
+  day: string;
+
+  /**
+   * Column name: scopeUuid
+   * The UUID of the studio, or of the playlist, that was viewed.
+   */
+  @Column({ type: "uuid" })
+  scopeUuid: string;
+
+  /**
+   * Column name: userUuid
+   * The UUID of the viewer.
+   */
+  @Column({ type: "uuid" })
+  userUuid: string;
+}
@@ -0,0 +1,55 @@
+import { AnalyticsDomainService } from "./analytics.domain-service";
+import { BucketGranularity } from "../entities/analytics-bucket.entity";
+
+describe("AnalyticsDomainService", () => {
+  const service = new AnalyticsDomainService();
+  const at = (iso: string) => new Date(iso);
+  const policy = { lateness: 3600, maxWindow: 86400 };
+
+  it("aligns ranges to whole UTC buckets", () => {
+    expect(
+      service.alignRange(
+        { from: at("2024-05-01T10:15:00Z"), to: at("2024-05-03T00:00:00Z") },
+        BucketGranularity.DAY,
+      ),
+    ).toEqual({
+      from: at("2024-05-01T00:00:00Z"),
+      to: at("2024-05-03T00:00:00Z"),
+    });
+    expect(
+      service.truncate(at("2024-05-01T10:15:00Z"), BucketGranularity.HOUR),
+    ).toEqual(at("2024-05-01T10:00:00Z"));
+  });
+
+  it("recounts the lateness period before the checkpoint", () => {
+    expect(
+      service.rollupWindow(
+        at("2024-05-01T10:20:00Z"),
+        null,
+        at("2024-05-01T10:25:00Z"),
+        policy,
+      ),
+    ).toEqual({
+      from: at("2024-05-01T09:00:00Z"),
+      to: at("2024-05-01T10:25:00Z"),
+    });
+  });
+
+  it("starts from the oldest interaction and works off backlogs in steps", () => {
+    expect(
+      service.rollupWindow(
+        null,
+        at("2024-01-01T05:30:00Z"),
+        at("2024-05-01T00:00:00Z"),
+        policy,
+      ),
+    ).toEqual({
+      from: at("2024-01-01T05:00:00Z"),
+      to: at("2024-01-02T05:00:00Z"),
+    });
+  });
+
+  it("has nothing to do without interactions", () => {
+    expect(service.rollupWindow(null, null, new Date(), policy)).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Domain rules for studio analytics: how time is cut into buckets and which
+ * part of the interaction log each roll-up run reads.
+ *
+ * @module AnalyticsModule
+ */
+
+import { Injectable } from "@nestjs/common";
+import { BucketGranularity } from "../entities/analytics-bucket.entity";
+import { InteractionType } from "../../media/entities/media.interaction.entity";
+
+/**
+ * Interaction types that make someone a viewer.
+ */
+export const VIEW_INTERACTIONS: InteractionType[] = [
+  InteractionType.WATCHED,
+  InteractionType.SEEN,
+  InteractionType.COMPLETED,
+];
+
+const UNIT_MS: Record<BucketGranularity, number> = {
+  [BucketGranularity.HOUR]: 60 * 60 * 1000,
+  [BucketGranularity.DAY]: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * A half-open time range [from, to).
+ */
+export interface TimeWindow {
+  from: Date;
+  to: Date;
+}
+
+export interface RollupPolicy {
+  /** Seconds by which interactions may arrive after they happened. */
+  lateness: number;
+  /** Most seconds of interactions read in one run. */
+  maxWindow: number;
+}
+
+@Injectable()
+export class AnalyticsDomainService {
+  /**
+   * The start of the UTC hour or day containing `date`.
+   */
+  truncate(date: Date, granularity: BucketGranularity): Date {
+    const unit = UNIT_MS[granularity];
+    return new Date(Math.floor(date.getTime() / unit) * unit);
+  }
+
+  /**
+   * Widens a range to whole buckets.
+   */
+  alignRange(window: TimeWindow, granularity: BucketGranularity): TimeWindow {
+    const unit = UNIT_MS[granularity];
+    return {
+      from: this.truncate(window.from, granularity),
+      to: new Date(Math.ceil(window.to.getTime() / unit) * unit),
+    };
+  }
+
+  /**
+   * The interactions the next roll-up run should (re)count.
+   *
+   * Runs start at the hour containing the checkpoint minus the allowed
+   * lateness, so late-arriving interactions are still counted, and are
+   * capped at `maxWindow` so a long backlog is worked off in steps.
+   * @param rolledUpTo The checkpoint, or null before the first run.
+   * @param earliest The oldest interaction, used for the first run.
+   * @returns {TimeWindow | null} The window, or null if there is nothing to do.
+   */
+  rollupWindow(
+    rolledUpTo: Date | null,
+    earliest: Date | null,
+    now: Date,
+    policy: RollupPolicy,
+  ): TimeWindow | null {
+    const start = rolledUpTo
+      ? new Date(rolledUpTo.getTime() - policy.lateness * 1000)
+      : earliest;
+    if (!start) {
+      return null;
+    }
+    const from = this.truncate(start, BucketGranularity.HOUR);
+    const to = new Date(
+      Math.min(now.getTime(), from.getTime() + policy.maxWindow * 1000),
+    );
+    return from < to ? { from, to } : null;
+  }
+}
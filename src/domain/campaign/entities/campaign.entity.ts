@@ -0,0 +1,170 @@
+/**
+ * The Campaign entity is a message a studio broadcasts to a segment of its
+ * audience. At its send time the audience is fanned out, a batch at a time,
+ * into one Notification per recipient.
+ * @module CampaignModule
+ */
+
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  Relation,
+} from "typeorm";
+import { BaseUUIDEntity } from "../../entities/base";
+import { Studio } from "../../studio/entities/studio.entity";
+import { User } from "../../user/entities/user.entity";
+
+/**
+ * Life cycle of a campaign.
+ *
+ *     SCHEDULED ──► SENDING ──► SENT
+ *         │            │
+ *         └────────────┴──► CANCELLED
+ */
+export enum CampaignStatus {
+  SCHEDULED = "scheduled",
+  /** Recipients are being queued. */
+  SENDING = "sending",
+  /** Every recipient has been queued; delivery may still be under way. */
+  SENT = "sent",
+  CANCELLED = "cancelled",
+}
+
+/**
+ * Who a campaign goes to. Every segment is limited to users who interacted
+ * with the studio's own media and playlists.
+ */
+export type CampaignSegment =
+  /** Viewed media in the playlist. */
+  | { type: "playlist-viewers"; playlistUuid: string }
+  /** Bought the given item, or anything of the studio's when none is given. */
+  | {
+      type: "buyers";
+      targetKind?: "music" | "photo" | "video" | "playlist";
+      targetUuid?: string;
+    }
+  /** Interacted with the studio's content in the last `days` days. */
+  | { type: "active"; days: number };
+
+@Entity()
+@Index(["studioUuid", "createdAt"])
+@Index(["status", "sendAt"])
+export class Campaign extends BaseUUIDEntity {
+  /**
+   * Column name: studio_uuid
+   * The UUID of the studio sending the campaign.
+   */
+  @Column({ type: "uuid", name: "studio_uuid" })
+  studioUuid: string;
+
+  /**
+   * Many-to-One relationship with the Studio entity.
+   * Campaigns are removed together with their studio.
+   */
+  @ManyToOne(() => Studio, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "studio_uuid" })
+  studio: Relation<Studio>;
+
+  /**
+   * Many-to-One relationship with the User entity.
+   * The member who created the campaign; null once their account is gone.
+   */
+  @ManyToOne(() => User, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "created_by_uuid" })
+  createdBy: Relation<User> | null;
+
+  /**
+   * Column name: name
+   * A label for the studio's own use; recipients do not see it.
+   */
+  @Column({ type: "varchar", length: 255 })
+  name: string;
+
+  /**
+   * Column name: channel
+   * The channel the campaign is sent on, unless a recipient chose another
+   * for studio announcements.
+   */
+  @Column({ type: "varchar", length: 20 })
+  channel: string;
+
+  /**
+   * Column name: subject
+   * The title of the announcement.
+   */
+  @Column({ type: "varchar", length: 255 })
+  subject: string;
+
+  /**
+   * Column name: message
+   * The text of the announcement.
+   */
+  @Column({ type: "text" })
+  message: string;
+
+  /**
+   * Column name: segment
+   * The audience, see CampaignSegment.
+   */
+  @Column({ type: "simple-json" })
+  segment: CampaignSegment;
+
+  /**
+   * Column name: status
+   * Where the campaign is in its life cycle, see CampaignStatus.
+   */
+  @Column({ type: "varchar", length: 20, default: CampaignStatus.SCHEDULED })
+  status: CampaignStatus;
+
+  /**
+   * Column name: sendAt
+   * When fan-out starts.
+   */
+  @Column({ type: "timestamp" })
+  sendAt: Date;
+
+  /**
+   * Column name: fanOutCursor
+   * The last recipient queued; fan-out resumes after them.
+   */
+  @Column({ type: "uuid", nullable: true })
+  fanOutCursor: string | null;
+
+  /**
+   * Column name: recipientCount
+   * Users of the segment reached by the fan-out so far.
+   */
+  @Column({ type: "int", default: 0 })
+  recipientCount: number;
+
+  /**
+   * Column name: optedOutCount
+   * Recipients who were skipped because they opted out of marketing.
+   */
+  @Column({ type: "int", default: 0 })
+  optedOutCount: number;
+
+  /**
+   * Column name: completedAt
+   * When the last recipient was queued.
+   */
+  @Column({ type: "timestamp", nullable: true })
+  completedAt: Date | null;
+
+  /**
+   * Column name: cancelledAt
+   * When the campaign was cancelled, if it was.
+   */
+  @Column({ type: "timestamp", nullable: true })
+  cancelledAt: Date | null;
+
+  /**
+   * Column name: lockedUntil
+   * Lease held by the instance fanning out the current batch.
+   */
+  @Column({ type: "timestamp", nullable: true })
+  lockedUntil: Date | null;
+}
@@ -0,0 +1,43 @@
+import { CampaignDomainService } from "./campaign.domain-service";
+import { Campaign, CampaignStatus } from "../entities/campaign.entity";
+
+describe("CampaignDomainService", () => {
+  const service = new CampaignDomainService();
+
+  it("checks segments", () => {
+    expect(service.segmentProblem({ type: "buyers" })).toBeNull();
+    expect(
+      service.segmentProblem({ type: "buyers", targetKind: "music" }),
+    ).toMatch(/together/);
+    expect(service.segmentProblem({ type: "active", days: 30 })).toBeNull();
+    expect(service.segmentProblem({ type: "active", days: 0 })).toMatch(
+      /between 1 and 365/,
+    );
+  });
+
+  it("cancels only campaigns that have not finished fanning out", () => {
+    const campaign = (status: CampaignStatus) =>
+      Object.assign(new Campaign(), { status });
+    expect(
+      service.cancelRefusal(campaign(CampaignStatus.SCHEDULED)),
+    ).toBeNull();
+    expect(service.cancelRefusal(campaign(CampaignStatus.SENDING))).toBeNull();
+    expect(service.cancelRefusal(campaign(CampaignStatus.SENT))).toBe(
+      "Campaign is already sent",
+    );
+  });
+
+  it("sums up delivery from the notifications by status", () => {
+    const campaign = Object.assign(new Campaign(), {
+      recipientCount: 10,
+      optedOutCount: 2,
+    });
+    expect(service.stats(campaign, { sent: 5, failed: 1 })).toEqual({
+      recipients: 10,
+      optedOut: 2,
+      pending: 0,
+      sent: 5,
+      failed: 1,
+    });
+  });
+});
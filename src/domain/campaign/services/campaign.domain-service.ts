@@ -0,0 +1,83 @@
+/**
+ * Domain rules for studio campaigns: which segments are valid, when a
+ * campaign may be cancelled and how its delivery is summed up.
+ *
+ * @module CampaignModule
+ */
+
+import { Injectable } from "@nestjs/common";
+import {
+  Campaign,
+  CampaignSegment,
+  CampaignStatus,
+} from "../entities/campaign.entity";
+import { NotificationStatus } from "../../notification/entities/notification.entity";
+
+/** Longest look-back of an "active" segment. */
+export const MAX_ACTIVE_DAYS = 365;
+
+/**
+ * Where a campaign's messages are. Recipients who opted out were never
+ * queued; the others are pending, sent or failed.
+ */
+export interface CampaignStats {
+  recipients: number;
+  optedOut: number;
+  pending: number;
+  sent: number;
+  failed: number;
+}
+
+@Injectable()
+export class CampaignDomainService {
+  /**
+   * Explains what is wrong with a segment.
+   * @returns {string | null} The problem, or null when it can be used.
+   */
+  segmentProblem(segment: CampaignSegment): string | null {
+    switch (segment.type) {
+      case "playlist-viewers":
+        return null;
+      case "buyers":
+        return !segment.targetKind !== !segment.targetUuid
+          ? "targetKind and targetUuid must be given together"
+          : null;
+      case "active":
+        return Number.isInteger(segment.days) &&
+          segment.days >= 1 &&
+          segment.days <= MAX_ACTIVE_DAYS
+          ? null
+          : `days must be between 1 and ${MAX_ACTIVE_DAYS}`;
+    }
+  }
+
+  /**
+   * @returns {string | null} Why the campaign cannot be cancelled, or null if it can.
+   */
+  cancelRefusal(campaign: Campaign): string | null {
+    return campaign.status === CampaignStatus.SCHEDULED ||
+      campaign.status === CampaignStatus.SENDING
+      ? null
+      : `Campaign is already ${campaign.status}`;
+  }
+
+  /**
+   * The start of an "active" segment's look-back.
+   */
+  activeSince(days: number, now: Date): Date {
+    return new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Sums up a campaign from its counters and its notifications by status.
+   */
+  stats(campaign: Campaign, byStatus: Record<string, number>): CampaignStats {
+    return {
+      recipients: campaign.recipientCount,
+      optedOut: campaign.optedOutCount,
+      pending: byStatus[NotificationStatus.PENDING] ?? 0,
+      sent: byStatus[NotificationStatus.SENT] ?? 0,
+      failed: byStatus[NotificationStatus.FAILED] ?? 0,
+    };
+  }
+}
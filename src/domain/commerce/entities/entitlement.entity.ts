@@ -0,0 +1,72 @@
+/**
+ * The Entitlement entity records that a user owns a media item or playlist.
+ * Owning a playlist gives access to every item in it.
+ * @module CommerceModule
+ */
+
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  Relation,
+} from "typeorm";
+import { BaseUUIDEntity } from "../../entities/base";
+import { User } from "../../user/entities/user.entity";
+import { PurchaseOrder } from "./purchase-order.entity";
+import type { PurchasableKind } from "../services/commerce.domain-service";
+
+@Entity()
+@Index(["userUuid", "targetKind", "targetUuid"])
+export class Entitlement extends BaseUUIDEntity {
+  /**
+   * Column name: user_uuid
+   * The UUID of the user granted access.
+   */
+  @Column({ type: "uuid", name: "user_uuid" })
+  userUuid: string;
+
+  /**
+   * Many-to-One relationship with the User entity.
+   */
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_uuid" })
+  user: Relation<User>;
+
+  /**
+   * Column name: targetKind
+   * What access was granted to: "music", "photo", "video" or "playlist".
+   */
+  @Column({ type: "varchar", length: 20 })
+  targetKind: PurchasableKind;
+
+  /**
+   * Column name: targetUuid
+   * The UUID of the item or playlist.
+   */
+  @Column({ type: "uuid" })
+  targetUuid: string;
+
+  /**
+   * Column name: order_uuid
+   * The UUID of the order that granted the access.
+   */
+  @Column({ type: "uuid", name: "order_uuid", nullable: true })
+  orderUuid: string | null;
+
+  /**
+   * Many-to-One relationship with the PurchaseOrder entity.
+   * The order that granted the access.
+   */
+  @ManyToOne(() => PurchaseOrder, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "order_uuid" })
+  order: Relation<PurchaseOrder> | null;
+
+  /**
+   * Column name: revokedAt
+   * The timestamp when access was withdrawn, e.g. after a refund.
+   */
+  @Column({ type: "timestamp", nullable: true })
+  revokedAt: Date | null;
+}
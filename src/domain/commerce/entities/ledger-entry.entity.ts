@@ -0,0 +1,68 @@
+/**
+ * The LedgerEntry entity is one line of the append-only money ledger.
+ * Each paid order adds the studio's earning and the platform fee; a refund
+ * adds the same lines with negative amounts, so entries are never changed.
+ * @module CommerceModule
+ */
+
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  Relation,
+} from "typeorm";
+import { BaseUUIDEntity } from "../../entities/base";
+import { PurchaseOrder } from "./purchase-order.entity";
+
+export enum LedgerEntryType {
+  STUDIO_EARNING = "studio_earning",
+  PLATFORM_FEE = "platform_fee",
+}
+
+@Entity()
+@Index(["studioUuid", "createdAt"])
+export class LedgerEntry extends BaseUUIDEntity {
+  /**
+   * Column name: order_uuid
+   * The UUID of the order the money belongs to.
+   */
+  @Column({ type: "uuid", name: "order_uuid" })
+  orderUuid: string;
+
+  /**
+   * Many-to-One relationship with the PurchaseOrder entity.
+   */
+  @ManyToOne(() => PurchaseOrder, { onDelete: "RESTRICT" })
+  @JoinColumn({ name: "order_uuid" })
+  order: Relation<PurchaseOrder>;
+
+  /**
+   * Column name: entryType
+   * Whose share of the order this is: "studio_earning" or "platform_fee".
+   */
+  @Column({ type: "varchar", length: 30 })
+  entryType: LedgerEntryType;
+
+  /**
+   * Column name: studioUuid
+   * The studio credited by a studio earning. Null for platform fees.
+   */
+  @Column({ type: "uuid", nullable: true })
+  studioUuid: string | null;
+
+  /**
+   * Column name: currency
+   * ISO 4217 currency code.
+   */
+  @Column({ type: "char", length: 3 })
+  currency: string;
+
+  /**
+   * Column name: amount
+   * The amount in the currency's minor unit; negative for refunds.
+   */
+  @Column({ type: "int" })
+  amount: number;
+}
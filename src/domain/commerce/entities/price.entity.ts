@@ -0,0 +1,83 @@
+/**
+ * The Price entity sets what a media item or playlist costs in one currency.
+ * Items without any price are free.
+ * @module CommerceModule
+ */
+
+import {
+  Check,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  Relation,
+} from "typeorm";
+import { BaseUUIDEntity } from "../../entities/base";
+import { Music } from "../../media/entities/music.entity";
+import { Photo } from "../../media/entities/photo.entity";
+import { Video } from "../../media/entities/video.entity";
+import { Playlist } from "../../media/entities/playlist.entity";
+import type { PurchasableKind } from "../services/commerce.domain-service";
+
+/**
+ * Exactly one of music, photo, video or playlist is set, matching targetKind.
+ */
+@Entity()
+@Index(["music", "currency"], { unique: true })
+@Index(["photo", "currency"], { unique: true })
+@Index(["video", "currency"], { unique: true })
+@Index(["playlist", "currency"], { unique: true })
+@Check(
+  `(CASE WHEN "music_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "photo_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "video_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "playlist_uuid" IS NULL THEN 0 ELSE 1 END) = 1`,
+)
+export class Price extends BaseUUIDEntity {
+  /**
+   * Column name: targetKind
+   * What is for sale: "music", "photo", "video" or "playlist".
+   */
+  @Column({ type: "varchar", length: 20 })
+  targetKind: PurchasableKind;
+
+  /**
+   * Many-to-One relationship with the Music entity (if a track is for sale).
+   */
+  @ManyToOne(() => Music, { nullable: true, onDelete: "CASCADE" })
+  @JoinColumn({ name: "music_uuid" })
+  music: Relation<Music> | null;
+
+  /**
+   * Many-to-One relationship with the Photo entity (if a photo is for sale).
+   */
+  @ManyToOne(() => Photo, { nullable: true, onDelete: "CASCADE" })
+  @JoinColumn({ name: "photo_uuid" })
+  photo: Relation<Photo> | null;
+
+  /**
+   * Many-to-One relationship with the Video entity (if a video is for sale).
+   */
+  @ManyToOne(() => Video, { nullable: true, onDelete: "CASCADE" })
+  @JoinColumn({ name: "video_uuid" })
+  video: Relation<Video> | null;
+
+  /**
+   * Many-to-One relationship with the Playlist entity (if a playlist is for sale).
+   */
+  @ManyToOne(() => Playlist, { nullable: true, onDelete: "CASCADE" })
+  @JoinColumn({ name: "playlist_uuid" })
+  playlist: Relation<Playlist> | null;
+
+  /**
+   * Column name: currency
+   * ISO 4217 currency code, e.g. "USD".
+   */
+  @Column({ type: "char", length: 3 })
+  currency: string;
+
+  /**
+   * Column name: amount
+   * The price in the currency's minor unit (e.g. cents).
+   */
+  @Column({ type: "int" })
+  amount: number;
+}
@@ -0,0 +1,130 @@
+/**
+ * The PurchaseOrder entity records one attempt by a user to buy a media item
+ * or playlist, and the outcome of the payment.
+ * @module CommerceModule
+ */
+
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  Relation,
+} from "typeorm";
+import { BaseUUIDEntity } from "../../entities/base";
+import { User } from "../../user/entities/user.entity";
+import { Studio } from "../../studio/entities/studio.entity";
+import type { PurchasableKind } from "../services/commerce.domain-service";
+
+export enum OrderStatus {
+  PENDING = "pending",
+  PAID = "paid",
+  FAILED = "failed",
+  REFUNDED = "refunded",
+}
+
+@Entity()
+@Index(["userUuid", "createdAt"])
+export class PurchaseOrder extends BaseUUIDEntity {
+  /**
+   * Column name: user_uuid
+   * The UUID of the buyer.
+   */
+  @Column({ type: "uuid", name: "user_uuid" })
+  userUuid: string;
+
+  /**
+   * Many-to-One relationship with the User entity.
+   * The buyer.
+   */
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_uuid" })
+  user: Relation<User>;
+
+  /**
+   * Column name: targetKind
+   * What was bought: "music", "photo", "video" or "playlist".
+   */
+  @Column({ type: "varchar", length: 20 })
+  targetKind: PurchasableKind;
+
+  /**
+   * Column name: targetUuid
+   * The UUID of what was bought. Kept as a plain value so the order survives
+   * the item being purged.
+   */
+  @Column({ type: "uuid" })
+  targetUuid: string;
+
+  /**
+   * Column name: studio_uuid
+   * The UUID of the studio selling the item.
+   */
+  @Column({ type: "uuid", name: "studio_uuid", nullable: true })
+  studioUuid: string | null;
+
+  /**
+   * Many-to-One relationship with the Studio entity.
+   * The seller. This field can be null if the studio was deleted.
+   */
+  @ManyToOne(() => Studio, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "studio_uuid" })
+  studio: Relation<Studio> | null;
+
+  /**
+   * Column name: currency
+   * ISO 4217 currency code of the charge.
+   */
+  @Column({ type: "char", length: 3 })
+  currency: string;
+
+  /**
+   * Column name: amount
+   * The amount charged, in the currency's minor unit.
+   */
+  @Column({ type: "int" })
+  amount: number;
+
+  /**
+   * Column name: status
+   * "pending" while the payment is in progress, then "paid", "failed" or "refunded".
+   */
+  @Column({ type: "varchar", length: 20, default: OrderStatus.PENDING })
+  status: OrderStatus;
+
+  /**
+   * Column name: gatewayProvider
+   * The payment gateway that handled the charge.
+   */
+  @Column({ type: "varchar", length: 50 })
+  gatewayProvider: string;
+
+  /**
+   * Column name: gatewayReference
+   * The gateway's identifier for the charge, used for refunds.
+   */
+  @Column({ type: "varchar", length: 255, nullable: true })
+  gatewayReference: string | null;
+
+  /**
+   * Column name: failureReason
+   * Why the payment failed, as reported by the gateway.
+   */
+  @Column({ type: "varchar", length: 255, nullable: true })
+  failureReason: string | null;
+
+  /**
+   * Column name: paidAt
+   * The timestamp when the payment succeeded.
+   */
+  @Column({ type: "timestamp", nullable: true })
+  paidAt: Date | null;
+
+  /**
+   * Column name: refundedAt
+   * The timestamp when the payment was refunded.
+   */
+  @Column({ type: "timestamp", nullable: true })
+  refundedAt: Date | null;
+}
@@ -0,0 +1,33 @@
+import { CommerceDomainService } from "./commerce.domain-service";
+import { LedgerEntryType } from "../entities/ledger-entry.entity";
+import { Price } from "../entities/price.entity";
+
+describe("CommerceDomainService", () => {
+  const service = new CommerceDomainService();
+
+  it("picks the price in the requested currency", () => {
+    const prices = [
+      { currency: "USD", amount: 199 },
+      { currency: "EUR", amount: 179 },
+    ] as Price[];
+    expect(service.priceIn(prices, "EUR")?.amount).toBe(179);
+    expect(service.priceIn(prices, "GBP")).toBeNull();
+  });
+
+  it("splits an order between studio and platform without losing cents", () => {
+    expect(service.ledgerLines(199, 1500)).toEqual([
+      { entryType: LedgerEntryType.STUDIO_EARNING, amount: 169 },
+      { entryType: LedgerEntryType.PLATFORM_FEE, amount: 30 },
+    ]);
+    expect(service.ledgerLines(100, 0)[1].amount).toBe(0);
+  });
+
+  it("reverses the split for refunds", () => {
+    const lines = service.ledgerLines(199, 1500, -1);
+    expect(lines.map((line) => line.amount)).toEqual([-169, -30]);
+  });
+
+  it("finds duplicate currencies", () => {
+    expect(service.duplicateCurrencies(["USD", "EUR", "USD"])).toEqual(["USD"]);
+  });
+});
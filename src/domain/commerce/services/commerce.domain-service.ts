@@ -0,0 +1,67 @@
+/**
+ * Domain rules for selling media: what can be bought, which price applies
+ * and how the money of an order is split in the ledger.
+ *
+ * @module CommerceModule
+ */
+
+import { Injectable } from "@nestjs/common";
+import {
+  MEDIA_KINDS,
+  MediaKind,
+} from "../../media/services/media.domain-service";
+import { LedgerEntryType } from "../entities/ledger-entry.entity";
+import { Price } from "../entities/price.entity";
+
+export type PurchasableKind = MediaKind | "playlist";
+
+export const PURCHASABLE_KINDS: PurchasableKind[] = [
+  ...MEDIA_KINDS,
+  "playlist",
+];
+
+/**
+ * One ledger line of an order, before it is stored.
+ */
+export interface LedgerLine {
+  entryType: LedgerEntryType;
+  amount: number;
+}
+
+@Injectable()
+export class CommerceDomainService {
+  /**
+   * The price in `currency`, or null if the item is not sold in it.
+   */
+  priceIn(prices: Price[], currency: string): Price | null {
+    return prices.find((price) => price.currency === currency) ?? null;
+  }
+
+  /**
+   * Splits an order into the studio's earning and the platform fee. The fee
+   * is rounded half up to the minor unit; the studio gets the rest.
+   * @param feeBasisPoints The platform's share in hundredths of a percent.
+   * @param sign -1 to reverse the split for a refund.
+   */
+  ledgerLines(amount: number, feeBasisPoints: number, sign = 1): LedgerLine[] {
+    const fee = Math.floor((amount * feeBasisPoints + 5000) / 10000);
+    return [
+      {
+        entryType: LedgerEntryType.STUDIO_EARNING,
+        amount: sign * (amount - fee),
+      },
+      { entryType: LedgerEntryType.PLATFORM_FEE, amount: sign * fee },
+    ];
+  }
+
+  /**
+   * Lists the currencies that appear more than once.
+   */
+  duplicateCurrencies(currencies: string[]): string[] {
+    return [
+      ...new Set(
+        currencies.filter((currency, i) => currencies.indexOf(currency) !== i),
+      ),
+    ];
+  }
+}
@@ -5,10 +5,11 @@
  * @module DeviceModule
  */
 
-import { Column, Entity, JoinColumn, ManyToOne } from "typeorm";
+import { Column, Entity, JoinColumn, ManyToOne, Relation } from "typeorm";
+import { Exclude } from "class-transformer";
 import { BaseUUIDEntity } from "../../entities/base";
 import { User } from "../../user/entities/user.entity";
-
+import { UserSession } from "../../user/entities/session.entity";
 
 @Entity()
 export class Device extends BaseUUIDEntity {
@@ -23,9 +24,16 @@ export class Device extends BaseUUIDEntity {
    * Firebase Cloud Messaging (FCM) token for push notifications.
    * Used to send notifications to this device. This field is optional and can be null.
    */
+  @Exclude()
   @Column({ type: "varchar", length: 255, nullable: true })
   fcmToken: string | null;
 
+  /**
+   * The UUID of the user who owns this device.
+   */
+  @Column({ type: "uuid", name: "user_uuid", nullable: true })
+  userUuid: string | null;
+
   /**
    * The user who owns this device.
    * Establishes a many-to-one relationship with the User entity. This field can be null
@@ -54,4 +62,20 @@ export class Device extends BaseUUIDEntity {
    */
   @Column({ type: "timestamp", nullable: true })
   lastLoggedOutTime: Date | null;
+
+  /**
+   * The UUID of the session the device is signed in with.
+   * Signing the device out remotely revokes this session.
+   */
+  @Column({ type: "uuid", name: "session_uuid", nullable: true })
+  sessionUuid: string | null;
+
+  /**
+   * The session the device is signed in with. Null once the device has
+   * signed out and its session has been removed.
+   */
+  @Exclude()
+  @ManyToOne(() => UserSession, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "session_uuid" })
+  session: Relation<UserSession> | null;
 }
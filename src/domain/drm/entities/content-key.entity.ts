@@ -0,0 +1,78 @@
+/**
+ * Represents a content key that the renditions of a DRM protected track or
+ * video are encrypted with. The key itself is stored encrypted under one of
+ * the configured master keys and only decrypted to issue licenses.
+ *
+ * @module DrmModule
+ */
+import {
+  Check,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  Relation,
+} from "typeorm";
+import { Exclude } from "class-transformer";
+import { BaseUUIDEntity } from "../../entities/base";
+import { Music } from "../../media/entities/music.entity";
+import { Video } from "../../media/entities/video.entity";
+import type { MediaKind } from "../../media/services/media.domain-service";
+
+/**
+ * A content key of a media item. Exactly one of music or video is set,
+ * matching mediaKind.
+ */
+@Entity()
+@Index(["music", "createdAt"])
+@Index(["video", "createdAt"])
+@Check(
+  `(CASE WHEN "music_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "video_uuid" IS NULL THEN 0 ELSE 1 END) = 1`,
+)
+export class ContentKey extends BaseUUIDEntity {
+  /**
+   * Column name: mediaKind
+   * Which of the media relations is set: "music" or "video".
+   */
+  @Column({ type: "varchar", length: 20 })
+  mediaKind: MediaKind;
+
+  /**
+   * Many-to-One relationship with the Music entity (if this is a track's key).
+   */
+  @ManyToOne(() => Music, { nullable: true, onDelete: "CASCADE" })
+  @JoinColumn({ name: "music_uuid" })
+  music: Relation<Music> | null;
+
+  /**
+   * Many-to-One relationship with the Video entity (if this is a video's key).
+   */
+  @ManyToOne(() => Video, { nullable: true, onDelete: "CASCADE" })
+  @JoinColumn({ name: "video_uuid" })
+  video: Relation<Video> | null;
+
+  /**
+   * Column name: keyId
+   * The key ID (KID) written into the encrypted segments and requested by
+   * players, as a UUID.
+   */
+  @Column({ type: "uuid", unique: true })
+  keyId: string;
+
+  /**
+   * Column name: masterKeyId
+   * Which master key encryptedKey was sealed with.
+   */
+  @Column({ type: "varchar", length: 50 })
+  masterKeyId: string;
+
+  /**
+   * Column name: encryptedKey
+   * The 128-bit content key, encrypted with AES-256-GCM under the master
+   * key: base64 of the IV, the authentication tag and the ciphertext.
+   */
+  @Exclude()
+  @Column({ type: "text" })
+  encryptedKey: string;
+}
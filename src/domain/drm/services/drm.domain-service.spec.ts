@@ -0,0 +1,59 @@
+import { DrmDomainService, DrmSettings, DrmSystem } from "./drm.domain-service";
+
+describe("DrmDomainService", () => {
+  const service = new DrmDomainService();
+  const settings = (fields: Partial<DrmSettings> = {}): DrmSettings => ({
+    drmProtected: true,
+    drmType: DrmSystem.CLEAR_KEY,
+    licenseExpiryDate: null,
+    ...fields,
+  });
+
+  it("only protects media with a configured system and a key", () => {
+    const systems = [DrmSystem.CLEAR_KEY];
+    expect(service.settingsProblem(settings(), 1, systems)).toBeNull();
+    expect(
+      service.settingsProblem(settings({ drmProtected: false }), 0, []),
+    ).toBeNull();
+    expect(
+      service.settingsProblem(settings({ drmType: null }), 1, systems),
+    ).toMatch(/required/);
+    expect(
+      service.settingsProblem(
+        settings({ drmType: DrmSystem.WIDEVINE }),
+        1,
+        systems,
+      ),
+    ).toMatch(/No license server/);
+    expect(service.settingsProblem(settings(), 0, systems)).toMatch(
+      /content key/,
+    );
+  });
+
+  it("stops issuing licenses on the expiry date", () => {
+    const item = settings({ licenseExpiryDate: "2026-10-18" });
+    expect(
+      service.licenseRefusal(item, new Date("2026-10-17T23:59:59Z")),
+    ).toBeNull();
+    expect(
+      service.licenseRefusal(item, new Date("2026-10-18T00:00:00Z")),
+    ).toMatch(/expired/);
+    expect(service.licenseRefusal(settings({ drmProtected: false }))).toMatch(
+      /not DRM protected/,
+    );
+    expect(service.licenseRefusal(settings())).toBeNull();
+  });
+
+  it("normalizes key IDs", () => {
+    expect(service.normalizeKeyId("00112233445566778899AABBCCDDEEFF")).toBe(
+      "00112233-4455-6677-8899-aabbccddeeff",
+    );
+    expect(service.normalizeKeyId("00112233-4455-6677-8899-aabbccddeeff")).toBe(
+      "00112233-4455-6677-8899-aabbccddeeff",
+    );
+    expect(service.normalizeKeyId("0011")).toBeNull();
+    expect(
+      service.normalizeKeyId("zz112233445566778899aabbccddeeff"),
+    ).toBeNull();
+  });
+});
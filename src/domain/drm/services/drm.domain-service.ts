@@ -0,0 +1,103 @@
+/**
+ * Domain rules for DRM: which systems protect media, when protection may be
+ * switched on, and when licenses may be issued.
+ *
+ * @module DrmModule
+ */
+
+import { Injectable } from "@nestjs/common";
+
+/**
+ * DRM systems a media item can be protected with, stored in drmType. Only
+ * systems with a configured license server can be chosen.
+ */
+export enum DrmSystem {
+  CLEAR_KEY = "clearkey",
+  WIDEVINE = "widevine",
+  FAIRPLAY = "fairplay",
+  PLAYREADY = "playready",
+}
+
+/**
+ * The DRM columns of a media item.
+ */
+export interface DrmSettings {
+  drmProtected: boolean;
+  drmType: string | null;
+  /** A date column, so read back as "YYYY-MM-DD". */
+  licenseExpiryDate: Date | string | null;
+}
+
+const UUID =
+  /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+
+@Injectable()
+export class DrmDomainService {
+  /**
+   * Explains why `settings` cannot be saved for an item with `keyCount`
+   * content keys when license servers exist for `systems`.
+   * @returns {string | null} The problem, or null when the settings are usable.
+   */
+  settingsProblem(
+    settings: DrmSettings,
+    keyCount: number,
+    systems: string[],
+  ): string | null {
+    if (!settings.drmProtected) {
+      return null;
+    }
+    if (!settings.drmType) {
+      return "drmType is required for protected media";
+    }
+    if (!systems.includes(settings.drmType)) {
+      return `No license server is configured for ${settings.drmType}`;
+    }
+    if (!keyCount) {
+      return "Add a content key before protecting this media";
+    }
+    return null;
+  }
+
+  /**
+   * Why no license may be issued for `item` at `now`. Licenses stop being
+   * issued from the start (UTC) of the licenseExpiryDate.
+   */
+  licenseRefusal(item: DrmSettings, now = new Date()): string | null {
+    if (!item.drmProtected || !item.drmType) {
+      return "This media is not DRM protected";
+    }
+    if (
+      item.licenseExpiryDate &&
+      now >= this.expiryInstant(item.licenseExpiryDate)
+    ) {
+      return "The license for this media has expired";
+    }
+    return null;
+  }
+
+  /**
+   * Accepts a key ID as a UUID or as 32 hex digits, the form packagers use.
+   * @returns {string | null} The key ID as a lowercase UUID, or null when it is malformed.
+   */
+  normalizeKeyId(value: string): string | null {
+    if (!UUID.test(value)) {
+      return null;
+    }
+    const hex = value.replace(/-/g, "").toLowerCase();
+    return [
+      hex.slice(0, 8),
+      hex.slice(8, 12),
+      hex.slice(12, 16),
+      hex.slice(16, 20),
+      hex.slice(20),
+    ].join("-");
+  }
+
+  private expiryInstant(value: Date | string): Date {
+    return value instanceof Date
+      ? new Date(
+          Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()),
+        )
+      : new Date(value);
+  }
+}
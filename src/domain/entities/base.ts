@@ -15,8 +15,20 @@ import {
   BaseEntity,
   CreateDateColumn,
   UpdateDateColumn,
+  DeleteDateColumn,
   Column,
+  ValueTransformer,
 } from "typeorm";
+import { Exclude } from "class-transformer";
+
+/**
+ * Postgres returns bigint columns as strings; this maps them to numbers.
+ * Safe for values up to Number.MAX_SAFE_INTEGER (about 9 PB as a byte count).
+ */
+export const bigintTransformer: ValueTransformer = {
+  to: (value: number | null) => value,
+  from: (value: string | null) => (value === null ? null : Number(value)),
+};
 
 export abstract class BaseUUIDEntity extends BaseEntity {
   /**
@@ -48,6 +60,41 @@ export abstract class BaseUUIDEntity extends BaseEntity {
   updatedAt: Date;
 }
 
+/**
+ * Life cycle states of a media item, stored in BaseMediaItem.status.
+ */
+export enum MediaStatus {
+  ACTIVE = "active",
+  ARCHIVED = "archived",
+  DELETED = "deleted",
+}
+
+/**
+ * How a list of countries restricts where content is available, stored in
+ * the regionMode of media items and studios.
+ */
+export enum RegionMode {
+  /** Available only in the listed countries. */
+  ALLOW = "allow",
+  /** Available everywhere except the listed countries. */
+  DENY = "deny",
+}
+
+/**
+ * How much of a media item's technical metadata was read from its file,
+ * stored in BaseMediaItem.metadataStatus.
+ */
+export enum MetadataStatus {
+  /** Created before metadata extraction existed; never scanned. */
+  UNSCANNED = "unscanned",
+  /** Every technical field was read from the file. */
+  EXTRACTED = "extracted",
+  /** The file was parsed but some technical fields were not found. */
+  PARTIAL = "partial",
+  /** The file could not be parsed; all values were supplied by the client. */
+  UNREADABLE = "unreadable",
+}
+
 /**
  * Represents a base entity for all media items (e.g., videos, photos, and music).
  * It includes common fields for media attributes, asset life cycle management, versioning, multiple formats,
@@ -85,7 +132,7 @@ export abstract class BaseMediaItem extends BaseUUIDEntity {
    * Column name: status
    * The current status of the media item in its life cycle (e.g., "active", "archived", "deleted").
    */
-  @Column({ type: "varchar", length: 50, default: "active" })
+  @Column({ type: "varchar", length: 50, default: MediaStatus.ACTIVE })
   status: string;
 
   /**
@@ -100,8 +147,10 @@ export abstract class BaseMediaItem extends BaseUUIDEntity {
    * Column name: deletedAt
    * The timestamp when the media item was deleted (if applicable).
    * This field is optional and only populated if the media is deleted.
+   * Deleted items are left out of queries unless `withDeleted` is requested,
+   * and are purged for good once the retention window has passed.
    */
-  @Column({ type: "timestamp", nullable: true })
+  @DeleteDateColumn({ type: "timestamp", nullable: true })
   deletedAt: Date | null;
 
   // === Versioning and Multiple Formats ===
@@ -126,7 +175,7 @@ export abstract class BaseMediaItem extends BaseUUIDEntity {
    * Column name: fileSize
    * The size of the media file in bytes.
    */
-  @Column({ type: "bigint" })
+  @Column({ type: "bigint", transformer: bigintTransformer })
   fileSize: number;
 
   /**
@@ -146,7 +195,9 @@ export abstract class BaseMediaItem extends BaseUUIDEntity {
   /**
    * Column name: storagePath
    * The file path or identifier in the storage system (could be a cloud URL or a local path).
+   * Internal; files are only ever served through the streaming and download routes.
    */
+  @Exclude()
   @Column({ type: "varchar", length: 255 })
   storagePath: string;
 
@@ -157,12 +208,28 @@ export abstract class BaseMediaItem extends BaseUUIDEntity {
   @Column({ type: "varchar", length: 64, nullable: true })
   checksum: string | null;
 
+  /**
+   * Column name: metadataStatus
+   * Whether the technical fields were read from the file: "unscanned",
+   * "extracted", "partial" or "unreadable".
+   */
+  @Column({ type: "varchar", length: 20, default: MetadataStatus.UNSCANNED })
+  metadataStatus: string;
+
+  /**
+   * Column name: metadataScannedAt
+   * When the file was last scanned for metadata.
+   */
+  @Column({ type: "timestamp", nullable: true })
+  metadataScannedAt: Date | null;
+
   // === Storage and Hosting ===
 
   /**
    * Column name: storageProvider
    * The name of the storage provider where the media file is hosted (e.g., AWS S3, Google Cloud Storage).
    */
+  @Exclude()
   @Column({ type: "varchar", length: 100 })
   storageProvider: string;
 
@@ -170,6 +237,7 @@ export abstract class BaseMediaItem extends BaseUUIDEntity {
    * Column name: hostingLocation
    * The physical or cloud region where the media is stored (e.g., "US-West", "EU-Central").
    */
+  @Exclude()
   @Column({ type: "varchar", length: 100 })
   hostingLocation: string;
 
@@ -221,12 +289,21 @@ export abstract class BaseMediaItem extends BaseUUIDEntity {
   @Column({ type: "date", nullable: true })
   licenseExpiryDate: Date | null;
 
+  /**
+   * Column name: regionMode
+   * Whether regionRestrictions lists the only countries the media is
+   * available in ("allow") or the countries it is blocked in ("deny").
+   * When null, the media follows the region defaults of its studio.
+   */
+  @Column({ type: "varchar", length: 10, nullable: true })
+  regionMode: RegionMode | null;
+
   /**
    * Column name: regionRestrictions
-   * A comma-separated list of ISO country codes specifying regions where the media
-   * is restricted. Example: "US,CA,GB" would restrict the media in the US, Canada, and UK.
+   * A comma-separated list of ISO country codes that regionMode applies to.
+   * Example: "US,CA,GB" with mode "deny" blocks the media in the US, Canada, and UK.
    */
-  @Column({ type: "varchar", length: 255, nullable: true })
+  @Column({ type: "text", nullable: true })
   regionRestrictions: string | null;
 
   /**
@@ -0,0 +1,56 @@
+import { RegionMode } from "../../entities/base";
+import { GeoDomainService } from "./geo.domain-service";
+
+describe("GeoDomainService", () => {
+  const service = new GeoDomainService();
+  const unrestricted = { regionMode: null, regionRestrictions: null };
+
+  describe("effectivePolicy", () => {
+    it("prefers the item's own policy over its studio's defaults", () => {
+      const studio = { regionMode: RegionMode.ALLOW, regionRestrictions: "FR" };
+      expect(service.effectivePolicy(unrestricted, studio)).toEqual({
+        mode: RegionMode.ALLOW,
+        countries: ["FR"],
+      });
+      expect(
+        service.effectivePolicy(
+          { regionMode: RegionMode.DENY, regionRestrictions: null },
+          studio,
+        ),
+      ).toEqual({ mode: RegionMode.DENY, countries: [] });
+      expect(service.effectivePolicy(unrestricted, null)).toBeNull();
+    });
+  });
+
+  describe("isAvailable", () => {
+    it("applies allow-lists and deny-lists", () => {
+      const allow = { mode: RegionMode.ALLOW, countries: ["DE", "AT"] };
+      const deny = { mode: RegionMode.DENY, countries: ["US"] };
+      expect(service.isAvailable(allow, "AT")).toBe(true);
+      expect(service.isAvailable(allow, "US")).toBe(false);
+      expect(service.isAvailable(deny, "US")).toBe(false);
+      expect(service.isAvailable(deny, "DE")).toBe(true);
+      expect(service.isAvailable(null, "US")).toBe(true);
+    });
+
+    it("lets unknown countries through deny-lists only", () => {
+      expect(
+        service.isAvailable({ mode: RegionMode.DENY, countries: ["US"] }, null),
+      ).toBe(true);
+      expect(
+        service.isAvailable(
+          { mode: RegionMode.ALLOW, countries: ["US"] },
+          null,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  it("normalizes country lists and codes", () => {
+    expect(service.parseCountries(" us,ca,,GB ")).toEqual(["US", "CA", "GB"]);
+    expect(service.formatCountries(["gb", "US", "GB"])).toBe("GB,US");
+    expect(service.formatCountries([])).toBeNull();
+    expect(service.normalizeCountry(" de")).toBe("DE");
+    expect(service.normalizeCountry("DEU")).toBeNull();
+  });
+});
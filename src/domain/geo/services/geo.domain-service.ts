@@ -0,0 +1,90 @@
+/**
+ * Domain rules for region restrictions: which policy applies to a media item
+ * and whether it allows a viewer's country.
+ *
+ * @module GeoModule
+ */
+
+import { Injectable } from "@nestjs/common";
+import { RegionMode } from "../../entities/base";
+
+/**
+ * Anything that carries a region policy: media items and, as defaults for
+ * their media, studios.
+ */
+export interface RegionRestricted {
+  regionMode: RegionMode | string | null;
+  regionRestrictions: string | null;
+}
+
+export interface GeoPolicy {
+  mode: RegionMode;
+  countries: string[];
+}
+
+/**
+ * Where a request is treated as coming from.
+ */
+export interface ViewerRegion {
+  /** ISO 3166-1 alpha-2 code, or null when the address is not in the database. */
+  country: string | null;
+  /** Whether an administrator chose the country instead of it being looked up. */
+  simulated: boolean;
+}
+
+@Injectable()
+export class GeoDomainService {
+  /**
+   * The policy that applies to `item`: its own when it has a mode, otherwise
+   * its studio's defaults.
+   * @returns {GeoPolicy | null} The policy, or null when the item is unrestricted.
+   */
+  effectivePolicy(
+    item: RegionRestricted,
+    studio: RegionRestricted | null,
+  ): GeoPolicy | null {
+    const source = item.regionMode ? item : studio;
+    if (!source?.regionMode) {
+      return null;
+    }
+    return {
+      mode: source.regionMode as RegionMode,
+      countries: this.parseCountries(source.regionRestrictions),
+    };
+  }
+
+  /**
+   * Whether `policy` allows a viewer from `country`. Viewers whose country is
+   * unknown pass deny-lists but not allow-lists.
+   */
+  isAvailable(policy: GeoPolicy | null, country: string | null): boolean {
+    if (!policy) {
+      return true;
+    }
+    const listed = country !== null && policy.countries.includes(country);
+    return policy.mode === RegionMode.ALLOW ? listed : !listed;
+  }
+
+  parseCountries(list: string | null): string[] {
+    return (list ?? "")
+      .split(",")
+      .map((code) => code.trim().toUpperCase())
+      .filter((code) => code);
+  }
+
+  /**
+   * Stores a country list as sorted, de-duplicated codes, or null when empty.
+   */
+  formatCountries(countries: string[]): string | null {
+    const codes = [...new Set(countries.map((code) => code.toUpperCase()))];
+    return codes.length ? codes.sort().join(",") : null;
+  }
+
+  /**
+   * A country code as sent by a client, or null when it is not one.
+   */
+  normalizeCountry(code: string | undefined): string | null {
+    const upper = code?.trim().toUpperCase() ?? "";
+    return /^[A-Z]{2}$/.test(upper) ? upper : null;
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Represents one encoding of a track or video for adaptive streaming.
+ * Renditions are produced outside the service (e.g. by an encoding pipeline)
+ * as a set of segment files in storage and registered against the media
+ * item; HLS playlists and DASH manifests are generated from them. A
+ * rendition is encoded from one version of the item and only played while
+ * that version is current.
+ *
+ * @module MediaModule
+ */
+import {
+  Check,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  Relation,
+} from "typeorm";
+import { Exclude } from "class-transformer";
+import { BaseUUIDEntity } from "../../entities/base";
+import { Music } from "./music.entity";
+import { Video } from "./video.entity";
+import type { MediaKind } from "../services/media.domain-service";
+
+/**
+ * How the segments of a rendition are packaged. HLS plays both; DASH only
+ * fragmented MP4.
+ */
+export enum RenditionContainer {
+  FMP4 = "fmp4",
+  MPEGTS = "mpegts",
+}
+
+/**
+ * A bitrate ladder entry of a media item. Exactly one of music or video is
+ * set, matching mediaKind.
+ */
+@Entity()
+@Index(["music", "bandwidth"])
+@Index(["video", "bandwidth"])
+@Check(
+  `(CASE WHEN "music_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "video_uuid" IS NULL THEN 0 ELSE 1 END) = 1`,
+)
+export class MediaRendition extends BaseUUIDEntity {
+  /**
+   * Column name: mediaKind
+   * Which of the media relations is set: "music" or "video".
+   */
+  @Column({ type: "varchar", length: 20 })
+  mediaKind: MediaKind;
+
+  /**
+   * Many-to-One relationship with the Music entity (if this is a track's rendition).
+   */
+  @ManyToOne(() => Music, { nullable: true, onDelete: "CASCADE" })
+  @JoinColumn({ name: "music_uuid" })
+  music: Relation<Music> | null;
+
+  /**
+   * Many-to-One relationship with the Video entity (if this is a video's rendition).
+   */
+  @ManyToOne(() => Video, { nullable: true, onDelete: "CASCADE" })
+  @JoinColumn({ name: "video_uuid" })
+  video: Relation<Video> | null;
+
+  /**
+   * Column name: version
+   * The version of the media item the rendition was encoded from.
+   */
+  @Column({ type: "int" })
+  version: number;
+
+  /**
+   * Column name: label
+   * A name for the rendition shown in quality pickers, e.g. "720p" or "128k".
+   */
+  @Column({ type: "varchar", length: 50 })
+  label: string;
+
+  /**
+   * Column name: bandwidth
+   * The peak bitrate of the rendition in bits per second.
+   */
+  @Column({ type: "int" })
+  bandwidth: number;
+
+  /**
+   * Column name: codecs
+   * The RFC 6381 codecs string, e.g. "avc1.64001f,mp4a.40.2".
+   */
+  @Column({ type: "varchar", length: 100 })
+  codecs: string;
+
+  /**
+   * Column name: width
+   * The frame width in pixels (video only).
+   */
+  @Column({ type: "int", nullable: true })
+  width: number | null;
+
+  /**
+   * Column name: height
+   * The frame height in pixels (video only).
+   */
+  @Column({ type: "int", nullable: true })
+  height: number | null;
+
+  /**
+   * Column name: frameRate
+   * The frame rate of the rendition (video only).
+   */
+  @Column({ type: "decimal", precision: 5, scale: 2, nullable: true })
+  frameRate: number | null;
+
+  /**
+   * Column name: container
+   * How the segments are packaged: "fmp4" or "mpegts".
+   */
+  @Column({ type: "varchar", length: 10 })
+  container: RenditionContainer;
+
+  /**
+   * Column name: storagePrefix
+   * The storage key prefix under which the segment files are kept.
+   * Internal; segments are only ever served through the streaming routes.
+   */
+  @Exclude()
+  @Column({ type: "varchar", length: 255 })
+  storagePrefix: string;
+
+  /**
+   * Column name: initSegment
+   * The file name of the initialization segment, for fragmented MP4.
+   */
+  @Column({ type: "varchar", length: 255, nullable: true })
+  initSegment: string | null;
+
+  /**
+   * Column name: segmentTemplate
+   * The file name of the media segments, with $Number$ (or a padded
+   * $Number%05d$) standing for the segment number, counting from 1.
+   */
+  @Column({ type: "varchar", length: 255 })
+  segmentTemplate: string;
+
+  /**
+   * Column name: segmentDuration
+   * The duration of each segment in milliseconds; only the last one may be shorter.
+   */
+  @Column({ type: "int" })
+  segmentDuration: number;
+
+  /**
+   * Column name: segmentCount
+   * How many media segments the rendition has.
+   */
+  @Column({ type: "int" })
+  segmentCount: number;
+}
@@ -0,0 +1,148 @@
+/**
+ * Represents one version of a media item's file.
+ * Uploading a new version keeps the media item (and with it its play counts
+ * and playlist entries) and records the new file as the next revision; older
+ * revisions stay in storage so the item can be rolled back to them.
+ *
+ * @module MediaModule
+ */
+import {
+  Check,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  Relation,
+} from "typeorm";
+import { Exclude } from "class-transformer";
+import { BaseUUIDEntity, bigintTransformer } from "../../entities/base";
+import { User } from "../../user/entities/user.entity";
+import { Music } from "./music.entity";
+import { Photo } from "./photo.entity";
+import { Video } from "./video.entity";
+import type { MediaKind } from "../services/media.domain-service";
+
+/**
+ * Snapshot of the file and technical metadata of one version of a media item.
+ * Exactly one of music, photo or video is set, matching mediaKind.
+ */
+@Entity()
+@Index(["music", "version"])
+@Index(["photo", "version"])
+@Index(["video", "version"])
+@Check(
+  `(CASE WHEN "music_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "photo_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "video_uuid" IS NULL THEN 0 ELSE 1 END) = 1`,
+)
+export class MediaRevision extends BaseUUIDEntity {
+  /**
+   * Column name: mediaKind
+   * Which of the media relations is set: "music", "photo" or "video".
+   */
+  @Column({ type: "varchar", length: 20 })
+  mediaKind: MediaKind;
+
+  /**
+   * Many-to-One relationship with the Music entity (if this is a track's revision).
+   */
+  @ManyToOne(() => Music, { nullable: true, onDelete: "CASCADE" })
+  @JoinColumn({ name: "music_uuid" })
+  music: Relation<Music> | null;
+
+  /**
+   * Many-to-One relationship with the Photo entity (if this is a photo's revision).
+   */
+  @ManyToOne(() => Photo, { nullable: true, onDelete: "CASCADE" })
+  @JoinColumn({ name: "photo_uuid" })
+  photo: Relation<Photo> | null;
+
+  /**
+   * Many-to-One relationship with the Video entity (if this is a video's revision).
+   */
+  @ManyToOne(() => Video, { nullable: true, onDelete: "CASCADE" })
+  @JoinColumn({ name: "video_uuid" })
+  video: Relation<Video> | null;
+
+  /**
+   * Column name: version
+   * The version number; the media item's `version` names the current revision.
+   */
+  @Column({ type: "int" })
+  version: number;
+
+  /**
+   * Column name: storagePath
+   * The key of this version's file in the storage system.
+   * Internal; the file is only ever served through the revision file route.
+   */
+  @Exclude()
+  @Column({ type: "varchar", length: 255 })
+  storagePath: string;
+
+  /**
+   * Column name: storageProvider
+   * The storage provider holding this version's file.
+   */
+  @Exclude()
+  @Column({ type: "varchar", length: 100 })
+  storageProvider: string;
+
+  /**
+   * Column name: hostingLocation
+   * The region where this version's file is stored.
+   */
+  @Exclude()
+  @Column({ type: "varchar", length: 100 })
+  hostingLocation: string;
+
+  /**
+   * Column name: fileSize
+   * The size of the file in bytes.
+   */
+  @Column({ type: "bigint", transformer: bigintTransformer })
+  fileSize: number;
+
+  /**
+   * Column name: checksum
+   * Hex-encoded SHA-256 of the file.
+   */
+  @Column({ type: "varchar", length: 64, nullable: true })
+  checksum: string | null;
+
+  /**
+   * Column name: format
+   * The format of the file (e.g., MP3, MP4, JPEG).
+   */
+  @Column({ type: "varchar", length: 50 })
+  format: string;
+
+  /**
+   * Column name: mimeType
+   * The MIME type of the file.
+   */
+  @Column({ type: "varchar", length: 100 })
+  mimeType: string;
+
+  /**
+   * Column name: technical
+   * The kind-specific technical metadata of this version, e.g. duration and
+   * codec for a video or width and height for a photo.
+   */
+  @Column({ type: "simple-json" })
+  technical: Record<string, unknown>;
+
+  /**
+   * Column name: note
+   * What changed in this version, as described by the uploader.
+   */
+  @Column({ type: "text", nullable: true })
+  note: string | null;
+
+  /**
+   * Many-to-One relationship with User entity.
+   * The user who uploaded this version. This field can be null if that user was deleted.
+   */
+  @ManyToOne(() => User, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "created_by_uuid" })
+  createdBy: Relation<User> | null;
+}
@@ -5,7 +5,7 @@
  * @module MediaModule
  */
 
-import { Entity, Column, ManyToOne, Relation } from "typeorm";
+import { Entity, Column, Index, ManyToOne, Relation } from "typeorm";
 import { BaseUUIDEntity } from "../../entities/base";
 import { User } from "../../user/entities/user.entity";
 import { Music } from "./music.entity";
@@ -13,20 +13,34 @@ import { Photo } from "./photo.entity";
 import { Video } from "./video.entity";
 import { Playlist } from "./playlist.entity";
 
+export enum InteractionType {
+  /** Playback of music or video, counted once per viewer per dedupe window. */
+  WATCHED = "WATCHED",
+  /** A photo or playlist was viewed. */
+  SEEN = "SEEN",
+  /** Playback reached the end. */
+  COMPLETED = "COMPLETED",
+  PAID = "PAID",
+}
+
 /**
  * MediaInteraction entity tracks the interactions of users with different media types
  * (music, photo, video, or playlist). The interaction can represent actions like watching,
  * seeing, or paying for the media.
+ * Rows are written often and never updated; reporting reads the hourly and
+ * daily roll-ups in AnalyticsBucket instead of this table. Purging a media
+ * item clears its reference here rather than deleting the interaction.
  */
 @Entity()
+@Index(["timestamp"])
 export class MediaInteraction extends BaseUUIDEntity {
   /**
    * Column name: interactionType
    * Defines the type of interaction a user has with the media.
-   * Possible values: "WATCHED", "SEEN", "PAID".
+   * Possible values: "WATCHED", "SEEN", "COMPLETED", "PAID".
    */
   @Column({ type: "varchar", length: 50 })
-  interactionType: string;
+  interactionType: InteractionType;
 
   /**
    * Column name: timestamp
@@ -47,7 +61,7 @@ export class MediaInteraction extends BaseUUIDEntity {
    * Stores the reference to the music the user interacted with (if applicable).
    * This field is nullable since the interaction may involve other types of media.
    */
-  @ManyToOne(() => Music, { nullable: true })
+  @ManyToOne(() => Music, { nullable: true, onDelete: "SET NULL" })
   music: Relation<Music> | null;
 
   /**
@@ -55,7 +69,7 @@ export class MediaInteraction extends BaseUUIDEntity {
    * Stores the reference to the photo the user interacted with (if applicable).
    * This field is nullable since the interaction may involve other types of media.
    */
-  @ManyToOne(() => Photo, { nullable: true })
+  @ManyToOne(() => Photo, { nullable: true, onDelete: "SET NULL" })
   photo: Relation<Photo> | null;
 
   /**
@@ -63,7 +77,7 @@ export class MediaInteraction extends BaseUUIDEntity {
    * Stores the reference to the video the user interacted with (if applicable).
    * This field is nullable since the interaction may involve other types of media.
    */
-  @ManyToOne(() => Video, { nullable: true })
+  @ManyToOne(() => Video, { nullable: true, onDelete: "SET NULL" })
   video: Relation<Video> | null;
 
   /**
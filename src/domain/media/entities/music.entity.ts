@@ -7,9 +7,16 @@
  *
  * @module MediaModule
  */
-import { Column, Entity, ManyToOne, Relation } from "typeorm";
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  Relation,
+} from "typeorm";
 import { BaseMediaItem } from "../../entities/base";
-import { Playlist } from "./playlist.entity";
+import { Studio } from "../../studio/entities/studio.entity";
 
 /**
  * Represents a Music entity, including metadata.
@@ -17,6 +24,8 @@ import { Playlist } from "./playlist.entity";
  * This entity inherits from BaseUUIDEntity, which provides a UUID primary key and timestamps for creation and updates.
  */
 @Entity()
+@Index("IDX_music_title_trgm", { synchronize: false })
+@Index("IDX_music_artist_trgm", { synchronize: false })
 export class Music extends BaseMediaItem {
   /**
    * Column name: artist
@@ -56,9 +65,35 @@ export class Music extends BaseMediaItem {
   releasedAt: Date;
 
   /**
-   * Many-to-One relationship with the Playlist entity.
-   * A Music can belong to one playlist.
+   * Column name: studio_uuid
+   * The UUID of the studio that published this music.
    */
-  @ManyToOne(() => Music, (music) => music.playlist, { nullable: true })
-  playlist: Relation<Playlist> | null;
+  @Column({ type: "uuid", name: "studio_uuid", nullable: true })
+  studioUuid: string | null;
+
+  /**
+   * Many-to-One relationship with the Studio entity.
+   * The studio that published this music.
+   */
+  @ManyToOne(() => Studio, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "studio_uuid" })
+  studio: Relation<Studio> | null;
+
+  /**
+   * Column name: searchVector
+   * Full-text search document built from the title, artist and album, genre
+   * and description, weighted in that order. Generated by Postgres. It and the
+   * trigram indexes on title and artist are GIN indexes, which are created by
+   * migration rather than declared here.
+   */
+  @Index("IDX_music_search_vector", { synchronize: false })
+  @Column({
+    type: "tsvector",
+    generatedType: "STORED",
+    asExpression: `setweight(to_tsvector('simple', coalesce("title", '')), 'A') || setweight(to_tsvector('simple', coalesce("artist", '') || ' ' || coalesce("album", '')), 'B') || setweight(to_tsvector('simple', coalesce("genre", '')), 'C') || setweight(to_tsvector('simple', coalesce("description", '')), 'D')`,
+    select: false,
+    insert: false,
+    update: false,
+  })
+  searchVector: string;
 }
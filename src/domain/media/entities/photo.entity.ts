@@ -7,9 +7,16 @@
  * @module MediaModule
  */
 
-import { Column, Entity, ManyToOne, Relation } from "typeorm";
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  Relation,
+} from "typeorm";
 import { BaseMediaItem } from "../../entities/base";
-import { Playlist } from "./playlist.entity";
+import { Studio } from "../../studio/entities/studio.entity";
 
 /**
  * Represents a Photo entity, including metadata.
@@ -17,6 +24,7 @@ import { Playlist } from "./playlist.entity";
  * This entity inherits from BaseUUIDEntity, which provides a UUID primary key and timestamps for creation and updates.
  */
 @Entity()
+@Index("IDX_photo_title_trgm", { synchronize: false })
 export class Photo extends BaseMediaItem {
   /**
    * Metadata fields
@@ -44,9 +52,33 @@ export class Photo extends BaseMediaItem {
   capturedAt: Date;
 
   /**
-   * Many-to-One relationship with the Playlist entity.
-   * A photo can belong to one playlist.
+   * Column name: studio_uuid
+   * The UUID of the studio that published this photo.
    */
-  @ManyToOne(() => Photo, (photo) => photo.playlist, { nullable: true })
-  playlist: Relation<Playlist> | null;
+  @Column({ type: "uuid", name: "studio_uuid", nullable: true })
+  studioUuid: string | null;
+
+  /**
+   * Many-to-One relationship with the Studio entity.
+   * The studio that published this photo.
+   */
+  @ManyToOne(() => Studio, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "studio_uuid" })
+  studio: Relation<Studio> | null;
+
+  /**
+   * Column name: searchVector
+   * Generated full-text search document over the title and description.
+   * Indexed by migration, like Music.searchVector.
+   */
+  @Index("IDX_photo_search_vector", { synchronize: false })
+  @Column({
+    type: "tsvector",
+    generatedType: "STORED",
+    asExpression: `setweight(to_tsvector('simple', coalesce("title", '')), 'A') || setweight(to_tsvector('simple', coalesce("description", '')), 'D')`,
+    select: false,
+    insert: false,
+    update: false,
+  })
+  searchVector: string;
 }
@@ -0,0 +1,86 @@
+/**
+ * This module links media items to playlists.
+ * A PlaylistItem places one music track, photo or video at a position in a
+ * playlist, so a playlist can hold an ordered mix of media types and the same
+ * media can appear in several playlists.
+ *
+ * @module MediaModule
+ */
+import {
+  Check,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  Relation,
+} from "typeorm";
+import { BaseUUIDEntity } from "../../entities/base";
+import { Playlist } from "./playlist.entity";
+import { Music } from "./music.entity";
+import { Photo } from "./photo.entity";
+import { Video } from "./video.entity";
+import type { MediaKind } from "../services/media.domain-service";
+
+/**
+ * Represents one entry of a playlist's timeline.
+ * Exactly one of music, photo or video is set, matching mediaKind.
+ */
+@Entity()
+@Index(["playlistUuid", "position"])
+@Check(
+  `(CASE WHEN "music_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "photo_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "video_uuid" IS NULL THEN 0 ELSE 1 END) = 1`,
+)
+export class PlaylistItem extends BaseUUIDEntity {
+  /**
+   * Column name: playlist_uuid
+   * The UUID of the playlist this entry belongs to.
+   */
+  @Column({ type: "uuid", name: "playlist_uuid" })
+  playlistUuid: string;
+
+  /**
+   * Many-to-One relationship with the Playlist entity.
+   * Entries are removed together with their playlist.
+   */
+  @ManyToOne(() => Playlist, (playlist) => playlist.items, {
+    onDelete: "CASCADE",
+  })
+  @JoinColumn({ name: "playlist_uuid" })
+  playlist: Relation<Playlist>;
+
+  /**
+   * Column name: position
+   * Zero-based position of the entry in the playlist timeline.
+   */
+  @Column({ type: "int" })
+  position: number;
+
+  /**
+   * Column name: mediaKind
+   * Which of the media relations is set: "music", "photo" or "video".
+   */
+  @Column({ type: "varchar", length: 20 })
+  mediaKind: MediaKind;
+
+  /**
+   * Many-to-One relationship with the Music entity (if this entry is a track).
+   */
+  @ManyToOne(() => Music, { nullable: true, onDelete: "CASCADE" })
+  @JoinColumn({ name: "music_uuid" })
+  music: Relation<Music> | null;
+
+  /**
+   * Many-to-One relationship with the Photo entity (if this entry is a photo).
+   */
+  @ManyToOne(() => Photo, { nullable: true, onDelete: "CASCADE" })
+  @JoinColumn({ name: "photo_uuid" })
+  photo: Relation<Photo> | null;
+
+  /**
+   * Many-to-One relationship with the Video entity (if this entry is a video).
+   */
+  @ManyToOne(() => Video, { nullable: true, onDelete: "CASCADE" })
+  @JoinColumn({ name: "video_uuid" })
+  video: Relation<Video> | null;
+}
@@ -4,19 +4,18 @@
  *
  * @module MediaModule
  */
-import { Column, Entity, OneToMany, ManyToOne, Relation } from "typeorm";
+import { Column, Entity, Index, OneToMany, ManyToOne, Relation } from "typeorm";
 import { BaseUUIDEntity } from "../../entities/base";
 import { Studio } from "../../studio/entities/studio.entity";
-import { Music } from "./music.entity";
-import { Photo } from "./photo.entity";
-import { Video } from "./video.entity";
+import { PlaylistItem } from "./playlist-item.entity";
 
 /**
  * Represents a Playlist entity, which can hold various types of media.
- * A playlist can belong to a studio and contain multiple music tracks, photos, and videos.
+ * A playlist can belong to a studio and holds an ordered timeline of music tracks, photos, and videos.
  * This entity inherits from BaseUUIDEntity, which provides a UUID primary key and timestamps for creation and updates.
  */
 @Entity()
+@Index("IDX_playlist_title_trgm", { synchronize: false })
 export class Playlist extends BaseUUIDEntity {
   /**
    * Column name: title
@@ -34,25 +33,19 @@ export class Playlist extends BaseUUIDEntity {
   description: string | null;
 
   /**
-   * One-to-Many relationship with the Music entity.
-   * A playlist can contain multiple music tracks.
+   * Column name: publishedAt
+   * The timestamp when the playlist was published to viewers.
+   * Null while the playlist is a draft. Only approved studios can publish.
    */
-  @OneToMany(() => Music, (music) => music.playlist, { nullable: true })
-  music: Relation<Music[]>;
+  @Column({ type: "timestamp", nullable: true })
+  publishedAt: Date | null;
 
   /**
-   * One-to-Many relationship with the Photo entity.
-   * A playlist can contain multiple photos.
+   * One-to-Many relationship with the PlaylistItem entity.
+   * The entries of the playlist; their position defines the playback order.
    */
-  @OneToMany(() => Photo, (photo) => photo.playlist, { nullable: true })
-  photos: Relation<Photo[]>;
-
-  /**
-   * One-to-Many relationship with the Video entity.
-   * A playlist can contain multiple videos.
-   */
-  @OneToMany(() => Video, (video) => video.playlist, { nullable: true })
-  videos: Relation<Video[]>;
+  @OneToMany(() => PlaylistItem, (item) => item.playlist)
+  items: Relation<PlaylistItem[]>;
 
   /**
    * Many-to-One relationship with the Studio entity.
@@ -60,4 +53,20 @@ export class Playlist extends BaseUUIDEntity {
    */
   @ManyToOne(() => Studio, (studio) => studio.playlist, { nullable: true })
   studio: Relation<Studio> | null;
+
+  /**
+   * Column name: searchVector
+   * Generated full-text search document over the title and description.
+   * Indexed by migration, like Music.searchVector.
+   */
+  @Index("IDX_playlist_search_vector", { synchronize: false })
+  @Column({
+    type: "tsvector",
+    generatedType: "STORED",
+    asExpression: `setweight(to_tsvector('simple', coalesce("title", '')), 'A') || setweight(to_tsvector('simple', coalesce("description", '')), 'D')`,
+    select: false,
+    insert: false,
+    update: false,
+  })
+  searchVector: string;
 }
@@ -0,0 +1,93 @@
+/**
+ * Represents a resumable (chunked) media upload in progress.
+ * Chunks are stored as separate objects until the upload is completed, at which
+ * point they are assembled into a single media file.
+ *
+ * @module MediaModule
+ */
+
+import { Column, Entity, JoinColumn, ManyToOne, Relation } from "typeorm";
+import { BaseUUIDEntity, bigintTransformer } from "../../entities/base";
+import { User } from "../../user/entities/user.entity";
+
+/**
+ * A chunk that has been received, identified by its byte offset in the file.
+ */
+export interface UploadChunk {
+  offset: number;
+  size: number;
+}
+
+export enum UploadStatus {
+  OPEN = "open",
+  COMPLETED = "completed",
+  ABORTED = "aborted",
+}
+
+@Entity()
+export class UploadSession extends BaseUUIDEntity {
+  /**
+   * Column name: user_uuid
+   * The UUID of the user performing the upload.
+   */
+  @Column({ type: "uuid", name: "user_uuid" })
+  userUuid: string;
+
+  /**
+   * Many-to-One relationship with the User entity.
+   * The user performing the upload.
+   */
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_uuid" })
+  user: Relation<User>;
+
+  /**
+   * Column name: filename
+   * The original file name reported by the client.
+   */
+  @Column({ type: "varchar", length: 255 })
+  filename: string;
+
+  /**
+   * Column name: totalSize
+   * The size of the complete file in bytes, declared when the upload starts.
+   */
+  @Column({ type: "bigint", transformer: bigintTransformer })
+  totalSize: number;
+
+  /**
+   * Column name: receivedBytes
+   * How many bytes have been received so far. The next chunk must start here.
+   */
+  @Column({ type: "bigint", default: 0, transformer: bigintTransformer })
+  receivedBytes: number;
+
+  /**
+   * Column name: chunks
+   * The chunks received so far, in order.
+   */
+  @Column({ type: "simple-json" })
+  chunks: UploadChunk[];
+
+  /**
+   * Column name: metadata
+   * The media fields (title, studio, technical metadata) supplied when the upload
+   * started; applied to the media item once the upload completes.
+   */
+  @Column({ type: "simple-json" })
+  metadata: Record<string, unknown>;
+
+  /**
+   * Column name: status
+   * The state of the upload: "open", "completed" or "aborted".
+   */
+  @Column({ type: "varchar", length: 20, default: UploadStatus.OPEN })
+  status: UploadStatus;
+
+  /**
+   * Column name: mediaUuid
+   * The UUID of the media item created when the upload completed.
+   */
+  @Column({ type: "uuid", nullable: true })
+  mediaUuid: string | null;
+}
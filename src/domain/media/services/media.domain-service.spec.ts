@@ -0,0 +1,187 @@
+import { MediaStatus, MetadataStatus } from "../../entities/base";
+import { MediaDomainService, MediaItem } from "./media.domain-service";
+
+describe("MediaDomainService", () => {
+  const service = new MediaDomainService();
+  const bytes = (...parts: (string | number[])[]) =>
+    Buffer.concat(
+      parts.map((part) =>
+        typeof part === "string"
+          ? Buffer.from(part, "latin1")
+          : Buffer.from(part),
+      ),
+    );
+
+  describe("detectMediaType", () => {
+    it.each([
+      ["JPEG", bytes([0xff, 0xd8, 0xff, 0xe0]), "photo", "image/jpeg"],
+      ["PNG", bytes("\x89PNG\r\n\x1a\n"), "photo", "image/png"],
+      ["WebP", bytes("RIFF", [0, 0, 0, 0], "WEBP"), "photo", "image/webp"],
+      ["MP3 with ID3", bytes("ID3", [4, 0]), "music", "audio/mpeg"],
+      ["MP3 frame", bytes([0xff, 0xfb, 0x90, 0x00]), "music", "audio/mpeg"],
+      ["FLAC", bytes("fLaC"), "music", "audio/flac"],
+      ["MP4", bytes([0, 0, 0, 0x20], "ftypisom"), "video", "video/mp4"],
+      ["MOV", bytes([0, 0, 0, 0x14], "ftypqt  "), "video", "video/quicktime"],
+      ["M4A", bytes([0, 0, 0, 0x20], "ftypM4A "), "music", "audio/mp4"],
+      ["WebM", bytes([0x1a, 0x45, 0xdf, 0xa3]), "video", "video/webm"],
+    ])("recognises %s", (_name, head, kind, mimeType) => {
+      expect(service.detectMediaType(head)).toMatchObject({ kind, mimeType });
+    });
+
+    it("ignores what the file claims to be", () => {
+      expect(service.detectMediaType(bytes("<html>"))).toBeNull();
+      expect(service.detectMediaType(Buffer.alloc(0))).toBeNull();
+    });
+
+    it("does not mistake ADTS AAC for MP3", () => {
+      expect(service.detectMediaType(bytes([0xff, 0xf1, 0x50]))).toBeNull();
+    });
+  });
+
+  describe("missingFields", () => {
+    it("lists the fields a kind still needs", () => {
+      expect(
+        service.missingFields("music", { artist: "Nina", duration: 200 }),
+      ).toEqual(["releasedAt"]);
+      expect(
+        service.missingFields("photo", {
+          width: 10,
+          height: 10,
+          capturedAt: new Date(),
+        }),
+      ).toEqual([]);
+    });
+  });
+
+  describe("applyMetadata", () => {
+    it("prefers technical values from the file and fills empty tags", () => {
+      expect(
+        service.applyMetadata(
+          "music",
+          { duration: 999, artist: "Nina", album: null },
+          {
+            technical: { duration: 201 },
+            tags: { artist: "Someone else", album: "Blue" },
+          },
+        ),
+      ).toEqual({
+        fields: { duration: 201, album: "Blue" },
+        status: MetadataStatus.EXTRACTED,
+      });
+    });
+
+    it("reports partial and unreadable files", () => {
+      expect(
+        service.applyMetadata(
+          "video",
+          {},
+          { technical: { duration: 60, resolution: "640x360" }, tags: {} },
+        ).status,
+      ).toBe(MetadataStatus.PARTIAL);
+      expect(service.applyMetadata("photo", {}, null)).toEqual({
+        fields: {},
+        status: MetadataStatus.UNREADABLE,
+      });
+    });
+  });
+
+  describe("canChangeStatus", () => {
+    it.each([
+      [MediaStatus.ACTIVE, MediaStatus.ARCHIVED, true],
+      [MediaStatus.ARCHIVED, MediaStatus.ARCHIVED, false],
+      [MediaStatus.DELETED, MediaStatus.ARCHIVED, false],
+      [MediaStatus.ACTIVE, MediaStatus.DELETED, true],
+      [MediaStatus.ARCHIVED, MediaStatus.DELETED, true],
+      [MediaStatus.DELETED, MediaStatus.DELETED, false],
+      [MediaStatus.ARCHIVED, MediaStatus.ACTIVE, true],
+      [MediaStatus.DELETED, MediaStatus.ACTIVE, true],
+      [MediaStatus.ACTIVE, MediaStatus.ACTIVE, false],
+    ])("%s -> %s is %s", (from, to, allowed) => {
+      expect(service.canChangeStatus(from, to)).toBe(allowed);
+    });
+  });
+
+  describe("downloads", () => {
+    const item = (fields: Partial<MediaItem> = {}) =>
+      ({
+        title: "Live at the Shrine",
+        format: "MP3",
+        status: MediaStatus.ACTIVE,
+        downloadAllowed: true,
+        drmProtected: false,
+        ...fields,
+      }) as MediaItem;
+
+    it("refuses media that may not be handed out", () => {
+      expect(service.downloadRefusal(item())).toBeNull();
+      expect(service.downloadRefusal(item({ downloadAllowed: false }))).toMatch(
+        /disabled/,
+      );
+      expect(service.downloadRefusal(item({ drmProtected: true }))).toMatch(
+        /DRM/,
+      );
+      expect(
+        service.downloadRefusal(item({ status: MediaStatus.ARCHIVED })),
+      ).toBe("Media is archived");
+    });
+
+    it("names the file after the title", () => {
+      expect(service.downloadFileName(item())).toBe("Live at the Shrine.mp3");
+      expect(
+        service.downloadFileName(
+          item({ title: 'a/b: "c"', format: "mpeg audio" }),
+        ),
+      ).toBe("a b c");
+      expect(service.downloadFileName(item({ title: "///" }))).toBe(
+        "download.mp3",
+      );
+    });
+  });
+
+  describe("isRestorable", () => {
+    const now = new Date("2024-03-31T00:00:00Z");
+
+    it("allows restoring within the retention window", () => {
+      const item = { deletedAt: new Date("2024-03-02T00:00:00Z") } as MediaItem;
+      expect(service.isRestorable(item, 30, now)).toBe(true);
+    });
+
+    it("refuses once the retention window has ended", () => {
+      const item = { deletedAt: new Date("2024-02-29T00:00:00Z") } as MediaItem;
+      expect(service.isRestorable(item, 30, now)).toBe(false);
+    });
+  });
+
+  describe("revisions", () => {
+    it("round-trips a video's file and technical metadata", () => {
+      const video = {
+        storagePath: "media/a",
+        storageProvider: "local",
+        hostingLocation: "local",
+        fileSize: 10,
+        checksum: "abc",
+        format: "MP4",
+        mimeType: "video/mp4",
+        duration: 60,
+        resolution: "1920x1080",
+        codec: "h264",
+        frameRate: 25,
+        title: "Not technical",
+      } as unknown as MediaItem;
+
+      const snapshot = service.revisionSnapshot("video", video);
+      expect(snapshot.technical).toEqual({
+        duration: 60,
+        resolution: "1920x1080",
+        codec: "h264",
+        frameRate: 25,
+      });
+      expect(service.fieldsFromRevision(snapshot)).toMatchObject({
+        storagePath: "media/a",
+        codec: "h264",
+        availableFormats: ["MP4"],
+      });
+      expect(service.fieldsFromRevision(snapshot)).not.toHaveProperty("title");
+    });
+  });
+});
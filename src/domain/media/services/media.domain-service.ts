@@ -0,0 +1,341 @@
+/**
+ * Domain rules shared by all media types: which media kinds exist, how a file's
+ * real type is recognised from its content, and which fields each kind needs.
+ *
+ * @module MediaModule
+ */
+
+import { Injectable } from "@nestjs/common";
+import { MediaStatus, MetadataStatus } from "../../entities/base";
+import { MediaRevision } from "../entities/media-revision.entity";
+import { Music } from "../entities/music.entity";
+import { Photo } from "../entities/photo.entity";
+import { Video } from "../entities/video.entity";
+import { ADAPTIVE_FORMATS } from "./streaming.domain-service";
+
+export type MediaKind = "music" | "photo" | "video";
+
+export type MediaItem = Music | Photo | Video;
+
+/**
+ * Entity class backing each media kind.
+ */
+export const MEDIA_ENTITIES = {
+  music: Music,
+  photo: Photo,
+  video: Video,
+} as const;
+
+export const MEDIA_KINDS = Object.keys(MEDIA_ENTITIES) as MediaKind[];
+
+/**
+ * Media kinds that can be played back as a stream.
+ */
+export const STREAMABLE_KINDS: MediaKind[] = ["music", "video"];
+
+/**
+ * Result of content sniffing.
+ */
+export interface DetectedMediaType {
+  kind: MediaKind;
+  mimeType: string;
+  /** Short format name stored in BaseMediaItem.format, e.g. "MP3". */
+  format: string;
+}
+
+/**
+ * How many leading bytes {@link MediaDomainService.detectMediaType} needs.
+ */
+export const MEDIA_SNIFF_LENGTH = 64;
+
+/**
+ * Fields that must be known before a media item of each kind can be stored.
+ */
+const REQUIRED_FIELDS: Record<MediaKind, string[]> = {
+  music: ["artist", "duration", "releasedAt"],
+  photo: ["width", "height", "capturedAt"],
+  video: ["duration", "resolution", "codec", "frameRate"],
+};
+
+/**
+ * Technical fields that describe a particular file and so change with each
+ * revision, as opposed to descriptive fields such as the title.
+ */
+export const TECHNICAL_FIELDS: Record<MediaKind, string[]> = {
+  music: ["duration"],
+  photo: ["width", "height"],
+  video: ["duration", "resolution", "codec", "frameRate"],
+};
+
+/**
+ * Descriptive fields that may be embedded in a file as tags, such as ID3
+ * frames or EXIF dates.
+ */
+export const TAG_FIELDS: Record<MediaKind, string[]> = {
+  music: ["artist", "album", "genre"],
+  photo: ["capturedAt"],
+  video: [],
+};
+
+/**
+ * What a metadata extractor read from a file. Only fields it found are set.
+ */
+export interface ExtractedMetadata {
+  technical: Record<string, unknown>;
+  tags: Record<string, unknown>;
+}
+
+/**
+ * Fields of a media item that are copied to and from its revisions.
+ */
+export type RevisionFile = Pick<
+  MediaRevision,
+  | "storagePath"
+  | "storageProvider"
+  | "hostingLocation"
+  | "fileSize"
+  | "checksum"
+  | "format"
+  | "mimeType"
+  | "technical"
+>;
+
+/** ISO-BMFF (MP4/MOV) major brands mapped to their type. */
+const FTYP_BRANDS: Record<string, DetectedMediaType> = {
+  "qt  ": { kind: "video", mimeType: "video/quicktime", format: "MOV" },
+  "M4A ": { kind: "music", mimeType: "audio/mp4", format: "M4A" },
+  "M4B ": { kind: "music", mimeType: "audio/mp4", format: "M4A" },
+  heic: { kind: "photo", mimeType: "image/heic", format: "HEIC" },
+  heix: { kind: "photo", mimeType: "image/heic", format: "HEIC" },
+  avif: { kind: "photo", mimeType: "image/avif", format: "AVIF" },
+};
+
+@Injectable()
+export class MediaDomainService {
+  /**
+   * Recognises a file from its magic bytes rather than its name or the
+   * Content-Type the client sent.
+   * @param head The first {@link MEDIA_SNIFF_LENGTH} bytes of the file.
+   * @returns {DetectedMediaType | null} The detected type, or null if unsupported.
+   */
+  detectMediaType(head: Buffer): DetectedMediaType | null {
+    const ascii = (start: number, end: number) =>
+      head.subarray(start, end).toString("latin1");
+
+    if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) {
+      return { kind: "photo", mimeType: "image/jpeg", format: "JPEG" };
+    }
+    if (ascii(0, 8) === "\x89PNG\r\n\x1a\n") {
+      return { kind: "photo", mimeType: "image/png", format: "PNG" };
+    }
+    if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") {
+      return { kind: "photo", mimeType: "image/gif", format: "GIF" };
+    }
+    if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") {
+      return { kind: "photo", mimeType: "image/webp", format: "WEBP" };
+    }
+    if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WAVE") {
+      return { kind: "music", mimeType: "audio/wav", format: "WAV" };
+    }
+    if (ascii(0, 4) === "fLaC") {
+      return { kind: "music", mimeType: "audio/flac", format: "FLAC" };
+    }
+    if (ascii(0, 4) === "OggS") {
+      return { kind: "music", mimeType: "audio/ogg", format: "OGG" };
+    }
+    // MPEG audio frame sync with a valid layer (ADTS AAC has layer bits 00).
+    const frameSync =
+      head[0] === 0xff && (head[1] & 0xe0) === 0xe0 && (head[1] & 0x06) !== 0;
+    if (ascii(0, 3) === "ID3" || frameSync) {
+      return { kind: "music", mimeType: "audio/mpeg", format: "MP3" };
+    }
+    if (head.length >= 4 && head.readUInt32BE(0) === 0x1a45dfa3) {
+      return { kind: "video", mimeType: "video/webm", format: "WEBM" };
+    }
+    if (head.length >= 12 && ascii(4, 8) === "ftyp") {
+      return (
+        FTYP_BRANDS[ascii(8, 12)] ?? {
+          kind: "video",
+          mimeType: "video/mp4",
+          format: "MP4",
+        }
+      );
+    }
+    return null;
+  }
+
+  /**
+   * Lists the required fields of `kind` that are missing from `fields`.
+   */
+  missingFields(kind: MediaKind, fields: Record<string, unknown>): string[] {
+    return REQUIRED_FIELDS[kind].filter(
+      (field) => fields[field] === undefined || fields[field] === null,
+    );
+  }
+
+  /**
+   * Combines metadata read from a file with the values already known for
+   * the item. Technical fields read from the file win, since the file is
+   * what gets played; tags only fill fields that are still empty.
+   * @param extracted What was read from the file, or null if it was unreadable.
+   */
+  applyMetadata(
+    kind: MediaKind,
+    known: Record<string, unknown>,
+    extracted: ExtractedMetadata | null,
+  ): { fields: Record<string, unknown>; status: MetadataStatus } {
+    if (!extracted) {
+      return { fields: {}, status: MetadataStatus.UNREADABLE };
+    }
+    const isSet = (value: unknown) => value !== undefined && value !== null;
+    const fields: Record<string, unknown> = {};
+    for (const field of TECHNICAL_FIELDS[kind]) {
+      if (isSet(extracted.technical[field])) {
+        fields[field] = extracted.technical[field];
+      }
+    }
+    for (const field of TAG_FIELDS[kind]) {
+      if (!isSet(known[field]) && isSet(extracted.tags[field])) {
+        fields[field] = extracted.tags[field];
+      }
+    }
+    const complete = TECHNICAL_FIELDS[kind].every((field) =>
+      isSet(extracted.technical[field]),
+    );
+    return {
+      fields,
+      status: complete ? MetadataStatus.EXTRACTED : MetadataStatus.PARTIAL,
+    };
+  }
+
+  /**
+   * Explains why an item cannot be streamed right now.
+   * @returns {string | null} The reason, or null when streaming is allowed.
+   */
+  streamingRefusal(item: MediaItem): string | null {
+    if (!item.streamingAllowed) {
+      return "Streaming is disabled for this media";
+    }
+    if (item.status !== MediaStatus.ACTIVE) {
+      return `Media is ${item.status}`;
+    }
+    return null;
+  }
+
+  /**
+   * Explains why an item cannot be downloaded right now. DRM protected media
+   * is never handed out as its clear file.
+   * @returns {string | null} The reason, or null when downloading is allowed.
+   */
+  downloadRefusal(item: MediaItem): string | null {
+    if (!item.downloadAllowed) {
+      return "Downloading is disabled for this media";
+    }
+    if (item.drmProtected) {
+      return "DRM protected media cannot be downloaded";
+    }
+    if (item.status !== MediaStatus.ACTIVE) {
+      return `Media is ${item.status}`;
+    }
+    return null;
+  }
+
+  /**
+   * The file name a download is saved under: the title, made safe for file
+   * systems, with the item's format as the extension.
+   */
+  downloadFileName(item: MediaItem): string {
+    const base =
+      item.title
+        .replace(/[\\/:*?"<>|\x00-\x1f]+/g, " ")
+        .replace(/\s+/g, " ")
+        .trim()
+        .slice(0, 200) || "download";
+    return /^[A-Za-z0-9]{1,10}$/.test(item.format)
+      ? `${base}.${item.format.toLowerCase()}`
+      : base;
+  }
+
+  /**
+   * Whether a media item in `status` may be moved to `to` by its owner.
+   * Active items can be archived; active or archived items can be deleted;
+   * archived or deleted items can be restored to active.
+   */
+  canChangeStatus(status: string, to: MediaStatus): boolean {
+    switch (to) {
+      case MediaStatus.ARCHIVED:
+        return status === MediaStatus.ACTIVE;
+      case MediaStatus.DELETED:
+        return status !== MediaStatus.DELETED;
+      case MediaStatus.ACTIVE:
+        return status !== MediaStatus.ACTIVE;
+    }
+  }
+
+  /**
+   * The moment before which deleted items are past their retention window.
+   */
+  retentionCutoff(retentionDays: number, now: Date = new Date()): Date {
+    return new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Whether a deleted item is still within its retention window.
+   */
+  isRestorable(
+    item: MediaItem,
+    retentionDays: number,
+    now: Date = new Date(),
+  ): boolean {
+    return (
+      !item.deletedAt ||
+      item.deletedAt > this.retentionCutoff(retentionDays, now)
+    );
+  }
+
+  /**
+   * Captures the file and technical metadata a media item currently has.
+   */
+  revisionSnapshot(kind: MediaKind, item: MediaItem): RevisionFile {
+    const fields = item as unknown as Record<string, unknown>;
+    return {
+      storagePath: item.storagePath,
+      storageProvider: item.storageProvider,
+      hostingLocation: item.hostingLocation,
+      fileSize: item.fileSize,
+      checksum: item.checksum,
+      format: item.format,
+      mimeType: item.mimeType,
+      technical: Object.fromEntries(
+        TECHNICAL_FIELDS[kind].map((field) => [field, fields[field]]),
+      ),
+    };
+  }
+
+  /**
+   * The media item fields that make `revision` the current version.
+   * `availableFormats` should list what the renditions of that version
+   * offer; only its adaptive streaming formats are kept.
+   */
+  fieldsFromRevision(
+    revision: RevisionFile,
+    availableFormats: string[] | null = null,
+  ): Record<string, unknown> {
+    return {
+      ...revision.technical,
+      storagePath: revision.storagePath,
+      storageProvider: revision.storageProvider,
+      hostingLocation: revision.hostingLocation,
+      fileSize: revision.fileSize,
+      checksum: revision.checksum,
+      format: revision.format,
+      mimeType: revision.mimeType,
+      availableFormats: [
+        revision.format,
+        ...(availableFormats ?? []).filter((format) =>
+          ADAPTIVE_FORMATS.includes(format),
+        ),
+      ],
+    };
+  }
+}
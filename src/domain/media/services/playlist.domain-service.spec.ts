@@ -0,0 +1,55 @@
+import { PlaylistDomainService, Positioned } from "./playlist.domain-service";
+
+describe("PlaylistDomainService", () => {
+  const service = new PlaylistDomainService();
+  const timeline = (...uuids: string[]): Positioned[] =>
+    uuids.map((uuid, position) => ({ uuid, position }));
+  const order = (items: Positioned[]) =>
+    items.map((item) => `${item.position}:${item.uuid}`);
+
+  it("appends by default and inserts at a clamped position", () => {
+    expect(
+      order(service.insert(timeline("a", "b"), { position: -1, uuid: "c" })),
+    ).toEqual(["0:a", "1:b", "2:c"]);
+    expect(
+      order(service.insert(timeline("a", "b"), { position: -1, uuid: "c" }, 0)),
+    ).toEqual(["0:c", "1:a", "2:b"]);
+    expect(
+      order(service.insert(timeline("a"), { position: -1, uuid: "c" }, 99)),
+    ).toEqual(["0:a", "1:c"]);
+  });
+
+  it("moves an entry and renumbers the rest", () => {
+    expect(order(service.move(timeline("a", "b", "c", "d"), "a", 2))).toEqual([
+      "0:b",
+      "1:c",
+      "2:a",
+      "3:d",
+    ]);
+    expect(order(service.move(timeline("a", "b", "c"), "c", 0))).toEqual([
+      "0:c",
+      "1:a",
+      "2:b",
+    ]);
+  });
+
+  it("closes the gap left by a removed entry", () => {
+    expect(order(service.remove(timeline("a", "b", "c"), "b"))).toEqual([
+      "0:a",
+      "1:c",
+    ]);
+  });
+
+  it("reorders only by a full permutation", () => {
+    const items = timeline("a", "b", "c");
+    expect(service.isPermutation(items, ["c", "a", "b"])).toBe(true);
+    expect(service.isPermutation(items, ["c", "a"])).toBe(false);
+    expect(service.isPermutation(items, ["c", "a", "a"])).toBe(false);
+    expect(service.isPermutation(items, ["c", "a", "x"])).toBe(false);
+    expect(order(service.reorder(items, ["c", "a", "b"]))).toEqual([
+      "0:c",
+      "1:a",
+      "2:b",
+    ]);
+  });
+});
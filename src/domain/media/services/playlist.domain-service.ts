@@ -0,0 +1,72 @@
+/**
+ * Domain rules for ordering the entries of a playlist. Positions are kept
+ * dense: after any change the entries are numbered 0..n-1 in timeline order.
+ *
+ * @module MediaModule
+ */
+
+import { Injectable } from "@nestjs/common";
+
+/**
+ * Anything with an identity that can be placed in a timeline.
+ */
+export interface Positioned {
+  uuid?: string;
+  position: number;
+}
+
+@Injectable()
+export class PlaylistDomainService {
+  /**
+   * Inserts `entry` at `position` (clamped to the timeline), or appends it.
+   */
+  insert<T extends Positioned>(items: T[], entry: T, position?: number): T[] {
+    const next = [...items];
+    next.splice(this.clamp(position ?? next.length, next.length), 0, entry);
+    return this.renumber(next);
+  }
+
+  /**
+   * Moves the entry identified by `uuid` to `position` (clamped to the timeline).
+   */
+  move<T extends Positioned>(items: T[], uuid: string, position: number): T[] {
+    const next = items.filter((item) => item.uuid !== uuid);
+    const entry = items.find((item) => item.uuid === uuid);
+    next.splice(this.clamp(position, next.length), 0, entry);
+    return this.renumber(next);
+  }
+
+  remove<T extends Positioned>(items: T[], uuid: string): T[] {
+    return this.renumber(items.filter((item) => item.uuid !== uuid));
+  }
+
+  /**
+   * Orders entries as listed in `uuids`.
+   * Call {@link isPermutation} first; every entry must be listed exactly once.
+   */
+  reorder<T extends Positioned>(items: T[], uuids: string[]): T[] {
+    const byUuid = new Map(items.map((item) => [item.uuid, item]));
+    return this.renumber(uuids.map((uuid) => byUuid.get(uuid)));
+  }
+
+  /**
+   * Whether `uuids` lists every entry of `items` exactly once.
+   */
+  isPermutation(items: Positioned[], uuids: string[]): boolean {
+    const expected = new Set(items.map((item) => item.uuid));
+    return (
+      uuids.length === expected.size &&
+      new Set(uuids).size === uuids.length &&
+      uuids.every((uuid) => expected.has(uuid))
+    );
+  }
+
+  private renumber<T extends Positioned>(items: T[]): T[] {
+    items.forEach((item, index) => (item.position = index));
+    return items;
+  }
+
+  private clamp(position: number, length: number): number {
+    return Math.max(0, Math.min(position, length));
+  }
+}
@@ -0,0 +1,157 @@
+import { RenditionContainer } from "../entities/media-rendition.entity";
+import {
+  RenditionSpec,
+  StreamingDomainService,
+} from "./streaming.domain-service";
+
+describe("StreamingDomainService", () => {
+  const service = new StreamingDomainService();
+  const rendition = (fields: Partial<RenditionSpec> = {}): RenditionSpec => ({
+    label: "720p",
+    bandwidth: 3_000_000,
+    codecs: "avc1.64001f,mp4a.40.2",
+    width: 1280,
+    height: 720,
+    frameRate: 25,
+    container: RenditionContainer.FMP4,
+    initSegment: "init.mp4",
+    segmentTemplate: "segment-$Number%03d$.m4s",
+    segmentDuration: 4000,
+    segmentCount: 3,
+    ...fields,
+  });
+
+  it("names segments from the template and recognises only its own files", () => {
+    const ladder = rendition();
+    expect(service.segmentName(ladder, 7)).toBe("segment-007.m4s");
+    expect(
+      service.segmentName(rendition({ segmentTemplate: "$Number$.ts" }), 12),
+    ).toBe("12.ts");
+
+    expect(service.isSegment(ladder, "init.mp4")).toBe(true);
+    expect(service.isSegment(ladder, "segment-003.m4s")).toBe(true);
+    expect(service.isSegment(ladder, "segment-004.m4s")).toBe(false);
+    expect(service.isSegment(ladder, "segment-3.m4s")).toBe(false);
+    expect(service.isSegment(ladder, "segment-000.m4s")).toBe(false);
+    expect(service.isSegment(ladder, "../segment-001.m4s")).toBe(false);
+  });
+
+  it("keeps rendition files within the item's own root", () => {
+    const uuid = "3f1c2b7a-9d4e-4f6a-8b2c-1e0d9a7b6c5d";
+    expect(service.renditionRoot("music", uuid)).toBe(
+      `renditions/music/${uuid}/`,
+    );
+    expect(
+      service.isWithinRoot(`renditions/music/${uuid}/128k`, "music", uuid),
+    ).toBe(true);
+    expect(
+      service.isWithinRoot(`renditions/music/${uuid}`, "music", uuid),
+    ).toBe(true);
+    expect(service.isWithinRoot("media", "music", uuid)).toBe(false);
+    expect(
+      service.isWithinRoot(`renditions/video/${uuid}/720p`, "music", uuid),
+    ).toBe(false);
+    expect(
+      service.isWithinRoot(`renditions/music/${uuid}-x/128k`, "music", uuid),
+    ).toBe(false);
+    expect(
+      service.isWithinRoot(`renditions/music/${uuid}/../other`, "music", uuid),
+    ).toBe(false);
+  });
+
+  it("lists every file of a rendition", () => {
+    expect(service.segmentNames(rendition())).toEqual([
+      "init.mp4",
+      "segment-001.m4s",
+      "segment-002.m4s",
+      "segment-003.m4s",
+    ]);
+    expect(
+      service.segmentNames(
+        rendition({ initSegment: null, segmentTemplate: "$Number$.ts" }),
+      ),
+    ).toEqual(["1.ts", "2.ts", "3.ts"]);
+  });
+
+  it("explains inconsistent renditions", () => {
+    expect(service.renditionProblem("video", rendition())).toBeNull();
+    expect(
+      service.renditionProblem("video", rendition({ width: null })),
+    ).toMatch(/width and height/);
+    expect(service.renditionProblem("music", rendition())).toMatch(
+      /no width or height/,
+    );
+    expect(
+      service.renditionProblem("video", rendition({ initSegment: null })),
+    ).toMatch(/initialization segment/);
+  });
+
+  it("offers DASH only for fragmented MP4 renditions", () => {
+    expect(service.availableFormats("MP4", [])).toEqual(["MP4"]);
+    expect(
+      service.availableFormats("MP4", [
+        rendition({ container: RenditionContainer.MPEGTS }),
+      ]),
+    ).toEqual(["MP4", "HLS"]);
+    expect(service.availableFormats("MP4", [rendition()])).toEqual([
+      "MP4",
+      "HLS",
+      "DASH",
+    ]);
+  });
+
+  it("lists HLS variants by bandwidth", () => {
+    const playlist = service.hlsMasterPlaylist([
+      { id: "b", rendition: rendition(), uri: "b.m3u8" },
+      {
+        id: "a",
+        rendition: rendition({
+          bandwidth: 800_000,
+          width: 640,
+          height: 360,
+          frameRate: 29.97,
+        }),
+        uri: "a.m3u8",
+      },
+    ]);
+    expect(playlist.split("\n").slice(3, 7)).toEqual([
+      '#EXT-X-STREAM-INF:BANDWIDTH=800000,CODECS="avc1.64001f,mp4a.40.2",RESOLUTION=640x360,FRAME-RATE=29.970',
+      "a.m3u8",
+      '#EXT-X-STREAM-INF:BANDWIDTH=3000000,CODECS="avc1.64001f,mp4a.40.2",RESOLUTION=1280x720,FRAME-RATE=25.000',
+      "b.m3u8",
+    ]);
+  });
+
+  it("ends an HLS media playlist with the remainder of the item", () => {
+    const playlist = service.hlsMediaPlaylist(rendition(), "segments/", 10);
+    expect(playlist).toContain('#EXT-X-MAP:URI="segments/init.mp4"');
+    expect(playlist).toContain("#EXT-X-TARGETDURATION:4");
+    expect(
+      playlist.split("\n").filter((line) => line.startsWith("#EXTINF")),
+    ).toEqual(["#EXTINF:4.000,", "#EXTINF:4.000,", "#EXTINF:2.000,"]);
+    expect(playlist.trimEnd().endsWith("#EXT-X-ENDLIST")).toBe(true);
+  });
+
+  it("describes fragmented MP4 renditions in a DASH manifest", () => {
+    const manifest = service.dashManifest(
+      "video",
+      [
+        { id: "a", rendition: rendition(), uri: "renditions/a/" },
+        {
+          id: "b",
+          rendition: rendition({ container: RenditionContainer.MPEGTS }),
+          uri: "renditions/b/",
+        },
+      ],
+      10,
+    );
+    expect(manifest).toContain('mediaPresentationDuration="PT10S"');
+    expect(manifest).toContain(
+      '<Representation id="a" bandwidth="3000000" codecs="avc1.64001f,mp4a.40.2" width="1280" height="720" frameRate="25">',
+    );
+    expect(manifest).toContain(
+      'initialization="renditions/a/init.mp4" media="renditions/a/segment-$Number%03d$.m4s"',
+    );
+    expect(manifest).not.toContain('id="b"');
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Domain rules for adaptive streaming: which segment files make up a
+ * rendition, and how HLS playlists and DASH manifests describe them.
+ *
+ * @module MediaModule
+ */
+
+import { Injectable } from "@nestjs/common";
+import {
+  MediaRendition,
+  RenditionContainer,
+} from "../entities/media-rendition.entity";
+import type { MediaKind } from "./media.domain-service";
+
+/**
+ * The formats a media item is offered in besides its own file, as listed in
+ * BaseMediaItem.availableFormats.
+ */
+export const ADAPTIVE_FORMATS = ["HLS", "DASH"];
+
+/**
+ * The rendition fields manifests are built from.
+ */
+export type RenditionSpec = Pick<
+  MediaRendition,
+  | "label"
+  | "bandwidth"
+  | "codecs"
+  | "width"
+  | "height"
+  | "frameRate"
+  | "container"
+  | "initSegment"
+  | "segmentTemplate"
+  | "segmentDuration"
+  | "segmentCount"
+>;
+
+/**
+ * A rendition together with where a manifest should point for it, relative
+ * to the manifest itself.
+ */
+export interface RenditionLink<T extends RenditionSpec = RenditionSpec> {
+  id: string;
+  rendition: T;
+  uri: string;
+}
+
+const NUMBER_PATTERN = /\$Number(?:%0(\d+)d)?\$/g;
+
+@Injectable()
+export class StreamingDomainService {
+  /**
+   * Explains why a rendition cannot be registered for a `kind` item.
+   * @returns {string | null} The reason, or null when it is consistent.
+   */
+  renditionProblem(kind: MediaKind, rendition: RenditionSpec): string | null {
+    if (kind === "video" && !(rendition.width && rendition.height)) {
+      return "Video renditions need a width and height";
+    }
+    if (kind === "music" && (rendition.width || rendition.height)) {
+      return "Music renditions have no width or height";
+    }
+    if (
+      rendition.container === RenditionContainer.FMP4 &&
+      !rendition.initSegment
+    ) {
+      return "Fragmented MP4 renditions need an initialization segment";
+    }
+    return null;
+  }
+
+  /**
+   * The file name of media segment `number`, counting from 1.
+   */
+  segmentName(rendition: RenditionSpec, number: number): string {
+    return rendition.segmentTemplate.replace(NUMBER_PATTERN, (_, width) =>
+      String(number).padStart(Number(width ?? 0), "0"),
+    );
+  }
+
+  /**
+   * Whether `name` is one of the rendition's files: its initialization
+   * segment or one of its media segments.
+   */
+  isSegment(rendition: RenditionSpec, name: string): boolean {
+    if (name === rendition.initSegment) {
+      return true;
+    }
+    const pattern = rendition.segmentTemplate
+      .split(NUMBER_PATTERN)
+      .map((part, index) =>
+        // split() interleaves the captured padding widths with the text.
+        index % 2 ? "(\\d+)" : part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+      )
+      .join("");
+    const match = new RegExp(`^${pattern}$`).exec(name);
+    const number = match ? Number(match[1]) : 0;
+    return (
+      number >= 1 &&
+      number <= rendition.segmentCount &&
+      this.segmentName(rendition, number) === name
+    );
+  }
+
+  /**
+   * The storage prefix the renditions of a media item are written under.
+   * A rendition's files must stay below it, so they cannot reach into the
+   * files of other items.
+   */
+  renditionRoot(kind: MediaKind, uuid: string): string {
+    return `renditions/${kind}/${uuid}/`;
+  }
+
+  /**
+   * Whether `storagePrefix` lies within the rendition root of the item.
+   */
+  isWithinRoot(storagePrefix: string, kind: MediaKind, uuid: string): boolean {
+    const prefix = `${storagePrefix.replace(/\/+$/, "")}/`;
+    return (
+      prefix.startsWith(this.renditionRoot(kind, uuid)) &&
+      !prefix.split("/").includes("..")
+    );
+  }
+
+  /**
+   * The names of all of the rendition's files: its initialization segment,
+   * if any, and every media segment.
+   */
+  segmentNames(rendition: RenditionSpec): string[] {
+    return [
+      ...(rendition.initSegment ? [rendition.initSegment] : []),
+      ...Array.from({ length: rendition.segmentCount }, (_, index) =>
+        this.segmentName(rendition, index + 1),
+      ),
+    ];
+  }
+
+  /**
+   * The storage key of the rendition file `name`.
+   */
+  segmentKey(
+    rendition: Pick<MediaRendition, "storagePrefix">,
+    name: string,
+  ): string {
+    return `${rendition.storagePrefix.replace(/\/+$/, "")}/${name}`;
+  }
+
+  segmentMimeType(kind: MediaKind, rendition: RenditionSpec): string {
+    if (rendition.container === RenditionContainer.MPEGTS) {
+      return "video/mp2t";
+    }
+    return kind === "video" ? "video/mp4" : "audio/mp4";
+  }
+
+  /**
+   * The formats to list in availableFormats for an item with `renditions`.
+   * DASH is only offered when some rendition is fragmented MP4.
+   */
+  availableFormats(format: string, renditions: RenditionSpec[]): string[] {
+    return [
+      format,
+      ...(renditions.length ? ["HLS"] : []),
+      ...(renditions.some((r) => r.container === RenditionContainer.FMP4)
+        ? ["DASH"]
+        : []),
+    ];
+  }
+
+  /**
+   * An HLS master playlist listing every rendition as a variant stream,
+   * lowest bandwidth first.
+   */
+  hlsMasterPlaylist(links: RenditionLink[]): string {
+    const lines = [
+      "#EXTM3U",
+      "#EXT-X-VERSION:6",
+      "#EXT-X-INDEPENDENT-SEGMENTS",
+    ];
+    for (const { rendition, uri } of this.byBandwidth(links)) {
+      const attributes = [
+        `BANDWIDTH=${rendition.bandwidth}`,
+        `CODECS="${rendition.codecs}"`,
+      ];
+      if (rendition.width && rendition.height) {
+        attributes.push(`RESOLUTION=${rendition.width}x${rendition.height}`);
+      }
+      if (rendition.frameRate) {
+        attributes.push(`FRAME-RATE=${Number(rendition.frameRate).toFixed(3)}`);
+      }
+      lines.push(`#EXT-X-STREAM-INF:${attributes.join(",")}`, uri);
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * The HLS media playlist of one rendition. `uri` is where its files are,
+   * relative to the playlist, ending in a slash.
+   *
+   * @param duration The length of the item in seconds, which sets how long
+   * the last segment is; 0 when unknown.
+   */
+  hlsMediaPlaylist(
+    rendition: RenditionSpec,
+    uri: string,
+    duration: number,
+  ): string {
+    const fmp4 = rendition.container === RenditionContainer.FMP4;
+    const lines = [
+      "#EXTM3U",
+      // EXT-X-MAP outside I-frame playlists needs version 6.
+      `#EXT-X-VERSION:${fmp4 ? 6 : 3}`,
+      `#EXT-X-TARGETDURATION:${Math.ceil(rendition.segmentDuration / 1000)}`,
+      "#EXT-X-MEDIA-SEQUENCE:1",
+      "#EXT-X-PLAYLIST-TYPE:VOD",
+      "#EXT-X-INDEPENDENT-SEGMENTS",
+    ];
+    if (fmp4 && rendition.initSegment) {
+      lines.push(`#EXT-X-MAP:URI="${uri}${rendition.initSegment}"`);
+    }
+    for (let number = 1; number <= rendition.segmentCount; number++) {
+      const seconds = this.segmentLength(rendition, number, duration) / 1000;
+      lines.push(
+        `#EXTINF:${seconds.toFixed(3)},`,
+        uri + this.segmentName(rendition, number),
+      );
+    }
+    lines.push("#EXT-X-ENDLIST");
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * A static DASH manifest with one adaptation set holding the fragmented
+   * MP4 renditions. Each link's `uri` is where its files are, relative to
+   * the manifest, ending in a slash.
+   *
+   * @param duration The length of the item in seconds; 0 when unknown.
+   */
+  dashManifest(
+    kind: MediaKind,
+    links: RenditionLink[],
+    duration: number,
+  ): string {
+    const dash = this.byBandwidth(links).filter(
+      ({ rendition }) => rendition.container === RenditionContainer.FMP4,
+    );
+    const total =
+      duration ||
+      Math.max(
+        ...dash.map(
+          ({ rendition }) =>
+            (rendition.segmentDuration * rendition.segmentCount) / 1000,
+        ),
+      );
+    const contentType = kind === "video" ? "video" : "audio";
+
+    const representations = dash.map(({ id, rendition, uri }) => {
+      const attributes = [
+        `id="${xml(id)}"`,
+        `bandwidth="${rendition.bandwidth}"`,
+        `codecs="${xml(rendition.codecs)}"`,
+      ];
+      if (rendition.width && rendition.height) {
+        attributes.push(
+          `width="${rendition.width}"`,
+          `height="${rendition.height}"`,
+        );
+      }
+      if (rendition.frameRate) {
+        attributes.push(`frameRate="${dashFrameRate(rendition.frameRate)}"`);
+      }
+      const template = [
+        `timescale="1000"`,
+        `duration="${rendition.segmentDuration}"`,
+        `startNumber="1"`,
+        `initialization="${xml(uri + rendition.initSegment)}"`,
+        `media="${xml(uri + rendition.segmentTemplate)}"`,
+      ];
+      return [
+        `      <Representation ${attributes.join(" ")}>`,
+        `        <SegmentTemplate ${template.join(" ")}/>`,
+        `      </Representation>`,
+      ].join("\n");
+    });
+
+    return [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" profiles="urn:mpeg:dash:profile:isoff-live:2011" type="static" mediaPresentationDuration="${isoDuration(total)}" minBufferTime="PT2S">`,
+      `  <Period id="0" start="PT0S">`,
+      `    <AdaptationSet contentType="${contentType}" mimeType="${contentType}/mp4" segmentAlignment="true" startWithSAP="1">`,
+      ...representations,
+      `    </AdaptationSet>`,
+      `  </Period>`,
+      `</MPD>`,
+      "",
+    ].join("\n");
+  }
+
+  /**
+   * The length of media segment `number` in milliseconds. Every segment
+   * but the last has the nominal duration; the last one holds what is left
+   * of the item.
+   */
+  private segmentLength(
+    rendition: RenditionSpec,
+    number: number,
+    duration: number,
+  ): number {
+    const nominal = rendition.segmentDuration;
+    if (number < rendition.segmentCount || !duration) {
+      return nominal;
+    }
+    const rest = duration * 1000 - nominal * (rendition.segmentCount - 1);
+    return rest > 0 && rest < nominal ? rest : nominal;
+  }
+
+  private byBandwidth<T extends RenditionLink>(links: T[]): T[] {
+    return [...links].sort(
+      (a, b) => a.rendition.bandwidth - b.rendition.bandwidth,
+    );
+  }
+}
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * DASH frame rates are whole numbers or fractions, e.g. 25 or 29970/1000.
+ */
+function dashFrameRate(frameRate: number): string {
+  const rate = Number(frameRate);
+  return Number.isInteger(rate)
+    ? String(rate)
+    : `${Math.round(rate * 1000)}/1000`;
+}
+
+/**
+ * Formats seconds as an ISO 8601 duration, e.g. PT62.5S.
+ */
+function isoDuration(seconds: number): string {
+  return `PT${Number(seconds.toFixed(3))}S`;
+}
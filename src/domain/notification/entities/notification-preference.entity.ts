@@ -0,0 +1,76 @@
+/**
+ * The NotificationPreference entity holds how a user wants to be notified:
+ * in which language, over which channel for each event, and when not to be
+ * disturbed. Users without a row get the defaults.
+ * @module NotificationModule
+ */
+
+import { Column, Entity, Index, JoinColumn, OneToOne, Relation } from "typeorm";
+import { BaseUUIDEntity } from "../../entities/base";
+import { User } from "../../user/entities/user.entity";
+
+@Entity()
+export class NotificationPreference extends BaseUUIDEntity {
+  /**
+   * Column name: user_uuid
+   * The UUID of the user the preferences belong to.
+   */
+  @Index({ unique: true })
+  @Column({ type: "uuid", name: "user_uuid" })
+  userUuid: string;
+
+  /**
+   * One-to-One relationship with the User entity.
+   * Preferences are removed together with their user.
+   */
+  @OneToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_uuid" })
+  user: Relation<User>;
+
+  /**
+   * Column name: locale
+   * Language of the user's notifications, e.g. "fr" or "fr-CA". Null for
+   * the default locale.
+   */
+  @Column({ type: "varchar", length: 20, nullable: true })
+  locale: string | null;
+
+  /**
+   * Column name: timezone
+   * IANA time zone that quiet hours are read in, e.g. "Africa/Lagos".
+   * Null for UTC.
+   */
+  @Column({ type: "varchar", length: 64, nullable: true })
+  timezone: string | null;
+
+  /**
+   * Column name: quietHoursStart
+   * Local time ("HH:MM") from which notifications are held back. Null when
+   * the user has no quiet hours.
+   */
+  @Column({ type: "varchar", length: 5, nullable: true })
+  quietHoursStart: string | null;
+
+  /**
+   * Column name: quietHoursEnd
+   * Local time ("HH:MM") at which held notifications go out. May be before
+   * the start, for quiet hours spanning midnight.
+   */
+  @Column({ type: "varchar", length: 5, nullable: true })
+  quietHoursEnd: string | null;
+
+  /**
+   * Column name: marketingOptOut
+   * Whether the user declined marketing notifications.
+   */
+  @Column({ type: "boolean", default: false })
+  marketingOptOut: boolean;
+
+  /**
+   * Column name: channels
+   * The channel the user chose for each event, keyed by event. Events not
+   * listed go out over the channel the sender picks.
+   */
+  @Column({ type: "simple-json" })
+  channels: Record<string, string>;
+}
@@ -1,6 +1,6 @@
 /**
  * Represents a Notification entity that tracks the status of messages
- * sent to users via different channels (email, SMS, WhatsApp).
+ * sent to users via different channels (email, SMS, WhatsApp, push).
  * It compresses the message body using zlib for efficient storage.
  *
  * This module manages notifications for users and links them to a specific studio.
@@ -14,6 +14,8 @@ import {
   ManyToOne,
   BeforeInsert,
   BeforeUpdate,
+  Index,
+  JoinColumn,
   Relation,
 } from "typeorm";
 import { deflate, unzip } from "node:zlib";
@@ -21,10 +23,31 @@ import { BaseUUIDEntity } from "../../entities/base";
 import { Studio } from "../../studio/entities/studio.entity";
 import { promisify } from "util";
 import { User } from "../../user/entities/user.entity";
+import { Campaign } from "../../campaign/entities/campaign.entity";
 
 const deflateAsync = promisify(deflate);
 const unzipAsync = promisify(unzip);
 
+/**
+ * Channels a notification can be delivered through.
+ */
+export enum NotificationChannel {
+  EMAIL = "email",
+  SMS = "SMS",
+  WHATSAPP = "WhatsApp",
+  /** Sent to every active device of the user that has a push token. */
+  PUSH = "push",
+}
+
+/**
+ * Delivery states of a notification.
+ */
+export enum NotificationStatus {
+  PENDING = "pending",
+  SENT = "sent",
+  FAILED = "failed",
+}
+
 @Entity()
 export class Notification extends BaseUUIDEntity {
   /**
@@ -47,14 +70,37 @@ export class Notification extends BaseUUIDEntity {
   })
   user: Relation<User> | null;
 
+  /**
+   * Column name: campaign_uuid
+   * The campaign the notification was sent for, if any.
+   */
+  @Index()
+  @Column({ type: "uuid", name: "campaign_uuid", nullable: true })
+  campaignUuid: string | null;
+
+  /**
+   * Many-to-One relationship with the Campaign entity.
+   */
+  @ManyToOne(() => Campaign, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "campaign_uuid" })
+  campaign: Relation<Campaign> | null;
+
+  /**
+   * The address to deliver to instead of the user's contact field for the
+   * channel, e.g. a secondary email address being verified.
+   * This field is optional and can be null.
+   */
+  @Column({ type: "varchar", length: 255, nullable: true })
+  recipient: string | null;
+
   /**
    * The communication channel through which the notification is sent.
-   * Possible values: "email", "SMS", "WhatsApp".
+   * Possible values: "email", "SMS", "WhatsApp", "push".
    */
   @Column({
     type: "enum",
-    enum: ["email", "SMS", "WhatsApp"],
-    default: "WhatsApp",
+    enum: NotificationChannel,
+    default: NotificationChannel.WHATSAPP,
   })
   channel: string;
 
@@ -64,14 +110,21 @@ export class Notification extends BaseUUIDEntity {
   @Column({ type: "bytea" })
   message: Buffer;
 
+  /**
+   * Compressed HTML body, sent alongside `message` as the rich part of an
+   * email. Null for other channels.
+   */
+  @Column({ type: "bytea", nullable: true })
+  html: Buffer | null;
+
   /**
    * Status of the notification, indicating if it is pending, sent, or failed.
    * Default value is "pending".
    */
   @Column({
     type: "enum",
-    enum: ["pending", "sent", "failed"],
-    default: "pending",
+    enum: NotificationStatus,
+    default: NotificationStatus.PENDING,
   })
   status: string;
 
@@ -103,17 +156,40 @@ export class Notification extends BaseUUIDEntity {
   subject: string | null;
 
   /**
-   * Compresses the message body before saving the entity.
+   * Number of delivery attempts made so far.
+   */
+  @Column({ type: "int", default: 0 })
+  attempts: number;
+
+  /**
+   * The earliest time of the next delivery attempt after a failed one.
+   * This field is null until an attempt fails.
+   */
+  @Column({ type: "timestamp", nullable: true })
+  nextAttemptAt: Date | null;
+
+  /**
+   * Lease held by the dispatcher instance currently delivering the notification.
+   * Other instances skip the row until the lease expires.
+   */
+  @Column({ type: "timestamp", nullable: true })
+  lockedUntil: Date | null;
+
+  /**
+   * Compresses the message bodies before saving the entity.
    */
   @BeforeInsert()
   @BeforeUpdate()
   async compressMessage() {
-    if (this.message) {
-      try {
+    try {
+      if (this.message) {
         this.message = await deflateAsync(this.message.toString("utf-8"));
-      } catch (error) {
-        console.error("Compression error:", error);
       }
+      if (this.html) {
+        this.html = await deflateAsync(this.html.toString("utf-8"));
+      }
+    } catch (error) {
+      console.error("Compression error:", error);
     }
   }
 
@@ -132,4 +208,20 @@ export class Notification extends BaseUUIDEntity {
     }
     return message;
   }
+
+  /**
+   * Decompresses the HTML body.
+   * @returns {Promise<string | null>} The HTML, or null if the notification has none.
+   */
+  async getHtml(): Promise<string | null> {
+    if (!this.html) {
+      return null;
+    }
+    try {
+      return (await unzipAsync(Buffer.from(this.html))).toString("utf-8");
+    } catch (error) {
+      console.error("Decompression error:", error);
+      return null;
+    }
+  }
 }
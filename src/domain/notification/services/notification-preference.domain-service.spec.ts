@@ -0,0 +1,102 @@
+import { NotificationPreferenceDomainService } from "./notification-preference.domain-service";
+import { NotificationEvent } from "./notification-templates";
+import { NotificationPreference } from "../entities/notification-preference.entity";
+
+describe("NotificationPreferenceDomainService", () => {
+  const service = new NotificationPreferenceDomainService();
+  const preference = (values: Partial<NotificationPreference>) =>
+    Object.assign(new NotificationPreference(), {
+      timezone: null,
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      marketingOptOut: false,
+      channels: {},
+      ...values,
+    });
+  const settings = {
+    timezone: null,
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    channels: {},
+  };
+
+  it("rejects incomplete quiet hours, unknown zones and fixed channels", () => {
+    expect(service.settingsProblem(settings)).toBeNull();
+    expect(
+      service.settingsProblem({ ...settings, quietHoursStart: "22:00" }),
+    ).toMatch(/set together/);
+    expect(
+      service.settingsProblem({ ...settings, timezone: "Mars/Olympus" }),
+    ).toMatch(/Unknown time zone/);
+    expect(
+      service.settingsProblem({
+        ...settings,
+        channels: { [NotificationEvent.EMAIL_VERIFICATION]: "SMS" },
+      }),
+    ).toMatch(/cannot be changed/);
+    expect(
+      service.settingsProblem({ ...settings, channels: { toString: "SMS" } }),
+    ).toMatch(/Unknown event/);
+  });
+
+  it("uses the chosen channel except for account notifications", () => {
+    const chosen = preference({
+      channels: {
+        [NotificationEvent.STUDIO_STATUS_CHANGED]: "Push",
+        [NotificationEvent.STUDIO_INVITATION]: "SMS",
+      },
+    });
+    expect(
+      service.channelFor(
+        NotificationEvent.STUDIO_STATUS_CHANGED,
+        chosen,
+        "Email",
+      ),
+    ).toBe("Push");
+    expect(
+      service.channelFor(NotificationEvent.STUDIO_INVITATION, chosen, "Email"),
+    ).toBe("Email");
+  });
+
+  it("holds activity notifications until quiet hours end in the user's zone", () => {
+    const quiet = preference({
+      timezone: "Africa/Lagos",
+      quietHoursStart: "22:00",
+      quietHoursEnd: "07:00",
+    });
+    // 23:30 in Lagos (UTC+1).
+    const late = new Date("2024-01-01T22:30:00Z");
+    expect(
+      service.sendAt(NotificationEvent.STUDIO_STATUS_CHANGED, quiet, late),
+    ).toEqual(new Date("2024-01-02T06:00:00Z"));
+    expect(
+      service.sendAt(NotificationEvent.EMAIL_VERIFICATION, quiet, late),
+    ).toBe(late);
+
+    const noon = new Date("2024-01-01T11:00:00Z");
+    expect(
+      service.sendAt(NotificationEvent.STUDIO_STATUS_CHANGED, quiet, noon),
+    ).toBe(noon);
+  });
+
+  it("suppresses nothing but marketing for users who opted out", () => {
+    expect(
+      service.isSuppressed(
+        NotificationEvent.STUDIO_STATUS_CHANGED,
+        preference({ marketingOptOut: true }),
+      ),
+    ).toBe(false);
+    expect(
+      service.isSuppressed(
+        NotificationEvent.STUDIO_ANNOUNCEMENT,
+        preference({ marketingOptOut: true }),
+      ),
+    ).toBe(true);
+    expect(
+      service.isSuppressed(
+        NotificationEvent.STUDIO_ANNOUNCEMENT,
+        preference({}),
+      ),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Domain rules for notification preferences: which preferences are valid,
+ * which channel a notification goes out on, whether it is sent at all, and
+ * how quiet hours delay it.
+ *
+ * @module NotificationModule
+ */
+
+import { Injectable } from "@nestjs/common";
+import { NotificationPreference } from "../entities/notification-preference.entity";
+import {
+  NOTIFICATION_EVENTS,
+  NotificationCategory,
+  NotificationEvent,
+} from "./notification-templates";
+
+export type PreferenceSettings = Pick<
+  NotificationPreference,
+  "timezone" | "quietHoursStart" | "quietHoursEnd" | "channels"
+>;
+
+const EVENTS: string[] = Object.values(NotificationEvent);
+const MINUTES_PER_DAY = 24 * 60;
+
+@Injectable()
+export class NotificationPreferenceDomainService {
+  isTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Explains what is wrong with a set of preferences.
+   * @returns {string | null} The problem, or null when they can be saved.
+   */
+  settingsProblem(settings: PreferenceSettings): string | null {
+    if (!settings.quietHoursStart !== !settings.quietHoursEnd) {
+      return "quietHoursStart and quietHoursEnd must be set together";
+    }
+    if (settings.timezone && !this.isTimezone(settings.timezone)) {
+      return `Unknown time zone ${settings.timezone}`;
+    }
+    for (const [event, channel] of Object.entries(settings.channels)) {
+      const definition = EVENTS.includes(event)
+        ? NOTIFICATION_EVENTS[event as NotificationEvent]
+        : null;
+      if (!definition) {
+        return `Unknown event ${event}`;
+      }
+      if (definition.category === NotificationCategory.ACCOUNT) {
+        return `The channel for ${event} cannot be changed`;
+      }
+      if (!(definition.channels as string[]).includes(channel)) {
+        return `${event} cannot be sent over ${channel}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Whether the user declined this kind of notification altogether.
+   */
+  isSuppressed(
+    event: NotificationEvent,
+    preference: NotificationPreference | null,
+  ): boolean {
+    return (
+      NOTIFICATION_EVENTS[event].category === NotificationCategory.MARKETING &&
+      !!preference?.marketingOptOut
+    );
+  }
+
+  /**
+   * The channel the user chose for the event, or `requested` where they
+   * have no say.
+   */
+  channelFor(
+    event: NotificationEvent,
+    preference: NotificationPreference | null,
+    requested: string,
+  ): string {
+    if (NOTIFICATION_EVENTS[event].category === NotificationCategory.ACCOUNT) {
+      return requested;
+    }
+    return preference?.channels[event] ?? requested;
+  }
+
+  /**
+   * When a notification meant for `sendAt` may go out: unchanged outside the
+   * user's quiet hours, otherwise at their end. Account notifications are
+   * never held back. The wait is counted in local minutes, so across a
+   * daylight saving change it is off by the shift.
+   */
+  sendAt(
+    event: NotificationEvent,
+    preference: NotificationPreference | null,
+    sendAt: Date,
+  ): Date {
+    if (
+      NOTIFICATION_EVENTS[event].category === NotificationCategory.ACCOUNT ||
+      !preference?.quietHoursStart ||
+      !preference.quietHoursEnd
+    ) {
+      return sendAt;
+    }
+    const start = this.parseTime(preference.quietHoursStart);
+    const end = this.parseTime(preference.quietHoursEnd);
+    const now = this.localMinutes(sendAt, preference.timezone ?? "UTC");
+    const quiet =
+      start <= end ? now >= start && now < end : now >= start || now < end;
+    if (!quiet) {
+      return sendAt;
+    }
+    const wait = (end - now + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    const startOfMinute = sendAt.getTime() - (sendAt.getTime() % 60000);
+    return new Date(startOfMinute + wait * 60000);
+  }
+
+  /** Minutes after midnight for an "HH:MM" time. */
+  private parseTime(time: string): number {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+  }
+
+  /** Minutes after local midnight at `date` in `timezone`. */
+  private localMinutes(date: Date, timezone: string): number {
+    const parts = new Intl.DateTimeFormat("en-GB", {
+      timeZone: timezone,
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(date);
+    const part = (type: string) =>
+      Number(parts.find((candidate) => candidate.type === type)?.value ?? 0);
+    return part("hour") * 60 + part("minute");
+  }
+}
@@ -0,0 +1,50 @@
+import { NotificationTemplateDomainService } from "./notification-template.domain-service";
+import { NotificationEvent } from "./notification-templates";
+
+describe("NotificationTemplateDomainService", () => {
+  const service = new NotificationTemplateDomainService();
+  const variables = {
+    studio: "Salt & <Pepper>",
+    from: "in-review",
+    to: "approved",
+    note: "Nice",
+  };
+
+  it("matches the exact locale, then its language, then the fallback", () => {
+    const available = ["en", "fr", "pt-BR"];
+    expect(service.resolveLocale(available, "pt-br", "en")).toBe("pt-BR");
+    expect(service.resolveLocale(available, "fr-CA", "en")).toBe("fr");
+    expect(service.resolveLocale(available, "de", "en")).toBe("en");
+    expect(service.resolveLocale(available, null, "en")).toBe("en");
+  });
+
+  it("escapes values in the HTML body only", () => {
+    const rendered = service.render(
+      NotificationEvent.STUDIO_STATUS_CHANGED,
+      "fr-CA",
+      variables,
+      "en",
+    );
+    expect(rendered.locale).toBe("fr");
+    expect(rendered.subject).toContain("« Salt & <Pepper> »");
+    expect(rendered.html).toContain(
+      "<strong>Salt &amp; &lt;Pepper&gt;</strong>",
+    );
+  });
+
+  it("refuses to render with a placeholder left empty", () => {
+    expect(() =>
+      service.render(
+        NotificationEvent.STUDIO_INVITATION,
+        "en",
+        { role: "editor", days: 7 },
+        "en",
+      ),
+    ).toThrow("No value for {{link}}");
+  });
+
+  it("only recognises registered events", () => {
+    expect(service.isEvent("studio-invitation")).toBe(true);
+    expect(service.isEvent("constructor")).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Domain rules for notification templates: which locale a recipient gets
+ * and how placeholders are filled in.
+ *
+ * @module NotificationModule
+ */
+
+import { Injectable } from "@nestjs/common";
+import {
+  NOTIFICATION_EVENTS,
+  NotificationEvent,
+} from "./notification-templates";
+
+/**
+ * A template filled in for one recipient.
+ */
+export interface RenderedNotification {
+  event: NotificationEvent;
+  /** The locale whose template was used. */
+  locale: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+@Injectable()
+export class NotificationTemplateDomainService {
+  isEvent(value: string): value is NotificationEvent {
+    return (Object.values(NotificationEvent) as string[]).includes(value);
+  }
+
+  /**
+   * Picks the template locale for a requested one: an exact match, else the
+   * same language ("fr" for "fr-CA"), else `fallback`.
+   */
+  resolveLocale(
+    available: string[],
+    requested: string | null | undefined,
+    fallback: string,
+  ): string {
+    const wanted = requested?.toLowerCase();
+    const language = wanted?.split("-")[0];
+    return (
+      available.find((locale) => locale.toLowerCase() === wanted) ??
+      available.find((locale) => locale.toLowerCase() === language) ??
+      fallback
+    );
+  }
+
+  /**
+   * Fills in the event's template for `locale`. Values are inserted as they
+   * are in the subject and text, and escaped in the HTML body.
+   * @throws Error if a placeholder has no value, or the event has no
+   * template for the fallback locale.
+   */
+  render(
+    event: NotificationEvent,
+    locale: string | null | undefined,
+    variables: Record<string, string | number>,
+    fallbackLocale: string,
+  ): RenderedNotification {
+    const { locales } = NOTIFICATION_EVENTS[event];
+    const resolved = this.resolveLocale(
+      Object.keys(locales),
+      locale,
+      fallbackLocale,
+    );
+    const template = locales[resolved];
+    if (!template) {
+      throw new Error(`No ${resolved} template for ${event}`);
+    }
+    const fill = (source: string, escape: boolean) =>
+      source.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => {
+        if (!(name in variables)) {
+          throw new Error(`No value for {{${name}}} in ${event}`);
+        }
+        const value = String(variables[name]);
+        return escape ? this.escapeHtml(value) : value;
+      });
+    return {
+      event,
+      locale: resolved,
+      subject: fill(template.subject, false),
+      text: fill(template.text, false),
+      html: fill(template.html, true),
+    };
+  }
+
+  escapeHtml(value: string): string {
+    return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+  }
+}
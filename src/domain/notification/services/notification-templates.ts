@@ -0,0 +1,180 @@
+/**
+ * The registry of notification templates, keyed by event and locale.
+ * Placeholders are written `{{name}}`; values are escaped in HTML bodies.
+ *
+ * @module NotificationModule
+ */
+
+import { NotificationChannel } from "../entities/notification.entity";
+
+/**
+ * Things that send a notification.
+ */
+export enum NotificationEvent {
+  EMAIL_VERIFICATION = "email-verification",
+  PHONE_VERIFICATION = "phone-verification",
+  STUDIO_STATUS_CHANGED = "studio-status-changed",
+  STUDIO_INVITATION = "studio-invitation",
+  STUDIO_RELEASE = "studio-release",
+  STUDIO_ANNOUNCEMENT = "studio-announcement",
+}
+
+/**
+ * How a notification is treated with respect to user preferences.
+ */
+export enum NotificationCategory {
+  /**
+   * Needed to use the account, such as verification codes: sent at once,
+   * over the channel the sender picks.
+   */
+  ACCOUNT = "account",
+  /** About the user's own activity; follows channel choices and quiet hours. */
+  ACTIVITY = "activity",
+  /** Promotional; like activity, and not sent to users who opted out. */
+  MARKETING = "marketing",
+}
+
+export interface NotificationTemplate {
+  subject: string;
+  /** Body for SMS, WhatsApp, push and the plain-text part of emails. */
+  text: string;
+  /** Body of the HTML part of emails. */
+  html: string;
+}
+
+export interface NotificationEventDefinition {
+  category: NotificationCategory;
+  /** Channels users may pick for the event. */
+  channels: NotificationChannel[];
+  /** A value for every placeholder, shown in previews. */
+  example: Record<string, string>;
+  /** Templates by locale; every event has one for the default locale. */
+  locales: Record<string, NotificationTemplate>;
+}
+
+const ALL_CHANNELS = Object.values(NotificationChannel);
+
+export const NOTIFICATION_EVENTS: Record<
+  NotificationEvent,
+  NotificationEventDefinition
+> = {
+  [NotificationEvent.EMAIL_VERIFICATION]: {
+    category: NotificationCategory.ACCOUNT,
+    channels: [NotificationChannel.EMAIL],
+    example: {
+      code: "123456",
+      minutes: "15",
+      link: "http://localhost:3000/verify?token=abc",
+    },
+    locales: {
+      en: {
+        subject: "Confirm your email address",
+        text: "Your WrappAI verification code is {{code}}. It expires in {{minutes}} minutes.\n\nOr confirm your address by opening {{link}}",
+        html: '<p>Your WrappAI verification code is <strong>{{code}}</strong>. It expires in {{minutes}} minutes.</p><p>Or <a href="{{link}}">confirm your address</a>.</p>',
+      },
+      fr: {
+        subject: "Confirmez votre adresse e-mail",
+        text: "Votre code de vérification WrappAI est {{code}}. Il expire dans {{minutes}} minutes.\n\nVous pouvez aussi confirmer votre adresse en ouvrant {{link}}",
+        html: '<p>Votre code de vérification WrappAI est <strong>{{code}}</strong>. Il expire dans {{minutes}} minutes.</p><p>Vous pouvez aussi <a href="{{link}}">confirmer votre adresse</a>.</p>',
+      },
+    },
+  },
+  [NotificationEvent.PHONE_VERIFICATION]: {
+    category: NotificationCategory.ACCOUNT,
+    channels: [NotificationChannel.SMS, NotificationChannel.WHATSAPP],
+    example: { code: "123456", minutes: "15" },
+    locales: {
+      en: {
+        subject: "Your verification code",
+        text: "Your WrappAI verification code is {{code}}. It expires in {{minutes}} minutes.",
+        html: "<p>Your WrappAI verification code is <strong>{{code}}</strong>. It expires in {{minutes}} minutes.</p>",
+      },
+      fr: {
+        subject: "Votre code de vérification",
+        text: "Votre code de vérification WrappAI est {{code}}. Il expire dans {{minutes}} minutes.",
+        html: "<p>Votre code de vérification WrappAI est <strong>{{code}}</strong>. Il expire dans {{minutes}} minutes.</p>",
+      },
+    },
+  },
+  [NotificationEvent.STUDIO_STATUS_CHANGED]: {
+    category: NotificationCategory.ACTIVITY,
+    channels: ALL_CHANNELS,
+    example: {
+      studio: "Northern Lights Records",
+      from: "in-review",
+      to: "approved",
+      note: "Welcome aboard",
+    },
+    locales: {
+      en: {
+        subject: 'Studio "{{studio}}" is now {{to}}',
+        text: 'The review status of your studio "{{studio}}" changed from {{from}} to {{to}}.\n\nNote: {{note}}',
+        html: "<p>The review status of your studio <strong>{{studio}}</strong> changed from {{from}} to {{to}}.</p><p>Note: {{note}}</p>",
+      },
+      fr: {
+        subject: "Le studio « {{studio}} » est désormais {{to}}",
+        text: "Le statut de validation de votre studio « {{studio}} » est passé de {{from}} à {{to}}.\n\nRemarque : {{note}}",
+        html: "<p>Le statut de validation de votre studio <strong>{{studio}}</strong> est passé de {{from}} à {{to}}.</p><p>Remarque : {{note}}</p>",
+      },
+    },
+  },
+  [NotificationEvent.STUDIO_INVITATION]: {
+    category: NotificationCategory.ACCOUNT,
+    channels: [NotificationChannel.EMAIL],
+    example: {
+      role: "editor",
+      days: "7",
+      link: "http://localhost:3000/studio-invitations?token=abc",
+    },
+    locales: {
+      en: {
+        subject: "You have been invited to a studio",
+        text: "You have been invited to join a studio on WrappAI as {{role}}.\n\nAccept within {{days}} days by opening {{link}}",
+        html: '<p>You have been invited to join a studio on WrappAI as {{role}}.</p><p><a href="{{link}}">Accept the invitation</a> within {{days}} days.</p>',
+      },
+      fr: {
+        subject: "Vous êtes invité à rejoindre un studio",
+        text: "Vous êtes invité à rejoindre un studio sur WrappAI en tant que {{role}}.\n\nAcceptez dans les {{days}} jours en ouvrant {{link}}",
+        html: '<p>Vous êtes invité à rejoindre un studio sur WrappAI en tant que {{role}}.</p><p><a href="{{link}}">Acceptez l\'invitation</a> dans les {{days}} jours.</p>',
+      },
+    },
+  },
+  [NotificationEvent.STUDIO_RELEASE]: {
+    category: NotificationCategory.ACTIVITY,
+    channels: ALL_CHANNELS,
+    example: { studio: "Northern Lights Records", title: "Aurora" },
+    locales: {
+      en: {
+        subject: "New from {{studio}}: {{title}}",
+        text: '{{studio}}, a studio you follow, just released "{{title}}".',
+        html: "<p><strong>{{studio}}</strong>, a studio you follow, just released <strong>{{title}}</strong>.</p>",
+      },
+      fr: {
+        subject: "Nouveauté de {{studio}} : {{title}}",
+        text: "{{studio}}, un studio que vous suivez, vient de publier « {{title}} ».",
+        html: "<p><strong>{{studio}}</strong>, un studio que vous suivez, vient de publier <strong>{{title}}</strong>.</p>",
+      },
+    },
+  },
+  [NotificationEvent.STUDIO_ANNOUNCEMENT]: {
+    category: NotificationCategory.MARKETING,
+    channels: ALL_CHANNELS,
+    example: {
+      studio: "Northern Lights Records",
+      title: "Our new album is out",
+      message: "Listen to Aurora now, only on WrappAI.",
+    },
+    locales: {
+      en: {
+        subject: "{{studio}}: {{title}}",
+        text: "{{message}}\n\nYou receive this because you listen to {{studio}} on WrappAI. You can turn off announcements in your notification preferences.",
+        html: "<p>{{message}}</p><p><small>You receive this because you listen to {{studio}} on WrappAI. You can turn off announcements in your notification preferences.</small></p>",
+      },
+      fr: {
+        subject: "{{studio}} : {{title}}",
+        text: "{{message}}\n\nVous recevez ce message car vous écoutez {{studio}} sur WrappAI. Vous pouvez désactiver les annonces dans vos préférences de notification.",
+        html: "<p>{{message}}</p><p><small>Vous recevez ce message car vous écoutez {{studio}} sur WrappAI. Vous pouvez désactiver les annonces dans vos préférences de notification.</small></p>",
+      },
+    },
+  },
+};
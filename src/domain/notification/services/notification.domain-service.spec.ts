@@ -0,0 +1,58 @@
+import { NotificationDomainService } from "./notification.domain-service";
+import {
+  Notification,
+  NotificationChannel,
+} from "../entities/notification.entity";
+import { User } from "../../user/entities/user.entity";
+
+describe("NotificationDomainService", () => {
+  const service = new NotificationDomainService();
+  const policy = { maxAttempts: 4, baseDelay: 30, maxDelay: 100 };
+  const now = new Date("2024-01-01T00:00:00Z");
+
+  it("backs off exponentially up to the maximum delay", () => {
+    const delays = [1, 2, 3].map(
+      (attempt) =>
+        (service.nextAttemptAt(attempt, policy, now).getTime() -
+          now.getTime()) /
+        1000,
+    );
+    expect(delays).toEqual([30, 60, 100]);
+  });
+
+  it("stops retrying once attempts are exhausted", () => {
+    expect(service.nextAttemptAt(4, policy, now)).toBeNull();
+  });
+
+  it("addresses each channel with the matching contact field", () => {
+    const user = Object.assign(new User(), {
+      uuid: "5f0c6d0e-8a59-4c43-9a4e-1d8d2f4f6b10",
+      email: "ada@example.com",
+      phoneNumber: "+2348000000000",
+    });
+    const notification = (channel: string) =>
+      Object.assign(new Notification(), { user, channel });
+
+    expect(
+      service.recipientAddress(notification(NotificationChannel.EMAIL)),
+    ).toBe("ada@example.com");
+    expect(
+      service.recipientAddress(notification(NotificationChannel.WHATSAPP)),
+    ).toBe("+2348000000000");
+    expect(
+      service.recipientAddress(notification(NotificationChannel.PUSH)),
+    ).toBe(user.uuid);
+    expect(
+      service.recipientAddress(
+        Object.assign(new Notification(), { user: null, channel: "SMS" }),
+      ),
+    ).toBeNull();
+    expect(
+      service.recipientAddress(
+        Object.assign(notification(NotificationChannel.EMAIL), {
+          recipient: "ada.work@example.com",
+        }),
+      ),
+    ).toBe("ada.work@example.com");
+  });
+});
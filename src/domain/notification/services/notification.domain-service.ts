@@ -0,0 +1,81 @@
+/**
+ * Domain rules for notification delivery: where a notification goes on each
+ * channel and when a failed delivery is retried.
+ *
+ * @module NotificationModule
+ */
+
+import { Injectable } from "@nestjs/common";
+import {
+  Notification,
+  NotificationChannel,
+} from "../entities/notification.entity";
+
+/**
+ * Limits for retrying failed deliveries. Delays are in seconds.
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelay: number;
+  maxDelay: number;
+}
+
+@Injectable()
+export class NotificationDomainService {
+  /**
+   * The address a notification is delivered to on its channel: its explicit
+   * recipient if set, otherwise the user's contact field. Push
+   * notifications are addressed to the user, whose devices the push adapter
+   * looks up.
+   * @returns {string | null} The address, or null if the user has none for that channel.
+   */
+  recipientAddress(notification: Notification): string | null {
+    if (notification.recipient) {
+      return notification.recipient;
+    }
+    const user = notification.user;
+    if (!user) {
+      return null;
+    }
+    switch (notification.channel) {
+      case NotificationChannel.EMAIL:
+        return user.email;
+      case NotificationChannel.PUSH:
+        return user.uuid;
+      default:
+        return user.phoneNumber;
+    }
+  }
+
+  /**
+   * Decides when to retry after the given (1-based) attempt failed.
+   * Delays grow exponentially from `baseDelay`, capped at `maxDelay`.
+   * @returns {Date | null} When to try again, or null once attempts are exhausted.
+   */
+  nextAttemptAt(
+    attempt: number,
+    policy: RetryPolicy,
+    now: Date = new Date(),
+  ): Date | null {
+    if (attempt >= policy.maxAttempts) {
+      return null;
+    }
+    const delay = Math.min(
+      policy.baseDelay * 2 ** (attempt - 1),
+      policy.maxDelay,
+    );
+    return new Date(now.getTime() + delay * 1000);
+  }
+
+  /**
+   * Formats one line of Notification.errorLog.
+   */
+  errorLogEntry(
+    attempt: number,
+    error: unknown,
+    now: Date = new Date(),
+  ): string {
+    const message = error instanceof Error ? error.message : String(error);
+    return `[${now.toISOString()}] attempt ${attempt}: ${message}`;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * The MediaSimilarity entity holds precomputed "people who watched this also
+ * watched" scores between pairs of media items.
+ * @module RecommendationModule
+ */
+
+import { Column, Entity, Index } from "typeorm";
+import { BaseUUIDEntity } from "../../entities/base";
+import type { MediaKind } from "../../media/services/media.domain-service";
+
+/**
+ * How similar a target item is to a source item, judged by the users who
+ * consumed both. Only the best targets of each source are kept, and the
+ * whole table is replaced each time similarities are recomputed.
+ */
+@Entity()
+@Index(["sourceKind", "sourceUuid", "score"])
+export class MediaSimilarity extends BaseUUIDEntity {
+  /**
+   * Column name: sourceKind
+   * The kind of the item recommendations are made for.
+   */
+  @Column({ type: "varchar", length: 20 })
+  sourceKind: MediaKind;
+
+  /**
+   * Column name: sourceUuid
+   * The UUID of the item recommendations are made for. Kept as a plain value;
+   * rows of purged items disappear on the next recomputation.
+   */
+  @Column({ type: "uuid" })
+  sourceUuid: string;
+
+  /**
+   * Column name: targetKind
+   * The kind of the recommended item.
+   */
+  @Column({ type: "varchar", length: 20 })
+  targetKind: MediaKind;
+
+  /**
+   * Column name: targetUuid
+   * The UUID of the recommended item.
+   */
+  @Column({ type: "uuid" })
+  targetUuid: string;
+
+  /**
+   * Column name: score
+   * Cosine similarity of the two items' audiences, between 0 and 1.
+   */
+  @Column({ type: "double precision" })
+  score: number;
+
+  /**
+   * Column name: together
+   * How many users consumed both items.
+   */
+  @Column({ type: "int" })
+  together: number;
+}
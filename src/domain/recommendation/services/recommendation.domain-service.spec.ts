@@ -0,0 +1,121 @@
+import {
+  ContentProfile,
+  RecommendationDomainService,
+  refKey,
+} from "./recommendation.domain-service";
+
+describe("RecommendationDomainService", () => {
+  const service = new RecommendationDomainService();
+  const music = (uuid: string) => ({ kind: "music" as const, uuid });
+  const video = (uuid: string) => ({ kind: "video" as const, uuid });
+
+  it("scores pairs by audience overlap, preferring larger overlaps on ties", () => {
+    const rows = service.similarities(
+      [
+        {
+          source: music("a"),
+          target: music("b"),
+          together: 2,
+          sourceUsers: 4,
+          targetUsers: 4,
+        },
+        {
+          source: music("a"),
+          target: video("c"),
+          together: 3,
+          sourceUsers: 4,
+          targetUsers: 9,
+        },
+        {
+          source: music("a"),
+          target: music("d"),
+          together: 1,
+          sourceUsers: 4,
+          targetUsers: 16,
+        },
+      ],
+      2,
+    );
+    expect(rows.map((row) => [row.targetUuid, row.score])).toEqual([
+      ["c", 0.5],
+      ["b", 0.5],
+    ]);
+  });
+
+  it("ranks content matches by the strongest shared attributes", () => {
+    const profile = (
+      uuid: string,
+      fields: Partial<ContentProfile>,
+    ): ContentProfile => ({
+      ...music(uuid),
+      studioUuid: null,
+      artist: null,
+      genre: null,
+      ...fields,
+    });
+    const source = profile("a", {
+      artist: "X",
+      genre: "Jazz",
+      studioUuid: "s",
+    });
+    const matches = service.contentMatches(
+      [source],
+      [
+        source,
+        profile("studio", { studioUuid: "s" }),
+        profile("genre", { genre: "Jazz" }),
+        profile("artist", { artist: "X", studioUuid: "s" }),
+        profile("none", { genre: "Pop" }),
+      ],
+    );
+    expect(matches.map((match) => [match.uuid, match.reason])).toEqual([
+      ["artist", "same-artist"],
+      ["genre", "same-genre"],
+      ["studio", "same-studio"],
+    ]);
+  });
+
+  it("builds a shelf from recent items and skips what was consumed", () => {
+    const similar = [
+      { source: "recent", target: "x", score: 0.5 },
+      { source: "older", target: "x", score: 0.5 },
+      { source: "older", target: "y", score: 0.8 },
+      { source: "recent", target: "older", score: 0.9 },
+    ].map((row) => ({
+      sourceKind: "music" as const,
+      sourceUuid: row.source,
+      targetKind: "music" as const,
+      targetUuid: row.target,
+      score: row.score,
+      together: 1,
+    }));
+    const seeds = [music("recent"), music("older")];
+    const shelf = service.rankShelf(
+      seeds,
+      similar,
+      new Set(seeds.map(refKey)),
+      10,
+    );
+    expect(shelf.map((entry) => entry.uuid)).toEqual(["x", "y"]);
+    expect(shelf[0].score).toBeCloseTo(0.95);
+    expect(shelf[1].score).toBeCloseTo(0.72);
+  });
+
+  it("fills up with fallback picks that are not taken or excluded", () => {
+    const pick = (uuid: string) => ({
+      ...music(uuid),
+      score: 1,
+      reason: "popular" as const,
+    });
+    expect(
+      service
+        .fill(
+          [pick("a")],
+          [pick("a"), pick("seen"), pick("b"), pick("c")],
+          new Set([refKey(music("seen"))]),
+          2,
+        )
+        .map((entry) => entry.uuid),
+    ).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Domain rules for recommendations: how co-consumption turns into item
+ * similarity, how content signals stand in for items nobody has watched yet,
+ * and how a user's history becomes a personal shelf.
+ *
+ * @module RecommendationModule
+ */
+
+import { Injectable } from "@nestjs/common";
+import { InteractionType } from "../../media/entities/media.interaction.entity";
+import { MediaKind } from "../../media/services/media.domain-service";
+import { MediaSimilarity } from "../entities/media-similarity.entity";
+
+/**
+ * Interactions that count as having consumed an item.
+ */
+export const CONSUMED_INTERACTIONS: InteractionType[] = [
+  InteractionType.WATCHED,
+  InteractionType.SEEN,
+  InteractionType.COMPLETED,
+  InteractionType.PAID,
+];
+
+export interface MediaRef {
+  kind: MediaKind;
+  uuid: string;
+}
+
+/**
+ * Users who consumed a pair of items, and each item's audience size.
+ */
+export interface CoOccurrence {
+  source: MediaRef;
+  target: MediaRef;
+  together: number;
+  sourceUsers: number;
+  targetUsers: number;
+}
+
+/**
+ * The attributes content-based recommendations compare.
+ */
+export interface ContentProfile extends MediaRef {
+  studioUuid: string | null;
+  artist: string | null;
+  genre: string | null;
+}
+
+export type RecommendationReason =
+  | "co-viewed"
+  | "same-artist"
+  | "same-genre"
+  | "same-studio"
+  | "popular";
+
+export interface ScoredMedia extends MediaRef {
+  score: number;
+  reason: RecommendationReason;
+}
+
+export type SimilarityRow = Pick<
+  MediaSimilarity,
+  | "sourceKind"
+  | "sourceUuid"
+  | "targetKind"
+  | "targetUuid"
+  | "score"
+  | "together"
+>;
+
+/**
+ * Weight of each shared attribute, strongest first. These only order
+ * fallback picks among themselves; co-viewed items always come first.
+ */
+const CONTENT_SIGNALS: {
+  field: "artist" | "genre" | "studioUuid";
+  weight: number;
+  reason: RecommendationReason;
+}[] = [
+  { field: "artist", weight: 3, reason: "same-artist" },
+  { field: "genre", weight: 2, reason: "same-genre" },
+  { field: "studioUuid", weight: 1, reason: "same-studio" },
+];
+
+/**
+ * How much less each older seed of a shelf counts than the one after it.
+ */
+const SEED_DECAY = 0.9;
+
+export function refKey(ref: MediaRef): string {
+  return `${ref.kind}:${ref.uuid}`;
+}
+
+@Injectable()
+export class RecommendationDomainService {
+  /**
+   * Scores each pair by the cosine similarity of the two audiences and keeps
+   * the best `perSource` targets of every source.
+   */
+  similarities(pairs: CoOccurrence[], perSource: number): SimilarityRow[] {
+    const bySource = new Map<string, SimilarityRow[]>();
+    for (const pair of pairs) {
+      const key = refKey(pair.source);
+      const rows = bySource.get(key) ?? [];
+      rows.push({
+        sourceKind: pair.source.kind,
+        sourceUuid: pair.source.uuid,
+        targetKind: pair.target.kind,
+        targetUuid: pair.target.uuid,
+        score: pair.together / Math.sqrt(pair.sourceUsers * pair.targetUsers),
+        together: pair.together,
+      });
+      bySource.set(key, rows);
+    }
+    return [...bySource.values()].flatMap((rows) =>
+      rows
+        .sort(
+          (a, b) =>
+            b.score - a.score ||
+            b.together - a.together ||
+            refKey(targetOf(a)).localeCompare(refKey(targetOf(b))),
+        )
+        .slice(0, perSource),
+    );
+  }
+
+  /**
+   * Ranks candidates by the attributes they share with any of `sources`.
+   * Candidates sharing nothing, and the sources themselves, are left out.
+   */
+  contentMatches(
+    sources: ContentProfile[],
+    candidates: ContentProfile[],
+  ): ScoredMedia[] {
+    const sourceKeys = new Set(sources.map(refKey));
+    const best = new Map<string, ScoredMedia>();
+    for (const candidate of candidates) {
+      const key = refKey(candidate);
+      if (sourceKeys.has(key)) {
+        continue;
+      }
+      for (const source of sources) {
+        const shared = CONTENT_SIGNALS.filter(
+          ({ field }) => source[field] && source[field] === candidate[field],
+        );
+        if (!shared.length) {
+          continue;
+        }
+        const score = shared.reduce((sum, { weight }) => sum + weight, 0);
+        if (score > (best.get(key)?.score ?? 0)) {
+          best.set(key, {
+            kind: candidate.kind,
+            uuid: candidate.uuid,
+            score,
+            reason: shared[0].reason,
+          });
+        }
+      }
+    }
+    return [...best.values()].sort(byScore);
+  }
+
+  /**
+   * Ranks the neighbours of a user's recent items. A neighbour's score is the
+   * sum of its similarity to each seed, with older seeds counting less.
+   * @param seeds The user's consumed items, most recent first.
+   * @param exclude Keys of items the user has already consumed.
+   */
+  rankShelf(
+    seeds: MediaRef[],
+    similar: SimilarityRow[],
+    exclude: Set<string>,
+    limit: number,
+  ): ScoredMedia[] {
+    const weights = new Map(
+      seeds.map((seed, index) => [refKey(seed), SEED_DECAY ** index]),
+    );
+    const scores = new Map<string, ScoredMedia>();
+    for (const row of similar) {
+      const weight = weights.get(
+        refKey({ kind: row.sourceKind, uuid: row.sourceUuid }),
+      );
+      const target = targetOf(row);
+      const key = refKey(target);
+      if (weight === undefined || exclude.has(key)) {
+        continue;
+      }
+      const entry = scores.get(key) ?? {
+        ...target,
+        score: 0,
+        reason: "co-viewed" as const,
+      };
+      entry.score += row.score * weight;
+      scores.set(key, entry);
+    }
+    return [...scores.values()].sort(byScore).slice(0, limit);
+  }
+
+  /**
+   * Tops `picks` up to `limit` with `fallback` entries that are neither
+   * picked already nor excluded.
+   */
+  fill(
+    picks: ScoredMedia[],
+    fallback: ScoredMedia[],
+    exclude: Set<string>,
+    limit: number,
+  ): ScoredMedia[] {
+    const taken = new Set([...exclude, ...picks.map(refKey)]);
+    const result = picks.slice(0, limit);
+    for (const entry of fallback) {
+      if (result.length >= limit) {
+        break;
+      }
+      const key = refKey(entry);
+      if (!taken.has(key)) {
+        taken.add(key);
+        result.push(entry);
+      }
+    }
+    return result;
+  }
+}
+
+function targetOf(row: SimilarityRow): MediaRef {
+  return { kind: row.targetKind, uuid: row.targetUuid };
+}
+
+function byScore(a: ScoredMedia, b: ScoredMedia): number {
+  return b.score - a.score || refKey(a).localeCompare(refKey(b));
+}
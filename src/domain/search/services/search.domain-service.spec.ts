@@ -0,0 +1,33 @@
+import { SearchDomainService } from "./search.domain-service";
+
+describe("SearchDomainService", () => {
+  const service = new SearchDomainService();
+
+  it("cleans up query text", () => {
+    expect(service.normalizeQuery("  lagos \n\t nights\u0000 ")).toBe(
+      "lagos nights",
+    );
+    expect(service.normalizeQuery("x".repeat(500))).toHaveLength(200);
+  });
+
+  it("round-trips cursors without losing score precision", () => {
+    const cursor = {
+      score: 0.123456789012345,
+      kind: "music" as const,
+      uuid: "7d9f0e2c-4a51-4c3e-9b1f-2f6c1d0a9e88",
+    };
+    expect(service.decodeCursor(service.encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it("rejects tampered cursors", () => {
+    expect(service.decodeCursor("not-a-cursor")).toBeNull();
+    const forged = Buffer.from(
+      JSON.stringify([1, "user", "7d9f0e2c-4a51-4c3e-9b1f-2f6c1d0a9e88"]),
+    ).toString("base64url");
+    expect(service.decodeCursor(forged)).toBeNull();
+    const dashes = Buffer.from(
+      JSON.stringify([1, "music", "-".repeat(36)]),
+    ).toString("base64url");
+    expect(service.decodeCursor(dashes)).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Domain rules for catalog search: what can be searched, how query text is
+ * cleaned up and how a position in the ranked results is carried between
+ * pages.
+ *
+ * @module SearchModule
+ */
+
+import { Injectable } from "@nestjs/common";
+import { isUUID } from "class-validator";
+import {
+  MEDIA_KINDS,
+  MediaKind,
+} from "../../media/services/media.domain-service";
+
+export type SearchKind = MediaKind | "playlist" | "studio";
+
+export const SEARCH_KINDS: SearchKind[] = [
+  ...MEDIA_KINDS,
+  "playlist",
+  "studio",
+];
+
+/**
+ * The last result of a page; the next page starts right after it.
+ */
+export interface SearchCursor {
+  score: number;
+  kind: SearchKind;
+  uuid: string;
+}
+
+export const MAX_QUERY_LENGTH = 200;
+
+@Injectable()
+export class SearchDomainService {
+  /**
+   * Collapses whitespace and control characters and caps the length.
+   */
+  normalizeQuery(text: string): string {
+    return text
+      .replace(/[\s\p{Cc}]+/gu, " ")
+      .trim()
+      .slice(0, MAX_QUERY_LENGTH);
+  }
+
+  encodeCursor(cursor: SearchCursor): string {
+    return Buffer.from(
+      JSON.stringify([cursor.score, cursor.kind, cursor.uuid]),
+    ).toString("base64url");
+  }
+
+  /**
+   * @returns {SearchCursor | null} The cursor, or null if it is malformed.
+   */
+  decodeCursor(value: string): SearchCursor | null {
+    try {
+      const [score, kind, uuid] = JSON.parse(
+        Buffer.from(value, "base64url").toString("utf8"),
+      );
+      if (
+        typeof score !== "number" ||
+        !SEARCH_KINDS.includes(kind) ||
+        !isUUID(uuid)
+      ) {
+        return null;
+      }
+      return { score, kind, uuid };
+    } catch {
+      return null;
+    }
+  }
+}
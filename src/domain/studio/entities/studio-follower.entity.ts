@@ -0,0 +1,59 @@
+/**
+ * The StudioFollower entity records that a user follows a studio, so that
+ * the studio's releases show up in their feed.
+ * @module StudioModule
+ */
+
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  Relation,
+} from "typeorm";
+import { BaseUUIDEntity } from "../../entities/base";
+import { User } from "../../user/entities/user.entity";
+import { Studio } from "./studio.entity";
+
+@Entity()
+@Index(["studioUuid", "userUuid"], { unique: true })
+@Index(["userUuid", "createdAt"])
+export class StudioFollower extends BaseUUIDEntity {
+  /**
+   * Column name: studio_uuid
+   * The UUID of the followed studio.
+   */
+  @Column({ type: "uuid", name: "studio_uuid" })
+  studioUuid: string;
+
+  /**
+   * Many-to-One relationship with the Studio entity.
+   * Followers are removed together with their studio.
+   */
+  @ManyToOne(() => Studio, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "studio_uuid" })
+  studio: Relation<Studio>;
+
+  /**
+   * Column name: user_uuid
+   * The UUID of the follower.
+   */
+  @Column({ type: "uuid", name: "user_uuid" })
+  userUuid: string;
+
+  /**
+   * Many-to-One relationship with the User entity.
+   */
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_uuid" })
+  user: Relation<User>;
+
+  /**
+   * Column name: notify
+   * Whether the follower is sent a notification when the studio releases
+   * new media or publishes a playlist.
+   */
+  @Column({ type: "boolean", default: false })
+  notify: boolean;
+}
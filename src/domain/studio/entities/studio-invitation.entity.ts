@@ -0,0 +1,84 @@
+/**
+ * The StudioInvitation entity is an offer, sent by email, to join a studio
+ * in a given role. Only a hash of the invitation token is stored.
+ * @module StudioModule
+ */
+
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  Relation,
+} from "typeorm";
+import { Exclude } from "class-transformer";
+import { BaseUUIDEntity } from "../../entities/base";
+import { User } from "../../user/entities/user.entity";
+import { Studio } from "./studio.entity";
+import { StudioRole } from "./studio-member.entity";
+
+@Entity()
+@Index(["studioUuid", "createdAt"])
+export class StudioInvitation extends BaseUUIDEntity {
+  /**
+   * Column name: studio_uuid
+   * The UUID of the studio the invitation is for.
+   */
+  @Column({ type: "uuid", name: "studio_uuid" })
+  studioUuid: string;
+
+  /**
+   * Many-to-One relationship with the Studio entity.
+   * Invitations are removed together with their studio.
+   */
+  @ManyToOne(() => Studio, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "studio_uuid" })
+  studio: Relation<Studio>;
+
+  /**
+   * Column name: email
+   * The address the invitation was sent to, lowercased. Only a user with
+   * this email address can accept it.
+   */
+  @Column({ type: "varchar", length: 255 })
+  email: string;
+
+  /**
+   * Column name: role
+   * The role the invitee gets on accepting. Never "owner".
+   */
+  @Column({ type: "varchar", length: 20 })
+  role: StudioRole;
+
+  /**
+   * Column name: tokenHash
+   * SHA-256 hash of the token in the invitation link.
+   */
+  @Exclude()
+  @Index({ unique: true })
+  @Column({ type: "varchar", length: 64 })
+  tokenHash: string;
+
+  /**
+   * Many-to-One relationship with the User entity.
+   * The member who sent the invitation, if they still exist.
+   */
+  @ManyToOne(() => User, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "invited_by_uuid" })
+  invitedBy: Relation<User> | null;
+
+  /**
+   * Column name: expiresAt
+   * The time after which the invitation can no longer be accepted.
+   */
+  @Column({ type: "timestamp" })
+  expiresAt: Date;
+
+  /**
+   * Column name: acceptedAt
+   * When the invitation was accepted. Null while it is pending.
+   */
+  @Column({ type: "timestamp", nullable: true })
+  acceptedAt: Date | null;
+}
@@ -0,0 +1,70 @@
+/**
+ * The StudioMember entity records that a user works on a studio, and in
+ * which role. Every studio has exactly one owner among its members.
+ * @module StudioModule
+ */
+
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  Relation,
+} from "typeorm";
+import { BaseUUIDEntity } from "../../entities/base";
+import { User } from "../../user/entities/user.entity";
+import { Studio } from "./studio.entity";
+
+/**
+ * Roles a member can hold, from most to least privileged. See
+ * StudioMembershipDomainService for what each may do.
+ */
+export enum StudioRole {
+  OWNER = "owner",
+  ADMIN = "admin",
+  EDITOR = "editor",
+  ANALYST = "analyst",
+}
+
+@Entity()
+@Index(["studioUuid", "userUuid"], { unique: true })
+@Index(["userUuid"])
+export class StudioMember extends BaseUUIDEntity {
+  /**
+   * Column name: studio_uuid
+   * The UUID of the studio.
+   */
+  @Column({ type: "uuid", name: "studio_uuid" })
+  studioUuid: string;
+
+  /**
+   * Many-to-One relationship with the Studio entity.
+   * Members are removed together with their studio.
+   */
+  @ManyToOne(() => Studio, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "studio_uuid" })
+  studio: Relation<Studio>;
+
+  /**
+   * Column name: user_uuid
+   * The UUID of the member.
+   */
+  @Column({ type: "uuid", name: "user_uuid" })
+  userUuid: string;
+
+  /**
+   * Many-to-One relationship with the User entity.
+   * Memberships are removed together with their user.
+   */
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_uuid" })
+  user: Relation<User>;
+
+  /**
+   * Column name: role
+   * What the member may do in the studio: "owner", "admin", "editor" or "analyst".
+   */
+  @Column({ type: "varchar", length: 20 })
+  role: StudioRole;
+}
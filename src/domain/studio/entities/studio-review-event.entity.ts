@@ -0,0 +1,59 @@
+/**
+ * The StudioReviewEvent entity records one transition of a studio's review status,
+ * who made it and why. Together the events form the studio's review history.
+ * @module StudioModule
+ */
+
+import { Column, Entity, JoinColumn, ManyToOne, Relation } from "typeorm";
+import { BaseUUIDEntity } from "../../entities/base";
+import { Studio } from "./studio.entity";
+import { User } from "../../user/entities/user.entity";
+
+@Entity()
+export class StudioReviewEvent extends BaseUUIDEntity {
+  /**
+   * Column name: studio_uuid
+   * The UUID of the studio that changed status.
+   */
+  @Column({ type: "uuid", name: "studio_uuid" })
+  studioUuid: string;
+
+  /**
+   * Many-to-One relationship with Studio entity.
+   * History rows are removed together with their studio.
+   */
+  @ManyToOne(() => Studio, (studio) => studio.reviewEvents, {
+    onDelete: "CASCADE",
+  })
+  @JoinColumn({ name: "studio_uuid" })
+  studio: Relation<Studio>;
+
+  /**
+   * Column name: fromStatus
+   * The status before the transition. Null for the initial submission.
+   */
+  @Column({ type: "varchar", length: 255, nullable: true })
+  fromStatus: string | null;
+
+  /**
+   * Column name: toStatus
+   * The status after the transition.
+   */
+  @Column({ type: "varchar", length: 255 })
+  toStatus: string;
+
+  /**
+   * Column name: note
+   * The reviewer's (or owner's, on resubmission) explanation of the transition.
+   */
+  @Column({ type: "text", nullable: true })
+  note: string | null;
+
+  /**
+   * Many-to-One relationship with User entity.
+   * The user who made the transition. This field can be null if that user was deleted.
+   */
+  @ManyToOne(() => User, { nullable: true, onDelete: "SET NULL" })
+  @JoinColumn({ name: "actor_uuid" })
+  actor: Relation<User> | null;
+}
@@ -5,23 +5,39 @@
  * @module StudioModule
  */
 
-import { BaseUUIDEntity } from "../../entities/base";
-import { Column, Entity, ManyToOne, OneToMany, Relation } from "typeorm";
+import { BaseUUIDEntity, RegionMode } from "../../entities/base";
+import { Column, Entity, Index, ManyToOne, OneToMany, Relation } from "typeorm";
 import { User } from "../../user/entities/user.entity";
 import { Playlist } from "../../media/entities/playlist.entity";
 import { Notification } from "../../notification/entities/notification.entity";
+import { StudioReviewEvent } from "./studio-review-event.entity";
+
+/**
+ * Review states of a studio. See StudioDomainService for the legal transitions.
+ */
+export enum StudioStatus {
+  IN_REVIEW = "IN-REVIEW",
+  APPROVED = "APPROVED",
+  REJECTED = "REJECTED",
+  CHANGES_REQUESTED = "CHANGES-REQUESTED",
+  SUSPENDED = "SUSPENDED",
+}
 
 @Entity()
+@Index("IDX_studio_name_trgm", { synchronize: false })
 export class Studio extends BaseUUIDEntity {
   /**
    * Column name: status
    * Describes the current status of the studio.
-   * Possible values could include:
+   * Possible values are:
    *  - "IN-REVIEW": The studio is being reviewed.
    *  - "APPROVED": The studio has been approved.
-   * Defaults to "IN-REVIEW".
+   *  - "REJECTED": The studio was turned down.
+   *  - "CHANGES-REQUESTED": The owner must update the studio and resubmit it.
+   *  - "SUSPENDED": An approved studio has been taken offline.
+   * Defaults to "IN-REVIEW". Only changed through review transitions.
    */
-  @Column({ type: "varchar", length: 255, default: "IN-REVIEW" })
+  @Column({ type: "varchar", length: 255, default: StudioStatus.IN_REVIEW })
   status: string;
 
   /**
@@ -53,6 +69,30 @@ export class Studio extends BaseUUIDEntity {
   @Column({ type: "varchar", length: 255, nullable: true })
   picture_url: string | null;
 
+  /**
+   * Column name: regionMode
+   * The default region policy of the studio's media: "allow" or "deny" the
+   * countries in regionRestrictions. Null when the studio sets no default.
+   * Media items with their own regionMode ignore it.
+   */
+  @Column({ type: "varchar", length: 10, nullable: true })
+  regionMode: RegionMode | null;
+
+  /**
+   * Column name: regionRestrictions
+   * A comma-separated list of ISO country codes that regionMode applies to.
+   */
+  @Column({ type: "text", nullable: true })
+  regionRestrictions: string | null;
+
+  /**
+   * Column name: followerCount
+   * The number of users following the studio, kept up to date as they
+   * follow and unfollow.
+   */
+  @Column({ type: "int", default: 0 })
+  followerCount: number;
+
   /**
    * One-to-Many relationship with Playlist entity.
    * A studio can manage or own multiple playlist, thus establishing a one-to-many relationship.
@@ -66,4 +106,27 @@ export class Studio extends BaseUUIDEntity {
    */
   @OneToMany(() => Notification, (notification) => notification.studio)
   notifications: Relation<Notification[]>;
+
+  /**
+   * One-to-Many relationship with StudioReviewEvent entity.
+   * The history of review transitions of this studio.
+   */
+  @OneToMany(() => StudioReviewEvent, (event) => event.studio)
+  reviewEvents: Relation<StudioReviewEvent[]>;
+
+  /**
+   * Column name: searchVector
+   * Generated full-text search document over the name and description.
+   * Indexed by migration, like Music.searchVector.
+   */
+  @Index("IDX_studio_search_vector", { synchronize: false })
+  @Column({
+    type: "tsvector",
+    generatedType: "STORED",
+    asExpression: `setweight(to_tsvector('simple', coalesce("name", '')), 'A') || setweight(to_tsvector('simple', coalesce("description", '')), 'D')`,
+    select: false,
+    insert: false,
+    update: false,
+  })
+  searchVector: string;
 }
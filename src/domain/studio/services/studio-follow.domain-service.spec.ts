@@ -0,0 +1,42 @@
+import { StudioFollowDomainService } from "./studio-follow.domain-service";
+import { Studio, StudioStatus } from "../entities/studio.entity";
+
+describe("StudioFollowDomainService", () => {
+  const service = new StudioFollowDomainService();
+  const uuid = "7d9f0e2c-4a51-4c3e-9b1f-2f6c1d0a9e88";
+
+  it("only lets approved studios be followed", () => {
+    const studio = (status: StudioStatus) =>
+      Object.assign(new Studio(), { status });
+    expect(service.followRefusal(studio(StudioStatus.APPROVED))).toBeNull();
+    expect(service.followRefusal(studio(StudioStatus.SUSPENDED))).toBe(
+      "Only approved studios can be followed",
+    );
+  });
+
+  it("round-trips cursors to the millisecond", () => {
+    const cursor = {
+      publishedAt: new Date("2024-05-01T10:20:30.456Z"),
+      kind: "playlist" as const,
+      uuid,
+    };
+    expect(service.decodeCursor(service.encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it("rejects tampered cursors", () => {
+    const encode = (value: unknown[]) =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+    expect(service.decodeCursor("not-a-cursor")).toBeNull();
+    expect(
+      service.decodeCursor(encode(["yesterday", "music", uuid])),
+    ).toBeNull();
+    expect(
+      service.decodeCursor(encode(["2024-05-01T10:20:30Z", "studio", uuid])),
+    ).toBeNull();
+    expect(
+      service.decodeCursor(
+        encode(["2024-05-01T10:20:30Z", "music", "-".repeat(36)]),
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Domain rules for following studios: which studios can be followed and how
+ * a position in the release feed is carried between pages.
+ *
+ * @module StudioModule
+ */
+
+import { Injectable } from "@nestjs/common";
+import { isUUID } from "class-validator";
+import {
+  MEDIA_KINDS,
+  MediaKind,
+} from "../../media/services/media.domain-service";
+import { Studio, StudioStatus } from "../entities/studio.entity";
+
+export type FeedKind = MediaKind | "playlist";
+
+export const FEED_KINDS: FeedKind[] = [...MEDIA_KINDS, "playlist"];
+
+/**
+ * The last entry of a feed page; the next page starts right after it.
+ */
+export interface FeedCursor {
+  publishedAt: Date;
+  kind: FeedKind;
+  uuid: string;
+}
+
+@Injectable()
+export class StudioFollowDomainService {
+  /**
+   * @returns {string | null} Why the studio cannot be followed, or null if it can.
+   */
+  followRefusal(studio: Studio): string | null {
+    return studio.status === StudioStatus.APPROVED
+      ? null
+      : "Only approved studios can be followed";
+  }
+
+  encodeCursor(cursor: FeedCursor): string {
+    return Buffer.from(
+      JSON.stringify([
+        cursor.publishedAt.toISOString(),
+        cursor.kind,
+        cursor.uuid,
+      ]),
+    ).toString("base64url");
+  }
+
+  /**
+   * @returns {FeedCursor | null} The cursor, or null if it is malformed.
+   */
+  decodeCursor(value: string): FeedCursor | null {
+    try {
+      const [publishedAt, kind, uuid] = JSON.parse(
+        Buffer.from(value, "base64url").toString("utf8"),
+      );
+      const date = new Date(publishedAt);
+      if (
+        typeof publishedAt !== "string" ||
+        Number.isNaN(date.getTime()) ||
+        !FEED_KINDS.includes(kind) ||
+        !isUUID(uuid)
+      ) {
+        return null;
+      }
+      return { publishedAt: date, kind, uuid };
+    } catch {
+      return null;
+    }
+  }
+}
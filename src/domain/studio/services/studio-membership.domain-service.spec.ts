@@ -0,0 +1,141 @@
+import { StudioRole } from "../entities/studio-member.entity";
+import { StudioInvitation } from "../entities/studio-invitation.entity";
+import {
+  StudioMembershipDomainService,
+  StudioPermission,
+} from "./studio-membership.domain-service";
+
+describe("StudioMembershipDomainService", () => {
+  const service = new StudioMembershipDomainService();
+
+  it("grants permissions by role", () => {
+    expect(service.can(StudioRole.OWNER, StudioPermission.MANAGE_SALES)).toBe(
+      true,
+    );
+    expect(service.can(StudioRole.ADMIN, StudioPermission.MANAGE_MEMBERS)).toBe(
+      true,
+    );
+    expect(service.can(StudioRole.EDITOR, StudioPermission.MANAGE_MEDIA)).toBe(
+      true,
+    );
+    expect(
+      service.can(StudioRole.EDITOR, StudioPermission.VIEW_ANALYTICS),
+    ).toBe(false);
+    expect(
+      service.can(StudioRole.ANALYST, StudioPermission.VIEW_ANALYTICS),
+    ).toBe(true);
+    expect(
+      service.can(StudioRole.ANALYST, StudioPermission.MANAGE_PLAYLISTS),
+    ).toBe(false);
+    expect(service.can("viewer", StudioPermission.VIEW_ANALYTICS)).toBe(false);
+  });
+
+  it.each([
+    [StudioRole.OWNER, StudioRole.ADMIN, true],
+    [StudioRole.ADMIN, StudioRole.EDITOR, true],
+    [StudioRole.ADMIN, StudioRole.ADMIN, false],
+    [StudioRole.ADMIN, StudioRole.OWNER, false],
+    [StudioRole.EDITOR, StudioRole.ANALYST, false],
+  ])("%s managing %s is %s", (actor, target, allowed) => {
+    expect(service.canManage(actor, target)).toBe(allowed);
+  });
+
+  it("never assigns ownership", () => {
+    expect(service.canAssign(StudioRole.OWNER, StudioRole.ADMIN)).toBe(true);
+    expect(service.canAssign(StudioRole.OWNER, StudioRole.OWNER)).toBe(false);
+    expect(service.canAssign(StudioRole.ADMIN, StudioRole.ADMIN)).toBe(false);
+  });
+
+  it("explains permission refusals", () => {
+    expect(
+      service.permissionRefusal(
+        { role: StudioRole.EDITOR },
+        StudioPermission.MANAGE_PLAYLISTS,
+      ),
+    ).toBeNull();
+    expect(
+      service.permissionRefusal(
+        { role: StudioRole.ANALYST },
+        StudioPermission.MANAGE_MEDIA,
+        "media",
+      ),
+    ).toBe("Your analyst role in this studio does not allow this");
+    expect(
+      service.permissionRefusal(
+        null,
+        StudioPermission.MANAGE_PLAYLISTS,
+        "playlist",
+      ),
+    ).toBe("You do not manage this playlist");
+  });
+
+  describe("invitationRefusal", () => {
+    const now = new Date("2024-05-01T12:00:00Z");
+    const invitation = (fields: Partial<StudioInvitation> = {}) =>
+      ({
+        email: "ada@example.com",
+        expiresAt: new Date("2024-05-02T00:00:00Z"),
+        acceptedAt: null,
+        ...fields,
+      }) as StudioInvitation;
+    const ada = {
+      email: "ada@example.com",
+      validatedEmail: true,
+      secondaryEmail: null,
+      validatedSecondaryEmail: false,
+    };
+
+    it("accepts the invited address in any case", () => {
+      expect(
+        service.invitationRefusal(
+          invitation(),
+          {
+            email: "bob@example.com",
+            validatedEmail: true,
+            secondaryEmail: "Ada@Example.com",
+            validatedSecondaryEmail: true,
+          },
+          now,
+        ),
+      ).toBeNull();
+    });
+
+    it("refuses an invited address that is not verified", () => {
+      expect(
+        service.invitationRefusal(
+          invitation(),
+          { ...ada, validatedEmail: false },
+          now,
+        ),
+      ).toMatch(/Verify/);
+      expect(
+        service.invitationRefusal(
+          invitation(),
+          {
+            email: "bob@example.com",
+            validatedEmail: true,
+            secondaryEmail: "ada@example.com",
+            validatedSecondaryEmail: false,
+          },
+          now,
+        ),
+      ).toMatch(/Verify/);
+    });
+
+    it("refuses used, expired and misdirected invitations", () => {
+      expect(
+        service.invitationRefusal(invitation({ acceptedAt: now }), ada, now),
+      ).toMatch(/already/);
+      expect(
+        service.invitationRefusal(invitation({ expiresAt: now }), ada, now),
+      ).toMatch(/expired/);
+      expect(
+        service.invitationRefusal(
+          invitation(),
+          { ...ada, email: "bob@example.com" },
+          now,
+        ),
+      ).toMatch(/different email/);
+    });
+  });
+});
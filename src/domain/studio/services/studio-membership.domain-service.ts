@@ -0,0 +1,140 @@
+/**
+ * Domain rules for studio membership: what each role may do, who may manage
+ * whom, and when an invitation can be accepted.
+ *
+ * @module StudioModule
+ */
+
+import { Injectable } from "@nestjs/common";
+import { createHash, randomBytes } from "node:crypto";
+import { StudioMember, StudioRole } from "../entities/studio-member.entity";
+import { StudioInvitation } from "../entities/studio-invitation.entity";
+import { User } from "../../user/entities/user.entity";
+
+/**
+ * Things a member can be allowed to do in a studio.
+ */
+export enum StudioPermission {
+  /** Resubmit the studio for review, see its history and set its defaults. */
+  MANAGE_STUDIO = "manage-studio",
+  /** Invite, remove and change the roles of lower-ranked members. */
+  MANAGE_MEMBERS = "manage-members",
+  /** Upload, edit, archive and delete media, including DRM and renditions. */
+  MANAGE_MEDIA = "manage-media",
+  MANAGE_PLAYLISTS = "manage-playlists",
+  /** Set prices. */
+  MANAGE_SALES = "manage-sales",
+  VIEW_ANALYTICS = "view-analytics",
+  /** Broadcast campaigns to the studio's audience. */
+  MANAGE_CAMPAIGNS = "manage-campaigns",
+}
+
+const ALL = Object.values(StudioPermission);
+
+const ROLE_PERMISSIONS: Record<StudioRole, StudioPermission[]> = {
+  [StudioRole.OWNER]: ALL,
+  [StudioRole.ADMIN]: ALL,
+  [StudioRole.EDITOR]: [
+    StudioPermission.MANAGE_MEDIA,
+    StudioPermission.MANAGE_PLAYLISTS,
+  ],
+  [StudioRole.ANALYST]: [StudioPermission.VIEW_ANALYTICS],
+};
+
+/** Higher ranks may manage lower ones. */
+const RANK: Record<StudioRole, number> = {
+  [StudioRole.OWNER]: 4,
+  [StudioRole.ADMIN]: 3,
+  [StudioRole.EDITOR]: 2,
+  [StudioRole.ANALYST]: 1,
+};
+
+@Injectable()
+export class StudioMembershipDomainService {
+  can(role: StudioRole | string, permission: StudioPermission): boolean {
+    return ROLE_PERMISSIONS[role as StudioRole]?.includes(permission) ?? false;
+  }
+
+  /**
+   * Explains why a user with `member` as their membership (null for
+   * outsiders) may not act with `permission`. `subject` names what is being
+   * managed.
+   * @returns {string | null} The reason, or null when the role allows it.
+   */
+  permissionRefusal(
+    member: Pick<StudioMember, "role"> | null,
+    permission: StudioPermission,
+    subject = "studio",
+  ): string | null {
+    if (!member) {
+      return `You do not manage this ${subject}`;
+    }
+    if (!this.can(member.role, permission)) {
+      return `Your ${member.role} role in this studio does not allow this`;
+    }
+    return null;
+  }
+
+  /**
+   * Whether a member in role `actor` may remove a member in role `target` or
+   * change their role. Members only manage those ranked below them.
+   */
+  canManage(actor: StudioRole | string, target: StudioRole | string): boolean {
+    return (
+      this.can(actor, StudioPermission.MANAGE_MEMBERS) &&
+      RANK[actor as StudioRole] > RANK[target as StudioRole]
+    );
+  }
+
+  /**
+   * Whether a member in role `actor` may give someone `role`, by invitation
+   * or role change. Ownership only changes hands by transfer.
+   */
+  canAssign(actor: StudioRole | string, role: StudioRole): boolean {
+    return role !== StudioRole.OWNER && this.canManage(actor, role);
+  }
+
+  /**
+   * Invitation tokens carry 256 random bits, so a fast hash is enough.
+   */
+  generateInvitationToken(): string {
+    return randomBytes(32).toString("base64url");
+  }
+
+  hashInvitationToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+  }
+
+  /**
+   * Explains why `user` cannot accept `invitation` at `now`. Only an address
+   * the user has verified counts as theirs.
+   * @returns {string | null} The reason, or null when it can be accepted.
+   */
+  invitationRefusal(
+    invitation: StudioInvitation,
+    user: Pick<
+      User,
+      "email" | "validatedEmail" | "secondaryEmail" | "validatedSecondaryEmail"
+    >,
+    now: Date = new Date(),
+  ): string | null {
+    const invited = (email: string | null) =>
+      email?.toLowerCase() === invitation.email;
+    if (invitation.acceptedAt) {
+      return "Invitation has already been accepted";
+    }
+    if (invitation.expiresAt.getTime() <= now.getTime()) {
+      return "Invitation has expired";
+    }
+    if (
+      (user.validatedEmail && invited(user.email)) ||
+      (user.validatedSecondaryEmail && invited(user.secondaryEmail))
+    ) {
+      return null;
+    }
+    if (invited(user.email) || invited(user.secondaryEmail)) {
+      return "Verify the invited email address before accepting";
+    }
+    return "Invitation was sent to a different email address";
+  }
+}
@@ -0,0 +1,69 @@
+import { StudioDomainService } from "./studio.domain-service";
+import { Studio, StudioStatus } from "../entities/studio.entity";
+
+describe("StudioDomainService", () => {
+  const service = new StudioDomainService();
+
+  it("lets reviewers decide on a studio in review", () => {
+    expect(
+      service.allowedTransitions(StudioStatus.IN_REVIEW, "reviewer").sort(),
+    ).toEqual(
+      [
+        StudioStatus.APPROVED,
+        StudioStatus.CHANGES_REQUESTED,
+        StudioStatus.REJECTED,
+        StudioStatus.SUSPENDED,
+      ].sort(),
+    );
+    expect(service.allowedTransitions(StudioStatus.IN_REVIEW, "owner")).toEqual(
+      [],
+    );
+  });
+
+  it("lets only the owner resubmit after changes were requested", () => {
+    expect(
+      service.canTransition(
+        StudioStatus.CHANGES_REQUESTED,
+        StudioStatus.IN_REVIEW,
+        "owner",
+      ),
+    ).toBe(true);
+    expect(
+      service.canTransition(
+        StudioStatus.CHANGES_REQUESTED,
+        StudioStatus.APPROVED,
+        "reviewer",
+      ),
+    ).toBe(false);
+  });
+
+  it("allows suspending and reinstating an approved studio", () => {
+    expect(
+      service.canTransition(
+        StudioStatus.APPROVED,
+        StudioStatus.SUSPENDED,
+        "reviewer",
+      ),
+    ).toBe(true);
+    expect(
+      service.canTransition(
+        StudioStatus.SUSPENDED,
+        StudioStatus.APPROVED,
+        "reviewer",
+      ),
+    ).toBe(true);
+  });
+
+  it("treats rejection as final", () => {
+    expect(
+      service.allowedTransitions(StudioStatus.REJECTED, "reviewer"),
+    ).toEqual([]);
+  });
+
+  it("only lets approved studios publish", () => {
+    const studio = (status: string) => Object.assign(new Studio(), { status });
+    expect(service.canPublish(studio(StudioStatus.APPROVED))).toBe(true);
+    expect(service.canPublish(studio(StudioStatus.IN_REVIEW))).toBe(false);
+    expect(service.canPublish(studio(StudioStatus.SUSPENDED))).toBe(false);
+  });
+});
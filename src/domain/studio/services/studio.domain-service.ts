@@ -0,0 +1,76 @@
+/**
+ * Domain rules for the studio review workflow: which status changes are
+ * legal, who may make them, and what an approved studio may do.
+ *
+ * @module StudioModule
+ */
+
+import { Injectable } from "@nestjs/common";
+import { Studio, StudioStatus } from "../entities/studio.entity";
+
+/**
+ * Who is asking for a transition.
+ */
+export type StudioReviewActor = "reviewer" | "owner";
+
+/**
+ * Legal transitions from each status, and the actor allowed to make them.
+ *
+ *     IN-REVIEW ──► APPROVED ◄──► SUSPENDED
+ *         │  ▲
+ *         │  └──(owner resubmits)── CHANGES-REQUESTED
+ *         ├──► CHANGES-REQUESTED
+ *         ├──► REJECTED
+ *         └──► SUSPENDED
+ */
+const TRANSITIONS: Record<
+  string,
+  Partial<Record<StudioStatus, StudioReviewActor>>
+> = {
+  [StudioStatus.IN_REVIEW]: {
+    [StudioStatus.APPROVED]: "reviewer",
+    [StudioStatus.REJECTED]: "reviewer",
+    [StudioStatus.CHANGES_REQUESTED]: "reviewer",
+    [StudioStatus.SUSPENDED]: "reviewer",
+  },
+  [StudioStatus.CHANGES_REQUESTED]: {
+    [StudioStatus.IN_REVIEW]: "owner",
+  },
+  [StudioStatus.APPROVED]: {
+    [StudioStatus.SUSPENDED]: "reviewer",
+  },
+  [StudioStatus.SUSPENDED]: {
+    [StudioStatus.APPROVED]: "reviewer",
+  },
+  [StudioStatus.REJECTED]: {},
+};
+
+@Injectable()
+export class StudioDomainService {
+  /**
+   * Whether `actor` may move a studio from `from` to `to`.
+   */
+  canTransition(
+    from: string,
+    to: StudioStatus,
+    actor: StudioReviewActor,
+  ): boolean {
+    return TRANSITIONS[from]?.[to] === actor;
+  }
+
+  /**
+   * The statuses `actor` may move a studio to from `from`.
+   */
+  allowedTransitions(from: string, actor: StudioReviewActor): StudioStatus[] {
+    return Object.entries(TRANSITIONS[from] ?? {})
+      .filter(([, allowed]) => allowed === actor)
+      .map(([status]) => status as StudioStatus);
+  }
+
+  /**
+   * Only approved studios may publish playlists.
+   */
+  canPublish(studio: Studio): boolean {
+    return studio.status === StudioStatus.APPROVED;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * The UserSession entity represents a signed-in session of a user.
+ * Every session backs one access/refresh token pair; revoking the session
+ * invalidates both tokens.
+ * @module UserModule
+ */
+
+import { Column, Entity, JoinColumn, ManyToOne, Relation } from "typeorm";
+import { BaseUUIDEntity } from "../../entities/base";
+import { User } from "./user.entity";
+
+@Entity()
+export class UserSession extends BaseUUIDEntity {
+  /**
+   * Column name: user_uuid
+   * The UUID of the user who owns this session.
+   */
+  @Column({ type: "uuid", name: "user_uuid" })
+  userUuid: string;
+
+  /**
+   * Many-to-One relationship with the User entity.
+   * The user who signed in to create this session.
+   */
+  @ManyToOne(() => User, (user) => user.sessions, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_uuid" })
+  user: Relation<User>;
+
+  /**
+   * Column name: refreshTokenHash
+   * SHA-256 hash of the identifier of the latest refresh token issued for this session.
+   * Refresh tokens are rotated on use, so an older token presented again is rejected.
+   */
+  @Column({ type: "varchar", length: 64 })
+  refreshTokenHash: string;
+
+  /**
+   * Column name: expiresAt
+   * The timestamp after which the session can no longer be refreshed.
+   */
+  @Column({ type: "timestamp" })
+  expiresAt: Date;
+
+  /**
+   * Column name: revokedAt
+   * The timestamp when the session was revoked (e.g. on logout).
+   * This field is null while the session is still valid.
+   */
+  @Column({ type: "timestamp", nullable: true })
+  revokedAt: Date | null;
+
+  /**
+   * Column name: pinVerifiedAt
+   * The timestamp of the last successful PIN step-up check on this session.
+   * This field is null until the user verifies their PIN.
+   */
+  @Column({ type: "timestamp", nullable: true })
+  pinVerifiedAt: Date | null;
+}
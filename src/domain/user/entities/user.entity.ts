@@ -10,11 +10,29 @@
  */
 
 import { Column, Entity, OneToMany, Relation } from "typeorm";
+import { Exclude } from "class-transformer";
 import { BaseUUIDEntity } from "../../entities/base";
 import { Device } from "../../device/entities/device.entity";
 import { Studio } from "../../studio/entities/studio.entity";
 import { MediaInteraction } from "../../media/entities/media.interaction.entity";
 import { Notification } from "../../notification/entities/notification.entity";
+import { UserSession } from "./session.entity";
+
+/**
+ * The kinds of account a user can hold.
+ */
+export enum AccountType {
+  WATCHER = "WATCHER",
+  STUDIO = "STUDIO",
+}
+
+/**
+ * Platform roles, independent of the account type.
+ */
+export enum UserRole {
+  USER = "USER",
+  ADMIN = "ADMIN",
+}
 
 @Entity()
 export class User extends BaseUUIDEntity {
@@ -28,6 +46,15 @@ export class User extends BaseUUIDEntity {
   @Column({ type: "varchar", length: 255, nullable: true })
   accountType: string | null;
 
+  /**
+   * Column name: role
+   * The user's role on the platform:
+   *  - "USER": Regular access.
+   *  - "ADMIN": Platform administrator, e.g. reviews studios.
+   */
+  @Column({ type: "varchar", length: 20, default: UserRole.USER })
+  role: string;
+
   /**
    * Column name: channel
    * Specifies the platform or media from which the user is signing up.
@@ -88,18 +115,46 @@ export class User extends BaseUUIDEntity {
   @Column({ type: "boolean", default: false })
   validatedEmail: boolean;
 
+  /**
+   * Column name: validatedSecondaryPhoneNumber
+   * Whether the secondary phone number has been confirmed with a code.
+   * Reset whenever the number changes.
+   */
+  @Column({ type: "boolean", default: false })
+  validatedSecondaryPhoneNumber: boolean;
+
+  /**
+   * Column name: validatedSecondaryEmail
+   * Whether the secondary email address has been confirmed with a code.
+   * Reset whenever the address changes.
+   */
+  @Column({ type: "boolean", default: false })
+  validatedSecondaryEmail: boolean;
+
   /**
    * Column name: pin
-   * Stores a secure personal identification number (PIN) for the user.
-   * This is typically used for additional authentication layers.
+   * Stores the hashed personal identification number (PIN) for the user.
+   * This is used for step-up authentication before sensitive actions.
+   * This field is optional and stays empty until the user sets a PIN.
    */
-  @Column({ type: "varchar", length: 128 })
-  pin: string;
+  @Exclude()
+  @Column({ type: "varchar", length: 128, nullable: true })
+  pin: string | null;
+
+  /**
+   * Column name: pinAttempts
+   * Number of PIN step-up checks made since the user last signed in with
+   * their password or set a PIN.
+   */
+  @Exclude()
+  @Column({ type: "integer", default: 0 })
+  pinAttempts: number;
 
   /**
    * Column name: password_hash
    * Stores the hashed version of the user's password for secure authentication.
    */
+  @Exclude()
   @Column({ type: "varchar", length: 255 })
   password_hash: string;
 
@@ -141,4 +196,11 @@ export class User extends BaseUUIDEntity {
    */
   @OneToMany(() => Notification, (notification) => notification.user)
   notifications: Relation<Notification[]>;
+
+  /**
+   * One-to-Many relationship with UserSession entity.
+   * A user can be signed in on several sessions at once.
+   */
+  @OneToMany(() => UserSession, (session) => session.user)
+  sessions: Relation<UserSession[]>;
 }
@@ -0,0 +1,99 @@
+/**
+ * The VerificationCode entity represents a one-time code sent to one of a
+ * user's email addresses or phone numbers to prove they control it.
+ * Only hashes of the code and of the magic link token are stored.
+ * @module UserModule
+ */
+
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  Relation,
+} from "typeorm";
+import { BaseUUIDEntity } from "../../entities/base";
+import { User } from "./user.entity";
+
+/**
+ * The contact fields of a user that can be verified. Values are the names
+ * of the User columns they verify.
+ */
+export enum VerificationTarget {
+  EMAIL = "email",
+  PHONE_NUMBER = "phoneNumber",
+  SECONDARY_EMAIL = "secondaryEmail",
+  SECONDARY_PHONE_NUMBER = "secondaryPhoneNumber",
+}
+
+@Entity()
+@Index(["userUuid", "target", "createdAt"])
+export class VerificationCode extends BaseUUIDEntity {
+  /**
+   * Column name: user_uuid
+   * The UUID of the user whose address is being verified.
+   */
+  @Column({ type: "uuid", name: "user_uuid" })
+  userUuid: string;
+
+  /**
+   * Many-to-One relationship with the User entity.
+   * Codes are removed together with their user.
+   */
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_uuid" })
+  user: Relation<User>;
+
+  /**
+   * Column name: target
+   * Which contact field the code verifies, e.g. "email" or "secondaryPhoneNumber".
+   */
+  @Column({ type: "varchar", length: 30 })
+  target: VerificationTarget;
+
+  /**
+   * Column name: address
+   * The email address or phone number the code was sent to. The code stops
+   * counting once the user's field holds a different value.
+   */
+  @Column({ type: "varchar", length: 255 })
+  address: string;
+
+  /**
+   * Column name: codeHash
+   * scrypt hash of the numeric code.
+   */
+  @Column({ type: "varchar", length: 255 })
+  codeHash: string;
+
+  /**
+   * Column name: linkTokenHash
+   * SHA-256 hash of the magic link token. Only emails carry a link.
+   */
+  @Index({ unique: true, where: `"linkTokenHash" IS NOT NULL` })
+  @Column({ type: "varchar", length: 64, nullable: true })
+  linkTokenHash: string | null;
+
+  /**
+   * Column name: expiresAt
+   * The time after which the code can no longer be confirmed.
+   */
+  @Column({ type: "timestamp" })
+  expiresAt: Date;
+
+  /**
+   * Column name: attempts
+   * Number of confirmation attempts made with a code so far.
+   */
+  @Column({ type: "int", default: 0 })
+  attempts: number;
+
+  /**
+   * Column name: consumedAt
+   * When the code was confirmed, or superseded by a newer one.
+   * Null while the code is pending.
+   */
+  @Column({ type: "timestamp", nullable: true })
+  consumedAt: Date | null;
+}
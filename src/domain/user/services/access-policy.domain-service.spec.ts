@@ -0,0 +1,42 @@
+import { AccessPolicyDomainService } from "./access-policy.domain-service";
+import { AccountType, User, UserRole } from "../entities/user.entity";
+
+describe("AccessPolicyDomainService", () => {
+  const service = new AccessPolicyDomainService();
+  const user = (fields: Partial<User>) =>
+    Object.assign(new User(), { role: UserRole.USER, ...fields });
+
+  it("admits the listed account types only", () => {
+    const studio = user({ accountType: AccountType.STUDIO });
+    const watcher = user({ accountType: AccountType.WATCHER });
+    expect(service.accountTypeRefusal(studio, [AccountType.STUDIO])).toBeNull();
+    expect(service.accountTypeRefusal(watcher, [AccountType.STUDIO])).toBe(
+      "Only studio accounts can do this",
+    );
+    expect(
+      service.accountTypeRefusal(watcher, [
+        AccountType.WATCHER,
+        AccountType.STUDIO,
+      ]),
+    ).toBeNull();
+  });
+
+  it("refuses users without an account type", () => {
+    expect(
+      service.accountTypeRefusal(user({ accountType: null }), [
+        AccountType.WATCHER,
+      ]),
+    ).toBe("Only watcher accounts can do this");
+    expect(service.accountTypeRefusal(undefined, [AccountType.STUDIO])).toBe(
+      "Only studio accounts can do this",
+    );
+  });
+
+  it("reserves administrator routes for admins", () => {
+    expect(service.adminRefusal(user({ role: UserRole.ADMIN }))).toBeNull();
+    expect(service.adminRefusal(user({}))).toBe(
+      "Administrator access required",
+    );
+    expect(service.isAdmin(null)).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Domain rules for platform-wide access: which account types may use a
+ * feature and what is reserved for administrators. Guards turn a refusal
+ * into a 403; what a user may do inside a studio is decided by
+ * StudioMembershipDomainService.
+ *
+ * @module UserModule
+ */
+
+import { Injectable } from "@nestjs/common";
+import { AccountType, User, UserRole } from "../entities/user.entity";
+
+const ACCOUNT_TYPE_NAMES: Record<AccountType, string> = {
+  [AccountType.WATCHER]: "watcher",
+  [AccountType.STUDIO]: "studio",
+};
+
+@Injectable()
+export class AccessPolicyDomainService {
+  isAdmin(user: User | null | undefined): boolean {
+    return user?.role === UserRole.ADMIN;
+  }
+
+  /**
+   * Explains why `user` may not use a feature limited to `allowed` account
+   * types.
+   * @returns {string | null} The reason, or null when access is allowed.
+   */
+  accountTypeRefusal(
+    user: User | null | undefined,
+    allowed: AccountType[],
+  ): string | null {
+    if (
+      user?.accountType &&
+      allowed.includes(user.accountType as AccountType)
+    ) {
+      return null;
+    }
+    const names = allowed.map((type) => ACCOUNT_TYPE_NAMES[type]);
+    return `Only ${names.join(" or ")} accounts can do this`;
+  }
+
+  adminRefusal(user: User | null | undefined): string | null {
+    return this.isAdmin(user) ? null : "Administrator access required";
+  }
+}
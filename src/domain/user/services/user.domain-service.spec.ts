@@ -0,0 +1,67 @@
+import { UserDomainService } from "./user.domain-service";
+import { UserSession } from "../entities/session.entity";
+
+describe("UserDomainService", () => {
+  const service = new UserDomainService();
+
+  describe("secrets", () => {
+    it("verifies a secret against its own hash", async () => {
+      const hash = await service.hashSecret("correct horse");
+      expect(hash).not.toContain("correct horse");
+      await expect(service.verifySecret("correct horse", hash)).resolves.toBe(
+        true,
+      );
+      await expect(service.verifySecret("wrong horse", hash)).resolves.toBe(
+        false,
+      );
+    });
+
+    it("salts every hash", async () => {
+      const [a, b] = await Promise.all([
+        service.hashSecret("1234"),
+        service.hashSecret("1234"),
+      ]);
+      expect(a).not.toEqual(b);
+    });
+
+    it("rejects a missing or malformed hash", async () => {
+      await expect(service.verifySecret("1234", null)).resolves.toBe(false);
+      await expect(service.verifySecret("1234", "garbage")).resolves.toBe(
+        false,
+      );
+    });
+  });
+
+  describe("sessions", () => {
+    const now = new Date("2024-01-01T12:00:00Z");
+    const session = (data: Partial<UserSession>) =>
+      Object.assign(new UserSession(), {
+        revokedAt: null,
+        pinVerifiedAt: null,
+        expiresAt: new Date("2024-01-02T00:00:00Z"),
+        ...data,
+      });
+
+    it("treats revoked or expired sessions as inactive", () => {
+      expect(service.isSessionActive(session({}), now)).toBe(true);
+      expect(service.isSessionActive(session({ revokedAt: now }), now)).toBe(
+        false,
+      );
+      expect(
+        service.isSessionActive(
+          session({ expiresAt: new Date("2024-01-01T11:00:00Z") }),
+          now,
+        ),
+      ).toBe(false);
+    });
+
+    it("expires the PIN step-up after the TTL", () => {
+      const verified = session({
+        pinVerifiedAt: new Date("2024-01-01T11:58:00Z"),
+      });
+      expect(service.isPinStepUpFresh(verified, 300, now)).toBe(true);
+      expect(service.isPinStepUpFresh(verified, 60, now)).toBe(false);
+      expect(service.isPinStepUpFresh(session({}), 300, now)).toBe(false);
+    });
+  });
+});
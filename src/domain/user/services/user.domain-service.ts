@@ -0,0 +1,82 @@
+/**
+ * Domain rules for user accounts: how secrets (passwords and PINs) are hashed
+ * and verified, and how identifying fields are normalised before storage.
+ *
+ * @module UserModule
+ */
+
+import { Injectable } from "@nestjs/common";
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "util";
+import { UserSession } from "../entities/session.entity";
+
+const scryptAsync = promisify(scrypt) as (
+  secret: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+@Injectable()
+export class UserDomainService {
+  /**
+   * Hashes a secret with scrypt and a random salt.
+   * @returns {Promise<string>} The hash encoded as "<salt>:<key>" in hex.
+   */
+  async hashSecret(secret: string): Promise<string> {
+    const salt = randomBytes(SALT_LENGTH);
+    const key = await scryptAsync(secret, salt, KEY_LENGTH);
+    return `${salt.toString("hex")}:${key.toString("hex")}`;
+  }
+
+  /**
+   * Checks a secret against a hash produced by {@link hashSecret}.
+   * Comparison runs in constant time.
+   */
+  async verifySecret(secret: string, hash: string | null): Promise<boolean> {
+    if (!hash) {
+      return false;
+    }
+    const [salt, key] = hash.split(":");
+    if (!salt || !key) {
+      return false;
+    }
+    const expected = Buffer.from(key, "hex");
+    const actual = await scryptAsync(
+      secret,
+      Buffer.from(salt, "hex"),
+      expected.length,
+    );
+    return timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Normalises an email address so lookups are case-insensitive.
+   */
+  normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  /**
+   * A session is usable while it is neither revoked nor expired.
+   */
+  isSessionActive(session: UserSession, now: Date = new Date()): boolean {
+    return !session.revokedAt && session.expiresAt.getTime() > now.getTime();
+  }
+
+  /**
+   * Whether the session passed a PIN step-up check within the last `ttlSeconds`.
+   */
+  isPinStepUpFresh(
+    session: UserSession,
+    ttlSeconds: number,
+    now: Date = new Date(),
+  ): boolean {
+    if (!session.pinVerifiedAt) {
+      return false;
+    }
+    return now.getTime() - session.pinVerifiedAt.getTime() <= ttlSeconds * 1000;
+  }
+}
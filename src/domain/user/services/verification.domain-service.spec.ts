@@ -0,0 +1,73 @@
+import { VerificationDomainService } from "./verification.domain-service";
+import {
+  VerificationCode,
+  VerificationTarget,
+} from "../entities/verification-code.entity";
+import { User } from "../entities/user.entity";
+
+describe("VerificationDomainService", () => {
+  const service = new VerificationDomainService();
+  const now = new Date("2024-01-01T12:00:00Z");
+
+  it("generates zero-padded numeric codes", () => {
+    for (let i = 0; i < 20; i++) {
+      expect(service.generateCode(6)).toMatch(/^\d{6}$/);
+    }
+  });
+
+  it("hashes link tokens deterministically", () => {
+    const token = service.generateLinkToken();
+    expect(service.hashLinkToken(token)).toBe(service.hashLinkToken(token));
+    expect(service.hashLinkToken(token)).not.toContain(token);
+  });
+
+  it("reads the address and flag of each target", () => {
+    const user = Object.assign(new User(), {
+      email: "ada@example.com",
+      secondaryPhoneNumber: null,
+      validatedEmail: true,
+      validatedSecondaryPhoneNumber: false,
+    });
+    expect(service.addressOf(user, VerificationTarget.EMAIL)).toBe(
+      "ada@example.com",
+    );
+    expect(
+      service.addressOf(user, VerificationTarget.SECONDARY_PHONE_NUMBER),
+    ).toBeNull();
+    expect(service.isVerified(user, VerificationTarget.EMAIL)).toBe(true);
+    expect(service.isEmailTarget(VerificationTarget.SECONDARY_EMAIL)).toBe(
+      true,
+    );
+    expect(service.isEmailTarget(VerificationTarget.PHONE_NUMBER)).toBe(false);
+  });
+
+  it("allows a resend once the cooldown has passed", () => {
+    expect(service.resendAvailableAt(now, 60)).toEqual(
+      new Date("2024-01-01T12:01:00Z"),
+    );
+    expect(service.resendAvailableAt(null, 60).getTime()).toBeLessThan(
+      now.getTime(),
+    );
+  });
+
+  it("refuses used, expired, outdated and exhausted codes", () => {
+    const code = (fields: Partial<VerificationCode>) =>
+      Object.assign(new VerificationCode(), {
+        address: "ada@example.com",
+        expiresAt: new Date("2024-01-01T12:10:00Z"),
+        attempts: 0,
+        consumedAt: null,
+        ...fields,
+      });
+    const refusal = (
+      fields: Partial<VerificationCode>,
+      address = "ada@example.com",
+    ) => service.refusal(code(fields), address, 5, now);
+
+    expect(refusal({})).toBeNull();
+    expect(refusal({ consumedAt: now })).toMatch(/used/);
+    expect(refusal({ expiresAt: now })).toMatch(/expired/);
+    expect(refusal({}, "grace@example.com")).toMatch(/changed/);
+    expect(refusal({ attempts: 5 })).toMatch(/Too many/);
+  });
+});
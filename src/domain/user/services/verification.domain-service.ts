@@ -0,0 +1,102 @@
+/**
+ * Domain rules for verifying a user's email addresses and phone numbers:
+ * how one-time codes and magic link tokens are made, when a new code may be
+ * sent and when a pending code can still be confirmed.
+ *
+ * @module UserModule
+ */
+
+import { Injectable } from "@nestjs/common";
+import { createHash, randomBytes, randomInt } from "node:crypto";
+import { User } from "../entities/user.entity";
+import {
+  VerificationCode,
+  VerificationTarget,
+} from "../entities/verification-code.entity";
+
+/**
+ * The User flag that records each target as verified.
+ */
+export const VERIFIED_FLAGS: Record<
+  VerificationTarget,
+  | "validatedEmail"
+  | "validatedPhoneNumber"
+  | "validatedSecondaryEmail"
+  | "validatedSecondaryPhoneNumber"
+> = {
+  [VerificationTarget.EMAIL]: "validatedEmail",
+  [VerificationTarget.PHONE_NUMBER]: "validatedPhoneNumber",
+  [VerificationTarget.SECONDARY_EMAIL]: "validatedSecondaryEmail",
+  [VerificationTarget.SECONDARY_PHONE_NUMBER]: "validatedSecondaryPhoneNumber",
+};
+
+const EMAIL_TARGETS = [
+  VerificationTarget.EMAIL,
+  VerificationTarget.SECONDARY_EMAIL,
+];
+
+@Injectable()
+export class VerificationDomainService {
+  /**
+   * A uniformly random numeric code of `length` digits.
+   */
+  generateCode(length: number): string {
+    return String(randomInt(0, 10 ** length)).padStart(length, "0");
+  }
+
+  generateLinkToken(): string {
+    return randomBytes(32).toString("base64url");
+  }
+
+  /**
+   * Link tokens carry 256 random bits, so a fast hash is enough.
+   */
+  hashLinkToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+  }
+
+  isEmailTarget(target: VerificationTarget): boolean {
+    return EMAIL_TARGETS.includes(target);
+  }
+
+  addressOf(user: User, target: VerificationTarget): string | null {
+    return user[target] ?? null;
+  }
+
+  isVerified(user: User, target: VerificationTarget): boolean {
+    return user[VERIFIED_FLAGS[target]];
+  }
+
+  /**
+   * When another code may be sent, counting from the latest one.
+   */
+  resendAvailableAt(lastSentAt: Date | null, cooldownSeconds: number): Date {
+    return new Date((lastSentAt?.getTime() ?? 0) + cooldownSeconds * 1000);
+  }
+
+  /**
+   * Explains why a code can no longer be confirmed for the user's current
+   * address.
+   * @returns {string | null} The reason, or null while the code is usable.
+   */
+  refusal(
+    code: VerificationCode,
+    address: string | null,
+    maxAttempts: number,
+    now: Date = new Date(),
+  ): string | null {
+    if (code.consumedAt) {
+      return "Code has already been used";
+    }
+    if (code.expiresAt.getTime() <= now.getTime()) {
+      return "Code has expired";
+    }
+    if (code.address !== address) {
+      return "The address has changed since the code was sent";
+    }
+    if (code.attempts >= maxAttempts) {
+      return "Too many attempts; request a new code";
+    }
+    return null;
+  }
+}
@@ -0,0 +1,58 @@
+import { applyDecorators, SetMetadata, UseGuards } from "@nestjs/common";
+import { ACCOUNT_TYPES, AccountTypeGuard } from "./account-type.guard";
+import { AdminGuard } from "./admin.guard";
+import { PinStepUpGuard } from "./pin-step-up.guard";
+import {
+  STUDIO_PERMISSION,
+  StudioPermissionGuard,
+  StudioPermissionRequirement,
+} from "./studio-permission.guard";
+import { StudioResource } from "../../applications/studio/studio-access.service";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { AccountType } from "../../domain/user/entities/user.entity";
+
+/*
+ * Route-level access policies. Each one adds its guard, which runs after the
+ * controller's AuthGuard and answers 403 with the reason when it refuses.
+ */
+
+/**
+ * Limits a route or controller to users holding one of `types`.
+ */
+export const RequireAccountType = (...types: AccountType[]) =>
+  applyDecorators(
+    SetMetadata(ACCOUNT_TYPES, types),
+    UseGuards(AccountTypeGuard),
+  );
+
+/**
+ * Limits a route or controller to platform administrators.
+ */
+export const RequireAdmin = () => UseGuards(AdminGuard);
+
+/**
+ * Limits a route to sessions that recently passed a PIN step-up check, for
+ * users who have set a PIN.
+ */
+export const RequirePinStepUp = () => UseGuards(PinStepUpGuard);
+
+/**
+ * Limits a route to members of the studio that owns the studio, playlist or
+ * media item in the URL, whose role grants `permission`. The resource's
+ * UUID is read from the `param` route parameter, by default ":id", or
+ * ":uuid" for media.
+ */
+export const RequireStudioPermission = (
+  permission: StudioPermission,
+  resource: StudioResource,
+  options: { param?: string; allowAdmins?: boolean } = {},
+) =>
+  applyDecorators(
+    SetMetadata(STUDIO_PERMISSION, {
+      permission,
+      resource,
+      param: options.param ?? (resource === "media" ? "uuid" : "id"),
+      allowAdmins: options.allowAdmins ?? false,
+    } satisfies StudioPermissionRequirement),
+    UseGuards(StudioPermissionGuard),
+  );
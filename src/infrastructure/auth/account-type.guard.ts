@@ -0,0 +1,42 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { AuthenticatedRequest } from "./auth-context";
+import { AccountType } from "../../domain/user/entities/user.entity";
+import { AccessPolicyDomainService } from "../../domain/user/services/access-policy.domain-service";
+
+export const ACCOUNT_TYPES = "accountTypes";
+
+/**
+ * Enforces {@link RequireAccountType}. Must run after {@link AuthGuard}.
+ */
+@Injectable()
+export class AccountTypeGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly accessPolicyDomainService: AccessPolicyDomainService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const allowed = this.reflector.getAllAndOverride<AccountType[]>(
+      ACCOUNT_TYPES,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!allowed) {
+      return true;
+    }
+    const { auth } = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const refusal = this.accessPolicyDomainService.accountTypeRefusal(
+      auth?.user,
+      allowed,
+    );
+    if (refusal) {
+      throw new ForbiddenException(refusal);
+    }
+    return true;
+  }
+}
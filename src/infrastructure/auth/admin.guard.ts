@@ -0,0 +1,27 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from "@nestjs/common";
+import { AuthenticatedRequest } from "./auth-context";
+import { AccessPolicyDomainService } from "../../domain/user/services/access-policy.domain-service";
+
+/**
+ * Restricts a route to platform administrators. Must run after {@link AuthGuard}.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  constructor(
+    private readonly accessPolicyDomainService: AccessPolicyDomainService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const { auth } = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const refusal = this.accessPolicyDomainService.adminRefusal(auth?.user);
+    if (refusal) {
+      throw new ForbiddenException(refusal);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,15 @@
+import { Request } from "express";
+import { User } from "../../domain/user/entities/user.entity";
+import { UserSession } from "../../domain/user/entities/session.entity";
+
+/**
+ * Identity of the caller, attached to the request by {@link AuthGuard}.
+ */
+export interface AuthContext {
+  user: User;
+  session: UserSession;
+}
+
+export interface AuthenticatedRequest extends Request {
+  auth: AuthContext;
+}
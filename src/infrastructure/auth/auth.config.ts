@@ -0,0 +1,21 @@
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Settings for token signing and session lifetimes, read from the environment.
+ * Durations are in seconds.
+ */
+export const authConfig = {
+  tokenSecret: process.env.AUTH_TOKEN_SECRET,
+  accessTokenTtl: parseInt(process.env.AUTH_ACCESS_TOKEN_TTL ?? "900", 10),
+  refreshTokenTtl: parseInt(
+    process.env.AUTH_REFRESH_TOKEN_TTL ?? String(30 * 24 * 60 * 60),
+    10,
+  ),
+  pinStepUpTtl: parseInt(process.env.AUTH_PIN_STEP_UP_TTL ?? "300", 10),
+  /** PIN step-up checks allowed between two password sign-ins. */
+  pinMaxAttempts: parseInt(process.env.AUTH_PIN_MAX_ATTEMPTS ?? "5", 10),
+  /** Devices a user may be signed in on at the same time. */
+  maxDevices: parseInt(process.env.AUTH_MAX_DEVICES ?? "5", 10),
+};
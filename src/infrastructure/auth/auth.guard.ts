@@ -0,0 +1,48 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { TokenService } from "./token.service";
+import { AuthenticatedRequest } from "./auth-context";
+import { SessionRepository } from "../repositories/session.repository";
+import { UserDomainService } from "../../domain/user/services/user.domain-service";
+
+/**
+ * Requires a valid bearer access token whose session has not been revoked.
+ * On success the caller's user and session are available as `request.auth`.
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly tokenService: TokenService,
+    private readonly sessionRepository: SessionRepository,
+    private readonly userDomainService: UserDomainService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const [scheme, token] = (request.headers.authorization ?? "").split(" ");
+    if (scheme !== "Bearer" || !token) {
+      throw new UnauthorizedException("Missing bearer token");
+    }
+
+    const payload = this.tokenService.verify(token, "access");
+    if (!payload) {
+      throw new UnauthorizedException("Invalid or expired access token");
+    }
+
+    const session = await this.sessionRepository.findWithUser(payload.sid);
+    if (
+      !session ||
+      session.userUuid !== payload.sub ||
+      !this.userDomainService.isSessionActive(session)
+    ) {
+      throw new UnauthorizedException("Session is no longer valid");
+    }
+
+    request.auth = { user: session.user, session };
+    return true;
+  }
+}
@@ -0,0 +1,18 @@
+import { createParamDecorator, ExecutionContext } from "@nestjs/common";
+import { AuthenticatedRequest } from "./auth-context";
+
+/**
+ * Injects the authenticated User into a route handler parameter.
+ */
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext) =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().auth?.user,
+);
+
+/**
+ * Injects the current UserSession into a route handler parameter.
+ */
+export const CurrentSession = createParamDecorator(
+  (_data: unknown, context: ExecutionContext) =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().auth?.session,
+);
@@ -0,0 +1,52 @@
+import { Injectable } from "@nestjs/common";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { authConfig } from "./auth.config";
+
+/**
+ * What a download link grants: one media item, to one user and optionally
+ * one of their devices, until `expires`.
+ */
+export interface DownloadClaims {
+  kind: string;
+  uuid: string;
+  userUuid: string;
+  deviceUuid: string | null;
+  /** Unix time in seconds. */
+  expires: number;
+}
+
+/**
+ * Signs download links with HMAC-SHA256 under the token secret. The user and
+ * device are part of the signed data but not of the link, so a link only
+ * verifies for the caller it was issued to.
+ */
+@Injectable()
+export class DownloadLinkSigner {
+  private readonly secret = authConfig.tokenSecret;
+
+  sign(claims: DownloadClaims): string {
+    if (!this.secret) {
+      throw new Error("AUTH_TOKEN_SECRET is not configured");
+    }
+    return createHmac("sha256", this.secret)
+      .update(
+        [
+          "download",
+          claims.kind,
+          claims.uuid,
+          claims.userUuid,
+          claims.deviceUuid ?? "",
+          claims.expires,
+        ].join("\n"),
+      )
+      .digest("base64url");
+  }
+
+  verify(claims: DownloadClaims, signature: string): boolean {
+    const expected = Buffer.from(this.sign(claims));
+    const actual = Buffer.from(signature);
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { ExecutionContext, INestApplication } from "@nestjs/common";
+import { Test } from "@nestjs/testing";
+import * as request from "supertest";
+import { AuthGuard } from "./auth.guard";
+import { AuthenticatedRequest } from "./auth-context";
+import { PinStepUpGuard } from "./pin-step-up.guard";
+import { UserController } from "../controllers/user.controller";
+import { UserService } from "../../applications/user/user.service";
+import { VerificationService } from "../../applications/user/verification.service";
+import { UserSession } from "../../domain/user/entities/session.entity";
+import { User } from "../../domain/user/entities/user.entity";
+import { UserDomainService } from "../../domain/user/services/user.domain-service";
+
+describe("PinStepUpGuard", () => {
+  let app: INestApplication;
+  const users = { setPin: jest.fn() };
+  const caller = Object.assign(new User(), { uuid: "u1", pin: "salt:key" });
+  const session = Object.assign(new UserSession(), {
+    pinVerifiedAt: null as Date | null,
+  });
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({
+      controllers: [UserController],
+      providers: [
+        UserDomainService,
+        PinStepUpGuard,
+        { provide: UserService, useValue: users },
+        { provide: VerificationService, useValue: {} },
+      ],
+    })
+      .overrideGuard(AuthGuard)
+      .useValue({
+        canActivate: (context: ExecutionContext) => {
+          context.switchToHttp().getRequest<AuthenticatedRequest>().auth = {
+            user: caller,
+            session,
+          };
+          return true;
+        },
+      })
+      .compile();
+    app = moduleRef.createNestApplication();
+    await app.init();
+  });
+
+  afterAll(() => app.close());
+
+  beforeEach(() => jest.clearAllMocks());
+
+  const changePin = () =>
+    request(app.getHttpServer())
+      .post("/users/me/pin")
+      .send({ password: "secret", pin: "1234" });
+
+  it("answers 403 to a session without a recent PIN check", async () => {
+    session.pinVerifiedAt = new Date(Date.now() - 60 * 60 * 1000);
+
+    await changePin().expect(403);
+    expect(users.setPin).not.toHaveBeenCalled();
+  });
+
+  it("lets a freshly verified session through", async () => {
+    session.pinVerifiedAt = new Date();
+
+    await changePin().expect(204);
+    expect(users.setPin).toHaveBeenCalled();
+  });
+});
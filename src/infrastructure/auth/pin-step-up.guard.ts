@@ -0,0 +1,34 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from "@nestjs/common";
+import { authConfig } from "./auth.config";
+import { AuthenticatedRequest } from "./auth-context";
+import { UserDomainService } from "../../domain/user/services/user.domain-service";
+
+/**
+ * Requires a recent PIN step-up check on the current session.
+ * Users who have not set a PIN pass through. Must run after {@link AuthGuard}.
+ */
+@Injectable()
+export class PinStepUpGuard implements CanActivate {
+  constructor(private readonly userDomainService: UserDomainService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const { auth } = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (!auth.user.pin) {
+      return true;
+    }
+    if (
+      !this.userDomainService.isPinStepUpFresh(
+        auth.session,
+        authConfig.pinStepUpTtl,
+      )
+    ) {
+      throw new ForbiddenException("PIN verification required");
+    }
+    return true;
+  }
+}
@@ -0,0 +1,101 @@
+import { BadRequestException, ForbiddenException } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { ExecutionContextHost } from "@nestjs/core/helpers/execution-context-host";
+import { RequireStudioPermission } from "./access.decorators";
+import { StudioPermissionGuard } from "./studio-permission.guard";
+import { StudioAccessService } from "../../applications/studio/studio-access.service";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { User, UserRole } from "../../domain/user/entities/user.entity";
+import { AccessPolicyDomainService } from "../../domain/user/services/access-policy.domain-service";
+
+class Routes {
+  @RequireStudioPermission(StudioPermission.MANAGE_MEDIA, "media")
+  archive() {}
+
+  @RequireStudioPermission(StudioPermission.VIEW_ANALYTICS, "studio", {
+    allowAdmins: true,
+  })
+  summary() {}
+
+  open() {}
+}
+
+describe("StudioPermissionGuard", () => {
+  const studioUuid = "5b6f8d3e-5c1a-4d8e-9f10-2a3b4c5d6e7f";
+  const mediaUuid = "0c2d4e6f-8a1b-4c3d-9e5f-7a9b1c3d5e7f";
+  const access = {
+    studioOf: jest.fn().mockResolvedValue(studioUuid),
+    assertPermission: jest.fn(),
+  };
+  const guard = new StudioPermissionGuard(
+    new Reflector(),
+    access as unknown as StudioAccessService,
+    new AccessPolicyDomainService(),
+  );
+  const user = Object.assign(new User(), { uuid: "u1", role: UserRole.USER });
+
+  const context = (
+    handler: keyof Routes,
+    params: Record<string, string>,
+    caller: User = user,
+  ) =>
+    new ExecutionContextHost(
+      [{ auth: { user: caller }, params }],
+      Routes,
+      Routes.prototype[handler],
+    );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it("passes routes without a requirement", async () => {
+    await expect(guard.canActivate(context("open", {}))).resolves.toBe(true);
+    expect(access.studioOf).not.toHaveBeenCalled();
+  });
+
+  it("checks the caller's role in the studio that owns the resource", async () => {
+    await expect(
+      guard.canActivate(context("archive", { kind: "video", uuid: mediaUuid })),
+    ).resolves.toBe(true);
+    expect(access.studioOf).toHaveBeenCalledWith("media", mediaUuid, "video");
+    expect(access.assertPermission).toHaveBeenCalledWith(
+      user,
+      studioUuid,
+      StudioPermission.MANAGE_MEDIA,
+      "media",
+    );
+  });
+
+  it("answers 403 with the refusal", async () => {
+    access.assertPermission.mockRejectedValueOnce(
+      new ForbiddenException("You do not manage this media"),
+    );
+    await expect(
+      guard.canActivate(context("archive", { kind: "music", uuid: mediaUuid })),
+    ).rejects.toThrow("You do not manage this media");
+  });
+
+  it("validates the parameters it reads", async () => {
+    await expect(
+      guard.canActivate(context("archive", { kind: "video", uuid: "nope" })),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      guard.canActivate(context("archive", { kind: "book", uuid: mediaUuid })),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(access.studioOf).not.toHaveBeenCalled();
+  });
+
+  it("lets administrators through where the route allows it", async () => {
+    const admin = Object.assign(new User(), { role: UserRole.ADMIN });
+    await expect(
+      guard.canActivate(context("summary", { id: studioUuid }, admin)),
+    ).resolves.toBe(true);
+    expect(access.assertPermission).not.toHaveBeenCalled();
+
+    await guard.canActivate(context("summary", { id: studioUuid }));
+    expect(access.studioOf).toHaveBeenCalledWith(
+      "studio",
+      studioUuid,
+      undefined,
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  ParseUUIDPipe,
+} from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { AuthenticatedRequest } from "./auth-context";
+import { MediaKindPipe } from "../pipes/media-kind.pipe";
+import {
+  StudioAccessService,
+  StudioResource,
+} from "../../applications/studio/studio-access.service";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { AccessPolicyDomainService } from "../../domain/user/services/access-policy.domain-service";
+
+export const STUDIO_PERMISSION = "studioPermission";
+
+export interface StudioPermissionRequirement {
+  permission: StudioPermission;
+  resource: StudioResource;
+  /** Route parameter holding the resource's UUID. Media also reads ":kind". */
+  param: string;
+  /** Whether platform administrators pass without being members. */
+  allowAdmins: boolean;
+}
+
+/**
+ * Enforces {@link RequireStudioPermission}: finds the studio that owns the
+ * resource named by the route and checks the caller's role in it. Runs
+ * before pipes, so it validates the parameters it reads itself. Must run
+ * after {@link AuthGuard}.
+ */
+@Injectable()
+export class StudioPermissionGuard implements CanActivate {
+  private readonly uuidPipe = new ParseUUIDPipe();
+  private readonly kindPipe = new MediaKindPipe();
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly studioAccessService: StudioAccessService,
+    private readonly accessPolicyDomainService: AccessPolicyDomainService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requirement =
+      this.reflector.getAllAndOverride<StudioPermissionRequirement>(
+        STUDIO_PERMISSION,
+        [context.getHandler(), context.getClass()],
+      );
+    if (!requirement) {
+      return true;
+    }
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const user = request.auth.user;
+    if (
+      requirement.allowAdmins &&
+      this.accessPolicyDomainService.isAdmin(user)
+    ) {
+      return true;
+    }
+
+    const uuid = await this.uuidPipe.transform(
+      request.params[requirement.param],
+      { type: "param", data: requirement.param },
+    );
+    const kind =
+      requirement.resource === "media"
+        ? this.kindPipe.transform(request.params.kind)
+        : undefined;
+    const studioUuid = await this.studioAccessService.studioOf(
+      requirement.resource,
+      uuid,
+      kind,
+    );
+    await this.studioAccessService.assertPermission(
+      user,
+      studioUuid,
+      requirement.permission,
+      requirement.resource,
+    );
+    return true;
+  }
+}
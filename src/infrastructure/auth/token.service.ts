@@ -0,0 +1,86 @@
+import { Injectable } from "@nestjs/common";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { authConfig } from "./auth.config";
+
+export type TokenType = "access" | "refresh";
+
+/**
+ * Claims carried by every token issued by the API.
+ */
+export interface TokenPayload {
+  /** UUID of the user the token was issued to. */
+  sub: string;
+  /** UUID of the session the token belongs to. */
+  sid: string;
+  typ: TokenType;
+  /** Unique token identifier, used to rotate refresh tokens. */
+  jti?: string;
+  iat: number;
+  exp: number;
+}
+
+const HEADER = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+/**
+ * Signs and verifies HS256 JSON Web Tokens with the configured secret.
+ */
+@Injectable()
+export class TokenService {
+  private readonly secret = authConfig.tokenSecret;
+
+  /**
+   * Issues a token of the given type that expires after `ttlSeconds`.
+   */
+  sign(
+    claims: Pick<TokenPayload, "sub" | "sid" | "typ" | "jti">,
+    ttlSeconds: number,
+  ): string {
+    const iat = Math.floor(Date.now() / 1000);
+    const payload: TokenPayload = { ...claims, iat, exp: iat + ttlSeconds };
+    const body = `${HEADER}.${base64url(JSON.stringify(payload))}`;
+    return `${body}.${this.signature(body)}`;
+  }
+
+  /**
+   * Verifies the signature, expiry and type of a token.
+   * @returns {TokenPayload | null} The claims, or null when the token is not valid.
+   */
+  verify(token: string, type: TokenType): TokenPayload | null {
+    const parts = token.split(".");
+    if (parts.length !== 3 || parts[0] !== HEADER) {
+      return null;
+    }
+    const expected = Buffer.from(this.signature(`${parts[0]}.${parts[1]}`));
+    const actual = Buffer.from(parts[2]);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      return null;
+    }
+
+    let payload: TokenPayload;
+    try {
+      payload = JSON.parse(
+        Buffer.from(parts[1], "base64url").toString("utf-8"),
+      );
+    } catch {
+      return null;
+    }
+    if (payload.typ !== type || payload.exp <= Date.now() / 1000) {
+      return null;
+    }
+    return payload;
+  }
+
+  private signature(body: string): string {
+    if (!this.secret) {
+      throw new Error("AUTH_TOKEN_SECRET is not configured");
+    }
+    return createHmac("sha256", this.secret).update(body).digest("base64url");
+  }
+}
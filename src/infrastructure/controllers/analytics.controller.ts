@@ -0,0 +1,102 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  Res,
+  UseGuards,
+} from "@nestjs/common";
+import { Response } from "express";
+import { AnalyticsService } from "../../applications/analytics/analytics.service";
+import { AnalyticsQueryDto } from "../../applications/analytics/dto/analytics-query.dto";
+import { AuthGuard } from "../auth/auth.guard";
+import { RequireStudioPermission } from "../auth/access.decorators";
+import { CurrentUser } from "../auth/current-user.decorator";
+import { toCsv } from "../http/csv";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+
+/**
+ * Studio analytics reports. Every report can be downloaded as CSV with
+ * `format=csv`.
+ */
+@Controller("analytics/studios")
+@UseGuards(AuthGuard)
+export class AnalyticsController {
+  constructor(private readonly analyticsService: AnalyticsService) {}
+
+  @Get(":id/timeseries")
+  @RequireStudioPermission(StudioPermission.VIEW_ANALYTICS, "studio", {
+    allowAdmins: true,
+  })
+  async timeSeries(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Query() query: AnalyticsQueryDto,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const points = await this.analyticsService.timeSeries(user, id, query);
+    if (query.format !== "csv") {
+      return points;
+    }
+    attachment(response, `timeseries-${id}.csv`);
+    return toCsv(["bucketStart", "interactionType", "count"], points);
+  }
+
+  @Get(":id/top-media")
+  @RequireStudioPermission(StudioPermission.VIEW_ANALYTICS, "studio", {
+    allowAdmins: true,
+  })
+  async topMedia(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Query() query: AnalyticsQueryDto,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const entries = await this.analyticsService.topMedia(user, id, query);
+    if (query.format !== "csv") {
+      return entries;
+    }
+    attachment(response, `top-media-${id}.csv`);
+    return toCsv(["rank", "mediaKind", "mediaUuid", "title", "count"], entries);
+  }
+
+  @Get(":id/summary")
+  @RequireStudioPermission(StudioPermission.VIEW_ANALYTICS, "studio", {
+    allowAdmins: true,
+  })
+  async summary(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Query() query: AnalyticsQueryDto,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const summary = await this.analyticsService.summary(user, id, query);
+    if (query.format !== "csv") {
+      return summary;
+    }
+    attachment(response, `summary-${id}.csv`);
+    return toCsv(
+      [
+        "studioUuid",
+        "playlistUuid",
+        "from",
+        "to",
+        "views",
+        "completions",
+        "seen",
+        "purchases",
+        "uniqueViewers",
+      ],
+      [summary],
+    );
+  }
+}
+
+function attachment(response: Response, filename: string) {
+  response.set({
+    "Content-Type": "text/csv; charset=utf-8",
+    "Content-Disposition": `attachment; filename="${filename}"`,
+  });
+}
@@ -0,0 +1,75 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from "@nestjs/common";
+import { CampaignService } from "../../applications/campaign/campaign.service";
+import {
+  CampaignQueryDto,
+  CreateCampaignDto,
+} from "../../applications/campaign/dto/campaign.dto";
+import { AuthGuard } from "../auth/auth.guard";
+import { RequireStudioPermission } from "../auth/access.decorators";
+import { CurrentUser } from "../auth/current-user.decorator";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+
+/**
+ * Campaigns a studio broadcasts to its audience.
+ */
+@Controller("studios/:id/campaigns")
+@UseGuards(AuthGuard)
+export class CampaignController {
+  constructor(private readonly campaignService: CampaignService) {}
+
+  @Post()
+  @RequireStudioPermission(StudioPermission.MANAGE_CAMPAIGNS, "studio")
+  create(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: CreateCampaignDto,
+  ) {
+    return this.campaignService.create(user, id, dto);
+  }
+
+  @Get()
+  @RequireStudioPermission(StudioPermission.MANAGE_CAMPAIGNS, "studio")
+  list(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Query() query: CampaignQueryDto,
+  ) {
+    return this.campaignService.list(user, id, query);
+  }
+
+  /**
+   * The campaign with its sent, failed and pending counts.
+   */
+  @Get(":campaignUuid")
+  @RequireStudioPermission(StudioPermission.MANAGE_CAMPAIGNS, "studio")
+  report(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("campaignUuid", ParseUUIDPipe) campaignUuid: string,
+  ) {
+    return this.campaignService.report(user, id, campaignUuid);
+  }
+
+  @Post(":campaignUuid/cancel")
+  @RequireStudioPermission(StudioPermission.MANAGE_CAMPAIGNS, "studio")
+  @HttpCode(HttpStatus.OK)
+  cancel(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("campaignUuid", ParseUUIDPipe) campaignUuid: string,
+  ) {
+    return this.campaignService.cancel(user, id, campaignUuid);
+  }
+}
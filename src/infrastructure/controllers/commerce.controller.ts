@@ -0,0 +1,73 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  UseGuards,
+} from "@nestjs/common";
+import { CommerceService } from "../../applications/commerce/commerce.service";
+import { CheckoutDto } from "../../applications/commerce/dto/checkout.dto";
+import { SetPricesDto } from "../../applications/commerce/dto/set-prices.dto";
+import { AuthGuard } from "../auth/auth.guard";
+import { RequireAdmin, RequirePinStepUp } from "../auth/access.decorators";
+import { CurrentUser } from "../auth/current-user.decorator";
+import { PurchasableKindPipe } from "../pipes/purchasable-kind.pipe";
+import { User } from "../../domain/user/entities/user.entity";
+import { PurchasableKind } from "../../domain/commerce/services/commerce.domain-service";
+
+@Controller("commerce")
+@UseGuards(AuthGuard)
+export class CommerceController {
+  constructor(private readonly commerceService: CommerceService) {}
+
+  @Get("prices/:kind/:uuid")
+  getPrices(
+    @Param("kind", PurchasableKindPipe) kind: PurchasableKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+  ) {
+    return this.commerceService.getPrices(kind, uuid);
+  }
+
+  @Put("prices/:kind/:uuid")
+  setPrices(
+    @CurrentUser() user: User,
+    @Param("kind", PurchasableKindPipe) kind: PurchasableKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Body() dto: SetPricesDto,
+  ) {
+    return this.commerceService.setPrices(user, kind, uuid, dto);
+  }
+
+  @Post("orders")
+  @RequirePinStepUp()
+  checkout(@CurrentUser() user: User, @Body() dto: CheckoutDto) {
+    return this.commerceService.checkout(user, dto);
+  }
+
+  @Get("orders")
+  listOrders(@CurrentUser() user: User) {
+    return this.commerceService.listOrders(user);
+  }
+
+  @Get("orders/:id")
+  getOrder(@CurrentUser() user: User, @Param("id", ParseUUIDPipe) id: string) {
+    return this.commerceService.getOrder(user, id);
+  }
+
+  /**
+   * Refunds an order in full. Administrators only.
+   */
+  @Post("orders/:id/refund")
+  @RequireAdmin()
+  refund(@Param("id", ParseUUIDPipe) id: string) {
+    return this.commerceService.refund(id);
+  }
+
+  @Get("entitlements")
+  listEntitlements(@CurrentUser() user: User) {
+    return this.commerceService.listEntitlements(user);
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from "@nestjs/common";
+import { DeviceService } from "../../applications/device/device.service";
+import { RegisterDeviceDto } from "../../applications/device/dto/register-device.dto";
+import { RequirePinStepUp } from "../auth/access.decorators";
+import { AuthGuard } from "../auth/auth.guard";
+import { CurrentSession, CurrentUser } from "../auth/current-user.decorator";
+import { User } from "../../domain/user/entities/user.entity";
+import { UserSession } from "../../domain/user/entities/session.entity";
+
+@Controller("devices")
+@UseGuards(AuthGuard)
+export class DeviceController {
+  constructor(private readonly deviceService: DeviceService) {}
+
+  @Post()
+  register(
+    @CurrentUser() user: User,
+    @CurrentSession() session: UserSession,
+    @Body() dto: RegisterDeviceDto,
+  ) {
+    return this.deviceService.register(user, session, dto);
+  }
+
+  @Get()
+  list(@CurrentUser() user: User) {
+    return this.deviceService.listActive(user);
+  }
+
+  @Post("sign-out")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequirePinStepUp()
+  signOutAll(@CurrentUser() user: User) {
+    return this.deviceService.signOutAll(user);
+  }
+
+  @Post(":id/sign-out")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  signOut(@CurrentUser() user: User, @Param("id", ParseUUIDPipe) id: string) {
+    return this.deviceService.signOut(user, id);
+  }
+}
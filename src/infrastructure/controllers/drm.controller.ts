@@ -0,0 +1,114 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  Res,
+  UseGuards,
+} from "@nestjs/common";
+import { Response } from "express";
+import { DrmKeyService } from "../../applications/drm/drm-key.service";
+import { DrmLicenseService } from "../../applications/drm/drm-license.service";
+import { DrmSettingsDto } from "../../applications/drm/dto/drm-settings.dto";
+import { AddContentKeyDto } from "../../applications/drm/dto/add-content-key.dto";
+import { AuthGuard } from "../auth/auth.guard";
+import { RequireStudioPermission } from "../auth/access.decorators";
+import { CurrentUser } from "../auth/current-user.decorator";
+import { CurrentRegion } from "../geo/viewer-region.decorator";
+import { MediaKindPipe } from "../pipes/media-kind.pipe";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { MediaKind } from "../../domain/media/services/media.domain-service";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+
+@Controller("drm")
+@UseGuards(AuthGuard)
+export class DrmController {
+  constructor(
+    private readonly drmKeyService: DrmKeyService,
+    private readonly drmLicenseService: DrmLicenseService,
+  ) {}
+
+  @Get(":kind/:uuid")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEDIA, "media")
+  getSettings(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+  ) {
+    return this.drmKeyService.getSettings(user, kind, uuid);
+  }
+
+  @Put(":kind/:uuid")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEDIA, "media")
+  updateSettings(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Body() dto: DrmSettingsDto,
+  ) {
+    return this.drmKeyService.updateSettings(user, kind, uuid, dto);
+  }
+
+  /**
+   * Adds a content key. The response is the only time the key is shown.
+   */
+  @Post(":kind/:uuid/keys")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEDIA, "media")
+  addKey(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Body() dto: AddContentKeyDto,
+  ) {
+    return this.drmKeyService.addKey(user, kind, uuid, dto);
+  }
+
+  @Delete(":kind/:uuid/keys/:keyId")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEDIA, "media")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  removeKey(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Param("keyId", ParseUUIDPipe) keyId: string,
+  ) {
+    return this.drmKeyService.removeKey(user, kind, uuid, keyId);
+  }
+
+  /**
+   * License endpoint for players. The body is the CDM's license request:
+   * JSON for Clear Key, or binary (application/octet-stream) for systems
+   * whose challenges are opaque.
+   */
+  @Post(":kind/:uuid/license")
+  async license(
+    @CurrentUser() user: User,
+    @CurrentRegion() region: ViewerRegion,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Body() body: unknown,
+    @Res() response: Response,
+  ) {
+    const license = await this.drmLicenseService.issue(
+      user,
+      region,
+      kind,
+      uuid,
+      Buffer.isBuffer(body) ? body : Buffer.from(JSON.stringify(body ?? {})),
+    );
+    response
+      .status(HttpStatus.OK)
+      .set({
+        "Content-Type": license.contentType,
+        "Cache-Control": "no-store",
+      })
+      .send(license.body);
+  }
+}
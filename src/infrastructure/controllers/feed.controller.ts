@@ -0,0 +1,34 @@
+import { Controller, Get, Query, UseGuards } from "@nestjs/common";
+import { StudioFollowService } from "../../applications/studio/studio-follow.service";
+import {
+  FeedQueryDto,
+  FollowingQueryDto,
+} from "../../applications/studio/dto/studio-follow.dto";
+import { AuthGuard } from "../auth/auth.guard";
+import { CurrentUser } from "../auth/current-user.decorator";
+import { CurrentRegion } from "../geo/viewer-region.decorator";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+
+@Controller("feed")
+@UseGuards(AuthGuard)
+export class FeedController {
+  constructor(private readonly studioFollowService: StudioFollowService) {}
+
+  /**
+   * New media and playlists from the studios the caller follows.
+   */
+  @Get()
+  feed(
+    @CurrentUser() user: User,
+    @Query() query: FeedQueryDto,
+    @CurrentRegion() region: ViewerRegion,
+  ) {
+    return this.studioFollowService.feed(user, query, region);
+  }
+
+  @Get("studios")
+  following(@CurrentUser() user: User, @Query() query: FollowingQueryDto) {
+    return this.studioFollowService.following(user, query);
+  }
+}
@@ -0,0 +1,71 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Put,
+  UseGuards,
+} from "@nestjs/common";
+import { GeoService } from "../../applications/geo/geo.service";
+import { RegionPolicyDto } from "../../applications/geo/dto/region-policy.dto";
+import { AuthGuard } from "../auth/auth.guard";
+import { RequireStudioPermission } from "../auth/access.decorators";
+import { CurrentUser } from "../auth/current-user.decorator";
+import { CurrentRegion } from "../geo/viewer-region.decorator";
+import { MediaKindPipe } from "../pipes/media-kind.pipe";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { MediaKind } from "../../domain/media/services/media.domain-service";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+
+@Controller("geo")
+@UseGuards(AuthGuard)
+export class GeoController {
+  constructor(private readonly geoService: GeoService) {}
+
+  /**
+   * The country requests are treated as coming from. Administrators can
+   * send X-Simulate-Country to check what a viewer elsewhere would get.
+   */
+  @Get("region")
+  region(@CurrentRegion() region: ViewerRegion) {
+    return region;
+  }
+
+  @Get("policies/studio/:uuid")
+  getStudioPolicy(@Param("uuid", ParseUUIDPipe) uuid: string) {
+    return this.geoService.getStudioPolicy(uuid);
+  }
+
+  @Put("policies/studio/:uuid")
+  @RequireStudioPermission(StudioPermission.MANAGE_STUDIO, "studio", {
+    param: "uuid",
+  })
+  setStudioPolicy(
+    @CurrentUser() user: User,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Body() dto: RegionPolicyDto,
+  ) {
+    return this.geoService.setStudioPolicy(user, uuid, dto);
+  }
+
+  @Get("policies/:kind/:uuid")
+  getMediaPolicy(
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+  ) {
+    return this.geoService.getMediaPolicy(kind, uuid);
+  }
+
+  @Put("policies/:kind/:uuid")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEDIA, "media")
+  setMediaPolicy(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Body() dto: RegionPolicyDto,
+  ) {
+    return this.geoService.setMediaPolicy(user, kind, uuid, dto);
+  }
+}
@@ -0,0 +1,461 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Header,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  Query,
+  Req,
+  Res,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from "@nestjs/common";
+import { FileInterceptor } from "@nestjs/platform-express";
+import { Request, Response } from "express";
+import { pipeline } from "node:stream/promises";
+import { MediaService } from "../../applications/media/media.service";
+import {
+  MediaStreamingService,
+  StreamRequestHeaders,
+  StreamResponse,
+} from "../../applications/media/media-streaming.service";
+import { MediaLifecycleService } from "../../applications/media/media-lifecycle.service";
+import { MediaRevisionService } from "../../applications/media/media-revision.service";
+import { MediaInteractionService } from "../../applications/media/media-interaction.service";
+import { MediaMetadataService } from "../../applications/media/media-metadata.service";
+import { MediaRenditionService } from "../../applications/media/media-rendition.service";
+import { MediaDownloadService } from "../../applications/media/media-download.service";
+import { StartUploadDto } from "../../applications/media/dto/start-upload.dto";
+import { ReportInteractionDto } from "../../applications/media/dto/report-interaction.dto";
+import { RegisterRenditionDto } from "../../applications/media/dto/register-rendition.dto";
+import { CreateDownloadLinkDto } from "../../applications/media/dto/create-download-link.dto";
+import { DownloadQueryDto } from "../../applications/media/dto/download-query.dto";
+import { AuthGuard } from "../auth/auth.guard";
+import { RequireStudioPermission } from "../auth/access.decorators";
+import { CurrentSession, CurrentUser } from "../auth/current-user.decorator";
+import { CurrentRegion } from "../geo/viewer-region.decorator";
+import { StoredUpload } from "../storage/driver-storage.engine";
+import { MediaKindPipe } from "../pipes/media-kind.pipe";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { UserSession } from "../../domain/user/entities/session.entity";
+import { MediaKind } from "../../domain/media/services/media.domain-service";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+
+@Controller("media")
+@UseGuards(AuthGuard)
+export class MediaController {
+  constructor(
+    private readonly mediaService: MediaService,
+    private readonly mediaStreamingService: MediaStreamingService,
+    private readonly mediaLifecycleService: MediaLifecycleService,
+    private readonly mediaRevisionService: MediaRevisionService,
+    private readonly mediaInteractionService: MediaInteractionService,
+    private readonly mediaMetadataService: MediaMetadataService,
+    private readonly mediaRenditionService: MediaRenditionService,
+    private readonly mediaDownloadService: MediaDownloadService,
+  ) {}
+
+  /**
+   * Single-request upload: multipart/form-data with a "file" part and the
+   * CreateMediaDto fields.
+   */
+  @Post()
+  @UseInterceptors(FileInterceptor("file"))
+  upload(
+    @CurrentUser() user: User,
+    @UploadedFile() file: StoredUpload,
+    @Body() body: Record<string, unknown>,
+  ) {
+    return this.mediaService.createFromUpload(user, file, body);
+  }
+
+  @Post("uploads")
+  startUpload(@CurrentUser() user: User, @Body() dto: StartUploadDto) {
+    return this.mediaService.startUpload(user, dto);
+  }
+
+  @Get("uploads/:uploadId")
+  getUpload(
+    @CurrentUser() user: User,
+    @Param("uploadId", ParseUUIDPipe) uploadId: string,
+  ) {
+    return this.mediaService.getUpload(user, uploadId);
+  }
+
+  /**
+   * Appends a chunk to a resumable upload. The raw request body is the chunk
+   * and Content-Range says where it belongs.
+   */
+  @Put("uploads/:uploadId")
+  appendChunk(
+    @CurrentUser() user: User,
+    @Param("uploadId", ParseUUIDPipe) uploadId: string,
+    @Headers("content-range") contentRange: string,
+    @Req() request: Request,
+  ) {
+    return this.mediaService.appendChunk(user, uploadId, contentRange, request);
+  }
+
+  @Post("uploads/:uploadId/complete")
+  completeUpload(
+    @CurrentUser() user: User,
+    @Param("uploadId", ParseUUIDPipe) uploadId: string,
+  ) {
+    return this.mediaService.completeUpload(user, uploadId);
+  }
+
+  @Delete("uploads/:uploadId")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  abortUpload(
+    @CurrentUser() user: User,
+    @Param("uploadId", ParseUUIDPipe) uploadId: string,
+  ) {
+    return this.mediaService.abortUpload(user, uploadId);
+  }
+
+  @Get(":kind/:uuid")
+  findOne(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @CurrentRegion() region: ViewerRegion,
+  ) {
+    return this.mediaService.findOne(user, region, kind, uuid);
+  }
+
+  @Post(":kind/:uuid/archive")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEDIA, "media")
+  archive(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+  ) {
+    return this.mediaLifecycleService.archive(user, kind, uuid);
+  }
+
+  /**
+   * Restores an archived or deleted item, as long as it has not been purged.
+   */
+  @Post(":kind/:uuid/restore")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEDIA, "media")
+  restore(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+  ) {
+    return this.mediaLifecycleService.restore(user, kind, uuid);
+  }
+
+  @Delete(":kind/:uuid")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEDIA, "media")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+  ) {
+    return this.mediaLifecycleService.delete(user, kind, uuid);
+  }
+
+  /**
+   * Reads the item's file again and refreshes its technical metadata.
+   */
+  @Post(":kind/:uuid/metadata/rescan")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEDIA, "media")
+  rescanMetadata(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+  ) {
+    return this.mediaMetadataService.rescan(user, kind, uuid);
+  }
+
+  /**
+   * Plays back music or video. Supports Range requests (206 Partial Content)
+   * and conditional requests against the checksum-based ETag.
+   */
+  @Get(":kind/:uuid/stream")
+  async stream(
+    @CurrentUser() user: User,
+    @CurrentRegion() region: ViewerRegion,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Req() request: Request,
+    @Res() response: Response,
+  ) {
+    const result = await this.mediaStreamingService.stream(
+      user,
+      region,
+      kind,
+      uuid,
+      streamHeaders(request),
+    );
+    await send(result, response);
+  }
+
+  /**
+   * Issues a short-lived signed link to download the original file. The link
+   * only works for the caller, and for the given device if one is named.
+   */
+  @Post(":kind/:uuid/download-links")
+  createDownloadLink(
+    @CurrentUser() user: User,
+    @CurrentRegion() region: ViewerRegion,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Body() dto: CreateDownloadLinkDto,
+  ) {
+    return this.mediaDownloadService.createLink(user, region, kind, uuid, dto);
+  }
+
+  /**
+   * Target of a signed download link: the file as an attachment, with Range
+   * support for resuming.
+   */
+  @Get(":kind/:uuid/download")
+  async download(
+    @CurrentUser() user: User,
+    @CurrentSession() session: UserSession,
+    @CurrentRegion() region: ViewerRegion,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Query() query: DownloadQueryDto,
+    @Req() request: Request,
+    @Res() response: Response,
+  ) {
+    const result = await this.mediaDownloadService.download(
+      user,
+      session,
+      region,
+      kind,
+      uuid,
+      query,
+      streamHeaders(request),
+    );
+    await send(result, response);
+  }
+
+  /**
+   * HLS master playlist over the item's renditions. Variant playlists and
+   * segments are referenced relative to it, under renditions/.
+   */
+  @Get(":kind/:uuid/manifest.m3u8")
+  @Header("Content-Type", "application/vnd.apple.mpegurl")
+  @Header("Cache-Control", "private, no-cache")
+  hlsMasterPlaylist(
+    @CurrentUser() user: User,
+    @CurrentRegion() region: ViewerRegion,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+  ) {
+    return this.mediaStreamingService.hlsMasterPlaylist(
+      user,
+      region,
+      kind,
+      uuid,
+    );
+  }
+
+  @Get(":kind/:uuid/manifest.mpd")
+  @Header("Content-Type", "application/dash+xml")
+  @Header("Cache-Control", "private, no-cache")
+  dashManifest(
+    @CurrentUser() user: User,
+    @CurrentRegion() region: ViewerRegion,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+  ) {
+    return this.mediaStreamingService.dashManifest(user, region, kind, uuid);
+  }
+
+  @Get(":kind/:uuid/renditions")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEDIA, "media")
+  listRenditions(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+  ) {
+    return this.mediaRenditionService.list(user, kind, uuid);
+  }
+
+  /**
+   * Registers a rendition whose segments are already in storage.
+   */
+  @Post(":kind/:uuid/renditions")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEDIA, "media")
+  registerRendition(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Body() dto: RegisterRenditionDto,
+  ) {
+    return this.mediaRenditionService.register(user, kind, uuid, dto);
+  }
+
+  @Delete(":kind/:uuid/renditions/:renditionUuid")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEDIA, "media")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  removeRendition(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Param("renditionUuid", ParseUUIDPipe) renditionUuid: string,
+  ) {
+    return this.mediaRenditionService.remove(user, kind, uuid, renditionUuid);
+  }
+
+  @Get(":kind/:uuid/renditions/:renditionUuid/playlist.m3u8")
+  @Header("Content-Type", "application/vnd.apple.mpegurl")
+  @Header("Cache-Control", "private, no-cache")
+  hlsMediaPlaylist(
+    @CurrentUser() user: User,
+    @CurrentRegion() region: ViewerRegion,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Param("renditionUuid", ParseUUIDPipe) renditionUuid: string,
+  ) {
+    return this.mediaStreamingService.hlsMediaPlaylist(
+      user,
+      region,
+      kind,
+      uuid,
+      renditionUuid,
+    );
+  }
+
+  @Get(":kind/:uuid/renditions/:renditionUuid/segments/:name")
+  async segment(
+    @CurrentUser() user: User,
+    @CurrentRegion() region: ViewerRegion,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Param("renditionUuid", ParseUUIDPipe) renditionUuid: string,
+    @Param("name") name: string,
+    @Req() request: Request,
+    @Res() response: Response,
+  ) {
+    const result = await this.mediaStreamingService.streamSegment(
+      user,
+      region,
+      kind,
+      uuid,
+      renditionUuid,
+      name,
+      streamHeaders(request),
+    );
+    await send(result, response);
+  }
+
+  /**
+   * Reports that a photo was seen or that playback reached the end.
+   */
+  @Post(":kind/:uuid/interactions")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  reportInteraction(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Body() dto: ReportInteractionDto,
+    @CurrentRegion() region: ViewerRegion,
+  ) {
+    return this.mediaInteractionService.report(user, region, kind, uuid, dto);
+  }
+
+  @Get(":kind/:uuid/revisions")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEDIA, "media")
+  listRevisions(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+  ) {
+    return this.mediaRevisionService.list(user, kind, uuid);
+  }
+
+  /**
+   * Uploads a new version of an item: multipart/form-data with a "file" part
+   * and optional CreateRevisionDto fields.
+   */
+  @Post(":kind/:uuid/revisions")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEDIA, "media")
+  @UseInterceptors(FileInterceptor("file"))
+  uploadRevision(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @UploadedFile() file: StoredUpload,
+    @Body() body: Record<string, unknown>,
+  ) {
+    return this.mediaRevisionService.upload(user, kind, uuid, file, body);
+  }
+
+  @Post(":kind/:uuid/revisions/:version/rollback")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEDIA, "media")
+  rollback(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Param("version", ParseIntPipe) version: number,
+  ) {
+    return this.mediaRevisionService.rollback(user, kind, uuid, version);
+  }
+
+  /**
+   * Fetches the file of any revision, with the same Range support as playback.
+   */
+  @Get(":kind/:uuid/revisions/:version/file")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEDIA, "media")
+  async revisionFile(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Param("version", ParseIntPipe) version: number,
+    @Req() request: Request,
+    @Res() response: Response,
+  ) {
+    const result = await this.mediaStreamingService.streamRevision(
+      user,
+      kind,
+      uuid,
+      version,
+      streamHeaders(request),
+    );
+    await send(result, response);
+  }
+}
+
+function streamHeaders(request: Request): StreamRequestHeaders {
+  return {
+    range: request.headers.range,
+    ifRange: request.header("if-range"),
+    ifMatch: request.header("if-match"),
+    ifNoneMatch: request.header("if-none-match"),
+    ifModifiedSince: request.header("if-modified-since"),
+    ifUnmodifiedSince: request.header("if-unmodified-since"),
+  };
+}
+
+async function send(result: StreamResponse, response: Response) {
+  response.status(result.status).set(result.headers);
+  if (!result.body) {
+    response.end();
+    return;
+  }
+  // Players abort requests while seeking; a closed connection is not an error.
+  const sent = await pipeline(result.body, response).then(
+    () => true,
+    () => false,
+  );
+  if (sent) {
+    result.onComplete?.();
+  }
+}
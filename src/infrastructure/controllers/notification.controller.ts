@@ -0,0 +1,57 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  UseGuards,
+} from "@nestjs/common";
+import { NotificationService } from "../../applications/notification/notification.service";
+import { NotificationPreferenceService } from "../../applications/notification/notification-preference.service";
+import { NotificationPreferencesDto } from "../../applications/notification/dto/notification-preferences.dto";
+import { PreviewNotificationDto } from "../../applications/notification/dto/preview-notification.dto";
+import { AuthGuard } from "../auth/auth.guard";
+import { RequireAdmin } from "../auth/access.decorators";
+import { CurrentUser } from "../auth/current-user.decorator";
+import { User } from "../../domain/user/entities/user.entity";
+
+@Controller("notifications")
+@UseGuards(AuthGuard)
+export class NotificationController {
+  constructor(
+    private readonly notificationService: NotificationService,
+    private readonly notificationPreferenceService: NotificationPreferenceService,
+  ) {}
+
+  @Get("preferences")
+  preferences(@CurrentUser() user: User) {
+    return this.notificationPreferenceService.get(user);
+  }
+
+  @Put("preferences")
+  updatePreferences(
+    @CurrentUser() user: User,
+    @Body() dto: NotificationPreferencesDto,
+  ) {
+    return this.notificationPreferenceService.update(user, dto);
+  }
+
+  @Get("templates")
+  @RequireAdmin()
+  templates() {
+    return this.notificationService.templates();
+  }
+
+  /**
+   * Renders a template as it would be sent, without sending it.
+   */
+  @Post("templates/:event/preview")
+  @RequireAdmin()
+  @HttpCode(HttpStatus.OK)
+  preview(@Param("event") event: string, @Body() dto: PreviewNotificationDto) {
+    return this.notificationService.preview(event, dto);
+  }
+}
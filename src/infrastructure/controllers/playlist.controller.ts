@@ -0,0 +1,107 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Put,
+  UseGuards,
+} from "@nestjs/common";
+import { PlaylistService } from "../../applications/playlist/playlist.service";
+import { CreatePlaylistDto } from "../../applications/playlist/dto/create-playlist.dto";
+import {
+  AddPlaylistItemDto,
+  MovePlaylistItemDto,
+  ReorderPlaylistDto,
+} from "../../applications/playlist/dto/playlist-item.dto";
+import { AuthGuard } from "../auth/auth.guard";
+import { RequireStudioPermission } from "../auth/access.decorators";
+import { CurrentUser } from "../auth/current-user.decorator";
+import { CurrentRegion } from "../geo/viewer-region.decorator";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+
+@Controller("playlists")
+@UseGuards(AuthGuard)
+export class PlaylistController {
+  constructor(private readonly playlistService: PlaylistService) {}
+
+  @Post()
+  create(@CurrentUser() user: User, @Body() dto: CreatePlaylistDto) {
+    return this.playlistService.create(user, dto);
+  }
+
+  /**
+   * The playlist with its music, photos and videos as one ordered timeline.
+   * Viewers outside the studio only find published playlists, without
+   * archived media or media that is not offered in their region.
+   */
+  @Get(":id")
+  findOne(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @CurrentRegion() region: ViewerRegion,
+  ) {
+    return this.playlistService.getVisibleTimeline(user, id, region);
+  }
+
+  @Post(":id/publish")
+  @RequireStudioPermission(StudioPermission.MANAGE_PLAYLISTS, "playlist")
+  publish(@CurrentUser() user: User, @Param("id", ParseUUIDPipe) id: string) {
+    return this.playlistService.publish(user, id);
+  }
+
+  @Post(":id/unpublish")
+  @RequireStudioPermission(StudioPermission.MANAGE_PLAYLISTS, "playlist")
+  unpublish(@CurrentUser() user: User, @Param("id", ParseUUIDPipe) id: string) {
+    return this.playlistService.unpublish(user, id);
+  }
+
+  @Post(":id/items")
+  @RequireStudioPermission(StudioPermission.MANAGE_PLAYLISTS, "playlist")
+  addItem(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: AddPlaylistItemDto,
+  ) {
+    return this.playlistService.addItem(user, id, dto);
+  }
+
+  /**
+   * Bulk reorder: the body lists every entry in the new order.
+   */
+  @Put(":id/items/order")
+  @RequireStudioPermission(StudioPermission.MANAGE_PLAYLISTS, "playlist")
+  reorder(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: ReorderPlaylistDto,
+  ) {
+    return this.playlistService.reorder(user, id, dto);
+  }
+
+  @Patch(":id/items/:itemId")
+  @RequireStudioPermission(StudioPermission.MANAGE_PLAYLISTS, "playlist")
+  moveItem(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("itemId", ParseUUIDPipe) itemId: string,
+    @Body() dto: MovePlaylistItemDto,
+  ) {
+    return this.playlistService.moveItem(user, id, itemId, dto);
+  }
+
+  @Delete(":id/items/:itemId")
+  @RequireStudioPermission(StudioPermission.MANAGE_PLAYLISTS, "playlist")
+  removeItem(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("itemId", ParseUUIDPipe) itemId: string,
+  ) {
+    return this.playlistService.removeItem(user, id, itemId);
+  }
+}
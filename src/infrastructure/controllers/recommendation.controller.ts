@@ -0,0 +1,49 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  UseGuards,
+} from "@nestjs/common";
+import { RecommendationService } from "../../applications/recommendation/recommendation.service";
+import { RecommendationQueryDto } from "../../applications/recommendation/dto/recommendation-query.dto";
+import { AuthGuard } from "../auth/auth.guard";
+import { CurrentUser } from "../auth/current-user.decorator";
+import { CurrentRegion } from "../geo/viewer-region.decorator";
+import { MediaKindPipe } from "../pipes/media-kind.pipe";
+import { MediaKind } from "../../domain/media/services/media.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+
+@Controller("recommendations")
+@UseGuards(AuthGuard)
+export class RecommendationController {
+  constructor(private readonly recommendationService: RecommendationService) {}
+
+  @Get("home")
+  home(
+    @CurrentUser() user: User,
+    @Query() query: RecommendationQueryDto,
+    @CurrentRegion() region: ViewerRegion,
+  ) {
+    return this.recommendationService.homeShelf(user, region, query.limit);
+  }
+
+  @Get("media/:kind/:uuid")
+  moreLikeThis(
+    @CurrentUser() user: User,
+    @Param("kind", MediaKindPipe) kind: MediaKind,
+    @Param("uuid", ParseUUIDPipe) uuid: string,
+    @Query() query: RecommendationQueryDto,
+    @CurrentRegion() region: ViewerRegion,
+  ) {
+    return this.recommendationService.moreLikeThis(
+      user,
+      kind,
+      uuid,
+      region,
+      query.limit,
+    );
+  }
+}
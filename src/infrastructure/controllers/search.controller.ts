@@ -0,0 +1,20 @@
+import { Controller, Get, Query, UseGuards } from "@nestjs/common";
+import { SearchService } from "../../applications/search/search.service";
+import { SearchQueryDto } from "../../applications/search/dto/search-query.dto";
+import { AuthGuard } from "../auth/auth.guard";
+import { CurrentRegion } from "../geo/viewer-region.decorator";
+import { ViewerRegion } from "../../domain/geo/services/geo.domain-service";
+
+@Controller("search")
+@UseGuards(AuthGuard)
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  @Get()
+  search(
+    @Query() query: SearchQueryDto,
+    @CurrentRegion() region: ViewerRegion,
+  ) {
+    return this.searchService.search(query, region);
+  }
+}
@@ -0,0 +1,38 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from "@nestjs/common";
+import { StudioFollowService } from "../../applications/studio/studio-follow.service";
+import { FollowStudioDto } from "../../applications/studio/dto/studio-follow.dto";
+import { AuthGuard } from "../auth/auth.guard";
+import { CurrentUser } from "../auth/current-user.decorator";
+import { User } from "../../domain/user/entities/user.entity";
+
+@Controller("studios")
+@UseGuards(AuthGuard)
+export class StudioFollowController {
+  constructor(private readonly studioFollowService: StudioFollowService) {}
+
+  @Post(":id/follow")
+  @HttpCode(HttpStatus.OK)
+  follow(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: FollowStudioDto,
+  ) {
+    return this.studioFollowService.follow(user, id, dto);
+  }
+
+  @Delete(":id/follow")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  unfollow(@CurrentUser() user: User, @Param("id", ParseUUIDPipe) id: string) {
+    return this.studioFollowService.unfollow(user, id);
+  }
+}
@@ -0,0 +1,121 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  UseGuards,
+} from "@nestjs/common";
+import { StudioMembershipService } from "../../applications/studio/studio-membership.service";
+import {
+  AcceptInvitationDto,
+  ChangeStudioRoleDto,
+  InviteStudioMemberDto,
+  TransferOwnershipDto,
+} from "../../applications/studio/dto/studio-member.dto";
+import { AuthGuard } from "../auth/auth.guard";
+import {
+  RequirePinStepUp,
+  RequireStudioPermission,
+} from "../auth/access.decorators";
+import { CurrentUser } from "../auth/current-user.decorator";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { User } from "../../domain/user/entities/user.entity";
+
+@Controller("studios")
+@UseGuards(AuthGuard)
+export class StudioMemberController {
+  constructor(
+    private readonly studioMembershipService: StudioMembershipService,
+  ) {}
+
+  @Post("invitations/accept")
+  accept(@CurrentUser() user: User, @Body() dto: AcceptInvitationDto) {
+    return this.studioMembershipService.accept(user, dto);
+  }
+
+  @Get(":id/members")
+  members(@CurrentUser() user: User, @Param("id", ParseUUIDPipe) id: string) {
+    return this.studioMembershipService.listMembers(user, id);
+  }
+
+  @Put(":id/members/:userUuid")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEMBERS, "studio")
+  changeRole(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("userUuid", ParseUUIDPipe) userUuid: string,
+    @Body() dto: ChangeStudioRoleDto,
+  ) {
+    return this.studioMembershipService.changeRole(user, id, userUuid, dto);
+  }
+
+  @Delete(":id/members/:userUuid")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEMBERS, "studio")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("userUuid", ParseUUIDPipe) userUuid: string,
+  ) {
+    return this.studioMembershipService.removeMember(user, id, userUuid);
+  }
+
+  @Post(":id/leave")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  leave(@CurrentUser() user: User, @Param("id", ParseUUIDPipe) id: string) {
+    return this.studioMembershipService.leave(user, id);
+  }
+
+  /**
+   * Makes another member the owner; the caller becomes an admin.
+   */
+  @Post(":id/transfer")
+  @RequirePinStepUp()
+  transfer(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: TransferOwnershipDto,
+  ) {
+    return this.studioMembershipService.transferOwnership(user, id, dto);
+  }
+
+  @Get(":id/invitations")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEMBERS, "studio")
+  invitations(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+  ) {
+    return this.studioMembershipService.listInvitations(user, id);
+  }
+
+  @Post(":id/invitations")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEMBERS, "studio")
+  invite(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: InviteStudioMemberDto,
+  ) {
+    return this.studioMembershipService.invite(user, id, dto);
+  }
+
+  @Delete(":id/invitations/:invitationId")
+  @RequireStudioPermission(StudioPermission.MANAGE_MEMBERS, "studio")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  revoke(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("invitationId", ParseUUIDPipe) invitationId: string,
+  ) {
+    return this.studioMembershipService.revokeInvitation(
+      user,
+      id,
+      invitationId,
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from "@nestjs/common";
+import { StudioService } from "../../applications/studio/studio.service";
+import {
+  ReviewQueueQueryDto,
+  ReviewStudioDto,
+} from "../../applications/studio/dto/review-studio.dto";
+import { AuthGuard } from "../auth/auth.guard";
+import { AdminGuard } from "../auth/admin.guard";
+import { CurrentUser } from "../auth/current-user.decorator";
+import { User } from "../../domain/user/entities/user.entity";
+
+/**
+ * Administrator endpoints for reviewing studios.
+ */
+@Controller("admin/studios")
+@UseGuards(AuthGuard, AdminGuard)
+export class StudioReviewController {
+  constructor(private readonly studioService: StudioService) {}
+
+  @Get("review-queue")
+  queue(@Query() query: ReviewQueueQueryDto) {
+    return this.studioService.reviewQueue(query);
+  }
+
+  /**
+   * Approves, rejects, requests changes to, suspends or reinstates a studio.
+   */
+  @Post(":id/review")
+  review(
+    @CurrentUser() reviewer: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: ReviewStudioDto,
+  ) {
+    return this.studioService.review(reviewer, id, dto);
+  }
+}
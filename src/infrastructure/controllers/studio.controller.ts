@@ -0,0 +1,58 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from "@nestjs/common";
+import { StudioService } from "../../applications/studio/studio.service";
+import { CreateStudioDto } from "../../applications/studio/dto/create-studio.dto";
+import { ResubmitStudioDto } from "../../applications/studio/dto/review-studio.dto";
+import { AuthGuard } from "../auth/auth.guard";
+import {
+  RequireAccountType,
+  RequireStudioPermission,
+} from "../auth/access.decorators";
+import { CurrentUser } from "../auth/current-user.decorator";
+import { StudioPermission } from "../../domain/studio/services/studio-membership.domain-service";
+import { AccountType, User } from "../../domain/user/entities/user.entity";
+
+@Controller("studios")
+@UseGuards(AuthGuard)
+export class StudioController {
+  constructor(private readonly studioService: StudioService) {}
+
+  @Post()
+  @RequireAccountType(AccountType.STUDIO)
+  create(@CurrentUser() user: User, @Body() dto: CreateStudioDto) {
+    return this.studioService.create(user, dto);
+  }
+
+  @Get(":id")
+  findOne(@Param("id", ParseUUIDPipe) id: string) {
+    return this.studioService.findOne(id);
+  }
+
+  @Get(":id/history")
+  @RequireStudioPermission(StudioPermission.MANAGE_STUDIO, "studio", {
+    allowAdmins: true,
+  })
+  history(@CurrentUser() user: User, @Param("id", ParseUUIDPipe) id: string) {
+    return this.studioService.history(user, id);
+  }
+
+  /**
+   * Sends a studio back to review after the owner addressed requested changes.
+   */
+  @Post(":id/resubmit")
+  @RequireStudioPermission(StudioPermission.MANAGE_STUDIO, "studio")
+  resubmit(
+    @CurrentUser() user: User,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() dto: ResubmitStudioDto,
+  ) {
+    return this.studioService.resubmit(user, id, dto);
+  }
+}
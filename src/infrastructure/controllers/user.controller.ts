@@ -0,0 +1,116 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Patch,
+  Post,
+  UseGuards,
+} from "@nestjs/common";
+import { UserService } from "../../applications/user/user.service";
+import { CreateUserDto } from "../../applications/user/dto/create-user.dto";
+import { LoginDto } from "../../applications/user/dto/login.dto";
+import { RefreshTokenDto } from "../../applications/user/dto/refresh-token.dto";
+import { SetPinDto, VerifyPinDto } from "../../applications/user/dto/pin.dto";
+import { UpdateContactDto } from "../../applications/user/dto/update-contact.dto";
+import {
+  ConfirmVerificationDto,
+  ConfirmVerificationLinkDto,
+  StartVerificationDto,
+} from "../../applications/user/dto/verification.dto";
+import { VerificationService } from "../../applications/user/verification.service";
+import { RequirePinStepUp } from "../auth/access.decorators";
+import { AuthGuard } from "../auth/auth.guard";
+import { CurrentSession, CurrentUser } from "../auth/current-user.decorator";
+import { User } from "../../domain/user/entities/user.entity";
+import { UserSession } from "../../domain/user/entities/session.entity";
+
+@Controller("users")
+export class UserController {
+  constructor(
+    private readonly userService: UserService,
+    private readonly verificationService: VerificationService,
+  ) {}
+
+  @Post("signup")
+  signup(@Body() dto: CreateUserDto) {
+    return this.userService.signup(dto);
+  }
+
+  @Post("login")
+  @HttpCode(HttpStatus.OK)
+  login(@Body() dto: LoginDto) {
+    return this.userService.login(dto);
+  }
+
+  @Post("refresh")
+  @HttpCode(HttpStatus.OK)
+  refresh(@Body() dto: RefreshTokenDto) {
+    return this.userService.refresh(dto.refreshToken);
+  }
+
+  @Post("logout")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(AuthGuard)
+  logout(@CurrentSession() session: UserSession) {
+    return this.userService.logout(session);
+  }
+
+  @Get("me")
+  @UseGuards(AuthGuard)
+  me(@CurrentUser() user: User) {
+    return user;
+  }
+
+  @Post("me/pin")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequirePinStepUp()
+  @UseGuards(AuthGuard)
+  setPin(@CurrentUser() user: User, @Body() dto: SetPinDto) {
+    return this.userService.setPin(user, dto);
+  }
+
+  @Post("me/pin/verify")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard)
+  verifyPin(
+    @CurrentUser() user: User,
+    @CurrentSession() session: UserSession,
+    @Body() dto: VerifyPinDto,
+  ) {
+    return this.userService.verifyPin(user, session, dto.pin);
+  }
+
+  @Patch("me/contact")
+  @UseGuards(AuthGuard)
+  updateContact(@CurrentUser() user: User, @Body() dto: UpdateContactDto) {
+    return this.userService.updateContact(user, dto);
+  }
+
+  @Post("me/verifications")
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(AuthGuard)
+  requestVerification(
+    @CurrentUser() user: User,
+    @Body() dto: StartVerificationDto,
+  ) {
+    return this.verificationService.request(user, dto.target);
+  }
+
+  @Post("me/verifications/confirm")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard)
+  confirmVerification(
+    @CurrentUser() user: User,
+    @Body() dto: ConfirmVerificationDto,
+  ) {
+    return this.verificationService.confirm(user, dto.target, dto.code);
+  }
+
+  @Post("verifications/link")
+  @HttpCode(HttpStatus.OK)
+  confirmVerificationLink(@Body() dto: ConfirmVerificationLinkDto) {
+    return this.verificationService.confirmLink(dto.token);
+  }
+}
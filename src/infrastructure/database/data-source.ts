@@ -0,0 +1,8 @@
+import { DataSource } from "typeorm";
+import { dataSourceOptions, loadDatabaseConfig } from "./database.config";
+
+/**
+ * Data source used by the TypeORM CLI (migrations) and the seed script.
+ * The application gets its own instance from DatabaseModule.
+ */
+export default new DataSource(dataSourceOptions(loadDatabaseConfig()));
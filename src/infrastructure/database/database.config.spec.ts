@@ -0,0 +1,43 @@
+import { loadDatabaseConfig } from "./database.config";
+
+describe("loadDatabaseConfig", () => {
+  const env = {
+    DATABASE_HOST: "localhost",
+    DATABASE_USERNAME: "wrappai",
+    DATABASE_NAME: "wrappai",
+  };
+
+  it("applies defaults for optional settings", () => {
+    expect(loadDatabaseConfig(env)).toEqual({
+      host: "localhost",
+      port: 5432,
+      username: "wrappai",
+      password: "",
+      database: "wrappai",
+      ssl: false,
+      logging: false,
+    });
+  });
+
+  it("reads the port and flags", () => {
+    const config = loadDatabaseConfig({
+      ...env,
+      DATABASE_PORT: "6543",
+      DATABASE_SSL: "true",
+    });
+    expect(config.port).toBe(6543);
+    expect(config.ssl).toBe(true);
+  });
+
+  it("lists every problem at once", () => {
+    expect(() =>
+      loadDatabaseConfig({
+        DATABASE_HOST: "localhost",
+        DATABASE_PORT: "postgres",
+        DATABASE_SSL: "yes",
+      }),
+    ).toThrow(
+      'Invalid database configuration: DATABASE_PORT must be a port number; DATABASE_USERNAME is required; DATABASE_NAME is required; DATABASE_SSL must be "true" or "false"',
+    );
+  });
+});
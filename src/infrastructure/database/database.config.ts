@@ -0,0 +1,83 @@
+import * as dotenv from "dotenv";
+import { DataSourceOptions } from "typeorm";
+import { ENTITIES } from "./entities";
+
+dotenv.config();
+
+/**
+ * Connection settings for the Postgres database.
+ */
+export interface DatabaseConfig {
+  host: string;
+  port: number;
+  username: string;
+  password: string;
+  database: string;
+  /** Connect over TLS; set DATABASE_SSL=true for managed databases. */
+  ssl: boolean;
+  /** Log every SQL statement; set DATABASE_LOGGING=true while debugging. */
+  logging: boolean;
+}
+
+/**
+ * Reads the database settings from the environment and checks them.
+ * @throws {Error} Listing every missing or malformed variable.
+ */
+export function loadDatabaseConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): DatabaseConfig {
+  const problems: string[] = [];
+  const required = (name: string) => {
+    const value = env[name]?.trim();
+    if (!value) {
+      problems.push(`${name} is required`);
+    }
+    return value ?? "";
+  };
+  const flag = (name: string) => {
+    const value = env[name] ?? "false";
+    if (value !== "true" && value !== "false") {
+      problems.push(`${name} must be "true" or "false"`);
+    }
+    return value === "true";
+  };
+
+  const port = Number(env.DATABASE_PORT ?? "5432");
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    problems.push("DATABASE_PORT must be a port number");
+  }
+  const config: DatabaseConfig = {
+    host: required("DATABASE_HOST"),
+    port,
+    username: required("DATABASE_USERNAME"),
+    password: env.DATABASE_PASSWORD ?? "",
+    database: required("DATABASE_NAME"),
+    ssl: flag("DATABASE_SSL"),
+    logging: flag("DATABASE_LOGGING"),
+  };
+  if (problems.length) {
+    throw new Error(`Invalid database configuration: ${problems.join("; ")}`);
+  }
+  return config;
+}
+
+/**
+ * Options shared by the application and the TypeORM CLI. The schema is only
+ * ever changed by migrations, never synchronised from the entities.
+ */
+export function dataSourceOptions(config: DatabaseConfig): DataSourceOptions {
+  return {
+    type: "postgres",
+    host: config.host,
+    port: config.port,
+    username: config.username,
+    password: config.password,
+    database: config.database,
+    ssl: config.ssl ? { rejectUnauthorized: true } : false,
+    logging: config.logging,
+    entities: ENTITIES,
+    migrations: [__dirname + "/migrations/*.{ts,js}"],
+    synchronize: false,
+    migrationsRun: false,
+  };
+}
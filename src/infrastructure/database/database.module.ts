@@ -0,0 +1,29 @@
+import { Global, Module, OnApplicationShutdown } from "@nestjs/common";
+import { DataSource } from "typeorm";
+import { dataSourceOptions, loadDatabaseConfig } from "./database.config";
+
+/**
+ * Provides the initialised TypeORM DataSource to every module. The
+ * configuration is checked before connecting, so the app refuses to start
+ * with incomplete settings.
+ */
+@Global()
+@Module({
+  providers: [
+    {
+      provide: DataSource,
+      useFactory: () =>
+        new DataSource(dataSourceOptions(loadDatabaseConfig())).initialize(),
+    },
+  ],
+  exports: [DataSource],
+})
+export class DatabaseModule implements OnApplicationShutdown {
+  constructor(private readonly dataSource: DataSource) {}
+
+  async onApplicationShutdown() {
+    if (this.dataSource.isInitialized) {
+      await this.dataSource.destroy();
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { AnalyticsBucket } from "../../domain/analytics/entities/analytics-bucket.entity";
+import { AnalyticsCheckpoint } from "../../domain/analytics/entities/analytics-checkpoint.entity";
+import { AnalyticsViewer } from "../../domain/analytics/entities/analytics-viewer.entity";
+import { Campaign } from "../../domain/campaign/entities/campaign.entity";
+import { Entitlement } from "../../domain/commerce/entities/entitlement.entity";
+import { LedgerEntry } from "../../domain/commerce/entities/ledger-entry.entity";
+import { Price } from "../../domain/commerce/entities/price.entity";
+import { PurchaseOrder } from "../../domain/commerce/entities/purchase-order.entity";
+import { Device } from "../../domain/device/entities/device.entity";
+import { ContentKey } from "../../domain/drm/entities/content-key.entity";
+import { MediaInteraction } from "../../domain/media/entities/media.interaction.entity";
+import { MediaRendition } from "../../domain/media/entities/media-rendition.entity";
+import { MediaRevision } from "../../domain/media/entities/media-revision.entity";
+import { Music } from "../../domain/media/entities/music.entity";
+import { Photo } from "../../domain/media/entities/photo.entity";
+import { Playlist } from "../../domain/media/entities/playlist.entity";
+import { PlaylistItem } from "../../domain/media/entities/playlist-item.entity";
+import { UploadSession } from "../../domain/media/entities/upload-session.entity";
+import { Video } from "../../domain/media/entities/video.entity";
+import { Notification } from "../../domain/notification/entities/notification.entity";
+import { NotificationPreference } from "../../domain/notification/entities/notification-preference.entity";
+import { MediaSimilarity } from "../../domain/recommendation/entities/media-similarity.entity";
+import { Studio } from "../../domain/studio/entities/studio.entity";
+import { StudioReviewEvent } from "../../domain/studio/entities/studio-review-event.entity";
+import { StudioMember } from "../../domain/studio/entities/studio-member.entity";
+import { StudioInvitation } from "../../domain/studio/entities/studio-invitation.entity";
+import { StudioFollower } from "../../domain/studio/entities/studio-follower.entity";
+import { UserSession } from "../../domain/user/entities/session.entity";
+import { User } from "../../domain/user/entities/user.entity";
+import { VerificationCode } from "../../domain/user/entities/verification-code.entity";
+
+/**
+ * Every entity of the domain. New entities must be added here to be mapped
+ * and picked up by migration:generate.
+ */
+export const ENTITIES = [
+  AnalyticsBucket,
+  AnalyticsCheckpoint,
+  AnalyticsViewer,
+  Campaign,
+  Entitlement,
+  LedgerEntry,
+  Price,
+  PurchaseOrder,
+  Device,
+  ContentKey,
+  MediaInteraction,
+  MediaRendition,
+  MediaRevision,
+  Music,
+  Photo,
+  Playlist,
+  PlaylistItem,
+  UploadSession,
+  Video,
+  Notification,
+  NotificationPreference,
+  MediaSimilarity,
+  Studio,
+  StudioReviewEvent,
+  StudioMember,
+  StudioInvitation,
+  StudioFollower,
+  UserSession,
+  User,
+  VerificationCode,
+];
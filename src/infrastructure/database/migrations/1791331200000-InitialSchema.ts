@@ -0,0 +1,537 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Creates the whole schema. Generated with `npm run migration:generate`; the
+ * search indexes at the end of up() were added by hand.
+ */
+export class InitialSchema1791331200000 implements MigrationInterface {
+  name = "InitialSchema1791331200000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const database = queryRunner.connection.driver.database;
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS "pg_trgm"`);
+    await queryRunner.query(
+      `CREATE TABLE "user_session" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "user_uuid" uuid NOT NULL, "refreshTokenHash" character varying(64) NOT NULL, "expiresAt" TIMESTAMP NOT NULL, "revokedAt" TIMESTAMP, "pinVerifiedAt" TIMESTAMP, CONSTRAINT "PK_7a3cd692f090009c9cb1125119e" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "device" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "name" character varying(255), "fcmToken" character varying(255), "user_uuid" uuid, "active" boolean NOT NULL DEFAULT false, "lastLoggedInTime" TIMESTAMP NOT NULL DEFAULT now(), "lastLoggedOutTime" TIMESTAMP, "session_uuid" uuid, CONSTRAINT "PK_0683d0c6ce6c0327208a026da57" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `INSERT INTO "typeorm_metadata"("database", "schema", "table", "type", "name", "value") VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        database,
+        "public",
+        "music",
+        "GENERATED_COLUMN",
+        "searchVector",
+        "setweight(to_tsvector('simple', coalesce(\"title\", '')), 'A') || setweight(to_tsvector('simple', coalesce(\"artist\", '') || ' ' || coalesce(\"album\", '')), 'B') || setweight(to_tsvector('simple', coalesce(\"genre\", '')), 'C') || setweight(to_tsvector('simple', coalesce(\"description\", '')), 'D')",
+      ],
+    );
+    await queryRunner.query(
+      `CREATE TABLE "music" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "url" character varying(255) NOT NULL, "title" character varying(255) NOT NULL, "description" character varying(255), "status" character varying(50) NOT NULL DEFAULT 'active', "archivedAt" TIMESTAMP, "deletedAt" TIMESTAMP, "version" integer NOT NULL DEFAULT '1', "availableFormats" text, "fileSize" bigint NOT NULL, "format" character varying(50) NOT NULL, "mimeType" character varying(100) NOT NULL, "storagePath" character varying(255) NOT NULL, "checksum" character varying(64), "storageProvider" character varying(100) NOT NULL, "hostingLocation" character varying(100) NOT NULL, "viewCount" integer NOT NULL DEFAULT '0', "downloadCount" integer NOT NULL DEFAULT '0', "lastAccessedAt" TIMESTAMP, "drmProtected" boolean NOT NULL DEFAULT false, "drmType" character varying(50), "licenseExpiryDate" date, "regionRestrictions" character varying(255), "downloadAllowed" boolean NOT NULL DEFAULT false, "streamingAllowed" boolean NOT NULL DEFAULT true, "artist" character varying(255) NOT NULL, "album" character varying(255), "genre" character varying(100), "duration" integer NOT NULL, "releasedAt" TIMESTAMP NOT NULL, "studio_uuid" uuid, "searchVector" tsvector GENERATED ALWAYS AS (setweight(to_tsvector('simple', coalesce("title", '')), 'A') || setweight(to_tsvector('simple', coalesce("artist", '') || ' ' || coalesce("album", '')), 'B') || setweight(to_tsvector('simple', coalesce("genre", '')), 'C') || setweight(to_tsvector('simple', coalesce("description", '')), 'D')) STORED NOT NULL, CONSTRAINT "PK_d8c06643b606a76377567862e9d" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `INSERT INTO "typeorm_metadata"("database", "schema", "table", "type", "name", "value") VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        database,
+        "public",
+        "photo",
+        "GENERATED_COLUMN",
+        "searchVector",
+        "setweight(to_tsvector('simple', coalesce(\"title\", '')), 'A') || setweight(to_tsvector('simple', coalesce(\"description\", '')), 'D')",
+      ],
+    );
+    await queryRunner.query(
+      `CREATE TABLE "photo" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "url" character varying(255) NOT NULL, "title" character varying(255) NOT NULL, "description" character varying(255), "status" character varying(50) NOT NULL DEFAULT 'active', "archivedAt" TIMESTAMP, "deletedAt" TIMESTAMP, "version" integer NOT NULL DEFAULT '1', "availableFormats" text, "fileSize" bigint NOT NULL, "format" character varying(50) NOT NULL, "mimeType" character varying(100) NOT NULL, "storagePath" character varying(255) NOT NULL, "checksum" character varying(64), "storageProvider" character varying(100) NOT NULL, "hostingLocation" character varying(100) NOT NULL, "viewCount" integer NOT NULL DEFAULT '0', "downloadCount" integer NOT NULL DEFAULT '0', "lastAccessedAt" TIMESTAMP, "drmProtected" boolean NOT NULL DEFAULT false, "drmType" character varying(50), "licenseExpiryDate" date, "regionRestrictions" character varying(255), "downloadAllowed" boolean NOT NULL DEFAULT false, "streamingAllowed" boolean NOT NULL DEFAULT true, "height" integer NOT NULL, "width" integer NOT NULL, "capturedAt" TIMESTAMP NOT NULL, "studio_uuid" uuid, "searchVector" tsvector GENERATED ALWAYS AS (setweight(to_tsvector('simple', coalesce("title", '')), 'A') || setweight(to_tsvector('simple', coalesce("description", '')), 'D')) STORED NOT NULL, CONSTRAINT "PK_e243b67014c3e6725e5ab65199b" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `INSERT INTO "typeorm_metadata"("database", "schema", "table", "type", "name", "value") VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        database,
+        "public",
+        "video",
+        "GENERATED_COLUMN",
+        "searchVector",
+        "setweight(to_tsvector('simple', coalesce(\"title\", '')), 'A') || setweight(to_tsvector('simple', coalesce(\"description\", '')), 'D')",
+      ],
+    );
+    await queryRunner.query(
+      `CREATE TABLE "video" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "url" character varying(255) NOT NULL, "title" character varying(255) NOT NULL, "description" character varying(255), "status" character varying(50) NOT NULL DEFAULT 'active', "archivedAt" TIMESTAMP, "deletedAt" TIMESTAMP, "version" integer NOT NULL DEFAULT '1', "availableFormats" text, "fileSize" bigint NOT NULL, "format" character varying(50) NOT NULL, "mimeType" character varying(100) NOT NULL, "storagePath" character varying(255) NOT NULL, "checksum" character varying(64), "storageProvider" character varying(100) NOT NULL, "hostingLocation" character varying(100) NOT NULL, "viewCount" integer NOT NULL DEFAULT '0', "downloadCount" integer NOT NULL DEFAULT '0', "lastAccessedAt" TIMESTAMP, "drmProtected" boolean NOT NULL DEFAULT false, "drmType" character varying(50), "licenseExpiryDate" date, "regionRestrictions" character varying(255), "downloadAllowed" boolean NOT NULL DEFAULT false, "streamingAllowed" boolean NOT NULL DEFAULT true, "duration" integer NOT NULL, "resolution" character varying(20) NOT NULL, "codec" character varying(50) NOT NULL, "frameRate" numeric(5,2) NOT NULL, "uploadedAt" TIMESTAMP NOT NULL, "studio_uuid" uuid, "searchVector" tsvector GENERATED ALWAYS AS (setweight(to_tsvector('simple', coalesce("title", '')), 'A') || setweight(to_tsvector('simple', coalesce("description", '')), 'D')) STORED NOT NULL, CONSTRAINT "PK_d80bea611910b0495fa043fe64c" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "playlist_item" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "playlist_uuid" uuid NOT NULL, "position" integer NOT NULL, "mediaKind" character varying(20) NOT NULL, "music_uuid" uuid, "photo_uuid" uuid, "video_uuid" uuid, CONSTRAINT "CHK_ce19542edfb3d849074445caa9" CHECK ((CASE WHEN "music_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "photo_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "video_uuid" IS NULL THEN 0 ELSE 1 END) = 1), CONSTRAINT "PK_8a1f41505ee60b0cff6985b0c7e" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_510bee026a46646cdf7698f5d6" ON "playlist_item" ("playlist_uuid", "position") `,
+    );
+    await queryRunner.query(
+      `INSERT INTO "typeorm_metadata"("database", "schema", "table", "type", "name", "value") VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        database,
+        "public",
+        "playlist",
+        "GENERATED_COLUMN",
+        "searchVector",
+        "setweight(to_tsvector('simple', coalesce(\"title\", '')), 'A') || setweight(to_tsvector('simple', coalesce(\"description\", '')), 'D')",
+      ],
+    );
+    await queryRunner.query(
+      `CREATE TABLE "playlist" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "title" character varying(255) NOT NULL, "description" character varying(255), "publishedAt" TIMESTAMP, "searchVector" tsvector GENERATED ALWAYS AS (setweight(to_tsvector('simple', coalesce("title", '')), 'A') || setweight(to_tsvector('simple', coalesce("description", '')), 'D')) STORED NOT NULL, "studioUuid" uuid, CONSTRAINT "PK_d8bb001fb09d88792e2a2b85628" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "media_interaction" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "interactionType" character varying(50) NOT NULL, "timestamp" TIMESTAMP NOT NULL, "userUuid" uuid, "musicUuid" uuid, "photoUuid" uuid, "videoUuid" uuid, "playlistUuid" uuid, CONSTRAINT "PK_88399d4c2994a3b72c31d7de9bb" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_81912ecc9d6fb106ef9c040503" ON "media_interaction" ("timestamp") `,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "notification_channel_enum" AS ENUM('email', 'SMS', 'WhatsApp', 'push')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "notification_status_enum" AS ENUM('pending', 'sent', 'failed')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "notification" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "recipient" character varying(255), "channel" "notification_channel_enum" NOT NULL DEFAULT 'WhatsApp', "message" bytea NOT NULL, "status" "notification_status_enum" NOT NULL DEFAULT 'pending', "sendAt" TIMESTAMP NOT NULL, "deliveredAt" TIMESTAMP, "errorLog" text, "subject" character varying(255), "attempts" integer NOT NULL DEFAULT '0', "nextAttemptAt" TIMESTAMP, "lockedUntil" TIMESTAMP, "studioUuid" uuid, "userUuid" uuid, CONSTRAINT "PK_b9fa421f94f7707ba109bf73b82" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "user" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "accountType" character varying(255), "role" character varying(20) NOT NULL DEFAULT 'USER', "channel" character varying(255), "phoneNumber" character varying(255), "secondaryPhoneNumber" character varying(255), "email" character varying(255) NOT NULL, "secondaryEmail" character varying(255), "validatedPhoneNumber" boolean NOT NULL DEFAULT false, "validatedEmail" boolean NOT NULL DEFAULT false, "validatedSecondaryPhoneNumber" boolean NOT NULL DEFAULT false, "validatedSecondaryEmail" boolean NOT NULL DEFAULT false, "pin" character varying(128), "password_hash" character varying(255) NOT NULL, "dateOfBirth" date, CONSTRAINT "UQ_f2578043e491921209f5dadd080" UNIQUE ("phoneNumber"), CONSTRAINT "UQ_e12875dfb3b1d92d7d7c5377e22" UNIQUE ("email"), CONSTRAINT "PK_a95e949168be7b7ece1a2382fed" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "studio_review_event" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "studio_uuid" uuid NOT NULL, "fromStatus" character varying(255), "toStatus" character varying(255) NOT NULL, "note" text, "actor_uuid" uuid, CONSTRAINT "PK_d9eca7d795faa31bc30a1297cae" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `INSERT INTO "typeorm_metadata"("database", "schema", "table", "type", "name", "value") VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        database,
+        "public",
+        "studio",
+        "GENERATED_COLUMN",
+        "searchVector",
+        "setweight(to_tsvector('simple', coalesce(\"name\", '')), 'A') || setweight(to_tsvector('simple', coalesce(\"description\", '')), 'D')",
+      ],
+    );
+    await queryRunner.query(
+      `CREATE TABLE "studio" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "status" character varying(255) NOT NULL DEFAULT 'IN-REVIEW', "name" character varying(255) NOT NULL, "description" character varying(255) NOT NULL, "picture_url" character varying(255), "searchVector" tsvector GENERATED ALWAYS AS (setweight(to_tsvector('simple', coalesce("name", '')), 'A') || setweight(to_tsvector('simple', coalesce("description", '')), 'D')) STORED NOT NULL, "userUuid" uuid, CONSTRAINT "PK_6656d3b7655aa1d0625988c5c0b" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "analytics_bucket" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "granularity" character varying(10) NOT NULL, "bucketStart" TIMESTAMP NOT NULL, "studio_uuid" uuid NOT NULL, "mediaKind" character varying(20), "mediaUuid" uuid, "playlistUuid" uuid, "interactionType" character varying(50) NOT NULL, "count" integer NOT NULL, CONSTRAINT "PK_1589d9ba38a8a9a6428d8944c67" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_def4e45e11f7bc5fa8f43ec8e4" ON "analytics_bucket" ("playlistUuid", "granularity", "bucketStart") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_6ec38f8e0d16a36c2b6bcd480c" ON "analytics_bucket" ("studio_uuid", "granularity", "bucketStart") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "analytics_checkpoint" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "name" character varying(100) NOT NULL, "rolledUpTo" TIMESTAMP, CONSTRAINT "UQ_99a77e26573defcfabd0043cb55" UNIQUE ("name"), CONSTRAINT "PK_f8179e3b2298507ee160474a056" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "analytics_viewer" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "day" date NOT NULL, "scopeUuid" uuid NOT NULL, "userUuid" uuid NOT NULL, CONSTRAINT "PK_18a598bab7e68e1eeb868d7233f" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_1a3c090d1ba95a522ecf263fe6" ON "analytics_viewer" ("scopeUuid", "day") `,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_66986e7fb55909aeae559612b6" ON "analytics_viewer" ("day", "scopeUuid", "userUuid") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "purchase_order" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "user_uuid" uuid NOT NULL, "targetKind" character varying(20) NOT NULL, "targetUuid" uuid NOT NULL, "studio_uuid" uuid, "currency" character(3) NOT NULL, "amount" integer NOT NULL, "status" character varying(20) NOT NULL DEFAULT 'pending', "gatewayProvider" character varying(50) NOT NULL, "gatewayReference" character varying(255), "failureReason" character varying(255), "paidAt" TIMESTAMP, "refundedAt" TIMESTAMP, CONSTRAINT "PK_f89edb67fb9fc7dbf2748e29bc7" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_019e5dc2d5c64a7a0cb5d306a4" ON "purchase_order" ("user_uuid", "createdAt") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "entitlement" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "user_uuid" uuid NOT NULL, "targetKind" character varying(20) NOT NULL, "targetUuid" uuid NOT NULL, "order_uuid" uuid, "revokedAt" TIMESTAMP, CONSTRAINT "PK_1285d451b6753b02929df719ddf" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_c3d393f502b054c722e2cd90a3" ON "entitlement" ("user_uuid", "targetKind", "targetUuid") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "ledger_entry" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "order_uuid" uuid NOT NULL, "entryType" character varying(30) NOT NULL, "studioUuid" uuid, "currency" character(3) NOT NULL, "amount" integer NOT NULL, CONSTRAINT "PK_1e2ca0e4e6a3451a8d80ea6e824" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_6900c6a9d6162d713069b9a80f" ON "ledger_entry" ("studioUuid", "createdAt") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "price" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "targetKind" character varying(20) NOT NULL, "currency" character(3) NOT NULL, "amount" integer NOT NULL, "music_uuid" uuid, "photo_uuid" uuid, "video_uuid" uuid, "playlist_uuid" uuid, CONSTRAINT "CHK_d3afad2af885075444bdbd4bff" CHECK ((CASE WHEN "music_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "photo_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "video_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "playlist_uuid" IS NULL THEN 0 ELSE 1 END) = 1), CONSTRAINT "PK_7f0da0f7db4c3f0af3bc89a2ff3" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_e623cf246848d93d2f5ceb4032" ON "price" ("playlist_uuid", "currency") `,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_79dddeed2f330d1f80a7509d44" ON "price" ("video_uuid", "currency") `,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_afadb59bfc12a4d6ef777df977" ON "price" ("photo_uuid", "currency") `,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_b8ccb7368f523fe0612706ba7a" ON "price" ("music_uuid", "currency") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "media_revision" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "mediaKind" character varying(20) NOT NULL, "version" integer NOT NULL, "storagePath" character varying(255) NOT NULL, "storageProvider" character varying(100) NOT NULL, "hostingLocation" character varying(100) NOT NULL, "fileSize" bigint NOT NULL, "checksum" character varying(64), "format" character varying(50) NOT NULL, "mimeType" character varying(100) NOT NULL, "technical" text NOT NULL, "note" text, "music_uuid" uuid, "photo_uuid" uuid, "video_uuid" uuid, "created_by_uuid" uuid, CONSTRAINT "CHK_529dc11c94af0348687518dbf5" CHECK ((CASE WHEN "music_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "photo_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "video_uuid" IS NULL THEN 0 ELSE 1 END) = 1), CONSTRAINT "PK_2d92ce6b1e25dbe8bf5350c0dc1" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_3521900722c46e9c765a9d7271" ON "media_revision" ("video_uuid", "version") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_77a559ec6de1d8b0cdfb023914" ON "media_revision" ("photo_uuid", "version") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_a94fa4e9f92aa0065fd55aee6f" ON "media_revision" ("music_uuid", "version") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "upload_session" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "user_uuid" uuid NOT NULL, "filename" character varying(255) NOT NULL, "totalSize" bigint NOT NULL, "receivedBytes" bigint NOT NULL DEFAULT '0', "chunks" text NOT NULL, "metadata" text NOT NULL, "status" character varying(20) NOT NULL DEFAULT 'open', "mediaUuid" uuid, CONSTRAINT "PK_1997dc980972ae74b019b90e950" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "media_similarity" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "sourceKind" character varying(20) NOT NULL, "sourceUuid" uuid NOT NULL, "targetKind" character varying(20) NOT NULL, "targetUuid" uuid NOT NULL, "score" double precision NOT NULL, "together" integer NOT NULL, CONSTRAINT "PK_c85aa18b915ea2f4a85bc5bd490" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_375cd8f88b0d98467c8e5109a8" ON "media_similarity" ("sourceKind", "sourceUuid", "score") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "verification_code" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "user_uuid" uuid NOT NULL, "target" character varying(30) NOT NULL, "address" character varying(255) NOT NULL, "codeHash" character varying(255) NOT NULL, "linkTokenHash" character varying(64), "expiresAt" TIMESTAMP NOT NULL, "attempts" integer NOT NULL DEFAULT '0', "consumedAt" TIMESTAMP, CONSTRAINT "PK_5342614d61333af21e5dda2b103" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_57b6b9959a9cd80228c2639e30" ON "verification_code" ("linkTokenHash") WHERE "linkTokenHash" IS NOT NULL`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ba5333bfff084390b3e768e40a" ON "verification_code" ("user_uuid", "target", "createdAt") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_session" ADD CONSTRAINT "FK_747a7e7c463c526972c5e1bc015" FOREIGN KEY ("user_uuid") REFERENCES "user"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "device" ADD CONSTRAINT "FK_f7ca1e85e4b449dd3cc2076b49a" FOREIGN KEY ("user_uuid") REFERENCES "user"("uuid") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "device" ADD CONSTRAINT "FK_922950e3de1f9bc277d35c72082" FOREIGN KEY ("session_uuid") REFERENCES "user_session"("uuid") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "music" ADD CONSTRAINT "FK_c7c097b9104f7d08cf92c76c921" FOREIGN KEY ("studio_uuid") REFERENCES "studio"("uuid") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "photo" ADD CONSTRAINT "FK_08e1ca3530e6198f251dfd55bab" FOREIGN KEY ("studio_uuid") REFERENCES "studio"("uuid") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "video" ADD CONSTRAINT "FK_856fda21e7a93d58f4b580d411d" FOREIGN KEY ("studio_uuid") REFERENCES "studio"("uuid") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "playlist_item" ADD CONSTRAINT "FK_f6e5ce8aaa63bc6873bcd554731" FOREIGN KEY ("playlist_uuid") REFERENCES "playlist"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "playlist_item" ADD CONSTRAINT "FK_3e2146c5fc1cc1d67d5993b515d" FOREIGN KEY ("music_uuid") REFERENCES "music"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "playlist_item" ADD CONSTRAINT "FK_05a045422584a3906000520eae5" FOREIGN KEY ("photo_uuid") REFERENCES "photo"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "playlist_item" ADD CONSTRAINT "FK_e17ea4a963b2de88911495e12bc" FOREIGN KEY ("video_uuid") REFERENCES "video"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "playlist" ADD CONSTRAINT "FK_95b134aff363600f089a7f47c57" FOREIGN KEY ("studioUuid") REFERENCES "studio"("uuid") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" ADD CONSTRAINT "FK_4a326296f19f5da705c8066ad89" FOREIGN KEY ("userUuid") REFERENCES "user"("uuid") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" ADD CONSTRAINT "FK_a2fb4938ba52dfd4e2f186869f0" FOREIGN KEY ("musicUuid") REFERENCES "music"("uuid") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" ADD CONSTRAINT "FK_70a7c988781907a8b5588337966" FOREIGN KEY ("photoUuid") REFERENCES "photo"("uuid") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" ADD CONSTRAINT "FK_713340313e3e96e03056560c968" FOREIGN KEY ("videoUuid") REFERENCES "video"("uuid") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" ADD CONSTRAINT "FK_26f5ecdc1ded29e0f64d06ea305" FOREIGN KEY ("playlistUuid") REFERENCES "playlist"("uuid") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification" ADD CONSTRAINT "FK_79981bc3d177ae883d61cb705bd" FOREIGN KEY ("studioUuid") REFERENCES "studio"("uuid") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification" ADD CONSTRAINT "FK_51bfefbe8aebf4c0663956301bc" FOREIGN KEY ("userUuid") REFERENCES "user"("uuid") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio_review_event" ADD CONSTRAINT "FK_5a7edf29ab543aadc9f2b550beb" FOREIGN KEY ("studio_uuid") REFERENCES "studio"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio_review_event" ADD CONSTRAINT "FK_1fac6f41a90656bb2ff7ffbd6e6" FOREIGN KEY ("actor_uuid") REFERENCES "user"("uuid") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio" ADD CONSTRAINT "FK_509adef4c0652ce4407dafadf10" FOREIGN KEY ("userUuid") REFERENCES "user"("uuid") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "analytics_bucket" ADD CONSTRAINT "FK_b96b8146b56c9b9ace8cd4a3ef5" FOREIGN KEY ("studio_uuid") REFERENCES "studio"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "purchase_order" ADD CONSTRAINT "FK_6c06e433e448a2eed81503b580d" FOREIGN KEY ("user_uuid") REFERENCES "user"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "purchase_order" ADD CONSTRAINT "FK_f107317f22c20f38f68115c443e" FOREIGN KEY ("studio_uuid") REFERENCES "studio"("uuid") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "entitlement" ADD CONSTRAINT "FK_0650741839db9ae92b488517c9f" FOREIGN KEY ("user_uuid") REFERENCES "user"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "entitlement" ADD CONSTRAINT "FK_876a7367e6afc48663cf4f5527e" FOREIGN KEY ("order_uuid") REFERENCES "purchase_order"("uuid") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ledger_entry" ADD CONSTRAINT "FK_ea2b6070f7135da0641f4517c84" FOREIGN KEY ("order_uuid") REFERENCES "purchase_order"("uuid") ON DELETE RESTRICT ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "price" ADD CONSTRAINT "FK_7c5bee103f25d585b22e5ea7767" FOREIGN KEY ("music_uuid") REFERENCES "music"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "price" ADD CONSTRAINT "FK_bbc246bf32d7d384b7405c99dc8" FOREIGN KEY ("photo_uuid") REFERENCES "photo"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "price" ADD CONSTRAINT "FK_82d8b140990b4fd0b2b5ed170f4" FOREIGN KEY ("video_uuid") REFERENCES "video"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "price" ADD CONSTRAINT "FK_92a9a07da6f8b13adb4a1a22b41" FOREIGN KEY ("playlist_uuid") REFERENCES "playlist"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_revision" ADD CONSTRAINT "FK_6ec316e49d763c7310062427b3e" FOREIGN KEY ("music_uuid") REFERENCES "music"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_revision" ADD CONSTRAINT "FK_9e37de42d5793edd9d285f2ad83" FOREIGN KEY ("photo_uuid") REFERENCES "photo"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_revision" ADD CONSTRAINT "FK_a1a8c44137969625ed3c610962b" FOREIGN KEY ("video_uuid") REFERENCES "video"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_revision" ADD CONSTRAINT "FK_cb4ee2f9025d9b472040c333cf5" FOREIGN KEY ("created_by_uuid") REFERENCES "user"("uuid") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "upload_session" ADD CONSTRAINT "FK_6096634760dc8238a206e1362d1" FOREIGN KEY ("user_uuid") REFERENCES "user"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "verification_code" ADD CONSTRAINT "FK_64aadecc0d89dc4a0c91d54de93" FOREIGN KEY ("user_uuid") REFERENCES "user"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    // Search indexes use operator classes entity metadata cannot express.
+    await queryRunner.query(
+      `CREATE INDEX "IDX_music_search_vector" ON "music" USING gin ("searchVector")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_photo_search_vector" ON "photo" USING gin ("searchVector")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_video_search_vector" ON "video" USING gin ("searchVector")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_playlist_search_vector" ON "playlist" USING gin ("searchVector")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_studio_search_vector" ON "studio" USING gin ("searchVector")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_music_title_trgm" ON "music" USING gin ("title" gin_trgm_ops)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_music_artist_trgm" ON "music" USING gin ("artist" gin_trgm_ops)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_photo_title_trgm" ON "photo" USING gin ("title" gin_trgm_ops)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_video_title_trgm" ON "video" USING gin ("title" gin_trgm_ops)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_playlist_title_trgm" ON "playlist" USING gin ("title" gin_trgm_ops)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_studio_name_trgm" ON "studio" USING gin ("name" gin_trgm_ops)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const database = queryRunner.connection.driver.database;
+    await queryRunner.query(`DROP INDEX "public"."IDX_studio_name_trgm"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_playlist_title_trgm"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_video_title_trgm"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_photo_title_trgm"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_music_artist_trgm"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_music_title_trgm"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_studio_search_vector"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_playlist_search_vector"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_video_search_vector"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_photo_search_vector"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_music_search_vector"`);
+    await queryRunner.query(
+      `ALTER TABLE "verification_code" DROP CONSTRAINT "FK_64aadecc0d89dc4a0c91d54de93"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "upload_session" DROP CONSTRAINT "FK_6096634760dc8238a206e1362d1"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_revision" DROP CONSTRAINT "FK_cb4ee2f9025d9b472040c333cf5"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_revision" DROP CONSTRAINT "FK_a1a8c44137969625ed3c610962b"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_revision" DROP CONSTRAINT "FK_9e37de42d5793edd9d285f2ad83"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_revision" DROP CONSTRAINT "FK_6ec316e49d763c7310062427b3e"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "price" DROP CONSTRAINT "FK_92a9a07da6f8b13adb4a1a22b41"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "price" DROP CONSTRAINT "FK_82d8b140990b4fd0b2b5ed170f4"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "price" DROP CONSTRAINT "FK_bbc246bf32d7d384b7405c99dc8"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "price" DROP CONSTRAINT "FK_7c5bee103f25d585b22e5ea7767"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ledger_entry" DROP CONSTRAINT "FK_ea2b6070f7135da0641f4517c84"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "entitlement" DROP CONSTRAINT "FK_876a7367e6afc48663cf4f5527e"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "entitlement" DROP CONSTRAINT "FK_0650741839db9ae92b488517c9f"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "purchase_order" DROP CONSTRAINT "FK_f107317f22c20f38f68115c443e"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "purchase_order" DROP CONSTRAINT "FK_6c06e433e448a2eed81503b580d"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "analytics_bucket" DROP CONSTRAINT "FK_b96b8146b56c9b9ace8cd4a3ef5"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio" DROP CONSTRAINT "FK_509adef4c0652ce4407dafadf10"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio_review_event" DROP CONSTRAINT "FK_1fac6f41a90656bb2ff7ffbd6e6"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio_review_event" DROP CONSTRAINT "FK_5a7edf29ab543aadc9f2b550beb"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification" DROP CONSTRAINT "FK_51bfefbe8aebf4c0663956301bc"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification" DROP CONSTRAINT "FK_79981bc3d177ae883d61cb705bd"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" DROP CONSTRAINT "FK_26f5ecdc1ded29e0f64d06ea305"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" DROP CONSTRAINT "FK_713340313e3e96e03056560c968"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" DROP CONSTRAINT "FK_70a7c988781907a8b5588337966"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" DROP CONSTRAINT "FK_a2fb4938ba52dfd4e2f186869f0"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" DROP CONSTRAINT "FK_4a326296f19f5da705c8066ad89"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "playlist" DROP CONSTRAINT "FK_95b134aff363600f089a7f47c57"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "playlist_item" DROP CONSTRAINT "FK_e17ea4a963b2de88911495e12bc"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "playlist_item" DROP CONSTRAINT "FK_05a045422584a3906000520eae5"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "playlist_item" DROP CONSTRAINT "FK_3e2146c5fc1cc1d67d5993b515d"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "playlist_item" DROP CONSTRAINT "FK_f6e5ce8aaa63bc6873bcd554731"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "video" DROP CONSTRAINT "FK_856fda21e7a93d58f4b580d411d"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "photo" DROP CONSTRAINT "FK_08e1ca3530e6198f251dfd55bab"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "music" DROP CONSTRAINT "FK_c7c097b9104f7d08cf92c76c921"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "device" DROP CONSTRAINT "FK_922950e3de1f9bc277d35c72082"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "device" DROP CONSTRAINT "FK_f7ca1e85e4b449dd3cc2076b49a"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_session" DROP CONSTRAINT "FK_747a7e7c463c526972c5e1bc015"`,
+    );
+    await queryRunner.query(`DROP INDEX "IDX_ba5333bfff084390b3e768e40a"`);
+    await queryRunner.query(`DROP INDEX "IDX_57b6b9959a9cd80228c2639e30"`);
+    await queryRunner.query(`DROP TABLE "verification_code"`);
+    await queryRunner.query(`DROP INDEX "IDX_375cd8f88b0d98467c8e5109a8"`);
+    await queryRunner.query(`DROP TABLE "media_similarity"`);
+    await queryRunner.query(`DROP TABLE "upload_session"`);
+    await queryRunner.query(`DROP INDEX "IDX_a94fa4e9f92aa0065fd55aee6f"`);
+    await queryRunner.query(`DROP INDEX "IDX_77a559ec6de1d8b0cdfb023914"`);
+    await queryRunner.query(`DROP INDEX "IDX_3521900722c46e9c765a9d7271"`);
+    await queryRunner.query(`DROP TABLE "media_revision"`);
+    await queryRunner.query(`DROP INDEX "IDX_b8ccb7368f523fe0612706ba7a"`);
+    await queryRunner.query(`DROP INDEX "IDX_afadb59bfc12a4d6ef777df977"`);
+    await queryRunner.query(`DROP INDEX "IDX_79dddeed2f330d1f80a7509d44"`);
+    await queryRunner.query(`DROP INDEX "IDX_e623cf246848d93d2f5ceb4032"`);
+    await queryRunner.query(`DROP TABLE "price"`);
+    await queryRunner.query(`DROP INDEX "IDX_6900c6a9d6162d713069b9a80f"`);
+    await queryRunner.query(`DROP TABLE "ledger_entry"`);
+    await queryRunner.query(`DROP INDEX "IDX_c3d393f502b054c722e2cd90a3"`);
+    await queryRunner.query(`DROP TABLE "entitlement"`);
+    await queryRunner.query(`DROP INDEX "IDX_019e5dc2d5c64a7a0cb5d306a4"`);
+    await queryRunner.query(`DROP TABLE "purchase_order"`);
+    await queryRunner.query(`DROP INDEX "IDX_66986e7fb55909aeae559612b6"`);
+    await queryRunner.query(`DROP INDEX "IDX_1a3c090d1ba95a522ecf263fe6"`);
+    await queryRunner.query(`DROP TABLE "analytics_viewer"`);
+    await queryRunner.query(`DROP TABLE "analytics_checkpoint"`);
+    await queryRunner.query(`DROP INDEX "IDX_6ec38f8e0d16a36c2b6bcd480c"`);
+    await queryRunner.query(`DROP INDEX "IDX_def4e45e11f7bc5fa8f43ec8e4"`);
+    await queryRunner.query(`DROP TABLE "analytics_bucket"`);
+    await queryRunner.query(`DROP TABLE "studio"`);
+    await queryRunner.query(
+      `DELETE FROM "typeorm_metadata" WHERE "type" = $1 AND "name" = $2 AND "database" = $3 AND "schema" = $4 AND "table" = $5`,
+      ["GENERATED_COLUMN", "searchVector", database, "public", "studio"],
+    );
+    await queryRunner.query(`DROP TABLE "studio_review_event"`);
+    await queryRunner.query(`DROP TABLE "user"`);
+    await queryRunner.query(`DROP TABLE "notification"`);
+    await queryRunner.query(`DROP TYPE "notification_status_enum"`);
+    await queryRunner.query(`DROP TYPE "notification_channel_enum"`);
+    await queryRunner.query(`DROP INDEX "IDX_81912ecc9d6fb106ef9c040503"`);
+    await queryRunner.query(`DROP TABLE "media_interaction"`);
+    await queryRunner.query(`DROP TABLE "playlist"`);
+    await queryRunner.query(
+      `DELETE FROM "typeorm_metadata" WHERE "type" = $1 AND "name" = $2 AND "database" = $3 AND "schema" = $4 AND "table" = $5`,
+      ["GENERATED_COLUMN", "searchVector", database, "public", "playlist"],
+    );
+    await queryRunner.query(`DROP INDEX "IDX_510bee026a46646cdf7698f5d6"`);
+    await queryRunner.query(`DROP TABLE "playlist_item"`);
+    await queryRunner.query(`DROP TABLE "video"`);
+    await queryRunner.query(
+      `DELETE FROM "typeorm_metadata" WHERE "type" = $1 AND "name" = $2 AND "database" = $3 AND "schema" = $4 AND "table" = $5`,
+      ["GENERATED_COLUMN", "searchVector", database, "public", "video"],
+    );
+    await queryRunner.query(`DROP TABLE "photo"`);
+    await queryRunner.query(
+      `DELETE FROM "typeorm_metadata" WHERE "type" = $1 AND "name" = $2 AND "database" = $3 AND "schema" = $4 AND "table" = $5`,
+      ["GENERATED_COLUMN", "searchVector", database, "public", "photo"],
+    );
+    await queryRunner.query(`DROP TABLE "music"`);
+    await queryRunner.query(
+      `DELETE FROM "typeorm_metadata" WHERE "type" = $1 AND "name" = $2 AND "database" = $3 AND "schema" = $4 AND "table" = $5`,
+      ["GENERATED_COLUMN", "searchVector", database, "public", "music"],
+    );
+    await queryRunner.query(`DROP TABLE "device"`);
+    await queryRunner.query(`DROP TABLE "user_session"`);
+    await queryRunner.query(`DROP EXTENSION IF EXISTS "pg_trgm"`);
+  }
+}
@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MediaMetadataStatus1791936000000 implements MigrationInterface {
+  name = "MediaMetadataStatus1791936000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "music" ADD "metadataStatus" character varying(20) NOT NULL DEFAULT 'unscanned'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "music" ADD "metadataScannedAt" TIMESTAMP`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "photo" ADD "metadataStatus" character varying(20) NOT NULL DEFAULT 'unscanned'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "photo" ADD "metadataScannedAt" TIMESTAMP`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "video" ADD "metadataStatus" character varying(20) NOT NULL DEFAULT 'unscanned'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "video" ADD "metadataScannedAt" TIMESTAMP`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "video" DROP COLUMN "metadataScannedAt"`,
+    );
+    await queryRunner.query(`ALTER TABLE "video" DROP COLUMN "metadataStatus"`);
+    await queryRunner.query(
+      `ALTER TABLE "photo" DROP COLUMN "metadataScannedAt"`,
+    );
+    await queryRunner.query(`ALTER TABLE "photo" DROP COLUMN "metadataStatus"`);
+    await queryRunner.query(
+      `ALTER TABLE "music" DROP COLUMN "metadataScannedAt"`,
+    );
+    await queryRunner.query(`ALTER TABLE "music" DROP COLUMN "metadataStatus"`);
+  }
+}
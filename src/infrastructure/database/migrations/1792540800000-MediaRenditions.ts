@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MediaRenditions1792540800000 implements MigrationInterface {
+  name = "MediaRenditions1792540800000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "media_rendition" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "mediaKind" character varying(20) NOT NULL, "label" character varying(50) NOT NULL, "bandwidth" integer NOT NULL, "codecs" character varying(100) NOT NULL, "width" integer, "height" integer, "frameRate" numeric(5,2), "container" character varying(10) NOT NULL, "storagePrefix" character varying(255) NOT NULL, "initSegment" character varying(255), "segmentTemplate" character varying(255) NOT NULL, "segmentDuration" integer NOT NULL, "segmentCount" integer NOT NULL, "music_uuid" uuid, "video_uuid" uuid, CONSTRAINT "CHK_4da720452b8935f6c9f142ead1" CHECK ((CASE WHEN "music_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "video_uuid" IS NULL THEN 0 ELSE 1 END) = 1), CONSTRAINT "PK_0758a5d2f2c94731187f0bf5eff" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_c09bc487a0215027e53607545a" ON "media_rendition" ("video_uuid", "bandwidth") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_8149cbf9fd277480f8aa4281a6" ON "media_rendition" ("music_uuid", "bandwidth") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_rendition" ADD CONSTRAINT "FK_b28aed14b486e4c9030405e9507" FOREIGN KEY ("music_uuid") REFERENCES "music"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_rendition" ADD CONSTRAINT "FK_3ef7b131e390bff2c61b5284aa5" FOREIGN KEY ("video_uuid") REFERENCES "video"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "media_rendition" DROP CONSTRAINT "FK_3ef7b131e390bff2c61b5284aa5"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_rendition" DROP CONSTRAINT "FK_b28aed14b486e4c9030405e9507"`,
+    );
+    await queryRunner.query(`DROP INDEX "IDX_8149cbf9fd277480f8aa4281a6"`);
+    await queryRunner.query(`DROP INDEX "IDX_c09bc487a0215027e53607545a"`);
+    await queryRunner.query(`DROP TABLE "media_rendition"`);
+  }
+}
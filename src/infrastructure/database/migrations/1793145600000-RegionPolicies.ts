@@ -0,0 +1,60 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class RegionPolicies1793145600000 implements MigrationInterface {
+  name = "RegionPolicies1793145600000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "music" ADD "regionMode" character varying(10)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "music" ALTER COLUMN "regionRestrictions" TYPE text`,
+    );
+    await queryRunner.query(
+      `UPDATE "music" SET "regionMode" = 'deny' WHERE "regionRestrictions" IS NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "photo" ADD "regionMode" character varying(10)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "photo" ALTER COLUMN "regionRestrictions" TYPE text`,
+    );
+    await queryRunner.query(
+      `UPDATE "photo" SET "regionMode" = 'deny' WHERE "regionRestrictions" IS NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "video" ADD "regionMode" character varying(10)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "video" ALTER COLUMN "regionRestrictions" TYPE text`,
+    );
+    await queryRunner.query(
+      `UPDATE "video" SET "regionMode" = 'deny' WHERE "regionRestrictions" IS NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio" ADD "regionMode" character varying(10)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio" ADD "regionRestrictions" text`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "studio" DROP COLUMN "regionRestrictions"`,
+    );
+    await queryRunner.query(`ALTER TABLE "studio" DROP COLUMN "regionMode"`);
+    await queryRunner.query(
+      `ALTER TABLE "video" ALTER COLUMN "regionRestrictions" TYPE character varying(255)`,
+    );
+    await queryRunner.query(`ALTER TABLE "video" DROP COLUMN "regionMode"`);
+    await queryRunner.query(
+      `ALTER TABLE "photo" ALTER COLUMN "regionRestrictions" TYPE character varying(255)`,
+    );
+    await queryRunner.query(`ALTER TABLE "photo" DROP COLUMN "regionMode"`);
+    await queryRunner.query(
+      `ALTER TABLE "music" ALTER COLUMN "regionRestrictions" TYPE character varying(255)`,
+    );
+    await queryRunner.query(`ALTER TABLE "music" DROP COLUMN "regionMode"`);
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class ContentKeys1793750400000 implements MigrationInterface {
+  name = "ContentKeys1793750400000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "content_key" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "mediaKind" character varying(20) NOT NULL, "keyId" uuid NOT NULL, "masterKeyId" character varying(50) NOT NULL, "encryptedKey" text NOT NULL, "music_uuid" uuid, "video_uuid" uuid, CONSTRAINT "UQ_4cbbe6ee5cbc8642e97eb634c24" UNIQUE ("keyId"), CONSTRAINT "CHK_ddb4c07839b755d94d46fa59ef" CHECK ((CASE WHEN "music_uuid" IS NULL THEN 0 ELSE 1 END + CASE WHEN "video_uuid" IS NULL THEN 0 ELSE 1 END) = 1), CONSTRAINT "PK_07b96a825a0f2233ada8119a510" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_bca707ceb4de28ee1f27e32e1b" ON "content_key" ("video_uuid", "createdAt") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_4fcdc1dea9a37ca21ae2b17cd5" ON "content_key" ("music_uuid", "createdAt") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "content_key" ADD CONSTRAINT "FK_6b78166b2c2d0893b9738d15918" FOREIGN KEY ("music_uuid") REFERENCES "music"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "content_key" ADD CONSTRAINT "FK_f21a8f167188e57324128de1515" FOREIGN KEY ("video_uuid") REFERENCES "video"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "content_key" DROP CONSTRAINT "FK_f21a8f167188e57324128de1515"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "content_key" DROP CONSTRAINT "FK_6b78166b2c2d0893b9738d15918"`,
+    );
+    await queryRunner.query(`DROP INDEX "IDX_bca707ceb4de28ee1f27e32e1b"`);
+    await queryRunner.query(`DROP INDEX "IDX_4fcdc1dea9a37ca21ae2b17cd5"`);
+    await queryRunner.query(`DROP TABLE "content_key"`);
+  }
+}
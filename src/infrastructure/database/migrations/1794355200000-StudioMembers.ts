@@ -0,0 +1,62 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class StudioMembers1794355200000 implements MigrationInterface {
+  name = "StudioMembers1794355200000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "studio_member" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "studio_uuid" uuid NOT NULL, "user_uuid" uuid NOT NULL, "role" character varying(20) NOT NULL, CONSTRAINT "PK_f589e00a68aa14a0a179ba2394a" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_aabbad39240f8a74de986d7aec" ON "studio_member" ("user_uuid")`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_0eebd687e26963cbe3e907bb00" ON "studio_member" ("studio_uuid", "user_uuid")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "studio_invitation" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "studio_uuid" uuid NOT NULL, "email" character varying(255) NOT NULL, "role" character varying(20) NOT NULL, "tokenHash" character varying(64) NOT NULL, "expiresAt" TIMESTAMP NOT NULL, "acceptedAt" TIMESTAMP, "invited_by_uuid" uuid, CONSTRAINT "PK_a606123c3cdb752cb91143a3f06" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_2e9e07dd42e0941e4017db5a5c" ON "studio_invitation" ("tokenHash")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_81290ae8f04aeee3e797678bf1" ON "studio_invitation" ("studio_uuid", "createdAt")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio_member" ADD CONSTRAINT "FK_55133fb7589d4f79ed045dea497" FOREIGN KEY ("studio_uuid") REFERENCES "studio"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio_member" ADD CONSTRAINT "FK_aabbad39240f8a74de986d7aec5" FOREIGN KEY ("user_uuid") REFERENCES "user"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio_invitation" ADD CONSTRAINT "FK_7986764bf944e46f34a17c1209a" FOREIGN KEY ("studio_uuid") REFERENCES "studio"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio_invitation" ADD CONSTRAINT "FK_874e4e311f4b52b2328f1f89af1" FOREIGN KEY ("invited_by_uuid") REFERENCES "user"("uuid") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `INSERT INTO "studio_member" ("studio_uuid", "user_uuid", "role") SELECT "uuid", "userUuid", 'owner' FROM "studio" WHERE "userUuid" IS NOT NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "studio_invitation" DROP CONSTRAINT "FK_874e4e311f4b52b2328f1f89af1"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio_invitation" DROP CONSTRAINT "FK_7986764bf944e46f34a17c1209a"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio_member" DROP CONSTRAINT "FK_aabbad39240f8a74de986d7aec5"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio_member" DROP CONSTRAINT "FK_55133fb7589d4f79ed045dea497"`,
+    );
+    await queryRunner.query(`DROP INDEX "IDX_81290ae8f04aeee3e797678bf1"`);
+    await queryRunner.query(`DROP INDEX "IDX_2e9e07dd42e0941e4017db5a5c"`);
+    await queryRunner.query(`DROP TABLE "studio_invitation"`);
+    await queryRunner.query(`DROP INDEX "IDX_0eebd687e26963cbe3e907bb00"`);
+    await queryRunner.query(`DROP INDEX "IDX_aabbad39240f8a74de986d7aec"`);
+    await queryRunner.query(`DROP TABLE "studio_member"`);
+  }
+}
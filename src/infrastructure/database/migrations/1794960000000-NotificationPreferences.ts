@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class NotificationPreferences1794960000000
+  implements MigrationInterface
+{
+  name = "NotificationPreferences1794960000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "notification" ADD "html" bytea`);
+    await queryRunner.query(
+      `CREATE TABLE "notification_preference" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "user_uuid" uuid NOT NULL, "locale" character varying(20), "timezone" character varying(64), "quietHoursStart" character varying(5), "quietHoursEnd" character varying(5), "marketingOptOut" boolean NOT NULL DEFAULT false, "channels" text NOT NULL, CONSTRAINT "REL_d4b02922f6ba29a4eac85fe03f" UNIQUE ("user_uuid"), CONSTRAINT "PK_7fa364c3e2c59907507b945c12a" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_d4b02922f6ba29a4eac85fe03f" ON "notification_preference" ("user_uuid")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification_preference" ADD CONSTRAINT "FK_d4b02922f6ba29a4eac85fe03fa" FOREIGN KEY ("user_uuid") REFERENCES "user"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "notification_preference" DROP CONSTRAINT "FK_d4b02922f6ba29a4eac85fe03fa"`,
+    );
+    await queryRunner.query(`DROP INDEX "IDX_d4b02922f6ba29a4eac85fe03f"`);
+    await queryRunner.query(`DROP TABLE "notification_preference"`);
+    await queryRunner.query(`ALTER TABLE "notification" DROP COLUMN "html"`);
+  }
+}
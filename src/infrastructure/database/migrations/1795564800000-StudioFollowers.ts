@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class StudioFollowers1795564800000 implements MigrationInterface {
+  name = "StudioFollowers1795564800000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "studio" ADD "followerCount" integer NOT NULL DEFAULT '0'`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "studio_follower" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "studio_uuid" uuid NOT NULL, "user_uuid" uuid NOT NULL, "notify" boolean NOT NULL DEFAULT false, CONSTRAINT "PK_b92e2cd4a84b3928333822392b1" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_fb556353d7dc2c9fd8db693b5c" ON "studio_follower" ("user_uuid", "createdAt")`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_5e3878e400bd5c858e58bf93fc" ON "studio_follower" ("studio_uuid", "user_uuid")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio_follower" ADD CONSTRAINT "FK_e174addc0b4f6f230d8c1791836" FOREIGN KEY ("studio_uuid") REFERENCES "studio"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio_follower" ADD CONSTRAINT "FK_ace77c23b0c0f6a7a569b1d12e0" FOREIGN KEY ("user_uuid") REFERENCES "user"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "studio_follower" DROP CONSTRAINT "FK_ace77c23b0c0f6a7a569b1d12e0"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "studio_follower" DROP CONSTRAINT "FK_e174addc0b4f6f230d8c1791836"`,
+    );
+    await queryRunner.query(`DROP INDEX "IDX_5e3878e400bd5c858e58bf93fc"`);
+    await queryRunner.query(`DROP INDEX "IDX_fb556353d7dc2c9fd8db693b5c"`);
+    await queryRunner.query(`DROP TABLE "studio_follower"`);
+    await queryRunner.query(`ALTER TABLE "studio" DROP COLUMN "followerCount"`);
+  }
+}
@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class Campaigns1796169600000 implements MigrationInterface {
+  name = "Campaigns1796169600000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "campaign" ("uuid" uuid NOT NULL DEFAULT uuid_generate_v4(), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "studio_uuid" uuid NOT NULL, "name" character varying(255) NOT NULL, "channel" character varying(20) NOT NULL, "subject" character varying(255) NOT NULL, "message" text NOT NULL, "segment" text NOT NULL, "status" character varying(20) NOT NULL DEFAULT 'scheduled', "sendAt" TIMESTAMP NOT NULL, "fanOutCursor" uuid, "recipientCount" integer NOT NULL DEFAULT '0', "optedOutCount" integer NOT NULL DEFAULT '0', "completedAt" TIMESTAMP, "cancelledAt" TIMESTAMP, "lockedUntil" TIMESTAMP, "created_by_uuid" uuid, CONSTRAINT "PK_5401d34520c7747d2cfff228e48" PRIMARY KEY ("uuid"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_5a8461d27aac10ed434e884d1a" ON "campaign" ("status", "sendAt")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_f326a0c4a8499e4f5e9222c874" ON "campaign" ("studio_uuid", "createdAt")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification" ADD "campaign_uuid" uuid`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_5601cefcb733e2c6e112a9bbcd" ON "notification" ("campaign_uuid")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "campaign" ADD CONSTRAINT "FK_53d1cd8856fe11d9ef19a475b26" FOREIGN KEY ("studio_uuid") REFERENCES "studio"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "campaign" ADD CONSTRAINT "FK_cf6f768fd157fe6f38b05b3726a" FOREIGN KEY ("created_by_uuid") REFERENCES "user"("uuid") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notification" ADD CONSTRAINT "FK_5601cefcb733e2c6e112a9bbcd2" FOREIGN KEY ("campaign_uuid") REFERENCES "campaign"("uuid") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "notification" DROP CONSTRAINT "FK_5601cefcb733e2c6e112a9bbcd2"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "campaign" DROP CONSTRAINT "FK_cf6f768fd157fe6f38b05b3726a"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "campaign" DROP CONSTRAINT "FK_53d1cd8856fe11d9ef19a475b26"`,
+    );
+    await queryRunner.query(`DROP INDEX "IDX_5601cefcb733e2c6e112a9bbcd"`);
+    await queryRunner.query(
+      `ALTER TABLE "notification" DROP COLUMN "campaign_uuid"`,
+    );
+    await queryRunner.query(`DROP INDEX "IDX_f326a0c4a8499e4f5e9222c874"`);
+    await queryRunner.query(`DROP INDEX "IDX_5a8461d27aac10ed434e884d1a"`);
+    await queryRunner.query(`DROP TABLE "campaign"`);
+  }
+}
@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class InteractionMediaSetNull1796774400000
+  implements MigrationInterface
+{
+  name = "InteractionMediaSetNull1796774400000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" DROP CONSTRAINT "FK_a2fb4938ba52dfd4e2f186869f0"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" DROP CONSTRAINT "FK_70a7c988781907a8b5588337966"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" DROP CONSTRAINT "FK_713340313e3e96e03056560c968"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" ADD CONSTRAINT "FK_a2fb4938ba52dfd4e2f186869f0" FOREIGN KEY ("musicUuid") REFERENCES "music"("uuid") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" ADD CONSTRAINT "FK_70a7c988781907a8b5588337966" FOREIGN KEY ("photoUuid") REFERENCES "photo"("uuid") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" ADD CONSTRAINT "FK_713340313e3e96e03056560c968" FOREIGN KEY ("videoUuid") REFERENCES "video"("uuid") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" DROP CONSTRAINT "FK_713340313e3e96e03056560c968"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" DROP CONSTRAINT "FK_70a7c988781907a8b5588337966"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" DROP CONSTRAINT "FK_a2fb4938ba52dfd4e2f186869f0"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" ADD CONSTRAINT "FK_713340313e3e96e03056560c968" FOREIGN KEY ("videoUuid") REFERENCES "video"("uuid") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" ADD CONSTRAINT "FK_70a7c988781907a8b5588337966" FOREIGN KEY ("photoUuid") REFERENCES "photo"("uuid") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_interaction" ADD CONSTRAINT "FK_a2fb4938ba52dfd4e2f186869f0" FOREIGN KEY ("musicUuid") REFERENCES "music"("uuid") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+  }
+}
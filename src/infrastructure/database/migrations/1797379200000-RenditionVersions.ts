@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class RenditionVersions1797379200000 implements MigrationInterface {
+  name = "RenditionVersions1797379200000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "media_rendition" ADD "version" integer`,
+    );
+    await queryRunner.query(
+      `UPDATE "media_rendition" r SET "version" = m."version" FROM "music" m WHERE m."uuid" = r."music_uuid"`,
+    );
+    await queryRunner.query(
+      `UPDATE "media_rendition" r SET "version" = v."version" FROM "video" v WHERE v."uuid" = r."video_uuid"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_rendition" ALTER COLUMN "version" SET NOT NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "media_rendition" DROP COLUMN "version"`,
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { RegionMode } from "../../domain/entities/base";
+
+/*
+ * SQL fragments for region policies, shared by the repositories that list
+ * media to viewers.
+ */
+
+/**
+ * The countries of the region policy that applies to media row `t` of
+ * studio `s`: the item's own, or else the studio's defaults.
+ */
+const REGION_LIST = `string_to_array(CASE WHEN t."regionMode" IS NULL THEN s."regionRestrictions" ELSE t."regionRestrictions" END, ',')`;
+
+/**
+ * Whether media row `t` of studio `s` is offered in the viewer's country
+ * `q.country`; the SQL form of GeoDomainService.effectivePolicy and
+ * isAvailable.
+ */
+export const REGION_AVAILABLE = `
+  CASE COALESCE(t."regionMode", s."regionMode")
+    WHEN '${RegionMode.ALLOW}' THEN COALESCE(q.country = ANY(${REGION_LIST}), false)
+    WHEN '${RegionMode.DENY}' THEN NOT COALESCE(q.country = ANY(${REGION_LIST}), false)
+    ELSE true
+  END`;
@@ -0,0 +1,155 @@
+import {
+  AccountType,
+  UserRole,
+} from "../../../domain/user/entities/user.entity";
+import { StudioStatus } from "../../../domain/studio/entities/studio.entity";
+import { MediaKind } from "../../../domain/media/services/media.domain-service";
+
+/**
+ * Password of every seeded account. Development data only.
+ */
+export const SEED_PASSWORD = "wrappai-dev";
+
+/**
+ * Fixed identifiers, so running the seed again updates the same rows and
+ * e2e tests can refer to them.
+ */
+export const SEED_IDS = {
+  users: {
+    admin: "00000000-0000-4000-8000-000000000001",
+    owner: "00000000-0000-4000-8000-000000000002",
+    watcher: "00000000-0000-4000-8000-000000000003",
+  },
+  studios: {
+    approved: "00000000-0000-4000-8001-000000000001",
+    inReview: "00000000-0000-4000-8001-000000000002",
+  },
+  media: {
+    music: "00000000-0000-4000-8002-000000000001",
+    photo: "00000000-0000-4000-8002-000000000002",
+    video: "00000000-0000-4000-8002-000000000003",
+  },
+  revisions: {
+    music: "00000000-0000-4000-8003-000000000001",
+    photo: "00000000-0000-4000-8003-000000000002",
+    video: "00000000-0000-4000-8003-000000000003",
+  },
+  playlists: {
+    published: "00000000-0000-4000-8004-000000000001",
+    draft: "00000000-0000-4000-8004-000000000002",
+  },
+  playlistItems: [
+    "00000000-0000-4000-8005-000000000001",
+    "00000000-0000-4000-8005-000000000002",
+    "00000000-0000-4000-8005-000000000003",
+  ],
+  prices: {
+    video: "00000000-0000-4000-8006-000000000001",
+  },
+} as const;
+
+export const USERS = [
+  {
+    uuid: SEED_IDS.users.admin,
+    email: "admin@wrappai.test",
+    phoneNumber: "+15550000001",
+    role: UserRole.ADMIN,
+    accountType: AccountType.WATCHER,
+  },
+  {
+    uuid: SEED_IDS.users.owner,
+    email: "studio@wrappai.test",
+    phoneNumber: "+15550000002",
+    role: UserRole.USER,
+    accountType: AccountType.STUDIO,
+  },
+  {
+    uuid: SEED_IDS.users.watcher,
+    email: "watcher@wrappai.test",
+    phoneNumber: "+15550000003",
+    role: UserRole.USER,
+    accountType: AccountType.WATCHER,
+  },
+];
+
+export const STUDIOS = [
+  {
+    uuid: SEED_IDS.studios.approved,
+    name: "Northern Lights Records",
+    description: "Independent label for ambient and electronic music.",
+    status: StudioStatus.APPROVED,
+  },
+  {
+    uuid: SEED_IDS.studios.inReview,
+    name: "Harbour Pictures",
+    description: "Short documentaries, waiting for review.",
+    status: StudioStatus.IN_REVIEW,
+  },
+];
+
+/**
+ * Smallest files the content sniffing in MediaDomainService recognises.
+ */
+const PLACEHOLDER_FILES: Record<MediaKind, Buffer> = {
+  music: Buffer.concat([
+    Buffer.from("ID3\x04\x00\x00", "latin1"),
+    Buffer.alloc(58),
+  ]),
+  photo: Buffer.from(
+    "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==",
+    "base64",
+  ),
+  video: Buffer.concat([
+    Buffer.from([0x00, 0x00, 0x00, 0x18]),
+    Buffer.from("ftypisom\x00\x00\x02\x00isomiso2", "latin1"),
+    Buffer.alloc(40),
+  ]),
+};
+
+export const MEDIA = [
+  {
+    kind: "music" as const,
+    file: PLACEHOLDER_FILES.music,
+    format: "MP3",
+    mimeType: "audio/mpeg",
+    fields: {
+      uuid: SEED_IDS.media.music,
+      title: "Aurora Drift",
+      description: "Slow synth pads recorded on a winter night.",
+      artist: "Solveig Lind",
+      album: "Polar Hours",
+      genre: "Ambient",
+      duration: 245,
+      releasedAt: new Date("2024-01-12T00:00:00Z"),
+    },
+  },
+  {
+    kind: "photo" as const,
+    file: PLACEHOLDER_FILES.photo,
+    format: "PNG",
+    mimeType: "image/png",
+    fields: {
+      uuid: SEED_IDS.media.photo,
+      title: "Fjord at Dawn",
+      description: "Cover art for Polar Hours.",
+      width: 1,
+      height: 1,
+      capturedAt: new Date("2023-11-02T06:30:00Z"),
+    },
+  },
+  {
+    kind: "video" as const,
+    file: PLACEHOLDER_FILES.video,
+    format: "MP4",
+    mimeType: "video/mp4",
+    fields: {
+      uuid: SEED_IDS.media.video,
+      title: "Polar Hours: Live Session",
+      description: "Full live performance of the album.",
+      duration: 1820,
+      resolution: "1920x1080",
+      codec: "H.264",
+      frameRate: 25,
+    },
+  },
+];
@@ -0,0 +1,35 @@
+import "reflect-metadata";
+import { Module } from "@nestjs/common";
+import { NestFactory } from "@nestjs/core";
+import { DatabaseModule } from "../database.module";
+import { StorageModule } from "../../storage/storage.module";
+import { UserDomainService } from "../../../domain/user/services/user.domain-service";
+import { MediaDomainService } from "../../../domain/media/services/media.domain-service";
+import { Seeder } from "./seeder";
+
+/**
+ * Only what the seed needs: the database, the storage driver the placeholder
+ * files are written to, and no background jobs.
+ */
+@Module({
+  imports: [DatabaseModule, StorageModule],
+  providers: [Seeder, UserDomainService, MediaDomainService],
+})
+class SeedModule {}
+
+/**
+ * Entry point of `npm run seed`. Run `npm run migrate` first.
+ */
+async function seed() {
+  const app = await NestFactory.createApplicationContext(SeedModule);
+  try {
+    await app.get(Seeder).run();
+  } finally {
+    await app.close();
+  }
+}
+
+seed().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
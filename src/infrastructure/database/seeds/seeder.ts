@@ -0,0 +1,170 @@
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { createHash } from "node:crypto";
+import { Readable } from "node:stream";
+import { DataSource, DeepPartial, EntityManager } from "typeorm";
+import { User } from "../../../domain/user/entities/user.entity";
+import { UserDomainService } from "../../../domain/user/services/user.domain-service";
+import { Studio } from "../../../domain/studio/entities/studio.entity";
+import {
+  StudioMember,
+  StudioRole,
+} from "../../../domain/studio/entities/studio-member.entity";
+import {
+  MEDIA_ENTITIES,
+  MediaDomainService,
+  MediaItem,
+} from "../../../domain/media/services/media.domain-service";
+import { MediaRevision } from "../../../domain/media/entities/media-revision.entity";
+import { Playlist } from "../../../domain/media/entities/playlist.entity";
+import { PlaylistItem } from "../../../domain/media/entities/playlist-item.entity";
+import { Price } from "../../../domain/commerce/entities/price.entity";
+import { STORAGE_DRIVER, StorageDriver } from "../../storage/storage-driver";
+import { MEDIA, SEED_IDS, SEED_PASSWORD, STUDIOS, USERS } from "./fixtures";
+
+/**
+ * Loads the development fixtures. Every row has a fixed UUID and is saved
+ * rather than inserted, so the seed can be run repeatedly.
+ */
+@Injectable()
+export class Seeder {
+  private readonly logger = new Logger(Seeder.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver,
+    private readonly userDomainService: UserDomainService,
+    private readonly mediaDomainService: MediaDomainService,
+  ) {}
+
+  async run(): Promise<void> {
+    const passwordHash = await this.userDomainService.hashSecret(SEED_PASSWORD);
+    await this.dataSource.transaction(async (manager) => {
+      const users = await this.seedUsers(manager, passwordHash);
+      const owner = users.find((user) => user.uuid === SEED_IDS.users.owner);
+      await this.seedStudios(manager, owner);
+      const media = await this.seedMedia(manager, owner);
+      await this.seedPlaylists(manager, media);
+      await manager.save(
+        manager.create(Price, {
+          uuid: SEED_IDS.prices.video,
+          targetKind: "video",
+          video: { uuid: SEED_IDS.media.video },
+          currency: "USD",
+          amount: 499,
+        }),
+      );
+    });
+    this.logger.log(
+      `Seeded ${USERS.length} users, ${STUDIOS.length} studios and ${MEDIA.length} media items`,
+    );
+  }
+
+  private seedUsers(manager: EntityManager, passwordHash: string) {
+    return manager.save(
+      USERS.map((user) =>
+        manager.create(User, {
+          ...user,
+          password_hash: passwordHash,
+          validatedEmail: true,
+          validatedPhoneNumber: true,
+        }),
+      ),
+    );
+  }
+
+  private async seedStudios(manager: EntityManager, owner: User) {
+    await manager.save(
+      STUDIOS.map((studio) =>
+        manager.create(Studio, { ...studio, user: owner }),
+      ),
+    );
+    await manager.upsert(
+      StudioMember,
+      STUDIOS.map((studio) => ({
+        studioUuid: studio.uuid,
+        userUuid: owner.uuid,
+        role: StudioRole.OWNER,
+      })),
+      ["studioUuid", "userUuid"],
+    );
+  }
+
+  /**
+   * Writes a placeholder file for each media item and records it as the
+   * item's first revision.
+   */
+  private async seedMedia(
+    manager: EntityManager,
+    owner: User,
+  ): Promise<MediaItem[]> {
+    const items: MediaItem[] = [];
+    for (const { kind, file, format, mimeType, fields } of MEDIA) {
+      const storagePath = `seed/${kind}/${fields.uuid}`;
+      await this.storage.put(storagePath, Readable.from([file]));
+
+      const repository = manager.getRepository<MediaItem>(MEDIA_ENTITIES[kind]);
+      const item = await repository.save(
+        repository.create({
+          ...fields,
+          url: `/media/${kind}/${fields.uuid}`,
+          studioUuid: SEED_IDS.studios.approved,
+          format,
+          mimeType,
+          availableFormats: [format],
+          fileSize: file.length,
+          checksum: createHash("sha256").update(file).digest("hex"),
+          storagePath,
+          storageProvider: this.storage.provider,
+          hostingLocation: this.storage.location,
+          uploadedAt: new Date(),
+        } as DeepPartial<MediaItem>),
+      );
+      await manager.save(
+        manager.create(MediaRevision, {
+          ...this.mediaDomainService.revisionSnapshot(kind, item),
+          uuid: SEED_IDS.revisions[kind],
+          mediaKind: kind,
+          [kind]: item,
+          version: item.version,
+          createdBy: owner,
+        }),
+      );
+      items.push(item);
+    }
+    return items;
+  }
+
+  /**
+   * A published playlist holding every seeded item, and an empty draft.
+   */
+  private async seedPlaylists(manager: EntityManager, media: MediaItem[]) {
+    const studio = { uuid: SEED_IDS.studios.approved } as Studio;
+    await manager.save([
+      manager.create(Playlist, {
+        uuid: SEED_IDS.playlists.published,
+        title: "Polar Hours Collection",
+        description: "The album, its cover and the live session.",
+        publishedAt: new Date(),
+        studio,
+      }),
+      manager.create(Playlist, {
+        uuid: SEED_IDS.playlists.draft,
+        title: "Works in Progress",
+        description: null,
+        publishedAt: null,
+        studio,
+      }),
+    ]);
+    await manager.save(
+      MEDIA.map(({ kind }, position) =>
+        manager.create(PlaylistItem, {
+          uuid: SEED_IDS.playlistItems[position],
+          playlistUuid: SEED_IDS.playlists.published,
+          position,
+          mediaKind: kind,
+          [kind]: media[position],
+        }),
+      ),
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { ClearKeyLicenseServer } from "./clear-key.license-server";
+import { LicenseRequest, LicenseRequestError } from "./license-server";
+
+describe("ClearKeyLicenseServer", () => {
+  const server = new ClearKeyLicenseServer();
+  const keyId = "00112233-4455-6677-8899-aabbccddeeff";
+  const kid = Buffer.from(keyId.replace(/-/g, ""), "hex").toString("base64url");
+  const key = Buffer.from("0123456789abcdef0123456789abcdef", "hex");
+  const request = (message: unknown): LicenseRequest => ({
+    challenge: Buffer.from(
+      typeof message === "string" ? message : JSON.stringify(message),
+    ),
+    keys: [{ keyId, key }],
+    expiresAt: null,
+    userUuid: "user",
+  });
+
+  it("answers with a JSON Web Key Set of the requested keys", async () => {
+    const unknown = Buffer.alloc(16, 1).toString("base64url");
+    const license = await server.issue(
+      request({ kids: [unknown, kid], type: "temporary" }),
+    );
+
+    expect(license.contentType).toBe("application/json");
+    expect(JSON.parse(license.body.toString())).toEqual({
+      keys: [{ kty: "oct", kid, k: key.toString("base64url") }],
+      type: "temporary",
+    });
+  });
+
+  it("rejects malformed and persistent requests", async () => {
+    await expect(server.issue(request("not json"))).rejects.toThrow(
+      LicenseRequestError,
+    );
+    await expect(server.issue(request({ kids: [] }))).rejects.toThrow(
+      /no valid kids/,
+    );
+    await expect(server.issue(request({ kids: ["AAEC"] }))).rejects.toThrow(
+      /Invalid key ID/,
+    );
+    await expect(
+      server.issue(request({ kids: [kid], type: "persistent-license" })),
+    ).rejects.toThrow(/temporary/);
+    await expect(
+      server.issue(request({ kids: [Buffer.alloc(16).toString("base64url")] })),
+    ).rejects.toThrow(/None of the requested keys/);
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  ContentKeyMaterial,
+  License,
+  LicenseRequest,
+  LicenseRequestError,
+  LicenseServer,
+} from "./license-server";
+
+/** Upper bound on key IDs in one request; players ask for a handful. */
+const MAX_KIDS = 32;
+
+/**
+ * W3C EME Clear Key license server. The request is a JSON object listing
+ * base64url key IDs, and the license is a JSON Web Key Set holding the
+ * requested keys the item has, in the clear. Only "temporary" licenses are
+ * issued, so nothing outlives the player's session.
+ */
+export class ClearKeyLicenseServer implements LicenseServer {
+  readonly system = "clearkey";
+
+  async issue(request: LicenseRequest): Promise<License> {
+    const kids = parseRequest(request.challenge);
+    const keys = kids
+      .map((kid) => request.keys.find((key) => key.keyId === kid))
+      .filter((key): key is ContentKeyMaterial => !!key);
+    if (!keys.length) {
+      throw new LicenseRequestError("None of the requested keys exist");
+    }
+    const body = {
+      keys: keys.map((key) => ({
+        kty: "oct",
+        kid: Buffer.from(key.keyId.replace(/-/g, ""), "hex").toString(
+          "base64url",
+        ),
+        k: key.key.toString("base64url"),
+      })),
+      type: "temporary",
+    };
+    return {
+      contentType: "application/json",
+      body: Buffer.from(JSON.stringify(body)),
+    };
+  }
+}
+
+/**
+ * Reads the key IDs, as UUIDs, from a Clear Key license request.
+ */
+function parseRequest(challenge: Buffer): string[] {
+  let message: { kids?: unknown; type?: unknown };
+  try {
+    message = JSON.parse(challenge.toString("utf-8"));
+  } catch {
+    throw new LicenseRequestError("The license request is not JSON");
+  }
+  const kids = message?.kids;
+  if (!Array.isArray(kids) || !kids.length || kids.length > MAX_KIDS) {
+    throw new LicenseRequestError("The license request has no valid kids");
+  }
+  if ((message.type ?? "temporary") !== "temporary") {
+    throw new LicenseRequestError("Only temporary licenses are issued");
+  }
+  return kids.map((kid) => {
+    const bytes =
+      typeof kid === "string" && /^[\w-]+$/.test(kid)
+        ? Buffer.from(kid, "base64url")
+        : null;
+    if (bytes?.length !== 16) {
+      throw new LicenseRequestError(`Invalid key ID ${String(kid)}`);
+    }
+    const hex = bytes.toString("hex");
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  });
+}
@@ -0,0 +1,80 @@
+import { Injectable } from "@nestjs/common";
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { drmConfig } from "./drm.config";
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export interface SealedKey {
+  masterKeyId: string;
+  encryptedKey: string;
+}
+
+/**
+ * Encrypts content keys for storage with AES-256-GCM under the configured
+ * master keys. The key ID is bound in as additional data, so a sealed key
+ * cannot be moved to another row.
+ */
+@Injectable()
+export class ContentKeyCipher {
+  private readonly masterKeys = drmConfig.masterKeys;
+
+  seal(keyId: string, key: Buffer): SealedKey {
+    const master = this.current();
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv("aes-256-gcm", master.key, iv);
+    cipher.setAAD(Buffer.from(keyId));
+    const ciphertext = Buffer.concat([cipher.update(key), cipher.final()]);
+    return {
+      masterKeyId: master.id,
+      encryptedKey: Buffer.concat([
+        iv,
+        cipher.getAuthTag(),
+        ciphertext,
+      ]).toString("base64"),
+    };
+  }
+
+  /**
+   * Decrypts a sealed key. Throws when its master key is no longer
+   * configured or the ciphertext was tampered with.
+   */
+  open(keyId: string, sealed: SealedKey): Buffer {
+    const master = this.masterKeys.find(
+      (candidate) => candidate.id === sealed.masterKeyId,
+    );
+    if (!master) {
+      throw new Error(`Master key ${sealed.masterKeyId} is not configured`);
+    }
+    const data = Buffer.from(sealed.encryptedKey, "base64");
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      master.key,
+      data.subarray(0, IV_LENGTH),
+    );
+    decipher.setAAD(Buffer.from(keyId));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    return Buffer.concat([
+      decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)),
+      decipher.final(),
+    ]);
+  }
+
+  /**
+   * Whether `sealed` should be sealed again with the current master key.
+   */
+  isStale(sealed: SealedKey): boolean {
+    return sealed.masterKeyId !== this.current().id;
+  }
+
+  private current() {
+    const [master] = this.masterKeys;
+    if (!master) {
+      throw new Error("DRM_MASTER_KEYS is not configured");
+    }
+    if (master.key.length !== 32) {
+      throw new Error(`Master key ${master.id} must be 32 bytes`);
+    }
+    return master;
+  }
+}
@@ -0,0 +1,32 @@
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Settings for content key storage and license issuing, read from the
+ * environment.
+ */
+export const drmConfig = {
+  /**
+   * Master keys that content keys are encrypted with at rest, as
+   * comma-separated "id:base64" pairs of 256-bit keys. The first one seals
+   * new keys; the others are only used to open keys sealed before a
+   * rotation, which are re-sealed with the first one when next used.
+   */
+  masterKeys: (process.env.DRM_MASTER_KEYS ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      return {
+        id: entry.slice(0, separator),
+        key: Buffer.from(entry.slice(separator + 1), "base64"),
+      };
+    }),
+  /** DRM systems to run license servers for; "clearkey" is the only built-in one. */
+  licenseServers: (process.env.DRM_LICENSE_SERVERS ?? "clearkey")
+    .split(",")
+    .map((system) => system.trim().toLowerCase())
+    .filter(Boolean),
+};
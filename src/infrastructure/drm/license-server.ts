@@ -0,0 +1,58 @@
+/**
+ * Injection token for the list of configured {@link LicenseServer}s.
+ */
+export const LICENSE_SERVERS = Symbol("LICENSE_SERVERS");
+
+/**
+ * A decrypted content key.
+ */
+export interface ContentKeyMaterial {
+  /** The key ID as a UUID. */
+  keyId: string;
+  /** The 16-byte key. */
+  key: Buffer;
+}
+
+export interface LicenseRequest {
+  /** The license request message generated by the player's CDM, as sent. */
+  challenge: Buffer;
+  /** Every content key of the item; the server hands out those requested. */
+  keys: ContentKeyMaterial[];
+  /** When playback must stop being licensed, if the item has an expiry. */
+  expiresAt: Date | null;
+  /** UUID of the user the license is for. */
+  userUuid: string;
+}
+
+export interface License {
+  contentType: string;
+  body: Buffer;
+}
+
+/**
+ * Answers license requests for one DRM system. Callers have already checked
+ * that the user may play the item. New systems are added by implementing
+ * this interface (typically by forwarding the challenge and keys to the
+ * vendor's license service) and registering the server in DrmModule.
+ */
+export interface LicenseServer {
+  /** The drmType value this server handles, e.g. "clearkey". */
+  readonly system: string;
+
+  /**
+   * Builds the license. Throws {@link LicenseRequestError} when the
+   * challenge cannot be answered.
+   */
+  issue(request: LicenseRequest): Promise<License>;
+}
+
+/**
+ * The license request is malformed or asks for something the server will
+ * not license.
+ */
+export class LicenseRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LicenseRequestError";
+  }
+}
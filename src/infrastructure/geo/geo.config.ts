@@ -0,0 +1,25 @@
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Settings for region lookups, read from the environment.
+ */
+export const geoConfig = {
+  /**
+   * CSV of IP ranges and their country, one "first,last,country" range per
+   * line, as in the free DB-IP "IP to Country Lite" download. IPv4 and IPv6
+   * ranges may be mixed. Without the file every country is unknown.
+   */
+  databasePath: process.env.GEO_IP_DATABASE ?? "./data/ip-country.csv",
+  /**
+   * Express "trust proxy" setting, so the client address is taken from
+   * X-Forwarded-For behind a load balancer: a hop count or a list of
+   * trusted addresses and subnets.
+   */
+  trustProxy: /^\d+$/.test(process.env.GEO_TRUST_PROXY ?? "")
+    ? parseInt(process.env.GEO_TRUST_PROXY ?? "", 10)
+    : (process.env.GEO_TRUST_PROXY ?? "loopback"),
+  /** Header administrators send to act as a viewer from another country. */
+  simulateHeader: "x-simulate-country",
+};
@@ -0,0 +1,150 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { createReadStream, existsSync } from "node:fs";
+import { isIPv4, isIPv6 } from "node:net";
+import { createInterface } from "node:readline";
+import { geoConfig } from "./geo.config";
+
+/**
+ * Address ranges of one IP version, sorted by their first address.
+ */
+interface RangeTable<T extends number | bigint> {
+  starts: T[];
+  ends: T[];
+  countries: string[];
+}
+
+type Range<T extends number | bigint> = [T, T, string];
+
+/**
+ * Resolves IP addresses to countries from a local CSV database (see
+ * geoConfig.databasePath), loaded into memory at startup. Lookups are a
+ * binary search over the sorted ranges.
+ */
+@Injectable()
+export class IpCountryDatabase implements OnModuleInit {
+  private readonly logger = new Logger(IpCountryDatabase.name);
+  private v4: RangeTable<number> = table([]);
+  private v6: RangeTable<bigint> = table([]);
+
+  async onModuleInit() {
+    await this.load(geoConfig.databasePath);
+  }
+
+  /**
+   * Replaces the ranges with those in the CSV file at `path`. Lines that do
+   * not hold a valid range are skipped.
+   */
+  async load(path: string): Promise<void> {
+    if (!existsSync(path)) {
+      this.logger.warn(
+        `No IP-to-country database at ${path}; every viewer's country is unknown`,
+      );
+      return;
+    }
+    const v4: Range<number>[] = [];
+    const v6: Range<bigint>[] = [];
+    const lines = createInterface({
+      input: createReadStream(path),
+      crlfDelay: Infinity,
+    });
+    for await (const line of lines) {
+      const [first, last, country] = line
+        .split(",")
+        .map((field) => field.trim().replace(/^"|"$/g, ""));
+      if (!/^[A-Z]{2}$/i.test(country ?? "")) {
+        continue;
+      }
+      const code = country.toUpperCase();
+      if (isIPv4(first) && isIPv4(last)) {
+        v4.push([ipv4ToNumber(first), ipv4ToNumber(last), code]);
+      } else if (isIPv6(first) && isIPv6(last)) {
+        v6.push([ipv6ToBigInt(first), ipv6ToBigInt(last), code]);
+      }
+    }
+    this.v4 = table(v4);
+    this.v6 = table(v6);
+    this.logger.log(
+      `Loaded ${v4.length} IPv4 and ${v6.length} IPv6 ranges from ${path}`,
+    );
+  }
+
+  /**
+   * @returns {string | null} The ISO country code of `ip`, or null when the
+   * address is invalid or not covered by the database.
+   */
+  lookup(ip: string | undefined): string | null {
+    // Express reports IPv4 clients of a dual-stack socket as ::ffff:a.b.c.d.
+    const address = (ip ?? "").replace(/^::ffff:(?=\d+\.)/i, "");
+    if (isIPv4(address)) {
+      return find(this.v4, ipv4ToNumber(address));
+    }
+    if (isIPv6(address)) {
+      return find(this.v6, ipv6ToBigInt(address));
+    }
+    return null;
+  }
+}
+
+function table<T extends number | bigint>(ranges: Range<T>[]): RangeTable<T> {
+  ranges.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return {
+    starts: ranges.map(([start]) => start),
+    ends: ranges.map(([, end]) => end),
+    countries: ranges.map(([, , country]) => country),
+  };
+}
+
+/**
+ * Finds the last range starting at or before `address` and checks that it
+ * also ends at or after it.
+ */
+function find<T extends number | bigint>(
+  ranges: RangeTable<T>,
+  address: T,
+): string | null {
+  let low = 0;
+  let high = ranges.starts.length - 1;
+  let match = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (ranges.starts[middle] <= address) {
+      match = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return match >= 0 && address <= ranges.ends[match]
+    ? ranges.countries[match]
+    : null;
+}
+
+function ipv4ToNumber(address: string): number {
+  return address
+    .split(".")
+    .reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function ipv6ToBigInt(address: string): bigint {
+  let text = address.replace(/%.*$/, "");
+  // An embedded IPv4 address stands for the last two groups.
+  const ipv4 = /(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (ipv4) {
+    const value = ipv4ToNumber(ipv4[1]);
+    text = text.replace(
+      ipv4[1],
+      `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`,
+    );
+  }
+  const [head, tail] = text.split("::");
+  const left = head ? head.split(":") : [];
+  const right = tail ? tail.split(":") : [];
+  const groups =
+    tail === undefined
+      ? left
+      : [...left, ...Array(8 - left.length - right.length).fill("0"), ...right];
+  return groups.reduce(
+    (value, group) => (value << 16n) + BigInt(parseInt(group, 16)),
+    0n,
+  );
+}
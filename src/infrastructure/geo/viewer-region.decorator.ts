@@ -0,0 +1,10 @@
+import { createParamDecorator, ExecutionContext } from "@nestjs/common";
+import { RegionRequest } from "./viewer-region.interceptor";
+
+/**
+ * Injects the caller's ViewerRegion into a route handler parameter.
+ */
+export const CurrentRegion = createParamDecorator(
+  (_data: unknown, context: ExecutionContext) =>
+    context.switchToHttp().getRequest<RegionRequest>().region,
+);
@@ -0,0 +1,64 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  NestInterceptor,
+} from "@nestjs/common";
+import { Observable } from "rxjs";
+import { AuthenticatedRequest } from "../auth/auth-context";
+import { IpCountryDatabase } from "./ip-country.database";
+import { geoConfig } from "./geo.config";
+import {
+  GeoDomainService,
+  ViewerRegion,
+} from "../../domain/geo/services/geo.domain-service";
+import { UserRole } from "../../domain/user/entities/user.entity";
+
+export interface RegionRequest extends AuthenticatedRequest {
+  region: ViewerRegion;
+}
+
+/**
+ * Resolves where each request comes from and attaches it as
+ * `request.region`. Runs after the guards, so administrators identified by
+ * {@link AuthGuard} may name a country in the simulation header instead.
+ */
+@Injectable()
+export class ViewerRegionInterceptor implements NestInterceptor {
+  constructor(
+    private readonly ipCountryDatabase: IpCountryDatabase,
+    private readonly geoDomainService: GeoDomainService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() === "http") {
+      const request = context.switchToHttp().getRequest<RegionRequest>();
+      request.region = this.resolve(request);
+    }
+    return next.handle();
+  }
+
+  private resolve(request: RegionRequest): ViewerRegion {
+    const simulated = request.header(geoConfig.simulateHeader);
+    if (simulated === undefined) {
+      return {
+        country: this.ipCountryDatabase.lookup(request.ip),
+        simulated: false,
+      };
+    }
+    if (request.auth?.user.role !== UserRole.ADMIN) {
+      throw new ForbiddenException(
+        "Only administrators can simulate a viewer country",
+      );
+    }
+    const country = this.geoDomainService.normalizeCountry(simulated);
+    if (!country) {
+      throw new BadRequestException(
+        `${geoConfig.simulateHeader} must be an ISO country code`,
+      );
+    }
+    return { country, simulated: true };
+  }
+}
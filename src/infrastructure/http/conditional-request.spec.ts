@@ -0,0 +1,99 @@
+import {
+  entityTag,
+  evaluatePreconditions,
+  ifRangeAllows,
+  parseRange,
+} from "./conditional-request";
+
+describe("conditional-request", () => {
+  describe("parseRange", () => {
+    it.each([
+      ["bytes=0-99", { start: 0, end: 99 }],
+      ["bytes=100-", { start: 100, end: 999 }],
+      ["bytes=-200", { start: 800, end: 999 }],
+      ["bytes=900-5000", { start: 900, end: 999 }],
+      ["bytes=-5000", { start: 0, end: 999 }],
+    ])("resolves %s", (header, expected) => {
+      expect(parseRange(header, 1000)).toEqual(expected);
+    });
+
+    it("reports ranges beyond the end as unsatisfiable", () => {
+      expect(parseRange("bytes=1000-", 1000)).toBe("unsatisfiable");
+      expect(parseRange("bytes=-0", 1000)).toBe("unsatisfiable");
+    });
+
+    it("ignores absent, malformed and multi-range headers", () => {
+      expect(parseRange(undefined, 1000)).toBeNull();
+      expect(parseRange("items=0-1", 1000)).toBeNull();
+      expect(parseRange("bytes=5-1", 1000)).toBeNull();
+      expect(parseRange("bytes=0-1,5-6", 1000)).toBeNull();
+    });
+  });
+
+  describe("preconditions", () => {
+    const lastModified = new Date("2024-05-01T10:00:00Z");
+    const validators = {
+      etag: entityTag("abc", 10, lastModified),
+      lastModified,
+    };
+
+    it("derives a strong ETag from the checksum", () => {
+      expect(validators.etag).toBe('"abc"');
+      expect(entityTag(null, 10, lastModified)).toMatch(/^W\//);
+    });
+
+    it("answers a matching If-None-Match with not-modified", () => {
+      expect(evaluatePreconditions({ ifNoneMatch: '"abc"' }, validators)).toBe(
+        "not-modified",
+      );
+      expect(
+        evaluatePreconditions({ ifNoneMatch: 'W/"abc", "x"' }, validators),
+      ).toBe("not-modified");
+      expect(evaluatePreconditions({ ifNoneMatch: '"x"' }, validators)).toBe(
+        "proceed",
+      );
+    });
+
+    it("fails If-Match on a different or weak tag", () => {
+      expect(evaluatePreconditions({ ifMatch: '"x"' }, validators)).toBe(
+        "precondition-failed",
+      );
+      expect(evaluatePreconditions({ ifMatch: 'W/"abc"' }, validators)).toBe(
+        "precondition-failed",
+      );
+      expect(evaluatePreconditions({ ifMatch: "*" }, validators)).toBe(
+        "proceed",
+      );
+    });
+
+    it("uses dates only when no entity tags are given", () => {
+      const later = "Wed, 01 May 2024 11:00:00 GMT";
+      const earlier = "Wed, 01 May 2024 09:00:00 GMT";
+      expect(
+        evaluatePreconditions({ ifModifiedSince: later }, validators),
+      ).toBe("not-modified");
+      expect(
+        evaluatePreconditions({ ifModifiedSince: earlier }, validators),
+      ).toBe("proceed");
+      expect(
+        evaluatePreconditions(
+          { ifModifiedSince: later, ifNoneMatch: '"x"' },
+          validators,
+        ),
+      ).toBe("proceed");
+      expect(
+        evaluatePreconditions({ ifUnmodifiedSince: earlier }, validators),
+      ).toBe("precondition-failed");
+    });
+
+    it("honours Range only when If-Range still matches", () => {
+      expect(ifRangeAllows(undefined, validators)).toBe(true);
+      expect(ifRangeAllows('"abc"', validators)).toBe(true);
+      expect(ifRangeAllows('"old"', validators)).toBe(false);
+      expect(ifRangeAllows(lastModified.toUTCString(), validators)).toBe(true);
+      expect(ifRangeAllows("Wed, 01 May 2024 09:00:00 GMT", validators)).toBe(
+        false,
+      );
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Helpers for HTTP range and conditional requests (RFC 9110 sections 13 and 14).
+ */
+
+/**
+ * An inclusive byte range resolved against a resource of known size.
+ */
+export interface ResolvedRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Validators of the representation being served.
+ */
+export interface Validators {
+  etag: string;
+  lastModified: Date;
+}
+
+/**
+ * The precondition headers of a request, as sent by the client.
+ */
+export interface ConditionalHeaders {
+  ifMatch?: string;
+  ifNoneMatch?: string;
+  ifModifiedSince?: string;
+  ifUnmodifiedSince?: string;
+  ifRange?: string;
+}
+
+export type PreconditionOutcome =
+  | "proceed"
+  | "not-modified"
+  | "precondition-failed";
+
+/**
+ * Builds a strong ETag from a content checksum, or a weak one from the size
+ * and modification time when no checksum is known.
+ */
+export function entityTag(
+  checksum: string | null,
+  size: number,
+  lastModified: Date,
+): string {
+  return checksum
+    ? `"${checksum}"`
+    : `W/"${size.toString(16)}-${lastModified.getTime().toString(16)}"`;
+}
+
+/**
+ * Parses a Range header for a single byte range.
+ * @returns {ResolvedRange | "unsatisfiable" | null} The range to serve,
+ * "unsatisfiable" for a 416 response, or null when the header should be
+ * ignored and the full representation served (absent, malformed or multi-range).
+ */
+export function parseRange(
+  header: string | undefined,
+  size: number,
+): ResolvedRange | "unsatisfiable" | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header?.trim() ?? "");
+  if (!match || (match[1] === "" && match[2] === "")) {
+    return null;
+  }
+
+  if (match[1] === "") {
+    const suffix = Number(match[2]);
+    if (suffix === 0 || size === 0) {
+      return "unsatisfiable";
+    }
+    return { start: Math.max(size - suffix, 0), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] === "" ? Infinity : Number(match[2]);
+  if (end < start) {
+    return null;
+  }
+  if (start >= size) {
+    return "unsatisfiable";
+  }
+  return { start, end: Math.min(end, size - 1) };
+}
+
+/**
+ * Evaluates If-Match, If-Unmodified-Since, If-None-Match and
+ * If-Modified-Since in the order RFC 9110 prescribes for a GET request.
+ */
+export function evaluatePreconditions(
+  headers: ConditionalHeaders,
+  validators: Validators,
+): PreconditionOutcome {
+  if (headers.ifMatch) {
+    if (!matchesAny(headers.ifMatch, validators.etag, true)) {
+      return "precondition-failed";
+    }
+  } else if (headers.ifUnmodifiedSince) {
+    const since = parseHttpDate(headers.ifUnmodifiedSince);
+    if (since !== null && seconds(validators.lastModified) > since) {
+      return "precondition-failed";
+    }
+  }
+
+  if (headers.ifNoneMatch) {
+    if (matchesAny(headers.ifNoneMatch, validators.etag, false)) {
+      return "not-modified";
+    }
+  } else if (headers.ifModifiedSince) {
+    const since = parseHttpDate(headers.ifModifiedSince);
+    if (since !== null && seconds(validators.lastModified) <= since) {
+      return "not-modified";
+    }
+  }
+
+  return "proceed";
+}
+
+/**
+ * Whether a Range header may be honoured given the request's If-Range header.
+ * A mismatch means the client's partial copy is stale and the full
+ * representation must be sent instead.
+ */
+export function ifRangeAllows(
+  ifRange: string | undefined,
+  validators: Validators,
+): boolean {
+  if (!ifRange) {
+    return true;
+  }
+  const value = ifRange.trim();
+  if (value.startsWith('"') || value.startsWith("W/")) {
+    return strongMatch(value, validators.etag);
+  }
+  const date = parseHttpDate(value);
+  return date !== null && date === seconds(validators.lastModified);
+}
+
+function matchesAny(list: string, etag: string, strong: boolean): boolean {
+  if (list.trim() === "*") {
+    return true;
+  }
+  return list
+    .split(",")
+    .map((tag) => tag.trim())
+    .some((tag) => (strong ? strongMatch(tag, etag) : weakMatch(tag, etag)));
+}
+
+function strongMatch(a: string, b: string): boolean {
+  return !a.startsWith("W/") && !b.startsWith("W/") && a === b;
+}
+
+function weakMatch(a: string, b: string): boolean {
+  return a.replace(/^W\//, "") === b.replace(/^W\//, "");
+}
+
+function parseHttpDate(value: string): number | null {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : Math.floor(time / 1000);
+}
+
+/** HTTP dates have one-second resolution. */
+function seconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
@@ -0,0 +1,15 @@
+import { attachment } from "./content-disposition";
+
+describe("attachment", () => {
+  it("sends ASCII names as they are", () => {
+    expect(attachment("Live at the Shrine.mp3")).toBe(
+      `attachment; filename="Live at the Shrine.mp3"; filename*=UTF-8''Live%20at%20the%20Shrine.mp3`,
+    );
+  });
+
+  it("approximates other names and encodes them exactly", () => {
+    expect(attachment('Fela\'s "Zombie" – Ọ̀run.mp3')).toBe(
+      `attachment; filename="Fela's _Zombie_ _ Orun.mp3"; filename*=UTF-8''Fela%27s%20%22Zombie%22%20%E2%80%93%20%E1%BB%8C%CC%80run.mp3`,
+    );
+  });
+});
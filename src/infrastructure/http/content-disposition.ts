@@ -0,0 +1,21 @@
+/**
+ * Helpers for Content-Disposition headers (RFC 6266).
+ */
+
+/**
+ * An attachment disposition for `fileName`. Clients that only read the plain
+ * `filename` get an ASCII approximation; the exact name is sent as the
+ * RFC 8187 `filename*` parameter.
+ */
+export function attachment(fileName: string): string {
+  const fallback = fileName
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]/g, "_")
+    .replace(/["\\]/g, "_");
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
@@ -0,0 +1,23 @@
+import { toCsv } from "./csv";
+
+describe("toCsv", () => {
+  it("writes a header and quotes fields that need it", () => {
+    expect(
+      toCsv(
+        ["title", "count", "at"],
+        [
+          { title: 'Live, "unplugged"', count: 3, at: new Date(0) },
+          { title: null, count: 0, at: undefined },
+        ],
+      ),
+    ).toBe(
+      'title,count,at\r\n"Live, ""unplugged""",3,1970-01-01T00:00:00.000Z\r\n,0,\r\n',
+    );
+  });
+
+  it("defuses spreadsheet formulas", () => {
+    expect(toCsv(["title"], [{ title: "=HYPERLINK()" }])).toBe(
+      "title\r\n'=HYPERLINK()\r\n",
+    );
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Helpers for CSV (RFC 4180) responses.
+ */
+
+/**
+ * Formats rows as CSV with a header line. Dates are written as ISO 8601.
+ * Text that a spreadsheet would run as a formula is prefixed with a quote.
+ */
+export function toCsv<T extends object>(
+  columns: (keyof T & string)[],
+  rows: T[],
+): string {
+  const lines = [columns.map(csvField).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => csvField(row[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,437 @@
+import { ExtractedMetadata } from "../../domain/media/services/media.domain-service";
+import { ByteSource } from "./byte-source";
+
+/**
+ * Tag names in Vorbis comments (FLAC, Ogg) mapped to Music fields.
+ */
+const VORBIS_TAGS: Record<string, string> = {
+  ARTIST: "artist",
+  ALBUM: "album",
+  GENRE: "genre",
+};
+
+/**
+ * ID3v2 text frames mapped to Music fields; v2.2 uses three-letter ids.
+ */
+const ID3_FRAMES: Record<string, string> = {
+  TPE1: "artist",
+  TP1: "artist",
+  TALB: "album",
+  TAL: "album",
+  TCON: "genre",
+  TCO: "genre",
+};
+
+/**
+ * The ID3v1 genre list, which ID3v2 genres may still refer to as "(17)".
+ */
+const ID3_GENRES = [
+  "Blues",
+  "Classic Rock",
+  "Country",
+  "Dance",
+  "Disco",
+  "Funk",
+  "Grunge",
+  "Hip-Hop",
+  "Jazz",
+  "Metal",
+  "New Age",
+  "Oldies",
+  "Other",
+  "Pop",
+  "R&B",
+  "Rap",
+  "Reggae",
+  "Rock",
+  "Techno",
+  "Industrial",
+  "Alternative",
+  "Ska",
+  "Death Metal",
+  "Pranks",
+  "Soundtrack",
+  "Euro-Techno",
+  "Ambient",
+  "Trip-Hop",
+  "Vocal",
+  "Jazz+Funk",
+  "Fusion",
+  "Trance",
+  "Classical",
+  "Instrumental",
+  "Acid",
+  "House",
+  "Game",
+  "Sound Clip",
+  "Gospel",
+  "Noise",
+  "Alternative Rock",
+  "Bass",
+  "Soul",
+  "Punk",
+  "Space",
+  "Meditative",
+  "Instrumental Pop",
+  "Instrumental Rock",
+  "Ethnic",
+  "Gothic",
+  "Darkwave",
+  "Techno-Industrial",
+  "Electronic",
+  "Pop-Folk",
+  "Eurodance",
+  "Dream",
+  "Southern Rock",
+  "Comedy",
+  "Cult",
+  "Gangsta",
+  "Top 40",
+  "Christian Rap",
+  "Pop/Funk",
+  "Jungle",
+  "Native American",
+  "Cabaret",
+  "New Wave",
+  "Psychedelic",
+  "Rave",
+  "Showtunes",
+  "Trailer",
+  "Lo-Fi",
+  "Tribal",
+  "Acid Punk",
+  "Acid Jazz",
+  "Polka",
+  "Retro",
+  "Musical",
+  "Rock & Roll",
+  "Hard Rock",
+];
+
+/** MPEG Layer III bitrates in kbit/s, by bitrate index. */
+const MP3_BITRATES = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+/** Sample rates by MPEG version bits (0 = 2.5, 2 = 2, 3 = 1) and index. */
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
+
+const WINDOW = 256 * 1024;
+
+export async function parseMp3(
+  source: ByteSource,
+): Promise<ExtractedMetadata | null> {
+  const head = await source.read(0, WINDOW);
+  const tags: Record<string, unknown> = {};
+  const technical: Record<string, unknown> = {};
+  let audioStart = 0;
+
+  if (head.subarray(0, 3).toString("latin1") === "ID3") {
+    const size = syncsafe(head, 6);
+    const footer = head[5] & 0x10 ? 10 : 0;
+    audioStart = 10 + size + footer;
+    const tag = await source.read(0, Math.min(audioStart, 16 * WINDOW));
+    const frames = readId3Frames(tag, head[3]);
+    for (const [id, field] of Object.entries(ID3_FRAMES)) {
+      if (frames[id] && !tags[field]) {
+        tags[field] = field === "genre" ? id3Genre(frames[id]) : frames[id];
+      }
+    }
+    const length = Number(frames.TLEN ?? frames.TLE);
+    if (length > 0) {
+      technical.duration = Math.round(length / 1000);
+    }
+  }
+
+  const tail = await source.read(Math.max(0, source.size - 128), 128);
+  const hasId3v1 = tail.subarray(0, 3).toString("latin1") === "TAG";
+  if (hasId3v1) {
+    const field = (start: number, end: number) =>
+      tail.toString("latin1", start, end).replace(/\0.*$/, "").trim();
+    tags.artist ??= field(33, 63) || undefined;
+    tags.album ??= field(63, 93) || undefined;
+    tags.genre ??= ID3_GENRES[tail[127]];
+  }
+
+  if (technical.duration === undefined) {
+    const audio = await source.read(audioStart, WINDOW);
+    const frame = findMp3Frame(audio);
+    if (frame === null) {
+      return Object.keys(tags).length ? { technical, tags } : null;
+    }
+    const end = source.size - (hasId3v1 ? 128 : 0);
+    technical.duration = mp3Duration(
+      audio.subarray(frame),
+      end - audioStart - frame,
+    );
+  }
+  return { technical, tags };
+}
+
+function syncsafe(data: Buffer, at: number): number {
+  return (
+    ((data[at] & 0x7f) << 21) |
+    ((data[at + 1] & 0x7f) << 14) |
+    ((data[at + 2] & 0x7f) << 7) |
+    (data[at + 3] & 0x7f)
+  );
+}
+
+/**
+ * Decodes the text frames of an ID3v2.2, v2.3 or v2.4 tag.
+ */
+function readId3Frames(tag: Buffer, version: number): Record<string, string> {
+  const frames: Record<string, string> = {};
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  const end = 10 + syncsafe(tag, 6);
+  let offset = 10;
+  if (version > 2 && tag[5] & 0x40) {
+    offset += version === 4 ? syncsafe(tag, 10) : 4 + tag.readUInt32BE(10);
+  }
+  while (offset + headerLength <= Math.min(end, tag.length)) {
+    const id = tag.toString("latin1", offset, offset + idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) {
+      break;
+    }
+    const size =
+      version === 2
+        ? tag.readUIntBE(offset + 3, 3)
+        : version === 4
+          ? syncsafe(tag, offset + 4)
+          : tag.readUInt32BE(offset + 4);
+    const body = tag.subarray(
+      offset + headerLength,
+      offset + headerLength + size,
+    );
+    if (id.startsWith("T") && body.length) {
+      frames[id] = decodeId3Text(body);
+    }
+    offset += headerLength + size;
+  }
+  return frames;
+}
+
+function decodeId3Text(body: Buffer): string {
+  const text = body.subarray(1);
+  let value: string;
+  switch (body[0]) {
+    case 1:
+      value =
+        text[0] === 0xfe && text[1] === 0xff
+          ? swapBytes(text.subarray(2)).toString("utf16le")
+          : text.subarray(text[0] === 0xff ? 2 : 0).toString("utf16le");
+      break;
+    case 2:
+      value = swapBytes(text).toString("utf16le");
+      break;
+    case 3:
+      value = text.toString("utf8");
+      break;
+    default:
+      value = text.toString("latin1");
+  }
+  // Multiple values are separated by NUL; only the first is kept.
+  return value.split("\0")[0].trim();
+}
+
+function swapBytes(data: Buffer): Buffer {
+  const copy = Buffer.from(data.subarray(0, data.length - (data.length % 2)));
+  return copy.swap16();
+}
+
+/**
+ * Resolves ID3v1 genre references such as "(17)" or "17" to their names.
+ */
+function id3Genre(value: string): string | undefined {
+  const match = /^\(?(\d+)\)?(.*)$/.exec(value);
+  if (!match) {
+    return value || undefined;
+  }
+  return match[2].trim() || ID3_GENRES[Number(match[1])];
+}
+
+/**
+ * Finds the first MPEG Layer III frame header.
+ */
+function findMp3Frame(data: Buffer): number | null {
+  for (let i = 0; i + 4 <= data.length; i++) {
+    if (data[i] === 0xff && (data[i + 1] & 0xe6) === 0xe2) {
+      const version = (data[i + 1] >> 3) & 0x03;
+      const bitrate = data[i + 2] >> 4;
+      const rate = (data[i + 2] >> 2) & 0x03;
+      if (version !== 1 && bitrate !== 0 && bitrate !== 15 && rate !== 3) {
+        return i;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Duration from the Xing/Info or VBRI frame count when there is one, and
+ * otherwise from the bitrate of the first frame (constant bitrate files).
+ */
+function mp3Duration(frame: Buffer, audioBytes: number): number {
+  const version = (frame[1] >> 3) & 0x03;
+  const mpeg1 = version === 3;
+  const bitrate = (mpeg1 ? MP3_BITRATES.mpeg1 : MP3_BITRATES.mpeg2)[
+    frame[2] >> 4
+  ];
+  const sampleRate = MP3_SAMPLE_RATES[version][(frame[2] >> 2) & 0x03];
+  const mono = frame[3] >> 6 === 3;
+  const samplesPerFrame = mpeg1 ? 1152 : 576;
+
+  const xing = 4 + (mpeg1 ? (mono ? 17 : 32) : mono ? 9 : 17);
+  const marker = frame.toString("latin1", xing, xing + 4);
+  let frames: number | null = null;
+  if ((marker === "Xing" || marker === "Info") && frame[xing + 7] & 0x01) {
+    frames = frame.readUInt32BE(xing + 8);
+  } else if (frame.toString("latin1", 36, 40) === "VBRI") {
+    frames = frame.readUInt32BE(36 + 14);
+  }
+  if (frames) {
+    return Math.round((frames * samplesPerFrame) / sampleRate);
+  }
+  return Math.round((audioBytes * 8) / (bitrate * 1000));
+}
+
+export async function parseFlac(
+  source: ByteSource,
+): Promise<ExtractedMetadata | null> {
+  const technical: Record<string, unknown> = {};
+  let tags: Record<string, unknown> = {};
+  let offset = 4;
+  let last = false;
+  while (!last && offset + 4 <= source.size) {
+    const header = await source.read(offset, 4);
+    last = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7f;
+    const length = header.readUIntBE(1, 3);
+    if (type === 0) {
+      const info = await source.read(offset + 4, length);
+      const sampleRate = (info[10] << 12) | (info[11] << 4) | (info[12] >> 4);
+      const samples = (info[13] & 0x0f) * 2 ** 32 + info.readUInt32BE(14);
+      if (sampleRate && samples) {
+        technical.duration = Math.round(samples / sampleRate);
+      }
+    } else if (type === 4) {
+      tags = readVorbisComment(await source.read(offset + 4, length));
+    }
+    offset += 4 + length;
+  }
+  return technical.duration || Object.keys(tags).length
+    ? { technical, tags }
+    : null;
+}
+
+/**
+ * Reads Vorbis (and Opus) streams in an Ogg container: the first two
+ * packets hold the stream parameters and the comments, and the granule
+ * position of the last page gives the length.
+ */
+export async function parseOgg(
+  source: ByteSource,
+): Promise<ExtractedMetadata | null> {
+  const packets = readOggPackets(await source.read(0, WINDOW), 2);
+  if (packets.length < 2) {
+    return null;
+  }
+  const [identification, comments] = packets;
+  let sampleRate: number;
+  let preSkip = 0;
+  let tags: Record<string, unknown>;
+  if (identification.toString("latin1", 0, 7) === "\x01vorbis") {
+    sampleRate = identification.readUInt32LE(12);
+    tags = readVorbisComment(comments.subarray(7));
+  } else if (identification.toString("latin1", 0, 8) === "OpusHead") {
+    sampleRate = 48000;
+    preSkip = identification.readUInt16LE(10);
+    tags = readVorbisComment(comments.subarray(8));
+  } else {
+    return null;
+  }
+
+  const tail = await source.read(Math.max(0, source.size - 65536), 65536);
+  const lastPage = tail.lastIndexOf("OggS", undefined, "latin1");
+  const technical: Record<string, unknown> = {};
+  if (lastPage >= 0 && lastPage + 14 <= tail.length) {
+    const granule = Number(tail.readBigUInt64LE(lastPage + 6));
+    technical.duration = Math.round(
+      Math.max(0, granule - preSkip) / sampleRate,
+    );
+  }
+  return { technical, tags };
+}
+
+function readOggPackets(data: Buffer, wanted: number): Buffer[] {
+  const packets: Buffer[] = [];
+  let current: Buffer[] = [];
+  let offset = 0;
+  while (packets.length < wanted && offset + 27 <= data.length) {
+    if (data.toString("latin1", offset, offset + 4) !== "OggS") {
+      break;
+    }
+    const segments = data[offset + 26];
+    let body = offset + 27 + segments;
+    for (let i = 0; i < segments; i++) {
+      const length = data[offset + 27 + i];
+      current.push(data.subarray(body, body + length));
+      body += length;
+      if (length < 255) {
+        packets.push(Buffer.concat(current));
+        current = [];
+      }
+    }
+    offset = body;
+  }
+  return packets;
+}
+
+/**
+ * Reads the "KEY=value" comments of a Vorbis comment block.
+ */
+function readVorbisComment(block: Buffer): Record<string, unknown> {
+  const tags: Record<string, unknown> = {};
+  let offset = 4 + block.readUInt32LE(0);
+  const count = block.readUInt32LE(offset);
+  offset += 4;
+  for (let i = 0; i < count && offset + 4 <= block.length; i++) {
+    const length = block.readUInt32LE(offset);
+    const comment = block.toString("utf8", offset + 4, offset + 4 + length);
+    offset += 4 + length;
+    const separator = comment.indexOf("=");
+    const field = VORBIS_TAGS[comment.slice(0, separator).toUpperCase()];
+    if (field && !tags[field]) {
+      tags[field] = comment.slice(separator + 1).trim() || undefined;
+    }
+  }
+  return tags;
+}
+
+export async function parseWav(
+  source: ByteSource,
+): Promise<ExtractedMetadata | null> {
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= source.size) {
+    const header = await source.read(offset, 20);
+    const type = header.toString("latin1", 0, 4);
+    const length = header.readUInt32LE(4);
+    if (type === "fmt ") {
+      byteRate = header.readUInt32LE(16);
+    } else if (type === "data" && byteRate) {
+      return {
+        technical: { duration: Math.round(length / byteRate) },
+        tags: {},
+      };
+    }
+    offset += 8 + length + (length % 2);
+  }
+  return null;
+}
@@ -0,0 +1,51 @@
+import { Readable } from "node:stream";
+import { StorageDriver } from "../storage/storage-driver";
+
+/**
+ * Random access to the bytes of a file, so parsers can jump to the boxes,
+ * blocks or trailers they need instead of reading the whole file.
+ */
+export interface ByteSource {
+  readonly size: number;
+
+  /**
+   * Reads `length` bytes at `offset`; fewer near the end of the file.
+   */
+  read(offset: number, length: number): Promise<Buffer>;
+}
+
+export function bufferSource(buffer: Buffer): ByteSource {
+  return {
+    size: buffer.length,
+    read: async (offset, length) =>
+      buffer.subarray(offset, Math.min(buffer.length, offset + length)),
+  };
+}
+
+/**
+ * Reads a stored object by range through the storage driver.
+ */
+export function storageSource(
+  storage: StorageDriver,
+  key: string,
+  size: number,
+): ByteSource {
+  return {
+    size,
+    read: async (offset, length) => {
+      const end = Math.min(size, offset + length) - 1;
+      if (offset < 0 || offset > end) {
+        return Buffer.alloc(0);
+      }
+      return collect(await storage.get(key, { start: offset, end }));
+    },
+  };
+}
+
+async function collect(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
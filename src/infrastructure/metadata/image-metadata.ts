@@ -0,0 +1,190 @@
+import { ExtractedMetadata } from "../../domain/media/services/media.domain-service";
+import { ByteSource } from "./byte-source";
+
+/**
+ * Image headers and EXIF segments sit at the start of the file, well within
+ * this many bytes unless a very large embedded thumbnail precedes them.
+ */
+const HEADER_WINDOW = 512 * 1024;
+
+const EXIF_PREFIX = Buffer.from("Exif\0\0", "latin1");
+
+/** JPEG start-of-frame markers, which carry the image dimensions. */
+const SOF_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+export async function parseJpeg(
+  source: ByteSource,
+): Promise<ExtractedMetadata | null> {
+  const data = await source.read(0, HEADER_WINDOW);
+  const technical: Record<string, unknown> = {};
+  const tags: Record<string, unknown> = {};
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd9 || marker === 0xda) {
+      break;
+    }
+    const length = data.readUInt16BE(offset + 2);
+    const segment = data.subarray(offset + 4, offset + 2 + length);
+    if (SOF_MARKERS.has(marker) && segment.length >= 5) {
+      technical.height = segment.readUInt16BE(1);
+      technical.width = segment.readUInt16BE(3);
+      break;
+    }
+    if (marker === 0xe1 && segment.subarray(0, 6).equals(EXIF_PREFIX)) {
+      tags.capturedAt = exifDateTaken(segment.subarray(6)) ?? undefined;
+    }
+    offset += 2 + length;
+  }
+  return technical.width ? { technical, tags } : null;
+}
+
+export async function parsePng(
+  source: ByteSource,
+): Promise<ExtractedMetadata | null> {
+  const data = await source.read(0, HEADER_WINDOW);
+  if (data.subarray(12, 16).toString("latin1") !== "IHDR") {
+    return null;
+  }
+  const technical = {
+    width: data.readUInt32BE(16),
+    height: data.readUInt32BE(20),
+  };
+  const tags: Record<string, unknown> = {};
+  let offset = 8;
+  while (offset + 8 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.subarray(offset + 4, offset + 8).toString("latin1");
+    if (type === "IDAT" || type === "IEND") {
+      break;
+    }
+    if (type === "eXIf") {
+      const chunk = data.subarray(offset + 8, offset + 8 + length);
+      tags.capturedAt = exifDateTaken(chunk) ?? undefined;
+    }
+    offset += 12 + length;
+  }
+  return { technical, tags };
+}
+
+export async function parseGif(
+  source: ByteSource,
+): Promise<ExtractedMetadata | null> {
+  const data = await source.read(0, 10);
+  if (data.length < 10) {
+    return null;
+  }
+  return {
+    technical: { width: data.readUInt16LE(6), height: data.readUInt16LE(8) },
+    tags: {},
+  };
+}
+
+export async function parseWebp(
+  source: ByteSource,
+): Promise<ExtractedMetadata | null> {
+  const data = await source.read(0, HEADER_WINDOW);
+  const technical: Record<string, unknown> = {};
+  const tags: Record<string, unknown> = {};
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const type = data.subarray(offset, offset + 4).toString("latin1");
+    const length = data.readUInt32LE(offset + 4);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+    if (type === "VP8X" && chunk.length >= 10) {
+      technical.width = 1 + chunk.readUIntLE(4, 3);
+      technical.height = 1 + chunk.readUIntLE(7, 3);
+    } else if (type === "VP8 " && !technical.width && chunk.length >= 10) {
+      technical.width = chunk.readUInt16LE(6) & 0x3fff;
+      technical.height = chunk.readUInt16LE(8) & 0x3fff;
+    } else if (type === "VP8L" && !technical.width && chunk.length >= 5) {
+      const bits = chunk.readUInt32LE(1);
+      technical.width = (bits & 0x3fff) + 1;
+      technical.height = ((bits >> 14) & 0x3fff) + 1;
+    } else if (type === "EXIF") {
+      const tiff = chunk.subarray(0, 6).equals(EXIF_PREFIX)
+        ? chunk.subarray(6)
+        : chunk;
+      tags.capturedAt = exifDateTaken(tiff) ?? undefined;
+    }
+    offset += 8 + length + (length % 2);
+  }
+  return technical.width ? { technical, tags } : null;
+}
+
+const EXIF_IFD_POINTER = 0x8769;
+const DATE_TIME = 0x0132;
+const DATE_TIME_ORIGINAL = 0x9003;
+const ASCII = 2;
+
+/**
+ * Reads when a photo was taken from an EXIF (TIFF) block: DateTimeOriginal,
+ * falling back to the file's DateTime. EXIF dates have no time zone, so they
+ * are read as UTC.
+ */
+export function exifDateTaken(tiff: Buffer): Date | null {
+  const order = tiff.subarray(0, 2).toString("latin1");
+  if (order !== "II" && order !== "MM") {
+    return null;
+  }
+  const little = order === "II";
+  const u16 = (at: number) =>
+    little ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at);
+  const u32 = (at: number) =>
+    little ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at);
+
+  const readIfd = (start: number) => {
+    const entries = new Map<
+      number,
+      { type: number; count: number; at: number }
+    >();
+    const count = u16(start);
+    for (let i = 0; i < count; i++) {
+      const entry = start + 2 + i * 12;
+      const size = u32(entry + 4);
+      entries.set(u16(entry), {
+        type: u16(entry + 2),
+        count: size,
+        at: size > 4 ? u32(entry + 8) : entry + 8,
+      });
+    }
+    return entries;
+  };
+  const text = (entry?: { type: number; count: number; at: number }) =>
+    entry?.type === ASCII
+      ? tiff
+          .toString("latin1", entry.at, entry.at + entry.count)
+          .replace(/\0+$/, "")
+      : null;
+
+  const ifd0 = readIfd(u32(4));
+  const pointer = ifd0.get(EXIF_IFD_POINTER);
+  const exif = pointer ? readIfd(u32(pointer.at)) : new Map();
+  return (
+    parseExifDate(text(exif.get(DATE_TIME_ORIGINAL))) ??
+    parseExifDate(text(ifd0.get(DATE_TIME)))
+  );
+}
+
+/**
+ * Parses the EXIF "YYYY:MM:DD HH:MM:SS" format.
+ */
+function parseExifDate(value: string | null): Date | null {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(
+    value ?? "",
+  );
+  if (!match) {
+    return null;
+  }
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  if (!year || !month || !day) {
+    return null;
+  }
+  return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+}
@@ -0,0 +1,190 @@
+import { DetectedMediaType } from "../../domain/media/services/media.domain-service";
+import { bufferSource } from "./byte-source";
+import { MetadataExtractor } from "./metadata-extractor";
+
+describe("MetadataExtractor", () => {
+  const extractor = new MetadataExtractor();
+  const extract = (format: string, file: Buffer) =>
+    extractor.extract(bufferSource(file), { format } as DetectedMediaType);
+
+  const u16 = (value: number) => Buffer.from([value >> 8, value & 0xff]);
+  const u32 = (value: number) => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32BE(value);
+    return buffer;
+  };
+  const le32 = (value: number) => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32LE(value);
+    return buffer;
+  };
+  const text = (value: string) => Buffer.from(value, "latin1");
+  const box = (type: string, ...payload: Buffer[]) => {
+    const body = Buffer.concat(payload);
+    return Buffer.concat([u32(body.length + 8), text(type), body]);
+  };
+
+  /** A big-endian TIFF block with DateTimeOriginal in an EXIF IFD. */
+  const exif = (date: string) => {
+    const value = text(`${date}\0`);
+    return Buffer.concat([
+      text("MM"),
+      u16(42),
+      u32(8),
+      // IFD0: one entry pointing at the EXIF IFD at offset 26.
+      u16(1),
+      u16(0x8769),
+      u16(4),
+      u32(1),
+      u32(26),
+      u32(0),
+      // EXIF IFD: DateTimeOriginal stored at offset 44.
+      u16(1),
+      u16(0x9003),
+      u16(2),
+      u32(value.length),
+      u32(44),
+      u32(0),
+      value,
+    ]);
+  };
+
+  it("reads JPEG dimensions and the EXIF capture date", async () => {
+    const app1 = Buffer.concat([text("Exif\0\0"), exif("2023:11:02 06:30:00")]);
+    const file = Buffer.concat([
+      Buffer.from([0xff, 0xd8, 0xff, 0xe1]),
+      u16(app1.length + 2),
+      app1,
+      Buffer.from([0xff, 0xc0]),
+      u16(17),
+      Buffer.from([8]),
+      u16(1080),
+      u16(1920),
+      Buffer.alloc(10),
+    ]);
+    await expect(extract("JPEG", file)).resolves.toEqual({
+      technical: { width: 1920, height: 1080 },
+      tags: { capturedAt: new Date("2023-11-02T06:30:00Z") },
+    });
+  });
+
+  it("reads PNG and WebP dimensions", async () => {
+    const png = Buffer.concat([
+      text("\x89PNG\r\n\x1a\n"),
+      u32(13),
+      text("IHDR"),
+      u32(640),
+      u32(480),
+      Buffer.alloc(9),
+    ]);
+    await expect(extract("PNG", png)).resolves.toMatchObject({
+      technical: { width: 640, height: 480 },
+    });
+
+    const bits = 799 | (599 << 14);
+    const webp = Buffer.concat([
+      text("RIFF"),
+      le32(0),
+      text("WEBP"),
+      text("VP8L"),
+      le32(5),
+      Buffer.from([0x2f]),
+      le32(bits),
+      Buffer.alloc(1),
+    ]);
+    await expect(extract("WEBP", webp)).resolves.toMatchObject({
+      technical: { width: 800, height: 600 },
+    });
+  });
+
+  it("reads ID3v2 tags and estimates a constant bitrate MP3's length", async () => {
+    const frame = (id: string, value: string) =>
+      Buffer.concat([
+        text(id),
+        u32(value.length + 1),
+        u16(0),
+        Buffer.from([3]),
+        Buffer.from(value, "utf8"),
+      ]);
+    const frames = Buffer.concat([
+      frame("TPE1", "Nina"),
+      frame("TALB", "Blue"),
+      frame("TCON", "(26)"),
+    ]);
+    // 128 kbit/s, 44.1 kHz MPEG-1 Layer III; 10 s of audio is 160000 bytes.
+    const audio = Buffer.alloc(160000);
+    audio.set([0xff, 0xfb, 0x90, 0x00]);
+    const file = Buffer.concat([
+      text("ID3"),
+      Buffer.from([4, 0, 0, 0, 0, frames.length >> 7, frames.length & 0x7f]),
+      frames,
+      audio,
+    ]);
+    await expect(extract("MP3", file)).resolves.toEqual({
+      technical: { duration: 10 },
+      tags: { artist: "Nina", album: "Blue", genre: "Ambient" },
+    });
+  });
+
+  it("reads FLAC stream info and Vorbis comments", async () => {
+    const info = Buffer.alloc(34);
+    // 44.1 kHz, 2 channels, 16 bits, 441000 samples.
+    info.set([0x0a, 0xc4, 0x42, 0xf0], 10);
+    info.writeUInt32BE(441000, 14);
+    const comment = (value: string) =>
+      Buffer.concat([le32(Buffer.byteLength(value)), Buffer.from(value)]);
+    const comments = Buffer.concat([
+      comment("vendor"),
+      le32(2),
+      comment("ARTIST=Nina"),
+      comment("genre=Jazz"),
+    ]);
+    const block = (type: number, body: Buffer) =>
+      Buffer.concat([Buffer.from([type]), u32(body.length).subarray(1), body]);
+    const file = Buffer.concat([
+      text("fLaC"),
+      block(0, info),
+      block(0x84, comments),
+    ]);
+    await expect(extract("FLAC", file)).resolves.toEqual({
+      technical: { duration: 10 },
+      tags: { artist: "Nina", genre: "Jazz" },
+    });
+  });
+
+  it("reads an MP4 video track", async () => {
+    const mvhd = box("mvhd", Buffer.alloc(12), u32(1000), u32(60000));
+    const tkhd = box("tkhd", Buffer.alloc(76), u32(1280 << 16), u32(720 << 16));
+    const mdhd = box("mdhd", Buffer.alloc(12), u32(25), u32(1500));
+    const hdlr = box("hdlr", Buffer.alloc(8), text("vide"), Buffer.alloc(12));
+    const entry = box("avc1", Buffer.alloc(24), u16(1280), u16(720));
+    const stsd = box("stsd", Buffer.alloc(4), u32(1), entry);
+    const stts = box("stts", Buffer.alloc(4), u32(1), u32(1500), u32(1));
+    const trak = box(
+      "trak",
+      tkhd,
+      box("mdia", mdhd, hdlr, box("minf", box("stbl", stsd, stts))),
+    );
+    const file = Buffer.concat([
+      box("ftyp", text("isom"), u32(0)),
+      box("mdat", Buffer.alloc(32)),
+      box("moov", mvhd, trak),
+    ]);
+    await expect(extract("MP4", file)).resolves.toEqual({
+      technical: {
+        duration: 60,
+        codec: "H.264",
+        resolution: "1280x720",
+        frameRate: 25,
+      },
+      tags: {},
+    });
+  });
+
+  it("returns null for unsupported formats and truncated files", async () => {
+    await expect(extract("WEBM", Buffer.alloc(16))).resolves.toBeNull();
+    await expect(
+      extract("PNG", text("\x89PNG\r\n\x1a\n\0\0\0\x0dIHDR")),
+    ).resolves.toBeNull();
+  });
+});
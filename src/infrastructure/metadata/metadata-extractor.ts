@@ -0,0 +1,61 @@
+import { Injectable } from "@nestjs/common";
+import {
+  DetectedMediaType,
+  ExtractedMetadata,
+} from "../../domain/media/services/media.domain-service";
+import { ByteSource } from "./byte-source";
+import { parseGif, parseJpeg, parsePng, parseWebp } from "./image-metadata";
+import { parseFlac, parseMp3, parseOgg, parseWav } from "./audio-metadata";
+import { parseHeif, parseMp4 } from "./mp4-metadata";
+
+type Parser = (source: ByteSource) => Promise<ExtractedMetadata | null>;
+
+/**
+ * Parsers by the format names MediaDomainService.detectMediaType reports.
+ */
+const PARSERS: Record<string, Parser> = {
+  JPEG: parseJpeg,
+  PNG: parsePng,
+  GIF: parseGif,
+  WEBP: parseWebp,
+  HEIC: parseHeif,
+  AVIF: parseHeif,
+  MP3: parseMp3,
+  FLAC: parseFlac,
+  OGG: parseOgg,
+  WAV: parseWav,
+  M4A: parseMp4,
+  MP4: parseMp4,
+  MOV: parseMp4,
+};
+
+/**
+ * Reads technical metadata and embedded tags from media files: image
+ * headers and EXIF, ID3 and Vorbis comments, and MP4/MOV boxes.
+ */
+@Injectable()
+export class MetadataExtractor {
+  /**
+   * @returns {Promise<ExtractedMetadata | null>} What could be read, or null
+   * when the format is not supported or the file is malformed.
+   */
+  async extract(
+    source: ByteSource,
+    detected: DetectedMediaType,
+  ): Promise<ExtractedMetadata | null> {
+    const parser = PARSERS[detected.format];
+    if (!parser) {
+      return null;
+    }
+    try {
+      return await parser(source);
+    } catch (error) {
+      // Buffer reads past the end of a truncated or corrupt structure. These
+      // come from Node's own realm, so compare by name, not instanceof.
+      if ((error as Error)?.name === "RangeError") {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,254 @@
+import { ExtractedMetadata } from "../../domain/media/services/media.domain-service";
+import { ByteSource } from "./byte-source";
+
+/**
+ * The largest moov or meta box read into memory. Longer files have bigger
+ * sample tables, but even feature-length videos stay well below this.
+ */
+const MAX_BOX_SIZE = 64 * 1024 * 1024;
+
+/** Sample entry codes mapped to the codec names stored in Video.codec. */
+const CODECS: Record<string, string> = {
+  avc1: "H.264",
+  avc3: "H.264",
+  hvc1: "H.265",
+  hev1: "H.265",
+  av01: "AV1",
+  vp09: "VP9",
+  mp4v: "MPEG-4",
+  apch: "ProRes",
+  apcn: "ProRes",
+  apcs: "ProRes",
+  apco: "ProRes",
+  ap4h: "ProRes",
+};
+
+/** iTunes-style metadata items mapped to Music fields. */
+const ILST_TAGS: Record<string, string> = {
+  "\xa9ART": "artist",
+  "\xa9alb": "album",
+  "\xa9gen": "genre",
+};
+
+interface Box {
+  type: string;
+  /** Offset of the payload, after the header. */
+  start: number;
+  end: number;
+}
+
+/**
+ * Lists the boxes in `data` between `start` and `end`.
+ */
+function children(data: Buffer, start = 0, end = data.length): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = data.readUInt32BE(offset);
+    let header = 8;
+    if (size === 1) {
+      size = Number(data.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) {
+      break;
+    }
+    boxes.push({
+      type: data.toString("latin1", offset + 4, offset + 8),
+      start: offset + header,
+      end: Math.min(end, offset + size),
+    });
+    offset += size;
+  }
+  return boxes;
+}
+
+function child(data: Buffer, parent: Box, path: string[]): Box | undefined {
+  let box: Box | undefined = parent;
+  for (const type of path) {
+    box =
+      box && children(data, box.start, box.end).find((b) => b.type === type);
+  }
+  return box;
+}
+
+/**
+ * Reads a top-level box (moov for movies, meta for HEIF images) without
+ * loading the media data around it.
+ */
+async function readTopLevel(
+  source: ByteSource,
+  type: string,
+): Promise<Buffer | null> {
+  let offset = 0;
+  while (offset + 8 <= source.size) {
+    const header = await source.read(offset, 16);
+    let size = header.readUInt32BE(0);
+    let length = 8;
+    if (size === 1) {
+      size = Number(header.readBigUInt64BE(8));
+      length = 16;
+    } else if (size === 0) {
+      size = source.size - offset;
+    }
+    if (size < length) {
+      return null;
+    }
+    if (header.toString("latin1", 4, 8) === type) {
+      return size <= MAX_BOX_SIZE ? source.read(offset, size) : null;
+    }
+    offset += size;
+  }
+  return null;
+}
+
+/**
+ * Timescale and duration of an mvhd or mdhd box.
+ */
+function timing(
+  data: Buffer,
+  box: Box,
+): { timescale: number; duration: number } {
+  const version = data[box.start];
+  return version === 1
+    ? {
+        timescale: data.readUInt32BE(box.start + 20),
+        duration: Number(data.readBigUInt64BE(box.start + 24)),
+      }
+    : {
+        timescale: data.readUInt32BE(box.start + 12),
+        duration: data.readUInt32BE(box.start + 16),
+      };
+}
+
+/**
+ * Reads MP4, MOV and M4A files: duration from the movie header, and for
+ * the video track its codec, dimensions and frame rate.
+ */
+export async function parseMp4(
+  source: ByteSource,
+): Promise<ExtractedMetadata | null> {
+  const data = await readTopLevel(source, "moov");
+  if (!data) {
+    return null;
+  }
+  const [moov] = children(data);
+  const technical: Record<string, unknown> = {};
+  const mvhd = child(data, moov, ["mvhd"]);
+  if (mvhd) {
+    const { timescale, duration } = timing(data, mvhd);
+    if (timescale) {
+      technical.duration = Math.round(duration / timescale);
+    }
+  }
+
+  const video = children(data, moov.start, moov.end)
+    .filter((box) => box.type === "trak")
+    .find((trak) => {
+      const hdlr = child(data, trak, ["mdia", "hdlr"]);
+      return (
+        hdlr &&
+        data.toString("latin1", hdlr.start + 8, hdlr.start + 12) === "vide"
+      );
+    });
+  if (video) {
+    Object.assign(technical, videoTrack(data, video));
+  }
+  return { technical, tags: ilstTags(data, moov) };
+}
+
+function videoTrack(data: Buffer, trak: Box): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  const stbl = child(data, trak, ["mdia", "minf", "stbl"]);
+  const stsd = stbl && child(data, stbl, ["stsd"]);
+  let width = 0;
+  let height = 0;
+  if (stsd) {
+    // Version, flags and entry count precede the first sample entry.
+    const entry = stsd.start + 8;
+    const code = data.toString("latin1", entry + 4, entry + 8);
+    fields.codec = CODECS[code] ?? code.trim();
+    width = data.readUInt16BE(entry + 32);
+    height = data.readUInt16BE(entry + 34);
+  }
+  const tkhd = child(data, trak, ["tkhd"]);
+  if (tkhd) {
+    // The display size, as 16.16 fixed point at the end of the box.
+    const displayWidth = data.readUInt32BE(tkhd.end - 8) >>> 16;
+    const displayHeight = data.readUInt32BE(tkhd.end - 4) >>> 16;
+    if (displayWidth && displayHeight) {
+      width = displayWidth;
+      height = displayHeight;
+    }
+  }
+  if (width && height) {
+    fields.resolution = `${width}x${height}`;
+  }
+
+  const mdhd = child(data, trak, ["mdia", "mdhd"]);
+  const stts = stbl && child(data, stbl, ["stts"]);
+  if (mdhd && stts) {
+    const { timescale, duration } = timing(data, mdhd);
+    let samples = 0;
+    const entries = data.readUInt32BE(stts.start + 4);
+    for (let i = 0; i < entries; i++) {
+      samples += data.readUInt32BE(stts.start + 8 + i * 8);
+    }
+    if (timescale && duration) {
+      fields.frameRate =
+        Math.round((samples * timescale * 100) / duration) / 100;
+    }
+  }
+  return fields;
+}
+
+function ilstTags(data: Buffer, moov: Box): Record<string, unknown> {
+  const tags: Record<string, unknown> = {};
+  const meta = child(data, moov, ["udta", "meta"]);
+  if (!meta) {
+    return tags;
+  }
+  // meta is a full box: its children start after version and flags.
+  const ilst = children(data, meta.start + 4, meta.end).find(
+    (box) => box.type === "ilst",
+  );
+  for (const item of ilst ? children(data, ilst.start, ilst.end) : []) {
+    const field = ILST_TAGS[item.type];
+    const value = child(data, item, ["data"]);
+    if (field && value) {
+      // Type indicator and locale precede the UTF-8 value.
+      tags[field] = data.toString("utf8", value.start + 8, value.end).trim();
+    }
+  }
+  return tags;
+}
+
+/**
+ * Reads the dimensions of a HEIC or AVIF image from the first image spatial
+ * extents (ispe) property of its meta box.
+ */
+export async function parseHeif(
+  source: ByteSource,
+): Promise<ExtractedMetadata | null> {
+  const data = await readTopLevel(source, "meta");
+  if (!data) {
+    return null;
+  }
+  const [meta] = children(data);
+  const iprp = children(data, meta.start + 4, meta.end).find(
+    (box) => box.type === "iprp",
+  );
+  const ispe = iprp && child(data, iprp, ["ipco", "ispe"]);
+  if (!ispe) {
+    return null;
+  }
+  return {
+    technical: {
+      width: data.readUInt32BE(ispe.start + 4),
+      height: data.readUInt32BE(ispe.start + 8),
+    },
+    tags: {},
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Injection token for the list of registered {@link ChannelAdapter}s.
+ */
+export const CHANNEL_ADAPTERS = Symbol("CHANNEL_ADAPTERS");
+
+/**
+ * A message ready to be handed to a delivery channel.
+ */
+export interface OutboundMessage {
+  /** Email address, phone number or (for push) user UUID, depending on the channel. */
+  to: string;
+  subject: string | null;
+  body: string;
+  /** Rich version of `body`, for channels that can show it. */
+  html?: string | null;
+}
+
+/**
+ * Delivers messages over one Notification.channel. New channels or providers
+ * are added by implementing this interface and registering the adapter in
+ * NotificationModule.
+ */
+export interface ChannelAdapter {
+  /** The Notification.channel value this adapter handles. */
+  readonly channel: string;
+
+  /**
+   * Sends the message. Throws {@link PermanentDeliveryError} when retrying
+   * cannot help; any other error is treated as transient.
+   */
+  send(message: OutboundMessage): Promise<void>;
+}
+
+/**
+ * A delivery failure that will not go away on retry (e.g. an invalid address).
+ */
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentDeliveryError";
+  }
+}
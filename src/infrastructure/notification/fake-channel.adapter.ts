@@ -0,0 +1,28 @@
+import { Logger } from "@nestjs/common";
+import { ChannelAdapter, OutboundMessage } from "./channel-adapter";
+
+/**
+ * Stand-in for a real provider in local development and tests. Messages are
+ * logged and kept in memory instead of being delivered.
+ */
+export class FakeChannelAdapter implements ChannelAdapter {
+  private readonly logger = new Logger(FakeChannelAdapter.name);
+
+  /** Messages "sent" so far, most recent last. */
+  readonly sent: OutboundMessage[] = [];
+
+  constructor(
+    readonly channel: string,
+    private readonly capacity = 100,
+  ) {}
+
+  async send(message: OutboundMessage): Promise<void> {
+    this.sent.push(message);
+    if (this.sent.length > this.capacity) {
+      this.sent.shift();
+    }
+    this.logger.log(
+      `[${this.channel}] to ${message.to}: ${message.subject ?? message.body}`,
+    );
+  }
+}
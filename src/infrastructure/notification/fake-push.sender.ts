@@ -0,0 +1,34 @@
+import { Logger } from "@nestjs/common";
+import { InvalidPushTokenError, PushMessage, PushSender } from "./push-sender";
+
+/**
+ * Token the fake sender reports as no longer registered.
+ */
+export const FAKE_UNREGISTERED_TOKEN = "fcm_unregistered";
+
+/**
+ * Stand-in for FCM in local development and tests. Messages are logged and
+ * kept in memory instead of being delivered.
+ */
+export class FakePushSender implements PushSender {
+  readonly provider = "fake";
+  private readonly logger = new Logger(FakePushSender.name);
+
+  /** Messages "sent" so far, most recent last. */
+  readonly sent: PushMessage[] = [];
+
+  constructor(private readonly capacity = 100) {}
+
+  async send(message: PushMessage): Promise<void> {
+    if (message.token === FAKE_UNREGISTERED_TOKEN) {
+      throw new InvalidPushTokenError("Token is not registered");
+    }
+    this.sent.push(message);
+    if (this.sent.length > this.capacity) {
+      this.sent.shift();
+    }
+    this.logger.log(
+      `[push] to ${message.token}: ${message.title ?? message.body}`,
+    );
+  }
+}
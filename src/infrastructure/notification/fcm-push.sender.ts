@@ -0,0 +1,111 @@
+import { createSign } from "node:crypto";
+import { PermanentDeliveryError } from "./channel-adapter";
+import { InvalidPushTokenError, PushMessage, PushSender } from "./push-sender";
+
+export interface FcmOptions {
+  projectId: string;
+  /** Service account used to obtain OAuth access tokens. */
+  clientEmail: string;
+  /** PEM-encoded private key of the service account. */
+  privateKey: string;
+  /** Abort each request after this many milliseconds. */
+  timeout?: number;
+}
+
+const TOKEN_URL = "https://oauth2.googleapis.com/token";
+const SCOPE = "https://www.googleapis.com/auth/firebase.messaging";
+
+/**
+ * Sends push messages through the Firebase Cloud Messaging HTTP v1 API,
+ * authenticating as a service account. Access tokens are cached until
+ * shortly before they expire.
+ *
+ * 404 (UNREGISTERED) means the token is gone. Other 4xx responses except
+ * 408 and 429 are permanent failures; everything else is retried.
+ */
+export class FcmPushSender implements PushSender {
+  readonly provider = "fcm";
+  private accessToken: { value: string; expiresAt: number } | null = null;
+
+  constructor(private readonly options: FcmOptions) {}
+
+  async send(message: PushMessage): Promise<void> {
+    const response = await fetch(
+      `https://fcm.googleapis.com/v1/projects/${this.options.projectId}/messages:send`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${await this.authorize()}`,
+        },
+        body: JSON.stringify({
+          message: {
+            token: message.token,
+            notification: {
+              ...(message.title ? { title: message.title } : {}),
+              body: message.body,
+            },
+          },
+        }),
+        signal: AbortSignal.timeout(this.options.timeout ?? 10_000),
+      },
+    );
+    if (response.ok) {
+      return;
+    }
+
+    const detail = `FCM responded ${response.status}: ${await response.text()}`;
+    if (response.status === 401) {
+      this.accessToken = null;
+    }
+    if (response.status === 404) {
+      throw new InvalidPushTokenError(detail);
+    }
+    const retryable = [401, 408, 429].includes(response.status);
+    if (response.status < 500 && !retryable) {
+      throw new PermanentDeliveryError(detail);
+    }
+    throw new Error(detail);
+  }
+
+  /**
+   * Exchanges a signed service account assertion for an access token.
+   */
+  private async authorize(): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+    if (this.accessToken && this.accessToken.expiresAt > now + 60) {
+      return this.accessToken.value;
+    }
+
+    const encode = (value: object) =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+    const unsigned = `${encode({ alg: "RS256", typ: "JWT" })}.${encode({
+      iss: this.options.clientEmail,
+      scope: SCOPE,
+      aud: TOKEN_URL,
+      iat: now,
+      exp: now + 3600,
+    })}`;
+    const signature = createSign("RSA-SHA256")
+      .update(unsigned)
+      .sign(this.options.privateKey, "base64url");
+
+    const response = await fetch(TOKEN_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+        assertion: `${unsigned}.${signature}`,
+      }),
+      signal: AbortSignal.timeout(this.options.timeout ?? 10_000),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `FCM authorization failed with ${response.status}: ${await response.text()}`,
+      );
+    }
+    const { access_token, expires_in } = await response.json();
+    this.accessToken = { value: access_token, expiresAt: now + expires_in };
+    return access_token;
+  }
+}
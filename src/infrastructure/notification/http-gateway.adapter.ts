@@ -0,0 +1,58 @@
+import {
+  ChannelAdapter,
+  OutboundMessage,
+  PermanentDeliveryError,
+} from "./channel-adapter";
+
+export interface HttpGatewayOptions {
+  url: string;
+  token?: string;
+  /** Abort the request after this many milliseconds. */
+  timeout?: number;
+}
+
+/**
+ * Sends messages by POSTing them as JSON to an HTTP messaging gateway
+ * (SMS or WhatsApp providers, or a relay in front of them):
+ *
+ *     POST <url>
+ *     Authorization: Bearer <token>
+ *     { "to": "+2348000000000", "subject": null, "message": "..." }
+ *
+ * Any 2xx response counts as accepted. 4xx responses other than 408 and 429
+ * are treated as permanent failures.
+ */
+export class HttpGatewayAdapter implements ChannelAdapter {
+  constructor(
+    readonly channel: string,
+    private readonly options: HttpGatewayOptions,
+  ) {}
+
+  async send(message: OutboundMessage): Promise<void> {
+    const response = await fetch(this.options.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.options.token
+          ? { Authorization: `Bearer ${this.options.token}` }
+          : {}),
+      },
+      body: JSON.stringify({
+        to: message.to,
+        subject: message.subject,
+        message: message.body,
+      }),
+      signal: AbortSignal.timeout(this.options.timeout ?? 10_000),
+    });
+    if (response.ok) {
+      return;
+    }
+
+    const detail = `${this.channel} gateway responded ${response.status}: ${await response.text()}`;
+    const retryable = response.status === 408 || response.status === 429;
+    if (response.status < 500 && !retryable) {
+      throw new PermanentDeliveryError(detail);
+    }
+    throw new Error(detail);
+  }
+}
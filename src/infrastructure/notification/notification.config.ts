@@ -0,0 +1,59 @@
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Settings for notification delivery, read from the environment.
+ * Durations are in seconds.
+ */
+export const notificationConfig = {
+  /** Set to "false" to run an instance without the background dispatcher. */
+  dispatcherEnabled: process.env.NOTIFICATION_DISPATCHER_ENABLED !== "false",
+  pollInterval: parseInt(process.env.NOTIFICATION_POLL_INTERVAL ?? "15", 10),
+  batchSize: parseInt(process.env.NOTIFICATION_BATCH_SIZE ?? "50", 10),
+  /** How long a claimed notification stays reserved for one instance. */
+  leaseDuration: parseInt(process.env.NOTIFICATION_LEASE_DURATION ?? "120", 10),
+  maxAttempts: parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS ?? "5", 10),
+  /** Delay before the first retry; doubles on every further attempt. */
+  retryBaseDelay: parseInt(
+    process.env.NOTIFICATION_RETRY_BASE_DELAY ?? "30",
+    10,
+  ),
+  retryMaxDelay: parseInt(
+    process.env.NOTIFICATION_RETRY_MAX_DELAY ?? "3600",
+    10,
+  ),
+
+  /** Locale of notifications for users who chose none or one without templates. */
+  defaultLocale: process.env.NOTIFICATION_DEFAULT_LOCALE ?? "en",
+
+  /** "smtp" or "fake". */
+  emailDriver: process.env.NOTIFICATION_EMAIL_DRIVER ?? "fake",
+  emailFrom: process.env.NOTIFICATION_EMAIL_FROM ?? "no-reply@wrappai.local",
+  smtp: {
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT ?? "587", 10),
+    secure: process.env.SMTP_SECURE === "true",
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+  },
+
+  /** "http" or "fake". */
+  smsDriver: process.env.NOTIFICATION_SMS_DRIVER ?? "fake",
+  smsGatewayUrl: process.env.NOTIFICATION_SMS_GATEWAY_URL,
+  smsGatewayToken: process.env.NOTIFICATION_SMS_GATEWAY_TOKEN,
+
+  /** "http" or "fake". */
+  whatsAppDriver: process.env.NOTIFICATION_WHATSAPP_DRIVER ?? "fake",
+  whatsAppGatewayUrl: process.env.NOTIFICATION_WHATSAPP_GATEWAY_URL,
+  whatsAppGatewayToken: process.env.NOTIFICATION_WHATSAPP_GATEWAY_TOKEN,
+
+  /** "fcm" or "fake". */
+  pushDriver: process.env.NOTIFICATION_PUSH_DRIVER ?? "fake",
+  fcm: {
+    projectId: process.env.FCM_PROJECT_ID,
+    clientEmail: process.env.FCM_CLIENT_EMAIL,
+    /** Escaped newlines are accepted, as .env files cannot hold real ones. */
+    privateKey: process.env.FCM_PRIVATE_KEY?.replace(/\\n/g, "\n"),
+  },
+};
@@ -0,0 +1,63 @@
+import { NotificationChannel } from "../../domain/notification/entities/notification.entity";
+import { DeviceRepository } from "../repositories/device.repository";
+import {
+  ChannelAdapter,
+  OutboundMessage,
+  PermanentDeliveryError,
+} from "./channel-adapter";
+import { InvalidPushTokenError, PushSender } from "./push-sender";
+
+/**
+ * Delivers "push" notifications to every active device of the recipient
+ * that has a push token. Tokens the provider rejects are forgotten.
+ *
+ * The notification counts as delivered once any device accepts it; devices
+ * that failed are not retried, so no device receives it twice.
+ */
+export class PushChannelAdapter implements ChannelAdapter {
+  readonly channel = NotificationChannel.PUSH;
+
+  constructor(
+    private readonly sender: PushSender,
+    private readonly deviceRepository: DeviceRepository,
+  ) {}
+
+  /**
+   * @param message `to` is the recipient's user UUID.
+   */
+  async send(message: OutboundMessage): Promise<void> {
+    const devices = await this.deviceRepository.findPushTargets(message.to);
+    if (!devices.length) {
+      throw new PermanentDeliveryError("Recipient has no device to push to");
+    }
+
+    const errors: unknown[] = [];
+    for (const device of devices) {
+      try {
+        await this.sender.send({
+          token: device.fcmToken,
+          title: message.subject,
+          body: message.body,
+        });
+      } catch (error) {
+        if (error instanceof InvalidPushTokenError) {
+          await this.deviceRepository.clearPushToken(device.uuid);
+        }
+        errors.push(error);
+      }
+    }
+    if (errors.length < devices.length) {
+      return;
+    }
+
+    const detail = errors
+      .map((error) => (error instanceof Error ? error.message : String(error)))
+      .join("; ");
+    const permanent = errors.every(
+      (error) =>
+        error instanceof InvalidPushTokenError ||
+        error instanceof PermanentDeliveryError,
+    );
+    throw permanent ? new PermanentDeliveryError(detail) : new Error(detail);
+  }
+}
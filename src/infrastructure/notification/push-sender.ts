@@ -0,0 +1,34 @@
+/**
+ * A push message for one device.
+ */
+export interface PushMessage {
+  /** The device's FCM registration token. */
+  token: string;
+  title: string | null;
+  body: string;
+}
+
+/**
+ * Delivers push messages to single devices. Used by PushChannelAdapter,
+ * which fans a notification out to all of a user's devices.
+ */
+export interface PushSender {
+  readonly provider: string;
+
+  /**
+   * Sends the message. Throws {@link InvalidPushTokenError} when the token is
+   * no longer registered; other errors follow the ChannelAdapter contract.
+   */
+  send(message: PushMessage): Promise<void>;
+}
+
+/**
+ * The push provider no longer accepts the device's token, e.g. because the
+ * app was uninstalled. The token should be forgotten.
+ */
+export class InvalidPushTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidPushTokenError";
+  }
+}
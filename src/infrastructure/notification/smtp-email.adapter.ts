@@ -0,0 +1,54 @@
+import { createTransport, Transporter } from "nodemailer";
+import {
+  ChannelAdapter,
+  OutboundMessage,
+  PermanentDeliveryError,
+} from "./channel-adapter";
+import { NotificationChannel } from "../../domain/notification/entities/notification.entity";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * Sends email notifications through an SMTP server.
+ */
+export class SmtpEmailAdapter implements ChannelAdapter {
+  readonly channel = NotificationChannel.EMAIL;
+
+  private readonly transporter: Transporter;
+
+  constructor(private readonly options: SmtpOptions) {
+    this.transporter = createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user
+        ? { user: options.user, pass: options.password }
+        : undefined,
+    });
+  }
+
+  async send(message: OutboundMessage): Promise<void> {
+    try {
+      await this.transporter.sendMail({
+        from: this.options.from,
+        to: message.to,
+        subject: message.subject ?? "",
+        text: message.body,
+        html: message.html ?? undefined,
+      });
+    } catch (error) {
+      // 5xx replies mean the server rejected the message for good.
+      if (error.responseCode >= 500) {
+        throw new PermanentDeliveryError(error.message);
+      }
+      throw error;
+    }
+  }
+}
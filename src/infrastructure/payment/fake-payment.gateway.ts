@@ -0,0 +1,45 @@
+import { Logger } from "@nestjs/common";
+import { randomUUID } from "node:crypto";
+import {
+  ChargeRequest,
+  ChargeResult,
+  PaymentDeclinedError,
+  PaymentGateway,
+} from "./payment-gateway";
+
+/**
+ * Token that makes the fake gateway decline the payment.
+ */
+export const FAKE_DECLINED_TOKEN = "tok_declined";
+
+/**
+ * Stand-in for a real gateway in local development and tests. Every charge
+ * succeeds unless the token is {@link FAKE_DECLINED_TOKEN}; nothing is billed.
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  readonly provider = "fake";
+  private readonly logger = new Logger(FakePaymentGateway.name);
+
+  /** Charges made so far, keyed by reference. */
+  readonly charges = new Map<string, ChargeRequest & { refunded: boolean }>();
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    if (request.paymentToken === FAKE_DECLINED_TOKEN) {
+      throw new PaymentDeclinedError("Card declined");
+    }
+    const reference = `fake_${randomUUID()}`;
+    this.charges.set(reference, { ...request, refunded: false });
+    this.logger.log(
+      `Charged ${request.amount} ${request.currency} for order ${request.orderUuid}`,
+    );
+    return { reference };
+  }
+
+  async refund(reference: string): Promise<void> {
+    const charge = this.charges.get(reference);
+    if (charge) {
+      charge.refunded = true;
+    }
+    this.logger.log(`Refunded ${reference}`);
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Injection token for the configured {@link PaymentGateway}.
+ */
+export const PAYMENT_GATEWAY = Symbol("PAYMENT_GATEWAY");
+
+export interface ChargeRequest {
+  /** Amount in the currency's minor unit. */
+  amount: number;
+  currency: string;
+  /** Payment method token obtained by the client from the gateway. */
+  paymentToken: string;
+  /** Our order id, passed along so charges can be reconciled. */
+  orderUuid: string;
+  description: string;
+}
+
+export interface ChargeResult {
+  /** The gateway's identifier for the charge. */
+  reference: string;
+}
+
+/**
+ * Charges and refunds payments. New providers are added by implementing this
+ * interface and registering the gateway in PaymentModule.
+ */
+export interface PaymentGateway {
+  /** Name stored on orders, e.g. "fake". */
+  readonly provider: string;
+
+  /**
+   * Charges the payment method. Throws {@link PaymentDeclinedError} when the
+   * payment is refused; any other error means the outcome is unknown.
+   */
+  charge(request: ChargeRequest): Promise<ChargeResult>;
+
+  /**
+   * Refunds a charge in full.
+   */
+  refund(reference: string): Promise<void>;
+}
+
+/**
+ * The gateway refused the payment (e.g. insufficient funds).
+ */
+export class PaymentDeclinedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentDeclinedError";
+  }
+}
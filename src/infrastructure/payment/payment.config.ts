@@ -0,0 +1,21 @@
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Settings for payments, read from the environment.
+ */
+export const paymentConfig = {
+  /** Which PaymentGateway to use; "fake" is the only built-in one. */
+  gateway: process.env.PAYMENT_GATEWAY ?? "fake",
+  /** ISO 4217 codes prices may be set in. */
+  currencies: (process.env.PAYMENT_CURRENCIES ?? "USD,EUR,GBP,NGN")
+    .split(",")
+    .map((currency) => currency.trim().toUpperCase())
+    .filter(Boolean),
+  /** The platform's share of each sale, in hundredths of a percent. */
+  platformFeeBasisPoints: parseInt(
+    process.env.PAYMENT_PLATFORM_FEE_BPS ?? "1500",
+    10,
+  ),
+};
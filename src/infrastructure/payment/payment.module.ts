@@ -0,0 +1,34 @@
+import { Logger, Module } from "@nestjs/common";
+import { PAYMENT_GATEWAY, PaymentGateway } from "./payment-gateway";
+import { FakePaymentGateway } from "./fake-payment.gateway";
+import { paymentConfig } from "./payment.config";
+
+/**
+ * Factories for the available payment gateways, keyed by PAYMENT_GATEWAY value.
+ */
+const gateways: Record<string, () => PaymentGateway> = {
+  fake: () => {
+    Logger.warn("Using fake payment gateway", PaymentModule.name);
+    return new FakePaymentGateway();
+  },
+};
+
+/**
+ * Provides the configured PaymentGateway under the PAYMENT_GATEWAY token.
+ */
+@Module({
+  providers: [
+    {
+      provide: PAYMENT_GATEWAY,
+      useFactory: (): PaymentGateway => {
+        const factory = gateways[paymentConfig.gateway];
+        if (!factory) {
+          throw new Error(`Unknown payment gateway: ${paymentConfig.gateway}`);
+        }
+        return factory();
+      },
+    },
+  ],
+  exports: [PAYMENT_GATEWAY],
+})
+export class PaymentModule {}
@@ -0,0 +1,20 @@
+import { BadRequestException, Injectable, PipeTransform } from "@nestjs/common";
+import {
+  MEDIA_KINDS,
+  MediaKind,
+} from "../../domain/media/services/media.domain-service";
+
+/**
+ * Validates a ":kind" route parameter against the known media kinds.
+ */
+@Injectable()
+export class MediaKindPipe implements PipeTransform<string, MediaKind> {
+  transform(value: string): MediaKind {
+    if (!MEDIA_KINDS.includes(value as MediaKind)) {
+      throw new BadRequestException(
+        `kind must be one of: ${MEDIA_KINDS.join(", ")}`,
+      );
+    }
+    return value as MediaKind;
+  }
+}
@@ -0,0 +1,22 @@
+import { BadRequestException, Injectable, PipeTransform } from "@nestjs/common";
+import {
+  PURCHASABLE_KINDS,
+  PurchasableKind,
+} from "../../domain/commerce/services/commerce.domain-service";
+
+/**
+ * Validates a ":kind" route parameter against the kinds that can be sold.
+ */
+@Injectable()
+export class PurchasableKindPipe
+  implements PipeTransform<string, PurchasableKind>
+{
+  transform(value: string): PurchasableKind {
+    if (!PURCHASABLE_KINDS.includes(value as PurchasableKind)) {
+      throw new BadRequestException(
+        `kind must be one of: ${PURCHASABLE_KINDS.join(", ")}`,
+      );
+    }
+    return value as PurchasableKind;
+  }
+}
@@ -0,0 +1,256 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, Repository, SelectQueryBuilder } from "typeorm";
+import {
+  AnalyticsBucket,
+  BucketGranularity,
+} from "../../domain/analytics/entities/analytics-bucket.entity";
+import { AnalyticsCheckpoint } from "../../domain/analytics/entities/analytics-checkpoint.entity";
+import { AnalyticsViewer } from "../../domain/analytics/entities/analytics-viewer.entity";
+import { TimeWindow } from "../../domain/analytics/services/analytics.domain-service";
+import { MediaKind } from "../../domain/media/services/media.domain-service";
+
+/**
+ * Which buckets a report reads.
+ */
+export interface BucketFilter {
+  studioUuid: string;
+  playlistUuid?: string;
+  granularity: BucketGranularity;
+  window: TimeWindow;
+  interactionType?: string;
+}
+
+export interface SeriesPoint {
+  bucketStart: Date;
+  interactionType: string;
+  count: number;
+}
+
+export interface MediaCount {
+  mediaKind: MediaKind;
+  mediaUuid: string;
+  count: number;
+}
+
+/**
+ * Interactions in [$1, $2) with the media kind, media uuid and owning studio
+ * of each resolved. Interactions whose studio cannot be found are skipped.
+ */
+const SCOPED_INTERACTIONS = `
+  SELECT * FROM (
+    SELECT
+      i."timestamp" AS at,
+      i."userUuid" AS user_uuid,
+      i."interactionType" AS interaction_type,
+      i."playlistUuid" AS playlist_uuid,
+      CASE
+        WHEN i."musicUuid" IS NOT NULL THEN 'music'
+        WHEN i."photoUuid" IS NOT NULL THEN 'photo'
+        WHEN i."videoUuid" IS NOT NULL THEN 'video'
+      END AS media_kind,
+      COALESCE(i."musicUuid", i."photoUuid", i."videoUuid") AS media_uuid,
+      COALESCE(m.studio_uuid, p.studio_uuid, v.studio_uuid, pl."studioUuid") AS studio_uuid
+    FROM "media_interaction" i
+    LEFT JOIN "music" m ON m.uuid = i."musicUuid"
+    LEFT JOIN "photo" p ON p.uuid = i."photoUuid"
+    LEFT JOIN "video" v ON v.uuid = i."videoUuid"
+    LEFT JOIN "playlist" pl ON pl.uuid = i."playlistUuid"
+    WHERE i."timestamp" >= $1 AND i."timestamp" < $2
+  ) scoped
+  WHERE studio_uuid IS NOT NULL`;
+
+/**
+ * Roll-up of the interaction log into AnalyticsBucket and AnalyticsViewer
+ * rows, and the report queries that read them.
+ */
+@Injectable()
+export class AnalyticsRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly buckets: Repository<AnalyticsBucket> =
+    this.dataSource.getRepository(AnalyticsBucket);
+  private readonly viewers: Repository<AnalyticsViewer> =
+    this.dataSource.getRepository(AnalyticsViewer);
+
+  /**
+   * Recounts the window chosen by `plan` and moves the checkpoint to its end.
+   *
+   * The checkpoint row is locked for the duration, so roll-ups from several
+   * app instances do not overlap. Hourly buckets in the window are rebuilt
+   * from the interaction log, daily buckets from the hourly ones.
+   * @param plan Picks the window from the checkpoint and the oldest interaction.
+   * @returns {TimeWindow | null} The window rolled up, or null if there was none.
+   */
+  async rollup(
+    name: string,
+    plan: (rolledUpTo: Date | null, earliest: Date | null) => TimeWindow | null,
+    viewTypes: string[],
+  ): Promise<TimeWindow | null> {
+    return this.dataSource.transaction(async (manager) => {
+      await manager
+        .createQueryBuilder()
+        .insert()
+        .into(AnalyticsCheckpoint)
+        .values({ name, rolledUpTo: null })
+        .orIgnore()
+        .execute();
+      const checkpoint = await manager
+        .createQueryBuilder(AnalyticsCheckpoint, "checkpoint")
+        .setLock("pessimistic_write")
+        .where("checkpoint.name = :name", { name })
+        .getOneOrFail();
+
+      let earliest: Date | null = null;
+      if (!checkpoint.rolledUpTo) {
+        const [row] = await manager.query(
+          `SELECT MIN("timestamp") AS earliest FROM "media_interaction"`,
+        );
+        earliest = row?.earliest ?? null;
+      }
+      const window = plan(checkpoint.rolledUpTo, earliest);
+      if (!window) {
+        return null;
+      }
+      const { from, to } = window;
+
+      await manager.query(
+        `DELETE FROM "analytics_bucket"
+         WHERE "granularity" = 'hour' AND "bucketStart" >= $1 AND "bucketStart" < $2`,
+        [from, to],
+      );
+      await manager.query(
+        `INSERT INTO "analytics_bucket"
+           ("granularity", "bucketStart", "studio_uuid", "mediaKind", "mediaUuid",
+            "playlistUuid", "interactionType", "count")
+         SELECT 'hour', date_trunc('hour', at), studio_uuid, media_kind, media_uuid,
+                playlist_uuid, interaction_type, COUNT(*)
+         FROM (${SCOPED_INTERACTIONS}) s
+         GROUP BY 2, 3, 4, 5, 6, 7`,
+        [from, to],
+      );
+
+      await manager.query(
+        `INSERT INTO "analytics_viewer" ("day", "scopeUuid", "userUuid")
+         SELECT DISTINCT at::date, scope.uuid, user_uuid
+         FROM (${SCOPED_INTERACTIONS}) s
+         CROSS JOIN LATERAL (VALUES (studio_uuid), (playlist_uuid)) AS scope(uuid)
+         WHERE scope.uuid IS NOT NULL
+           AND user_uuid IS NOT NULL
+           AND interaction_type = ANY($3)
+         ON CONFLICT ("day", "scopeUuid", "userUuid") DO NOTHING`,
+        [from, to, viewTypes],
+      );
+
+      const dayFrom = `date_trunc('day', $1::timestamp)`;
+      await manager.query(
+        `DELETE FROM "analytics_bucket"
+         WHERE "granularity" = 'day' AND "bucketStart" >= ${dayFrom} AND "bucketStart" < $2`,
+        [from, to],
+      );
+      await manager.query(
+        `INSERT INTO "analytics_bucket"
+           ("granularity", "bucketStart", "studio_uuid", "mediaKind", "mediaUuid",
+            "playlistUuid", "interactionType", "count")
+         SELECT 'day', date_trunc('day', "bucketStart"), "studio_uuid", "mediaKind",
+                "mediaUuid", "playlistUuid", "interactionType", SUM("count")
+         FROM "analytics_bucket"
+         WHERE "granularity" = 'hour' AND "bucketStart" >= ${dayFrom} AND "bucketStart" < $2
+         GROUP BY 2, 3, 4, 5, 6, 7`,
+        [from, to],
+      );
+
+      checkpoint.rolledUpTo = to;
+      await manager.save(checkpoint);
+      return window;
+    });
+  }
+
+  /**
+   * Interaction counts per bucket and type, oldest bucket first.
+   */
+  async timeSeries(filter: BucketFilter): Promise<SeriesPoint[]> {
+    const rows = await this.filtered(filter)
+      .select("bucket.bucketStart", "bucketStart")
+      .addSelect("bucket.interactionType", "interactionType")
+      .addSelect("SUM(bucket.count)", "count")
+      .groupBy("bucket.bucketStart")
+      .addGroupBy("bucket.interactionType")
+      .orderBy("bucket.bucketStart", "ASC")
+      .addOrderBy("bucket.interactionType", "ASC")
+      .getRawMany();
+    return rows.map((row) => ({ ...row, count: Number(row.count) }));
+  }
+
+  /**
+   * The media items with the most interactions, most first.
+   */
+  async topMedia(filter: BucketFilter, limit: number): Promise<MediaCount[]> {
+    const rows = await this.filtered(filter)
+      .andWhere("bucket.mediaUuid IS NOT NULL")
+      .select("bucket.mediaKind", "mediaKind")
+      .addSelect("bucket.mediaUuid", "mediaUuid")
+      .addSelect("SUM(bucket.count)", "count")
+      .groupBy("bucket.mediaKind")
+      .addGroupBy("bucket.mediaUuid")
+      .orderBy("SUM(bucket.count)", "DESC")
+      .limit(limit)
+      .getRawMany();
+    return rows.map((row) => ({ ...row, count: Number(row.count) }));
+  }
+
+  /**
+   * Interaction counts per type over the whole window.
+   */
+  async totals(filter: BucketFilter): Promise<Record<string, number>> {
+    const rows = await this.filtered(filter)
+      .select("bucket.interactionType", "interactionType")
+      .addSelect("SUM(bucket.count)", "count")
+      .groupBy("bucket.interactionType")
+      .getRawMany();
+    return Object.fromEntries(
+      rows.map((row) => [row.interactionType, Number(row.count)]),
+    );
+  }
+
+  /**
+   * Distinct viewers of a studio or playlist over whole days of `window`.
+   */
+  async uniqueViewers(scopeUuid: string, window: TimeWindow): Promise<number> {
+    const row = await this.viewers
+      .createQueryBuilder("viewer")
+      .select("COUNT(DISTINCT viewer.userUuid)", "count")
+      .where("viewer.scopeUuid = :scopeUuid", { scopeUuid })
+      .andWhere(
+        "viewer.day >= CAST(:from AS date) AND viewer.day < CAST(:to AS date)",
+        { from: window.from, to: window.to },
+      )
+      .getRawOne();
+    return Number(row?.count ?? 0);
+  }
+
+  private filtered(filter: BucketFilter): SelectQueryBuilder<AnalyticsBucket> {
+    const query = this.buckets
+      .createQueryBuilder("bucket")
+      .where("bucket.studioUuid = :studioUuid", {
+        studioUuid: filter.studioUuid,
+      })
+      .andWhere("bucket.granularity = :granularity", {
+        granularity: filter.granularity,
+      })
+      .andWhere("bucket.bucketStart >= :from AND bucket.bucketStart < :to", {
+        from: filter.window.from,
+        to: filter.window.to,
+      });
+    if (filter.playlistUuid) {
+      query.andWhere("bucket.playlistUuid = :playlistUuid", {
+        playlistUuid: filter.playlistUuid,
+      });
+    }
+    if (filter.interactionType) {
+      query.andWhere("bucket.interactionType = :interactionType", {
+        interactionType: filter.interactionType,
+      });
+    }
+    return query;
+  }
+}
@@ -0,0 +1,271 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, In, Repository } from "typeorm";
+import {
+  Campaign,
+  CampaignSegment,
+  CampaignStatus,
+} from "../../domain/campaign/entities/campaign.entity";
+import {
+  Notification,
+  NotificationStatus,
+} from "../../domain/notification/entities/notification.entity";
+import { InteractionType } from "../../domain/media/entities/media.interaction.entity";
+
+export interface AudienceFilter {
+  studioUuid: string;
+  segment: CampaignSegment;
+  /** Start of the look-back of an "active" segment. */
+  activeSince: Date | null;
+}
+
+export interface CampaignBatch {
+  /** The last recipient of the batch; null if it was empty. */
+  cursor: string | null;
+  recipients: number;
+  optedOut: number;
+  /** Whether the audience has been worked through. */
+  done: boolean;
+}
+
+const OPEN_STATUSES = [CampaignStatus.SCHEDULED, CampaignStatus.SENDING];
+
+const VIEW_INTERACTIONS = [
+  InteractionType.WATCHED,
+  InteractionType.SEEN,
+  InteractionType.COMPLETED,
+];
+
+/** The interaction column of each kind of item a buyer can buy. */
+const TARGET_COLUMNS = {
+  music: `i."musicUuid"`,
+  photo: `i."photoUuid"`,
+  video: `i."videoUuid"`,
+  playlist: `i."playlistUuid"`,
+};
+
+/**
+ * Users who interacted with media or playlists of studio $1.
+ */
+const AUDIENCE = `
+  SELECT DISTINCT i."userUuid" AS user_uuid
+  FROM "media_interaction" i
+  LEFT JOIN "music" m ON m.uuid = i."musicUuid"
+  LEFT JOIN "photo" p ON p.uuid = i."photoUuid"
+  LEFT JOIN "video" v ON v.uuid = i."videoUuid"
+  LEFT JOIN "playlist" pl ON pl.uuid = i."playlistUuid"
+  WHERE i."userUuid" IS NOT NULL
+    AND COALESCE(m.studio_uuid, p.studio_uuid, v.studio_uuid, pl."studioUuid") = $1`;
+
+/**
+ * Persistence for Campaign rows, the audiences they are sent to and the
+ * notifications they produced.
+ */
+@Injectable()
+export class CampaignRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<Campaign> =
+    this.dataSource.getRepository(Campaign);
+
+  create(data: Partial<Campaign>): Campaign {
+    return this.repository.create(data);
+  }
+
+  save(campaign: Campaign): Promise<Campaign> {
+    return this.repository.save(campaign);
+  }
+
+  findForStudio(studioUuid: string, uuid: string): Promise<Campaign | null> {
+    return this.repository.findOneBy({ studioUuid, uuid });
+  }
+
+  /**
+   * A studio's campaigns, newest first.
+   */
+  findByStudio(
+    studioUuid: string,
+    limit: number,
+    offset: number,
+  ): Promise<[Campaign[], number]> {
+    return this.repository.findAndCount({
+      where: { studioUuid },
+      order: { createdAt: "DESC" },
+      take: limit,
+      skip: offset,
+    });
+  }
+
+  /**
+   * Claims the campaign that has waited longest for fan-out, leasing it to
+   * the caller for `leaseSeconds` and marking it as sending. Campaigns
+   * leased by another instance are skipped.
+   */
+  claimDue(leaseSeconds: number): Promise<Campaign | null> {
+    return this.dataSource.transaction(async (manager) => {
+      const campaign = await manager
+        .createQueryBuilder(Campaign, "campaign")
+        .where("campaign.status IN (:...statuses)", {
+          statuses: OPEN_STATUSES,
+        })
+        .andWhere("campaign.sendAt <= now()")
+        .andWhere(
+          "(campaign.lockedUntil IS NULL OR campaign.lockedUntil < now())",
+        )
+        .orderBy("campaign.sendAt", "ASC")
+        .limit(1)
+        .setLock("pessimistic_write")
+        .setOnLocked("skip_locked")
+        .getOne();
+      if (!campaign) {
+        return null;
+      }
+      campaign.status = CampaignStatus.SENDING;
+      campaign.lockedUntil = new Date(Date.now() + leaseSeconds * 1000);
+      await manager.update(
+        Campaign,
+        { uuid: campaign.uuid },
+        { status: campaign.status, lockedUntil: campaign.lockedUntil },
+      );
+      return campaign;
+    });
+  }
+
+  /**
+   * The next `limit` users of the audience after `afterUserUuid`, in UUID
+   * order.
+   */
+  async audience(
+    filter: AudienceFilter,
+    afterUserUuid: string | null,
+    limit: number,
+  ): Promise<string[]> {
+    const params: unknown[] = [filter.studioUuid];
+    const conditions: string[] = [];
+    const add = (condition: string, value: unknown) => {
+      params.push(value);
+      conditions.push(condition.replace("?", `$${params.length}`));
+    };
+
+    const { segment } = filter;
+    switch (segment.type) {
+      case "playlist-viewers":
+        add(`i."playlistUuid" = ?::uuid`, segment.playlistUuid);
+        add(`i."interactionType" = ANY(?)`, VIEW_INTERACTIONS);
+        break;
+      case "buyers":
+        add(`i."interactionType" = ?`, InteractionType.PAID);
+        if (segment.targetKind && segment.targetUuid) {
+          add(
+            `${TARGET_COLUMNS[segment.targetKind]} = ?::uuid`,
+            segment.targetUuid,
+          );
+        }
+        break;
+      case "active":
+        add(`i."timestamp" >= ?`, filter.activeSince);
+        break;
+    }
+    if (afterUserUuid) {
+      add(`i."userUuid" > ?::uuid`, afterUserUuid);
+    }
+    params.push(limit);
+
+    const rows: { user_uuid: string }[] = await this.dataSource.query(
+      `${AUDIENCE} ${conditions.map((condition) => `AND ${condition}`).join(" ")}
+       ORDER BY user_uuid
+       LIMIT $${params.length}`,
+      params,
+    );
+    return rows.map((row) => row.user_uuid);
+  }
+
+  /**
+   * Records a fanned-out batch and releases the lease. Nothing is recorded
+   * if the campaign was cancelled in the meantime.
+   * @returns {Promise<boolean>} Whether the campaign was still sending.
+   */
+  async recordBatch(uuid: string, batch: CampaignBatch): Promise<boolean> {
+    const { affected } = await this.repository
+      .createQueryBuilder()
+      .update()
+      .set({
+        fanOutCursor: () => `COALESCE(:cursor, "fanOutCursor")`,
+        recipientCount: () => `"recipientCount" + :recipients`,
+        optedOutCount: () => `"optedOutCount" + :optedOut`,
+        status: batch.done ? CampaignStatus.SENT : CampaignStatus.SENDING,
+        completedAt: batch.done ? new Date() : null,
+        lockedUntil: null,
+      })
+      .where("uuid = :uuid AND status = :sending", {
+        uuid,
+        sending: CampaignStatus.SENDING,
+        cursor: batch.cursor,
+        recipients: batch.recipients,
+        optedOut: batch.optedOut,
+      })
+      .execute();
+    return !!affected;
+  }
+
+  /**
+   * Cancels a campaign that has not finished fanning out and withdraws its
+   * notifications that have not been delivered yet.
+   * @returns {Promise<boolean>} Whether the campaign was still open.
+   */
+  cancel(uuid: string, cancelledAt: Date): Promise<boolean> {
+    return this.dataSource.transaction(async (manager) => {
+      const { affected } = await manager.update(
+        Campaign,
+        { uuid, status: In(OPEN_STATUSES) },
+        {
+          status: CampaignStatus.CANCELLED,
+          cancelledAt,
+          lockedUntil: null,
+        },
+      );
+      if (!affected) {
+        return false;
+      }
+      await this.withdrawPending(uuid, manager.getRepository(Notification));
+      return true;
+    });
+  }
+
+  /**
+   * Deletes the campaign's pending notifications, except those a dispatcher
+   * is delivering right now.
+   */
+  async withdrawPending(
+    uuid: string,
+    notifications: Repository<Notification> = this.dataSource.getRepository(
+      Notification,
+    ),
+  ): Promise<void> {
+    await notifications
+      .createQueryBuilder()
+      .delete()
+      .where("campaign_uuid = :uuid AND status = :pending", {
+        uuid,
+        pending: NotificationStatus.PENDING,
+      })
+      .andWhere(`("lockedUntil" IS NULL OR "lockedUntil" < now())`)
+      .execute();
+  }
+
+  /**
+   * The campaign's notifications counted by status.
+   */
+  async countNotifications(uuid: string): Promise<Record<string, number>> {
+    const rows: { status: string; count: string }[] = await this.dataSource
+      .getRepository(Notification)
+      .createQueryBuilder("notification")
+      .select("notification.status", "status")
+      .addSelect("COUNT(*)", "count")
+      .where("notification.campaignUuid = :uuid", { uuid })
+      .groupBy("notification.status")
+      .getRawMany();
+    return Object.fromEntries(
+      rows.map((row) => [row.status, Number(row.count)]),
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, FindOptionsWhere, Repository } from "typeorm";
+import { ContentKey } from "../../domain/drm/entities/content-key.entity";
+import { MediaKind } from "../../domain/media/services/media.domain-service";
+
+/**
+ * Persistence for ContentKey rows.
+ */
+@Injectable()
+export class ContentKeyRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<ContentKey> =
+    this.dataSource.getRepository(ContentKey);
+
+  /**
+   * All content keys of a media item, oldest first.
+   */
+  findForMedia(kind: MediaKind, mediaUuid: string): Promise<ContentKey[]> {
+    return this.repository.find({
+      where: forMedia(kind, mediaUuid),
+      order: { createdAt: "ASC" },
+    });
+  }
+
+  findOne(
+    kind: MediaKind,
+    mediaUuid: string,
+    keyId: string,
+  ): Promise<ContentKey | null> {
+    return this.repository.findOneBy({ ...forMedia(kind, mediaUuid), keyId });
+  }
+
+  existsWithKeyId(keyId: string): Promise<boolean> {
+    return this.repository.existsBy({ keyId });
+  }
+
+  create(data: Partial<ContentKey>): ContentKey {
+    return this.repository.create(data);
+  }
+
+  save(key: ContentKey): Promise<ContentKey> {
+    return this.repository.save(key);
+  }
+
+  async remove(key: ContentKey): Promise<void> {
+    await this.repository.delete({ uuid: key.uuid });
+  }
+}
+
+function forMedia(
+  kind: MediaKind,
+  mediaUuid: string,
+): FindOptionsWhere<ContentKey> {
+  return { mediaKind: kind, [kind]: { uuid: mediaUuid } };
+}
@@ -0,0 +1,97 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, In, Not, Repository } from "typeorm";
+import { Device } from "../../domain/device/entities/device.entity";
+
+/**
+ * Persistence for Device rows.
+ */
+@Injectable()
+export class DeviceRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<Device> =
+    this.dataSource.getRepository(Device);
+
+  /**
+   * Loads one of a user's devices together with its session.
+   */
+  findForUser(userUuid: string, uuid: string): Promise<Device | null> {
+    return this.repository.findOne({
+      where: { uuid, userUuid },
+      relations: { session: true },
+    });
+  }
+
+  findBySession(sessionUuid: string): Promise<Device | null> {
+    return this.repository.findOne({ where: { sessionUuid } });
+  }
+
+  /**
+   * A user's devices marked active, most recently signed in first.
+   */
+  findActive(userUuid: string): Promise<Device[]> {
+    return this.repository.find({
+      where: { userUuid, active: true },
+      relations: { session: true },
+      order: { lastLoggedInTime: "DESC" },
+    });
+  }
+
+  /**
+   * Active devices of a user that have a push token and whose session is
+   * still valid.
+   */
+  findPushTargets(userUuid: string, now: Date = new Date()): Promise<Device[]> {
+    return this.repository
+      .createQueryBuilder("device")
+      .innerJoin("device.session", "session")
+      .where("device.userUuid = :userUuid", { userUuid })
+      .andWhere("device.active = true")
+      .andWhere("device.fcmToken IS NOT NULL")
+      .andWhere("session.revokedAt IS NULL")
+      .andWhere("session.expiresAt > :now", { now })
+      .getMany();
+  }
+
+  create(data: Partial<Device>): Device {
+    return this.repository.create(data);
+  }
+
+  save(device: Device): Promise<Device> {
+    return this.repository.save(device);
+  }
+
+  /**
+   * Removes a push token from every device but `exceptUuid`, so a token
+   * that moved to another device or account is only addressed once.
+   */
+  async releaseToken(fcmToken: string, exceptUuid: string): Promise<void> {
+    await this.repository.update(
+      { fcmToken, uuid: Not(exceptUuid) },
+      { fcmToken: null },
+    );
+  }
+
+  /**
+   * Forgets a push token the push provider no longer accepts.
+   */
+  async clearPushToken(uuid: string): Promise<void> {
+    await this.repository.update({ uuid }, { fcmToken: null });
+  }
+
+  async markSignedOut(uuids: string[], at: Date): Promise<void> {
+    if (uuids.length) {
+      await this.repository.update(
+        { uuid: In(uuids), active: true },
+        { active: false, lastLoggedOutTime: at },
+      );
+    }
+  }
+
+  async markSessionSignedOut(sessionUuid: string, at: Date): Promise<void> {
+    await this.repository.update(
+      { sessionUuid, active: true },
+      { active: false, lastLoggedOutTime: at },
+    );
+  }
+}
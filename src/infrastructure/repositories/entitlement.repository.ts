@@ -0,0 +1,79 @@
+import { Injectable } from "@nestjs/common";
+import { Brackets, DataSource, Repository } from "typeorm";
+import { Entitlement } from "../../domain/commerce/entities/entitlement.entity";
+import { PurchasableKind } from "../../domain/commerce/services/commerce.domain-service";
+import { PlaylistItem } from "../../domain/media/entities/playlist-item.entity";
+
+/**
+ * Persistence for Entitlement rows and the access checks built on them.
+ */
+@Injectable()
+export class EntitlementRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<Entitlement> =
+    this.dataSource.getRepository(Entitlement);
+
+  findActiveForUser(userUuid: string): Promise<Entitlement[]> {
+    return this.repository
+      .createQueryBuilder("entitlement")
+      .where("entitlement.userUuid = :userUuid", { userUuid })
+      .andWhere("entitlement.revokedAt IS NULL")
+      .orderBy("entitlement.createdAt", "DESC")
+      .getMany();
+  }
+
+  /**
+   * Whether the user owns exactly this item or playlist.
+   */
+  async ownsDirectly(
+    userUuid: string,
+    kind: PurchasableKind,
+    uuid: string,
+  ): Promise<boolean> {
+    const count = await this.repository
+      .createQueryBuilder("entitlement")
+      .where("entitlement.userUuid = :userUuid", { userUuid })
+      .andWhere("entitlement.revokedAt IS NULL")
+      .andWhere("entitlement.targetKind = :kind", { kind })
+      .andWhere("entitlement.targetUuid = :uuid", { uuid })
+      .getCount();
+    return count > 0;
+  }
+
+  /**
+   * Whether the user owns the item, either directly or through a playlist
+   * that currently contains it.
+   */
+  async hasAccess(
+    userUuid: string,
+    kind: PurchasableKind,
+    uuid: string,
+  ): Promise<boolean> {
+    const playlists = this.dataSource
+      .createQueryBuilder()
+      .select('"item"."playlist_uuid"')
+      .from(PlaylistItem, "item")
+      .where(`"item"."${kind}_uuid" = :uuid`)
+      .getQuery();
+    const count = await this.repository
+      .createQueryBuilder("entitlement")
+      .where("entitlement.userUuid = :userUuid", { userUuid })
+      .andWhere("entitlement.revokedAt IS NULL")
+      .andWhere(
+        new Brackets((where) => {
+          where.where(
+            "entitlement.targetKind = :kind AND entitlement.targetUuid = :uuid",
+            { kind, uuid },
+          );
+          if (kind !== "playlist") {
+            where.orWhere(
+              `entitlement.targetKind = 'playlist' AND entitlement.targetUuid IN (${playlists})`,
+            );
+          }
+        }),
+      )
+      .getCount();
+    return count > 0;
+  }
+}
@@ -0,0 +1,82 @@
+import { Injectable } from "@nestjs/common";
+import {
+  DataSource,
+  DeepPartial,
+  IsNull,
+  MoreThanOrEqual,
+  QueryFailedError,
+  Repository,
+} from "typeorm";
+import {
+  InteractionType,
+  MediaInteraction,
+} from "../../domain/media/entities/media.interaction.entity";
+import { MediaKind } from "../../domain/media/services/media.domain-service";
+
+/** Postgres error code for a row that references a missing row. */
+const FOREIGN_KEY_VIOLATION = "23503";
+
+/**
+ * Identifies the interactions of one user with one media item.
+ */
+export interface InteractionKey {
+  type: InteractionType;
+  userUuid: string;
+  kind: MediaKind;
+  mediaUuid: string;
+  playlistUuid: string | null;
+}
+
+/**
+ * Persistence for MediaInteraction rows. The table is append-only.
+ */
+@Injectable()
+export class MediaInteractionRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<MediaInteraction> =
+    this.dataSource.getRepository(MediaInteraction);
+
+  async insert(rows: DeepPartial<MediaInteraction>[]): Promise<void> {
+    if (rows.length) {
+      await this.repository.insert(rows);
+    }
+  }
+
+  /**
+   * Inserts rows one at a time, so that one bad row does not fail the rest.
+   * Rows whose user, media or playlist no longer exists are dropped.
+   * @returns The rows that could not be written for another reason.
+   */
+  async insertEach(
+    rows: DeepPartial<MediaInteraction>[],
+  ): Promise<DeepPartial<MediaInteraction>[]> {
+    const failed: DeepPartial<MediaInteraction>[] = [];
+    for (const row of rows) {
+      try {
+        await this.repository.insert(row);
+      } catch (error) {
+        if (
+          !(error instanceof QueryFailedError) ||
+          error.driverError?.code !== FOREIGN_KEY_VIOLATION
+        ) {
+          failed.push(row);
+        }
+      }
+    }
+    return failed;
+  }
+
+  /**
+   * Whether an interaction matching `key` was recorded at or after `since`.
+   */
+  existsSince(key: InteractionKey, since: Date): Promise<boolean> {
+    return this.repository.existsBy({
+      interactionType: key.type,
+      user: { uuid: key.userUuid },
+      [key.kind]: { uuid: key.mediaUuid },
+      playlist: key.playlistUuid ? { uuid: key.playlistUuid } : IsNull(),
+      timestamp: MoreThanOrEqual(since),
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, FindOptionsWhere, Repository } from "typeorm";
+import { MediaRendition } from "../../domain/media/entities/media-rendition.entity";
+import { MediaKind } from "../../domain/media/services/media.domain-service";
+
+/**
+ * Persistence for MediaRendition rows.
+ */
+@Injectable()
+export class MediaRenditionRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<MediaRendition> =
+    this.dataSource.getRepository(MediaRendition);
+
+  /**
+   * The renditions of a media item, lowest bandwidth first: those encoded
+   * from `version`, or all of them.
+   */
+  findForMedia(
+    kind: MediaKind,
+    mediaUuid: string,
+    version?: number,
+  ): Promise<MediaRendition[]> {
+    return this.repository.find({
+      where: { ...forMedia(kind, mediaUuid), version },
+      order: { bandwidth: "ASC", createdAt: "ASC" },
+    });
+  }
+
+  /**
+   * A rendition of a media item, if it was encoded from `version` when one
+   * is given.
+   */
+  findOne(
+    kind: MediaKind,
+    mediaUuid: string,
+    uuid: string,
+    version?: number,
+  ): Promise<MediaRendition | null> {
+    return this.repository.findOneBy({
+      ...forMedia(kind, mediaUuid),
+      uuid,
+      version,
+    });
+  }
+
+  create(data: Partial<MediaRendition>): MediaRendition {
+    return this.repository.create(data);
+  }
+
+  save(rendition: MediaRendition): Promise<MediaRendition> {
+    return this.repository.save(rendition);
+  }
+
+  async remove(rendition: MediaRendition): Promise<void> {
+    await this.repository.delete({ uuid: rendition.uuid });
+  }
+}
+
+function forMedia(
+  kind: MediaKind,
+  mediaUuid: string,
+): FindOptionsWhere<MediaRendition> {
+  return { mediaKind: kind, [kind]: { uuid: mediaUuid } };
+}
@@ -0,0 +1,103 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, FindOptionsWhere, Repository } from "typeorm";
+import { MediaRevision } from "../../domain/media/entities/media-revision.entity";
+import {
+  MEDIA_ENTITIES,
+  MediaItem,
+  MediaKind,
+} from "../../domain/media/services/media.domain-service";
+
+/**
+ * The outcome of a revision change: revisions to insert and the media item
+ * fields to update.
+ */
+export interface RevisionChange {
+  revisions: MediaRevision[];
+  fields: Record<string, unknown>;
+}
+
+/**
+ * Persistence for MediaRevision rows.
+ */
+@Injectable()
+export class MediaRevisionRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<MediaRevision> =
+    this.dataSource.getRepository(MediaRevision);
+
+  /**
+   * All revisions of a media item, newest first.
+   */
+  findForMedia(kind: MediaKind, mediaUuid: string): Promise<MediaRevision[]> {
+    return this.repository.find({
+      where: forMedia(kind, mediaUuid),
+      relations: { createdBy: true },
+      order: { version: "DESC" },
+    });
+  }
+
+  findVersion(
+    kind: MediaKind,
+    mediaUuid: string,
+    version: number,
+  ): Promise<MediaRevision | null> {
+    return this.repository.findOneBy({
+      ...forMedia(kind, mediaUuid),
+      version,
+    });
+  }
+
+  create(data: Partial<MediaRevision>): MediaRevision {
+    return this.repository.create(data);
+  }
+
+  save(revision: MediaRevision): Promise<MediaRevision> {
+    return this.repository.save(revision);
+  }
+
+  /**
+   * Applies `change` to a media item and its revisions in one transaction.
+   *
+   * The media row is locked for the duration, so concurrent uploads and
+   * rollbacks of the same item are serialised and version numbers stay
+   * unique. `change` receives the item and its revisions, newest first.
+   * @returns {MediaItem | null} The updated item, or null if it does not exist.
+   */
+  async revise(
+    kind: MediaKind,
+    mediaUuid: string,
+    change: (
+      item: MediaItem,
+      revisions: MediaRevision[],
+    ) => RevisionChange | Promise<RevisionChange>,
+  ): Promise<MediaItem | null> {
+    const entity = MEDIA_ENTITIES[kind];
+    return this.dataSource.transaction(async (manager) => {
+      const item = await manager
+        .createQueryBuilder<MediaItem>(entity, "media")
+        .setLock("pessimistic_write")
+        .where("media.uuid = :mediaUuid", { mediaUuid })
+        .getOne();
+      if (!item) {
+        return null;
+      }
+
+      const revisions = await manager.find(MediaRevision, {
+        where: forMedia(kind, mediaUuid),
+        order: { version: "DESC" },
+      });
+      const { revisions: added, fields } = await change(item, revisions);
+      await manager.save(MediaRevision, added);
+      await manager.update(entity, { uuid: mediaUuid }, fields);
+      return manager.findOneBy<MediaItem>(entity, { uuid: mediaUuid });
+    });
+  }
+}
+
+function forMedia(
+  kind: MediaKind,
+  mediaUuid: string,
+): FindOptionsWhere<MediaRevision> {
+  return { mediaKind: kind, [kind]: { uuid: mediaUuid } };
+}
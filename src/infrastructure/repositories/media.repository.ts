@@ -0,0 +1,128 @@
+import { Injectable } from "@nestjs/common";
+import {
+  DataSource,
+  DeepPartial,
+  In,
+  LessThan,
+  Not,
+  Repository,
+} from "typeorm";
+import {
+  MEDIA_ENTITIES,
+  MediaItem,
+  MediaKind,
+} from "../../domain/media/services/media.domain-service";
+
+/**
+ * Persistence for Music, Photo and Video rows, addressed by media kind.
+ */
+@Injectable()
+export class MediaRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  /**
+   * Loads a media item. Deleted items are only found with `withDeleted`.
+   */
+  findByUuid(
+    kind: MediaKind,
+    uuid: string,
+    withDeleted = false,
+  ): Promise<MediaItem | null> {
+    return this.repositoryFor(kind).findOne({ where: { uuid }, withDeleted });
+  }
+
+  /**
+   * Deleted items whose deletion is older than `cutoff`, oldest first,
+   * other than those in `exclude`.
+   */
+  findDeletedBefore(
+    kind: MediaKind,
+    cutoff: Date,
+    limit: number,
+    exclude: string[] = [],
+  ): Promise<MediaItem[]> {
+    return this.repositoryFor(kind).find({
+      where: {
+        deletedAt: LessThan(cutoff),
+        ...(exclude.length ? { uuid: Not(In(exclude)) } : {}),
+      },
+      withDeleted: true,
+      order: { deletedAt: "ASC" },
+      take: limit,
+    });
+  }
+
+  create(kind: MediaKind, data: DeepPartial<MediaItem>): MediaItem {
+    return this.repositoryFor(kind).create(data);
+  }
+
+  save<T extends MediaItem>(item: T): Promise<T> {
+    return this.dataSource.manager.save(item);
+  }
+
+  /**
+   * Sets the life cycle fields of an item, whether or not it is deleted.
+   */
+  async updateLifecycle(
+    kind: MediaKind,
+    uuid: string,
+    fields: Pick<MediaItem, "status" | "archivedAt" | "deletedAt">,
+  ): Promise<void> {
+    await this.repositoryFor(kind).update({ uuid }, fields);
+  }
+
+  /**
+   * Removes the row for good.
+   */
+  async hardDelete(kind: MediaKind, uuid: string): Promise<void> {
+    await this.repositoryFor(kind).delete({ uuid });
+  }
+
+  /**
+   * Adds `views` to the view counter and moves lastAccessedAt forward in one
+   * statement, without touching updatedAt (which drives Last-Modified).
+   */
+  async recordAccess(
+    kind: MediaKind,
+    uuid: string,
+    views: number,
+    accessedAt: Date,
+  ): Promise<void> {
+    await this.repositoryFor(kind)
+      .createQueryBuilder()
+      .update()
+      .set({
+        viewCount: () => `"viewCount" + :views`,
+        lastAccessedAt: () =>
+          `GREATEST(COALESCE("lastAccessedAt", :accessedAt), :accessedAt)`,
+        updatedAt: () => `"updatedAt"`,
+      })
+      .where("uuid = :uuid", { uuid, views, accessedAt })
+      .execute();
+  }
+
+  /**
+   * Counts a completed download, leaving updatedAt alone like recordAccess.
+   */
+  async recordDownload(
+    kind: MediaKind,
+    uuid: string,
+    downloadedAt: Date,
+  ): Promise<void> {
+    await this.repositoryFor(kind)
+      .createQueryBuilder()
+      .update()
+      .set({
+        downloadCount: () => `"downloadCount" + 1`,
+        lastAccessedAt: () =>
+          `GREATEST(COALESCE("lastAccessedAt", :downloadedAt), :downloadedAt)`,
+        updatedAt: () => `"updatedAt"`,
+      })
+      .where("uuid = :uuid", { uuid, downloadedAt })
+      .execute();
+  }
+
+  private repositoryFor(kind: MediaKind): Repository<MediaItem> {
+    return this.dataSource.getRepository<MediaItem>(MEDIA_ENTITIES[kind]);
+  }
+}
@@ -0,0 +1,26 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, Repository } from "typeorm";
+import { NotificationPreference } from "../../domain/notification/entities/notification-preference.entity";
+
+/**
+ * Persistence for NotificationPreference rows.
+ */
+@Injectable()
+export class NotificationPreferenceRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<NotificationPreference> =
+    this.dataSource.getRepository(NotificationPreference);
+
+  findForUser(userUuid: string): Promise<NotificationPreference | null> {
+    return this.repository.findOneBy({ userUuid });
+  }
+
+  create(data: Partial<NotificationPreference>): NotificationPreference {
+    return this.repository.create(data);
+  }
+
+  save(preference: NotificationPreference): Promise<NotificationPreference> {
+    return this.repository.save(preference);
+  }
+}
@@ -0,0 +1,110 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, In, Repository } from "typeorm";
+import {
+  Notification,
+  NotificationStatus,
+} from "../../domain/notification/entities/notification.entity";
+
+/**
+ * Persistence for Notification rows.
+ *
+ * Rows are updated with UPDATE statements rather than `save()`, because the
+ * entity's BeforeUpdate hook would compress the already-compressed message.
+ */
+@Injectable()
+export class NotificationRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<Notification> =
+    this.dataSource.getRepository(Notification);
+
+  create(data: Partial<Notification>): Notification {
+    return this.repository.create(data);
+  }
+
+  insert(notification: Notification): Promise<Notification> {
+    return this.repository.save(notification);
+  }
+
+  /**
+   * Claims up to `limit` pending notifications that are due, leasing them to
+   * the caller for `leaseSeconds`. Rows locked or leased by another instance
+   * are skipped, so several instances can poll concurrently.
+   * @returns {Promise<Notification[]>} The claimed notifications with their users loaded.
+   */
+  async claimDue(limit: number, leaseSeconds: number): Promise<Notification[]> {
+    const uuids = await this.dataSource.transaction(async (manager) => {
+      const due = await manager
+        .createQueryBuilder(Notification, "notification")
+        .select("notification.uuid")
+        .where("notification.status = :status", {
+          status: NotificationStatus.PENDING,
+        })
+        .andWhere(
+          "COALESCE(notification.nextAttemptAt, notification.sendAt) <= now()",
+        )
+        .andWhere(
+          "(notification.lockedUntil IS NULL OR notification.lockedUntil < now())",
+        )
+        .orderBy("notification.sendAt", "ASC")
+        .limit(limit)
+        .setLock("pessimistic_write")
+        .setOnLocked("skip_locked")
+        .getMany();
+      if (!due.length) {
+        return [];
+      }
+
+      const ids = due.map((notification) => notification.uuid);
+      await manager.update(
+        Notification,
+        { uuid: In(ids) },
+        { lockedUntil: new Date(Date.now() + leaseSeconds * 1000) },
+      );
+      return ids;
+    });
+    if (!uuids.length) {
+      return [];
+    }
+
+    return this.repository.find({
+      where: { uuid: In(uuids) },
+      relations: { user: true },
+      order: { sendAt: "ASC" },
+    });
+  }
+
+  async markSent(uuid: string, attempts: number, deliveredAt: Date) {
+    await this.repository.update(uuid, {
+      status: NotificationStatus.SENT,
+      attempts,
+      deliveredAt,
+      nextAttemptAt: null,
+      lockedUntil: null,
+    });
+  }
+
+  async markRetry(
+    uuid: string,
+    attempts: number,
+    nextAttemptAt: Date,
+    errorLog: string,
+  ) {
+    await this.repository.update(uuid, {
+      attempts,
+      nextAttemptAt,
+      errorLog,
+      lockedUntil: null,
+    });
+  }
+
+  async markFailed(uuid: string, attempts: number, errorLog: string) {
+    await this.repository.update(uuid, {
+      status: NotificationStatus.FAILED,
+      attempts,
+      errorLog,
+      nextAttemptAt: null,
+      lockedUntil: null,
+    });
+  }
+}
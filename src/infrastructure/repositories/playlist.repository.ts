@@ -0,0 +1,95 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, In, Repository } from "typeorm";
+import { Playlist } from "../../domain/media/entities/playlist.entity";
+import { PlaylistItem } from "../../domain/media/entities/playlist-item.entity";
+import { MediaKind } from "../../domain/media/services/media.domain-service";
+
+/**
+ * Persistence for Playlist rows and their PlaylistItem entries.
+ */
+@Injectable()
+export class PlaylistRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<Playlist> =
+    this.dataSource.getRepository(Playlist);
+
+  /**
+   * Loads a playlist together with its studio and the studio's owner.
+   */
+  findWithStudio(uuid: string): Promise<Playlist | null> {
+    return this.repository.findOne({
+      where: { uuid },
+      relations: { studio: { user: true } },
+    });
+  }
+
+  /**
+   * Loads a playlist with its entries and their media, in timeline order.
+   */
+  findTimeline(uuid: string): Promise<Playlist | null> {
+    return this.repository.findOne({
+      where: { uuid },
+      relations: {
+        studio: true,
+        items: { music: true, photo: true, video: true },
+      },
+      order: { items: { position: "ASC" } },
+    });
+  }
+
+  /**
+   * Whether the playlist has an entry for the media item.
+   */
+  hasMedia(uuid: string, kind: MediaKind, mediaUuid: string): Promise<boolean> {
+    return this.dataSource.getRepository(PlaylistItem).existsBy({
+      playlistUuid: uuid,
+      mediaKind: kind,
+      [kind]: { uuid: mediaUuid },
+    });
+  }
+
+  create(data: Partial<Playlist>): Playlist {
+    return this.repository.create(data);
+  }
+
+  save(playlist: Playlist): Promise<Playlist> {
+    return this.repository.save(playlist);
+  }
+
+  /**
+   * Applies `change` to the playlist's entries and persists the result.
+   *
+   * The playlist row is locked for the duration, so concurrent edits to the
+   * same playlist are serialised. `change` receives the current entries in
+   * timeline order and returns the new ordered list: entries missing from it
+   * are deleted, entries without a uuid are inserted, and positions are saved.
+   */
+  async updateItems(
+    playlistUuid: string,
+    change: (items: PlaylistItem[]) => PlaylistItem[] | Promise<PlaylistItem[]>,
+  ): Promise<PlaylistItem[]> {
+    return this.dataSource.transaction(async (manager) => {
+      await manager
+        .createQueryBuilder(Playlist, "playlist")
+        .setLock("pessimistic_write")
+        .where("playlist.uuid = :playlistUuid", { playlistUuid })
+        .getOneOrFail();
+
+      const current = await manager.find(PlaylistItem, {
+        where: { playlistUuid },
+        order: { position: "ASC" },
+      });
+      const next = await change(current);
+
+      const kept = new Set(next.map((item) => item.uuid).filter(Boolean));
+      const removed = current.filter((item) => !kept.has(item.uuid));
+      if (removed.length) {
+        await manager.delete(PlaylistItem, {
+          uuid: In(removed.map((item) => item.uuid)),
+        });
+      }
+      return manager.save(PlaylistItem, next);
+    });
+  }
+}
@@ -0,0 +1,51 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, FindOptionsWhere, Repository } from "typeorm";
+import { Price } from "../../domain/commerce/entities/price.entity";
+import { PurchasableKind } from "../../domain/commerce/services/commerce.domain-service";
+
+/**
+ * Persistence for Price rows, addressed by what is for sale.
+ */
+@Injectable()
+export class PriceRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<Price> =
+    this.dataSource.getRepository(Price);
+
+  findForTarget(kind: PurchasableKind, uuid: string): Promise<Price[]> {
+    return this.repository.find({
+      where: forTarget(kind, uuid),
+      order: { currency: "ASC" },
+    });
+  }
+
+  /**
+   * Replaces all prices of an item or playlist with `prices`.
+   */
+  replaceForTarget(
+    kind: PurchasableKind,
+    uuid: string,
+    prices: Pick<Price, "currency" | "amount">[],
+  ): Promise<Price[]> {
+    return this.dataSource.transaction(async (manager) => {
+      await manager.delete(Price, forTarget(kind, uuid));
+      return manager.save(
+        prices.map((price) =>
+          manager.create(Price, {
+            ...price,
+            targetKind: kind,
+            [kind]: { uuid },
+          }),
+        ),
+      );
+    });
+  }
+}
+
+function forTarget(
+  kind: PurchasableKind,
+  uuid: string,
+): FindOptionsWhere<Price> {
+  return { targetKind: kind, [kind]: { uuid } };
+}
@@ -0,0 +1,117 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, Repository } from "typeorm";
+import {
+  OrderStatus,
+  PurchaseOrder,
+} from "../../domain/commerce/entities/purchase-order.entity";
+import {
+  LedgerEntry,
+  LedgerEntryType,
+} from "../../domain/commerce/entities/ledger-entry.entity";
+import { Entitlement } from "../../domain/commerce/entities/entitlement.entity";
+import { LedgerLine } from "../../domain/commerce/services/commerce.domain-service";
+import {
+  InteractionType,
+  MediaInteraction,
+} from "../../domain/media/entities/media.interaction.entity";
+
+/**
+ * Persistence for PurchaseOrder rows and the ledger entries and
+ * entitlements that a payment or refund produces alongside them.
+ */
+@Injectable()
+export class PurchaseOrderRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<PurchaseOrder> =
+    this.dataSource.getRepository(PurchaseOrder);
+
+  findByUuid(uuid: string): Promise<PurchaseOrder | null> {
+    return this.repository.findOneBy({ uuid });
+  }
+
+  findForUser(userUuid: string): Promise<PurchaseOrder[]> {
+    return this.repository.find({
+      where: { userUuid },
+      order: { createdAt: "DESC" },
+    });
+  }
+
+  create(data: Partial<PurchaseOrder>): PurchaseOrder {
+    return this.repository.create(data);
+  }
+
+  save(order: PurchaseOrder): Promise<PurchaseOrder> {
+    return this.repository.save(order);
+  }
+
+  /**
+   * Marks the order paid and, in the same transaction, books the ledger
+   * lines, grants the entitlement and logs a PAID interaction.
+   */
+  completePayment(
+    order: PurchaseOrder,
+    reference: string,
+    lines: LedgerLine[],
+  ): Promise<PurchaseOrder> {
+    return this.dataSource.transaction(async (manager) => {
+      order.status = OrderStatus.PAID;
+      order.gatewayReference = reference;
+      order.paidAt = new Date();
+      const saved = await manager.save(order);
+
+      await manager.insert(LedgerEntry, ledgerEntries(saved, lines));
+      await manager.insert(Entitlement, {
+        userUuid: saved.userUuid,
+        targetKind: saved.targetKind,
+        targetUuid: saved.targetUuid,
+        orderUuid: saved.uuid,
+      });
+      await manager.insert(MediaInteraction, {
+        interactionType: InteractionType.PAID,
+        timestamp: saved.paidAt,
+        user: { uuid: saved.userUuid },
+        [saved.targetKind]: { uuid: saved.targetUuid },
+      });
+      return saved;
+    });
+  }
+
+  /**
+   * Marks the order refunded, books the reversing ledger lines and revokes
+   * the entitlements it granted, in one transaction.
+   */
+  recordRefund(
+    order: PurchaseOrder,
+    lines: LedgerLine[],
+  ): Promise<PurchaseOrder> {
+    return this.dataSource.transaction(async (manager) => {
+      order.status = OrderStatus.REFUNDED;
+      order.refundedAt = new Date();
+      const saved = await manager.save(order);
+
+      await manager.insert(LedgerEntry, ledgerEntries(saved, lines));
+      await manager.update(
+        Entitlement,
+        { orderUuid: saved.uuid },
+        { revokedAt: saved.refundedAt },
+      );
+      return saved;
+    });
+  }
+}
+
+function ledgerEntries(
+  order: PurchaseOrder,
+  lines: LedgerLine[],
+): Partial<LedgerEntry>[] {
+  return lines.map((line) => ({
+    ...line,
+    orderUuid: order.uuid,
+    studioUuid:
+      line.entryType === LedgerEntryType.STUDIO_EARNING
+        ? order.studioUuid
+        : null,
+    currency: order.currency,
+  }));
+}
@@ -0,0 +1,304 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource } from "typeorm";
+import { MediaSimilarity } from "../../domain/recommendation/entities/media-similarity.entity";
+import {
+  CoOccurrence,
+  ContentProfile,
+  MediaRef,
+  SimilarityRow,
+} from "../../domain/recommendation/services/recommendation.domain-service";
+import { MediaKind } from "../../domain/media/services/media.domain-service";
+import { MediaStatus } from "../../domain/entities/base";
+import { StudioStatus } from "../../domain/studio/entities/studio.entity";
+import { REGION_AVAILABLE } from "../database/region.query";
+
+/**
+ * A recommendable item as shown on a shelf.
+ */
+export interface MediaSummary extends MediaRef {
+  title: string;
+  studioUuid: string;
+}
+
+const INSERT_BATCH = 1000;
+
+/**
+ * Media that may be recommended: active, streamable items of approved
+ * studios that have not been deleted. When `country` names the query
+ * parameter holding the viewer's country, only items offered there are
+ * included.
+ */
+function visibleMedia(country?: string): string {
+  return (["music", "photo", "video"] as MediaKind[])
+    .map(
+      (kind) => `
+    SELECT '${kind}' AS kind, t.uuid, t.title, t.studio_uuid,
+           ${kind === "music" ? "t.artist, t.genre" : "NULL AS artist, NULL AS genre"},
+           t."createdAt" AS created_at
+    FROM "${kind}" t
+    JOIN "studio" s ON s.uuid = t.studio_uuid AND s.status = '${StudioStatus.APPROVED}'
+    ${country ? `CROSS JOIN (SELECT ${country}::text AS country) q` : ""}
+    WHERE t."deletedAt" IS NULL
+      AND t.status = '${MediaStatus.ACTIVE}'
+      AND t."streamingAllowed"
+      ${country ? `AND ${REGION_AVAILABLE}` : ""}`,
+    )
+    .join(" UNION ALL ");
+}
+
+/**
+ * Media items consumed by each user through interactions of types $1.
+ */
+const CONSUMED = `
+  SELECT * FROM (
+    SELECT
+      i."userUuid" AS user_uuid,
+      CASE
+        WHEN i."musicUuid" IS NOT NULL THEN 'music'
+        WHEN i."photoUuid" IS NOT NULL THEN 'photo'
+        WHEN i."videoUuid" IS NOT NULL THEN 'video'
+      END AS kind,
+      COALESCE(i."musicUuid", i."photoUuid", i."videoUuid") AS uuid,
+      i."timestamp" AS at
+    FROM "media_interaction" i
+    WHERE i."interactionType" = ANY($1)
+  ) consumed
+  WHERE user_uuid IS NOT NULL AND uuid IS NOT NULL`;
+
+/**
+ * Co-consumption statistics, precomputed similarities and the catalog
+ * queries recommendations are drawn from.
+ */
+@Injectable()
+export class RecommendationRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  /**
+   * Pairs of distinct items consumed by at least `minTogether` of the same
+   * users since `since`, in both directions.
+   */
+  async coOccurrences(
+    since: Date,
+    types: string[],
+    minTogether: number,
+  ): Promise<CoOccurrence[]> {
+    const rows = await this.dataSource.query(
+      `WITH pairs AS (
+         SELECT DISTINCT user_uuid, kind, uuid FROM (${CONSUMED}) c WHERE at >= $2
+       ),
+         audience AS (SELECT kind, uuid, COUNT(*) AS users FROM pairs GROUP BY kind, uuid)
+       SELECT a.kind AS source_kind, a.uuid AS source_uuid,
+              b.kind AS target_kind, b.uuid AS target_uuid,
+              COUNT(*) AS together,
+              MAX(sa.users) AS source_users, MAX(sb.users) AS target_users
+       FROM pairs a
+       JOIN pairs b ON b.user_uuid = a.user_uuid AND (b.kind, b.uuid) <> (a.kind, a.uuid)
+       JOIN audience sa ON sa.kind = a.kind AND sa.uuid = a.uuid
+       JOIN audience sb ON sb.kind = b.kind AND sb.uuid = b.uuid
+       GROUP BY a.kind, a.uuid, b.kind, b.uuid
+       HAVING COUNT(*) >= $3`,
+      [types, since, minTogether],
+    );
+    return rows.map(
+      (row: Record<string, string>): CoOccurrence => ({
+        source: { kind: row.source_kind as MediaKind, uuid: row.source_uuid },
+        target: { kind: row.target_kind as MediaKind, uuid: row.target_uuid },
+        together: Number(row.together),
+        sourceUsers: Number(row.source_users),
+        targetUsers: Number(row.target_users),
+      }),
+    );
+  }
+
+  /**
+   * Replaces every stored similarity in one transaction, so readers see
+   * either the old or the new set.
+   */
+  async replaceSimilarities(rows: SimilarityRow[]): Promise<void> {
+    await this.dataSource.transaction(async (manager) => {
+      await manager.clear(MediaSimilarity);
+      for (let start = 0; start < rows.length; start += INSERT_BATCH) {
+        await manager.insert(
+          MediaSimilarity,
+          rows.slice(start, start + INSERT_BATCH),
+        );
+      }
+    });
+  }
+
+  /**
+   * The best `perSource` neighbours of each source that are visible in
+   * `country`.
+   */
+  async similarTo(
+    sources: MediaRef[],
+    perSource: number,
+    country: string | null,
+  ): Promise<SimilarityRow[]> {
+    if (!sources.length) {
+      return [];
+    }
+    const rows = await this.dataSource.query(
+      `WITH visible AS (${visibleMedia("$4")})
+       SELECT * FROM (
+         SELECT m."sourceKind", m."sourceUuid", m."targetKind", m."targetUuid",
+                m.score, m.together,
+                ROW_NUMBER() OVER (
+                  PARTITION BY m."sourceKind", m."sourceUuid"
+                  ORDER BY m.score DESC, m."targetKind", m."targetUuid"
+                ) AS rank
+         FROM "media_similarity" m
+         JOIN visible v ON v.kind = m."targetKind" AND v.uuid = m."targetUuid"
+         WHERE (m."sourceKind", m."sourceUuid") IN (
+           SELECT * FROM unnest($1::text[], $2::uuid[])
+         )
+       ) ranked
+       WHERE rank <= $3
+       ORDER BY score DESC`,
+      [
+        sources.map((source) => source.kind),
+        sources.map((source) => source.uuid),
+        perSource,
+        country,
+      ],
+    );
+    return rows.map(
+      (row: Record<string, unknown>): SimilarityRow => ({
+        sourceKind: row.sourceKind as MediaKind,
+        sourceUuid: row.sourceUuid as string,
+        targetKind: row.targetKind as MediaKind,
+        targetUuid: row.targetUuid as string,
+        score: Number(row.score),
+        together: Number(row.together),
+      }),
+    );
+  }
+
+  /**
+   * The distinct items a user has consumed, most recently consumed first.
+   */
+  async consumedBy(
+    userUuid: string,
+    types: string[],
+    limit: number,
+  ): Promise<MediaRef[]> {
+    const rows = await this.dataSource.query(
+      `SELECT kind, uuid FROM (${CONSUMED}) c
+       WHERE user_uuid = $2
+       GROUP BY kind, uuid
+       ORDER BY MAX(at) DESC
+       LIMIT $3`,
+      [types, userUuid, limit],
+    );
+    return rows.map((row: Record<string, string>) => ({
+      kind: row.kind as MediaKind,
+      uuid: row.uuid,
+    }));
+  }
+
+  /**
+   * Content profiles of visible items, in no particular order, wherever
+   * they are offered.
+   */
+  async profiles(refs: MediaRef[]): Promise<ContentProfile[]> {
+    if (!refs.length) {
+      return [];
+    }
+    const rows = await this.dataSource.query(
+      `WITH visible AS (${visibleMedia()})
+       SELECT * FROM visible
+       WHERE (kind, uuid) IN (SELECT * FROM unnest($1::text[], $2::uuid[]))`,
+      [refs.map((ref) => ref.kind), refs.map((ref) => ref.uuid)],
+    );
+    return rows.map(toProfile);
+  }
+
+  /**
+   * Items visible in `country` sharing an artist, genre or studio with any
+   * of `profiles`, newest first.
+   */
+  async contentCandidates(
+    profiles: ContentProfile[],
+    limit: number,
+    country: string | null,
+  ): Promise<ContentProfile[]> {
+    const values = (field: keyof ContentProfile) => [
+      ...new Set(profiles.map((profile) => profile[field]).filter(Boolean)),
+    ];
+    const rows = await this.dataSource.query(
+      `WITH visible AS (${visibleMedia("$5")})
+       SELECT * FROM visible
+       WHERE artist = ANY($1) OR genre = ANY($2) OR studio_uuid = ANY($3::uuid[])
+       ORDER BY created_at DESC, kind, uuid
+       LIMIT $4`,
+      [values("artist"), values("genre"), values("studioUuid"), limit, country],
+    );
+    return rows.map(toProfile);
+  }
+
+  /**
+   * Items visible in `country` with the most consuming interactions since
+   * `since`, read from the daily analytics roll-up.
+   */
+  async popular(
+    since: Date,
+    types: string[],
+    limit: number,
+    country: string | null,
+  ): Promise<{ ref: MediaRef; count: number }[]> {
+    const rows = await this.dataSource.query(
+      `WITH visible AS (${visibleMedia("$4")})
+       SELECT b."mediaKind" AS kind, b."mediaUuid" AS uuid, SUM(b.count) AS count
+       FROM "analytics_bucket" b
+       JOIN visible v ON v.kind = b."mediaKind" AND v.uuid = b."mediaUuid"
+       WHERE b.granularity = 'day'
+         AND b."bucketStart" >= $1
+         AND b."interactionType" = ANY($2)
+       GROUP BY b."mediaKind", b."mediaUuid"
+       ORDER BY SUM(b.count) DESC, b."mediaKind", b."mediaUuid"
+       LIMIT $3`,
+      [since, types, limit, country],
+    );
+    return rows.map((row: Record<string, string>) => ({
+      ref: { kind: row.kind as MediaKind, uuid: row.uuid },
+      count: Number(row.count),
+    }));
+  }
+
+  /**
+   * Titles and studios of the items among `refs` that are visible in
+   * `country`.
+   */
+  async summaries(
+    refs: MediaRef[],
+    country: string | null,
+  ): Promise<MediaSummary[]> {
+    if (!refs.length) {
+      return [];
+    }
+    const rows = await this.dataSource.query(
+      `WITH visible AS (${visibleMedia("$3")})
+       SELECT kind, uuid, title, studio_uuid FROM visible
+       WHERE (kind, uuid) IN (SELECT * FROM unnest($1::text[], $2::uuid[]))`,
+      [refs.map((ref) => ref.kind), refs.map((ref) => ref.uuid), country],
+    );
+    return rows.map(
+      (row: Record<string, string>): MediaSummary => ({
+        kind: row.kind as MediaKind,
+        uuid: row.uuid,
+        title: row.title,
+        studioUuid: row.studio_uuid,
+      }),
+    );
+  }
+}
+
+function toProfile(row: Record<string, string | null>): ContentProfile {
+  return {
+    kind: row.kind as MediaKind,
+    uuid: row.uuid as string,
+    studioUuid: row.studio_uuid,
+    artist: row.artist,
+    genre: row.genre,
+  };
+}
@@ -0,0 +1,204 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource } from "typeorm";
+import {
+  SearchCursor,
+  SearchKind,
+} from "../../domain/search/services/search.domain-service";
+import { MediaStatus } from "../../domain/entities/base";
+import { StudioStatus } from "../../domain/studio/entities/studio.entity";
+import { REGION_AVAILABLE } from "../database/region.query";
+
+export interface SearchFilter {
+  text: string;
+  kinds: SearchKind[];
+  genre?: string;
+  format?: string;
+  studioUuid?: string;
+  /** The viewer's country; media not offered there is left out. */
+  country: string | null;
+}
+
+export interface SearchHit {
+  kind: SearchKind;
+  uuid: string;
+  title: string;
+  subtitle: string | null;
+  studioUuid: string | null;
+  studioName: string | null;
+  genre: string | null;
+  format: string | null;
+  score: number;
+}
+
+export interface FacetCount {
+  facet: "kind" | "genre" | "format" | "studio";
+  value: string;
+  label: string | null;
+  count: number;
+}
+
+/**
+ * Query $1 as a full-text query and as plain text for trigram matching, for
+ * a viewer in country $2.
+ */
+const QUERY = `SELECT websearch_to_tsquery('simple', $1) AS ts, $1::text AS text, $2::text AS country`;
+
+/**
+ * Matching catalog entries per kind. Only active, streamable media offered
+ * in the viewer's region and published playlists of approved studios are
+ * visible. A row matches on the full-text document or, to tolerate typos,
+ * on trigram similarity of its name.
+ */
+const SOURCES: Record<SearchKind, string> = {
+  music: mediaSource("music", `t.artist`, `t.genre`, `OR t.artist % q.text`),
+  photo: mediaSource("photo", `NULL`, `NULL`, ``),
+  video: mediaSource("video", `NULL`, `NULL`, ``),
+  playlist: `
+    SELECT 'playlist' AS kind, t.uuid, t.title, NULL AS subtitle,
+           s.uuid AS studio_uuid, s.name AS studio_name, NULL AS genre, NULL AS format,
+           (ts_rank(t."searchVector", q.ts) + similarity(t.title, q.text))::float8 AS score
+    FROM "playlist" t
+    CROSS JOIN q
+    JOIN "studio" s ON s.uuid = t."studioUuid" AND s.status = '${StudioStatus.APPROVED}'
+    WHERE t."publishedAt" IS NOT NULL
+      AND (t."searchVector" @@ q.ts OR t.title % q.text)`,
+  studio: `
+    SELECT 'studio' AS kind, t.uuid, t.name AS title, NULL AS subtitle,
+           t.uuid AS studio_uuid, t.name AS studio_name, NULL AS genre, NULL AS format,
+           (ts_rank(t."searchVector", q.ts) + similarity(t.name, q.text))::float8 AS score
+    FROM "studio" t
+    CROSS JOIN q
+    WHERE t.status = '${StudioStatus.APPROVED}'
+      AND (t."searchVector" @@ q.ts OR t.name % q.text)`,
+};
+
+function mediaSource(
+  table: string,
+  subtitle: string,
+  genre: string,
+  extraMatch: string,
+): string {
+  return `
+    SELECT '${table}' AS kind, t.uuid, t.title, ${subtitle} AS subtitle,
+           s.uuid AS studio_uuid, s.name AS studio_name, ${genre} AS genre, t.format,
+           (ts_rank(t."searchVector", q.ts) + similarity(t.title, q.text))::float8 AS score
+    FROM "${table}" t
+    CROSS JOIN q
+    JOIN "studio" s ON s.uuid = t.studio_uuid AND s.status = '${StudioStatus.APPROVED}'
+    WHERE t."deletedAt" IS NULL
+      AND t.status = '${MediaStatus.ACTIVE}'
+      AND t."streamingAllowed"
+      AND ${REGION_AVAILABLE}
+      AND (t."searchVector" @@ q.ts OR t.title % q.text ${extraMatch})`;
+}
+
+/**
+ * Full-text and trigram search over the catalog, with facet counts.
+ */
+@Injectable()
+export class SearchRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  /**
+   * A page of hits ordered by score, starting after `cursor`.
+   */
+  async search(
+    filter: SearchFilter,
+    cursor: SearchCursor | null,
+    limit: number,
+  ): Promise<SearchHit[]> {
+    const { sql, params } = matches(filter);
+    let where = "";
+    if (cursor) {
+      params.push(cursor.score, cursor.kind, cursor.uuid);
+      const [score, kind, uuid] = [
+        params.length - 2,
+        params.length - 1,
+        params.length,
+      ];
+      where = `WHERE score < $${score}
+        OR (score = $${score} AND (kind, uuid) > ($${kind}::text, $${uuid}::uuid))`;
+    }
+    params.push(limit);
+    const rows = await this.dataSource.query(
+      `${sql}
+       SELECT * FROM hits ${where}
+       ORDER BY score DESC, kind ASC, uuid ASC
+       LIMIT $${params.length}`,
+      params,
+    );
+    return rows.map(
+      (row: Record<string, unknown>): SearchHit => ({
+        kind: row.kind as SearchKind,
+        uuid: row.uuid as string,
+        title: row.title as string,
+        subtitle: row.subtitle as string | null,
+        studioUuid: row.studio_uuid as string | null,
+        studioName: row.studio_name as string | null,
+        genre: row.genre as string | null,
+        format: row.format as string | null,
+        score: Number(row.score),
+      }),
+    );
+  }
+
+  /**
+   * Counts of all hits by kind, genre, format and studio.
+   */
+  async facets(filter: SearchFilter): Promise<FacetCount[]> {
+    const { sql, params } = matches(filter);
+    const rows = await this.dataSource.query(
+      `${sql}
+       SELECT 'kind' AS facet, kind AS value, NULL AS label, COUNT(*) AS count
+       FROM hits GROUP BY kind
+       UNION ALL
+       SELECT 'genre', genre, NULL, COUNT(*)
+       FROM hits WHERE genre IS NOT NULL GROUP BY genre
+       UNION ALL
+       SELECT 'format', format, NULL, COUNT(*)
+       FROM hits WHERE format IS NOT NULL GROUP BY format
+       UNION ALL
+       SELECT 'studio', studio_uuid::text, MAX(studio_name), COUNT(*)
+       FROM hits WHERE studio_uuid IS NOT NULL GROUP BY studio_uuid
+       ORDER BY 1, 4 DESC, 2`,
+      params,
+    );
+    return rows.map(
+      (row: Record<string, unknown>): FacetCount => ({
+        facet: row.facet as FacetCount["facet"],
+        value: row.value as string,
+        label: row.label as string | null,
+        count: Number(row.count),
+      }),
+    );
+  }
+}
+
+/**
+ * The "q" and "hits" common table expressions for a filter.
+ */
+function matches(filter: SearchFilter): { sql: string; params: unknown[] } {
+  const params: unknown[] = [filter.text, filter.country];
+  const conditions: string[] = [];
+  const add = (condition: string, value: unknown) => {
+    params.push(value);
+    conditions.push(condition.replace("?", `$${params.length}`));
+  };
+  if (filter.genre) {
+    add("genre = ?", filter.genre);
+  }
+  if (filter.format) {
+    add("format = ?", filter.format);
+  }
+  if (filter.studioUuid) {
+    add("studio_uuid = ?::uuid", filter.studioUuid);
+  }
+
+  const union = filter.kinds.map((kind) => SOURCES[kind]).join(" UNION ALL ");
+  const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+  return {
+    sql: `WITH q AS (${QUERY}),
+      hits AS (SELECT * FROM (${union}) matched ${where})`,
+    params,
+  };
+}
@@ -0,0 +1,49 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, IsNull, Repository } from "typeorm";
+import { UserSession } from "../../domain/user/entities/session.entity";
+
+/**
+ * Persistence for UserSession rows.
+ */
+@Injectable()
+export class SessionRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<UserSession> =
+    this.dataSource.getRepository(UserSession);
+
+  /**
+   * Loads a session together with the user who owns it.
+   */
+  findWithUser(uuid: string): Promise<UserSession | null> {
+    return this.repository.findOne({
+      where: { uuid },
+      relations: { user: true },
+    });
+  }
+
+  create(data: Partial<UserSession>): UserSession {
+    return this.repository.create(data);
+  }
+
+  save(session: UserSession): Promise<UserSession> {
+    return this.repository.save(session);
+  }
+
+  async revoke(uuid: string): Promise<void> {
+    await this.repository.update(
+      { uuid, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+  }
+
+  /**
+   * Revokes every session of a user.
+   */
+  async revokeAllForUser(userUuid: string): Promise<void> {
+    await this.repository.update(
+      { userUuid, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+  }
+}
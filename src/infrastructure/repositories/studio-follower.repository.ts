@@ -0,0 +1,226 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, MoreThan, Repository } from "typeorm";
+import {
+  Studio,
+  StudioStatus,
+} from "../../domain/studio/entities/studio.entity";
+import { StudioFollower } from "../../domain/studio/entities/studio-follower.entity";
+import {
+  FeedCursor,
+  FeedKind,
+} from "../../domain/studio/services/studio-follow.domain-service";
+import { MediaStatus } from "../../domain/entities/base";
+import { REGION_AVAILABLE } from "../database/region.query";
+
+export interface FeedFilter {
+  userUuid: string;
+  kinds: FeedKind[];
+  /** The viewer's country; media not offered there is left out. */
+  country: string | null;
+}
+
+/**
+ * A release of a followed studio.
+ */
+export interface FeedEntry {
+  kind: FeedKind;
+  uuid: string;
+  title: string;
+  studioUuid: string;
+  studioName: string;
+  publishedAt: Date;
+}
+
+/**
+ * Releases per kind of the studios followed by user $1, for a viewer in
+ * country $2. Media counts as released when it is uploaded, playlists when
+ * they are published. Times are truncated to milliseconds so that they
+ * survive the round trip through a cursor.
+ */
+const SOURCES: Record<FeedKind, string> = {
+  music: mediaSource("music"),
+  photo: mediaSource("photo"),
+  video: mediaSource("video"),
+  playlist: `
+    SELECT 'playlist' AS kind, t.uuid, t.title, s.uuid AS studio_uuid, s.name AS studio_name,
+           date_trunc('milliseconds', t."publishedAt") AS published_at
+    FROM "playlist" t
+    JOIN followed f ON f.studio_uuid = t."studioUuid"
+    JOIN "studio" s ON s.uuid = t."studioUuid" AND s.status = '${StudioStatus.APPROVED}'
+    WHERE t."publishedAt" IS NOT NULL`,
+};
+
+function mediaSource(table: string): string {
+  return `
+    SELECT '${table}' AS kind, t.uuid, t.title, s.uuid AS studio_uuid, s.name AS studio_name,
+           date_trunc('milliseconds', t."createdAt") AS published_at
+    FROM "${table}" t
+    CROSS JOIN q
+    JOIN followed f ON f.studio_uuid = t.studio_uuid
+    JOIN "studio" s ON s.uuid = t.studio_uuid AND s.status = '${StudioStatus.APPROVED}'
+    WHERE t."deletedAt" IS NULL
+      AND t.status = '${MediaStatus.ACTIVE}'
+      AND t."streamingAllowed"
+      AND ${REGION_AVAILABLE}`;
+}
+
+/**
+ * Persistence for StudioFollower rows, the follower counts they feed and
+ * the release feed built from them.
+ */
+@Injectable()
+export class StudioFollowerRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<StudioFollower> =
+    this.dataSource.getRepository(StudioFollower);
+
+  findFollower(
+    studioUuid: string,
+    userUuid: string,
+  ): Promise<StudioFollower | null> {
+    return this.repository.findOne({
+      where: { studioUuid, userUuid },
+      relations: { studio: true },
+    });
+  }
+
+  /**
+   * The studios a user follows, most recently followed first.
+   */
+  findFollowing(
+    userUuid: string,
+    limit: number,
+    offset: number,
+  ): Promise<[StudioFollower[], number]> {
+    return this.repository.findAndCount({
+      where: { userUuid },
+      relations: { studio: true },
+      order: { createdAt: "DESC" },
+      take: limit,
+      skip: offset,
+    });
+  }
+
+  /**
+   * Follows the studio, or only updates `notify` if the user already does.
+   * A new follower is counted in Studio.followerCount in the same
+   * transaction.
+   */
+  follow(studioUuid: string, userUuid: string, notify: boolean): Promise<void> {
+    return this.dataSource.transaction(async (manager) => {
+      const inserted: unknown[] = await manager.query(
+        `INSERT INTO "studio_follower" ("studio_uuid", "user_uuid", "notify")
+         VALUES ($1, $2, $3)
+         ON CONFLICT ("studio_uuid", "user_uuid") DO NOTHING
+         RETURNING "uuid"`,
+        [studioUuid, userUuid, notify],
+      );
+      if (inserted.length) {
+        await this.adjustCount(manager.getRepository(Studio), studioUuid, 1);
+      } else {
+        await manager.update(
+          StudioFollower,
+          { studioUuid, userUuid },
+          { notify },
+        );
+      }
+    });
+  }
+
+  /**
+   * @returns {Promise<boolean>} Whether the user was following the studio.
+   */
+  unfollow(studioUuid: string, userUuid: string): Promise<boolean> {
+    return this.dataSource.transaction(async (manager) => {
+      const { affected } = await manager.delete(StudioFollower, {
+        studioUuid,
+        userUuid,
+      });
+      if (!affected) {
+        return false;
+      }
+      await this.adjustCount(manager.getRepository(Studio), studioUuid, -1);
+      return true;
+    });
+  }
+
+  /**
+   * Followers of the studio who asked to be notified, in pages ordered by
+   * user UUID starting after `afterUserUuid`.
+   */
+  async findNotifiedFollowers(
+    studioUuid: string,
+    afterUserUuid: string | null,
+    limit: number,
+  ): Promise<string[]> {
+    const rows = await this.repository.find({
+      select: { userUuid: true },
+      where: {
+        studioUuid,
+        notify: true,
+        ...(afterUserUuid ? { userUuid: MoreThan(afterUserUuid) } : {}),
+      },
+      order: { userUuid: "ASC" },
+      take: limit,
+    });
+    return rows.map((row) => row.userUuid);
+  }
+
+  /**
+   * A page of releases, newest first, starting after `cursor`.
+   */
+  async feed(
+    filter: FeedFilter,
+    cursor: FeedCursor | null,
+    limit: number,
+  ): Promise<FeedEntry[]> {
+    const params: unknown[] = [filter.userUuid, filter.country];
+    let where = "";
+    if (cursor) {
+      params.push(cursor.publishedAt, cursor.kind, cursor.uuid);
+      where = `WHERE (published_at, kind, uuid) < ($3::timestamp, $4::text, $5::uuid)`;
+    }
+    params.push(limit);
+    const union = filter.kinds.map((kind) => SOURCES[kind]).join(" UNION ALL ");
+    const rows = await this.dataSource.query(
+      `WITH q AS (SELECT $2::text AS country),
+         followed AS (
+           SELECT "studio_uuid" FROM "studio_follower" WHERE "user_uuid" = $1
+         )
+       SELECT * FROM (${union}) entries ${where}
+       ORDER BY published_at DESC, kind DESC, uuid DESC
+       LIMIT $${params.length}`,
+      params,
+    );
+    return rows.map(
+      (row: Record<string, unknown>): FeedEntry => ({
+        kind: row.kind as FeedKind,
+        uuid: row.uuid as string,
+        title: row.title as string,
+        studioUuid: row.studio_uuid as string,
+        studioName: row.studio_name as string,
+        publishedAt: row.published_at as Date,
+      }),
+    );
+  }
+
+  /**
+   * Moves the follower count by `delta` without touching updatedAt.
+   */
+  private async adjustCount(
+    studios: Repository<Studio>,
+    studioUuid: string,
+    delta: number,
+  ): Promise<void> {
+    await studios
+      .createQueryBuilder()
+      .update()
+      .set({
+        followerCount: () => `GREATEST("followerCount" + :delta, 0)`,
+        updatedAt: () => `"updatedAt"`,
+      })
+      .where("uuid = :studioUuid", { studioUuid, delta })
+      .execute();
+  }
+}
@@ -0,0 +1,144 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, IsNull, MoreThan, Repository } from "typeorm";
+import { Studio } from "../../domain/studio/entities/studio.entity";
+import {
+  StudioMember,
+  StudioRole,
+} from "../../domain/studio/entities/studio-member.entity";
+import { StudioInvitation } from "../../domain/studio/entities/studio-invitation.entity";
+
+/**
+ * Persistence for StudioMember rows and the invitations that create them.
+ */
+@Injectable()
+export class StudioMemberRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<StudioMember> =
+    this.dataSource.getRepository(StudioMember);
+
+  private readonly invitations: Repository<StudioInvitation> =
+    this.dataSource.getRepository(StudioInvitation);
+
+  findMember(
+    studioUuid: string,
+    userUuid: string,
+  ): Promise<StudioMember | null> {
+    return this.repository.findOneBy({ studioUuid, userUuid });
+  }
+
+  /**
+   * The members of a studio with their users, longest-standing first.
+   */
+  findMembers(studioUuid: string): Promise<StudioMember[]> {
+    return this.repository.find({
+      where: { studioUuid },
+      relations: { user: true },
+      order: { createdAt: "ASC" },
+    });
+  }
+
+  save(member: StudioMember): Promise<StudioMember> {
+    return this.repository.save(member);
+  }
+
+  async remove(member: StudioMember): Promise<void> {
+    await this.repository.delete({ uuid: member.uuid });
+  }
+
+  /**
+   * Makes `to` the owner and `from` an admin, and points Studio.user at the
+   * new owner, atomically.
+   */
+  transferOwnership(from: StudioMember, to: StudioMember): Promise<void> {
+    return this.dataSource.transaction(async (manager) => {
+      await manager.update(
+        StudioMember,
+        { uuid: from.uuid },
+        { role: StudioRole.ADMIN },
+      );
+      await manager.update(
+        StudioMember,
+        { uuid: to.uuid },
+        { role: StudioRole.OWNER },
+      );
+      await manager.update(
+        Studio,
+        { uuid: to.studioUuid },
+        { user: { uuid: to.userUuid } },
+      );
+    });
+  }
+
+  /**
+   * Invitations of a studio that can still be accepted, newest first.
+   */
+  findPendingInvitations(
+    studioUuid: string,
+    now: Date = new Date(),
+  ): Promise<StudioInvitation[]> {
+    return this.invitations.find({
+      where: { studioUuid, acceptedAt: IsNull(), expiresAt: MoreThan(now) },
+      relations: { invitedBy: true },
+      order: { createdAt: "DESC" },
+    });
+  }
+
+  findInvitation(
+    studioUuid: string,
+    uuid: string,
+  ): Promise<StudioInvitation | null> {
+    return this.invitations.findOneBy({ studioUuid, uuid });
+  }
+
+  findInvitationByTokenHash(
+    tokenHash: string,
+  ): Promise<StudioInvitation | null> {
+    return this.invitations.findOne({
+      where: { tokenHash },
+      relations: { studio: true },
+    });
+  }
+
+  createInvitation(data: Partial<StudioInvitation>): StudioInvitation {
+    return this.invitations.create(data);
+  }
+
+  saveInvitation(invitation: StudioInvitation): Promise<StudioInvitation> {
+    return this.invitations.save(invitation);
+  }
+
+  async removeInvitation(invitation: StudioInvitation): Promise<void> {
+    await this.invitations.delete({ uuid: invitation.uuid });
+  }
+
+  /**
+   * Marks the invitation accepted and adds the member, atomically. The
+   * invitation is only used if it is still pending, so it cannot be
+   * accepted twice.
+   * @returns {Promise<StudioMember | null>} The new member, or null if the invitation was already used.
+   */
+  accept(
+    invitation: StudioInvitation,
+    userUuid: string,
+    at: Date,
+  ): Promise<StudioMember | null> {
+    return this.dataSource.transaction(async (manager) => {
+      const { affected } = await manager.update(
+        StudioInvitation,
+        { uuid: invitation.uuid, acceptedAt: IsNull() },
+        { acceptedAt: at },
+      );
+      if (!affected) {
+        return null;
+      }
+      return manager.save(
+        manager.create(StudioMember, {
+          studioUuid: invitation.studioUuid,
+          userUuid,
+          role: invitation.role,
+        }),
+      );
+    });
+  }
+}
@@ -0,0 +1,119 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, In, Repository } from "typeorm";
+import { Studio } from "../../domain/studio/entities/studio.entity";
+import { StudioReviewEvent } from "../../domain/studio/entities/studio-review-event.entity";
+import {
+  StudioMember,
+  StudioRole,
+} from "../../domain/studio/entities/studio-member.entity";
+
+/**
+ * Persistence for Studio rows and their review history.
+ */
+@Injectable()
+export class StudioRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<Studio> =
+    this.dataSource.getRepository(Studio);
+
+  /**
+   * Loads a studio together with its owning user.
+   */
+  findWithOwner(uuid: string): Promise<Studio | null> {
+    return this.repository.findOne({
+      where: { uuid },
+      relations: { user: true },
+    });
+  }
+
+  findByUuids(uuids: string[]): Promise<Studio[]> {
+    return uuids.length
+      ? this.repository.findBy({ uuid: In(uuids) })
+      : Promise.resolve([]);
+  }
+
+  /**
+   * Studios in any of `statuses`, oldest first, with their owners.
+   */
+  findByStatus(
+    statuses: string[],
+    limit: number,
+    offset: number,
+  ): Promise<[Studio[], number]> {
+    return this.repository.findAndCount({
+      where: { status: In(statuses) },
+      relations: { user: true },
+      order: { createdAt: "ASC" },
+      take: limit,
+      skip: offset,
+    });
+  }
+
+  findHistory(studioUuid: string): Promise<StudioReviewEvent[]> {
+    return this.dataSource.getRepository(StudioReviewEvent).find({
+      where: { studioUuid },
+      relations: { actor: true },
+      order: { createdAt: "ASC" },
+    });
+  }
+
+  create(data: Partial<Studio>): Studio {
+    return this.repository.create(data);
+  }
+
+  save(studio: Studio): Promise<Studio> {
+    return this.repository.save(studio);
+  }
+
+  /**
+   * Saves a new studio together with the first row of its review history
+   * and, when it has one, its owner's membership.
+   */
+  createWithHistory(
+    studio: Studio,
+    event: Partial<StudioReviewEvent>,
+  ): Promise<Studio> {
+    return this.dataSource.transaction(async (manager) => {
+      const saved = await manager.save(studio);
+      await manager.save(
+        manager.create(StudioReviewEvent, { ...event, studioUuid: saved.uuid }),
+      );
+      if (saved.user) {
+        await manager.save(
+          manager.create(StudioMember, {
+            studioUuid: saved.uuid,
+            userUuid: saved.user.uuid,
+            role: StudioRole.OWNER,
+          }),
+        );
+      }
+      return saved;
+    });
+  }
+
+  /**
+   * Moves a studio from `event.fromStatus` to `event.toStatus` and records the
+   * event, atomically. The update only applies if the studio is still in
+   * `fromStatus`, so two reviewers cannot act on the same state.
+   * @returns {Promise<StudioReviewEvent | null>} The saved event, or null if the status had changed.
+   */
+  transition(
+    studioUuid: string,
+    event: Partial<StudioReviewEvent>,
+  ): Promise<StudioReviewEvent | null> {
+    return this.dataSource.transaction(async (manager) => {
+      const { affected } = await manager.update(
+        Studio,
+        { uuid: studioUuid, status: event.fromStatus },
+        { status: event.toStatus },
+      );
+      if (!affected) {
+        return null;
+      }
+      return manager.save(
+        manager.create(StudioReviewEvent, { ...event, studioUuid }),
+      );
+    });
+  }
+}
@@ -0,0 +1,26 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, Repository } from "typeorm";
+import { UploadSession } from "../../domain/media/entities/upload-session.entity";
+
+/**
+ * Persistence for UploadSession rows.
+ */
+@Injectable()
+export class UploadSessionRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<UploadSession> =
+    this.dataSource.getRepository(UploadSession);
+
+  findByUuid(uuid: string): Promise<UploadSession | null> {
+    return this.repository.findOneBy({ uuid });
+  }
+
+  create(data: Partial<UploadSession>): UploadSession {
+    return this.repository.create(data);
+  }
+
+  save(session: UploadSession): Promise<UploadSession> {
+    return this.repository.save(session);
+  }
+}
@@ -0,0 +1,55 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, Repository } from "typeorm";
+import { User } from "../../domain/user/entities/user.entity";
+
+/**
+ * Persistence for User rows.
+ */
+@Injectable()
+export class UserRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<User> =
+    this.dataSource.getRepository(User);
+
+  findByUuid(uuid: string): Promise<User | null> {
+    return this.repository.findOneBy({ uuid });
+  }
+
+  findByEmail(email: string): Promise<User | null> {
+    return this.repository.findOneBy({ email });
+  }
+
+  findByPhoneNumber(phoneNumber: string): Promise<User | null> {
+    return this.repository.findOneBy({ phoneNumber });
+  }
+
+  create(data: Partial<User>): User {
+    return this.repository.create(data);
+  }
+
+  save(user: User): Promise<User> {
+    return this.repository.save(user);
+  }
+
+  /**
+   * Counts one PIN step-up check against the user.
+   * @returns {Promise<boolean>} False once the user has no attempts left.
+   */
+  async countPinAttempt(uuid: string, maxAttempts: number): Promise<boolean> {
+    const result = await this.repository
+      .createQueryBuilder()
+      .update()
+      .set({ pinAttempts: () => `"pinAttempts" + 1` })
+      .where(`uuid = :uuid AND "pinAttempts" < :maxAttempts`, {
+        uuid,
+        maxAttempts,
+      })
+      .execute();
+    return result.affected === 1;
+  }
+
+  async resetPinAttempts(uuid: string): Promise<void> {
+    await this.repository.update({ uuid }, { pinAttempts: 0 });
+  }
+}
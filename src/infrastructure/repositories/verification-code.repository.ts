@@ -0,0 +1,88 @@
+import { Injectable } from "@nestjs/common";
+import { DataSource, IsNull, Repository } from "typeorm";
+import {
+  VerificationCode,
+  VerificationTarget,
+} from "../../domain/user/entities/verification-code.entity";
+
+/**
+ * Persistence for VerificationCode rows.
+ */
+@Injectable()
+export class VerificationCodeRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  private readonly repository: Repository<VerificationCode> =
+    this.dataSource.getRepository(VerificationCode);
+
+  /**
+   * The code sent most recently for one of a user's addresses.
+   */
+  findLatest(
+    userUuid: string,
+    target: VerificationTarget,
+  ): Promise<VerificationCode | null> {
+    return this.repository.findOne({
+      where: { userUuid, target },
+      order: { createdAt: "DESC" },
+    });
+  }
+
+  findByLinkTokenHash(linkTokenHash: string): Promise<VerificationCode | null> {
+    return this.repository.findOneBy({ linkTokenHash });
+  }
+
+  create(data: Partial<VerificationCode>): VerificationCode {
+    return this.repository.create(data);
+  }
+
+  save(code: VerificationCode): Promise<VerificationCode> {
+    return this.repository.save(code);
+  }
+
+  /**
+   * Retires every pending code for one of a user's addresses.
+   */
+  async supersede(
+    userUuid: string,
+    target: VerificationTarget,
+    at: Date,
+  ): Promise<void> {
+    await this.repository.update(
+      { userUuid, target, consumedAt: IsNull() },
+      { consumedAt: at },
+    );
+  }
+
+  /**
+   * Counts one confirmation attempt against a pending code.
+   * @returns {Promise<boolean>} False once the code has no attempts left.
+   */
+  async countAttempt(uuid: string, maxAttempts: number): Promise<boolean> {
+    const result = await this.repository
+      .createQueryBuilder()
+      .update()
+      .set({ attempts: () => `"attempts" + 1` })
+      .where(
+        `uuid = :uuid AND "consumedAt" IS NULL AND "attempts" < :maxAttempts`,
+        {
+          uuid,
+          maxAttempts,
+        },
+      )
+      .execute();
+    return result.affected === 1;
+  }
+
+  /**
+   * Marks a pending code as used.
+   * @returns {Promise<boolean>} False if it was used or superseded meanwhile.
+   */
+  async consume(uuid: string, at: Date): Promise<boolean> {
+    const result = await this.repository.update(
+      { uuid, consumedAt: IsNull() },
+      { consumedAt: at },
+    );
+    return result.affected === 1;
+  }
+}
@@ -0,0 +1,48 @@
+import { createHash, Hash } from "node:crypto";
+import { Transform, TransformCallback } from "node:stream";
+
+/**
+ * Pass-through stream that computes the SHA-256 checksum and byte count of the
+ * data flowing through it, and keeps the first bytes for content sniffing.
+ */
+export class DigestStream extends Transform {
+  private readonly hash: Hash = createHash("sha256");
+  private headChunks: Buffer[] = [];
+  private headLength = 0;
+
+  /** Number of bytes seen so far. */
+  bytes = 0;
+
+  constructor(private readonly headSize = 64) {
+    super();
+  }
+
+  /**
+   * The first `headSize` bytes of the stream (fewer if the stream was shorter).
+   */
+  get head(): Buffer {
+    return Buffer.concat(this.headChunks, this.headLength);
+  }
+
+  /**
+   * Hex-encoded SHA-256 of everything seen. Only call once the stream has finished.
+   */
+  get checksum(): string {
+    return this.hash.copy().digest("hex");
+  }
+
+  _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback,
+  ): void {
+    this.hash.update(chunk);
+    this.bytes += chunk.length;
+    if (this.headLength < this.headSize) {
+      const slice = chunk.subarray(0, this.headSize - this.headLength);
+      this.headChunks.push(slice);
+      this.headLength += slice.length;
+    }
+    callback(null, chunk);
+  }
+}
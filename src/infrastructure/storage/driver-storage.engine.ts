@@ -0,0 +1,66 @@
+import { Request } from "express";
+import { randomUUID } from "node:crypto";
+import { StorageEngine } from "multer";
+import { StorageDriver } from "./storage-driver";
+import { DigestStream } from "./digest-stream";
+
+/**
+ * A multipart file as handed to the controller after it has been streamed
+ * into storage by {@link DriverStorageEngine}.
+ */
+export interface StoredUpload extends Express.Multer.File {
+  /** Key of the object in the storage driver. */
+  storageKey: string;
+  /** Hex-encoded SHA-256 of the file. */
+  checksum: string;
+  /** Leading bytes of the file, used to detect its real type. */
+  head: Buffer;
+}
+
+/**
+ * Multer storage engine that streams each uploaded file straight into a
+ * StorageDriver, computing its checksum on the way. Nothing is buffered
+ * in memory or on local disk.
+ */
+export class DriverStorageEngine implements StorageEngine {
+  constructor(
+    private readonly driver: StorageDriver,
+    private readonly keyPrefix = "media",
+  ) {}
+
+  _handleFile(
+    _req: Request,
+    file: Express.Multer.File,
+    callback: (error?: any, info?: Partial<StoredUpload>) => void,
+  ): void {
+    const storageKey = `${this.keyPrefix}/${randomUUID()}`;
+    const digest = new DigestStream();
+    file.stream.on("error", (error) => digest.destroy(error));
+
+    this.driver
+      .put(storageKey, file.stream.pipe(digest))
+      .then(({ size }) =>
+        callback(null, {
+          storageKey,
+          size,
+          checksum: digest.checksum,
+          head: digest.head,
+        }),
+      )
+      .catch(async (error) => {
+        await this.driver.delete(storageKey).catch(() => undefined);
+        callback(error);
+      });
+  }
+
+  _removeFile(
+    _req: Request,
+    file: StoredUpload,
+    callback: (error: Error | null) => void,
+  ): void {
+    this.driver
+      .delete(file.storageKey)
+      .then(() => callback(null))
+      .catch(callback);
+  }
+}
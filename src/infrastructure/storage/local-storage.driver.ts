@@ -0,0 +1,71 @@
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdir, rename, rm, stat } from "node:fs/promises";
+import { dirname, join, resolve, sep } from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { randomUUID } from "node:crypto";
+import { ByteRange, StorageDriver, StoredObject } from "./storage-driver";
+
+/**
+ * Stores objects as files below a root directory on the local filesystem.
+ * Writes go to a temporary file first so readers never see partial objects.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly provider = "local";
+
+  private readonly root: string;
+
+  constructor(
+    root: string,
+    readonly location: string,
+  ) {
+    this.root = resolve(root);
+  }
+
+  async put(key: string, body: Readable): Promise<StoredObject> {
+    const path = this.pathFor(key);
+    const temporary = `${path}.${randomUUID()}.part`;
+    await mkdir(dirname(path), { recursive: true });
+    try {
+      await pipeline(body, createWriteStream(temporary));
+      await rename(temporary, path);
+    } catch (error) {
+      await rm(temporary, { force: true });
+      throw error;
+    }
+    return { size: (await stat(path)).size };
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Readable> {
+    const path = this.pathFor(key);
+    // Surface a missing file as a rejected promise rather than a stream error.
+    await stat(path);
+    return createReadStream(path, range);
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    try {
+      return { size: (await stat(this.pathFor(key))).size };
+    } catch (error) {
+      if (error.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  /**
+   * Maps a key to a path, refusing keys that would escape the root directory.
+   */
+  private pathFor(key: string): string {
+    const path = resolve(join(this.root, key));
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,53 @@
+import { Readable } from "node:stream";
+
+/**
+ * Injection token for the configured {@link StorageDriver}.
+ */
+export const STORAGE_DRIVER = Symbol("STORAGE_DRIVER");
+
+/**
+ * An inclusive byte range within a stored object.
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StoredObject {
+  /** Size of the object in bytes. */
+  size: number;
+}
+
+/**
+ * A place where media files are kept. The upload, streaming and purge code
+ * only talks to this interface, so new backends (e.g. S3-compatible object
+ * stores) are added by implementing it and registering the driver in
+ * StorageModule.
+ */
+export interface StorageDriver {
+  /** Value recorded in BaseMediaItem.storageProvider, e.g. "local". */
+  readonly provider: string;
+
+  /** Value recorded in BaseMediaItem.hostingLocation, e.g. "EU-Central". */
+  readonly location: string;
+
+  /**
+   * Writes the whole stream to `key`, replacing any existing object.
+   */
+  put(key: string, body: Readable): Promise<StoredObject>;
+
+  /**
+   * Opens a read stream over the object, or over `range` of it.
+   */
+  get(key: string, range?: ByteRange): Promise<Readable>;
+
+  /**
+   * @returns {Promise<StoredObject | null>} The object's size, or null when it does not exist.
+   */
+  stat(key: string): Promise<StoredObject | null>;
+
+  /**
+   * Removes the object. Deleting a missing object is not an error.
+   */
+  delete(key: string): Promise<void>;
+}
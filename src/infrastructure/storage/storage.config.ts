@@ -0,0 +1,20 @@
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Settings for the storage layer, read from the environment.
+ */
+export const storageConfig = {
+  /** Name of the driver to use, see StorageModule. */
+  driver: process.env.STORAGE_DRIVER ?? "local",
+  /** Root directory of the local-filesystem driver. */
+  localRoot: process.env.STORAGE_LOCAL_ROOT ?? "./storage",
+  /** Recorded as hostingLocation on stored media. */
+  location: process.env.STORAGE_LOCATION ?? "local",
+  /** Largest accepted upload in bytes, 2 GiB by default. */
+  maxUploadSize: parseInt(
+    process.env.STORAGE_MAX_UPLOAD_SIZE ?? String(2 * 1024 ** 3),
+    10,
+  ),
+};
@@ -0,0 +1,32 @@
+import { Module } from "@nestjs/common";
+import { STORAGE_DRIVER, StorageDriver } from "./storage-driver";
+import { LocalStorageDriver } from "./local-storage.driver";
+import { storageConfig } from "./storage.config";
+
+/**
+ * Factories for the available storage drivers, keyed by STORAGE_DRIVER value.
+ */
+const drivers: Record<string, () => StorageDriver> = {
+  local: () =>
+    new LocalStorageDriver(storageConfig.localRoot, storageConfig.location),
+};
+
+/**
+ * Provides the configured StorageDriver under the STORAGE_DRIVER token.
+ */
+@Module({
+  providers: [
+    {
+      provide: STORAGE_DRIVER,
+      useFactory: (): StorageDriver => {
+        const factory = drivers[storageConfig.driver];
+        if (!factory) {
+          throw new Error(`Unknown storage driver: ${storageConfig.driver}`);
+        }
+        return factory();
+      },
+    },
+  ],
+  exports: [STORAGE_DRIVER],
+})
+export class StorageModule {}